@@ -6,6 +6,7 @@ import ResultsPage from './pages/ResultsPage';
 import AdminPage from './pages/AdminPage';
 import EstimateEditPage from './pages/EstimateEditPage';
 import ViewEstimatePage from './pages/ViewEstimatePage';
+import EstimateComparePage from './pages/EstimateComparePage';
 import ToolsLandingPage from './pages/ToolsLandingPage';
 import RequireAuth from './components/RequireAuth';
 import RequireOptIn from './components/RequireOptIn';
@@ -37,6 +38,7 @@ function App() {
               <Route path="results" element={<ResultsPage />} />
               <Route path="estimate/edit/:estimateId" element={<EstimateEditPage />} />
               <Route path="estimate/view/:estimateId" element={<ViewEstimatePage />} />
+              <Route path="compare" element={<EstimateComparePage />} />
             </Route>
             <Route path="roi-estimator">
               <Route index element={<RoiEstimatorLandingPage />} />
@@ -0,0 +1,108 @@
+import type { AddOnRule, AddOnRuleBasis } from '../types';
+import { ADD_ON_RULE_BASES } from '../utils/addOnRules';
+
+interface AddOnRuleFieldsProps {
+  label: string;
+  rule: AddOnRule;
+  onChange: (rule: AddOnRule) => void;
+}
+
+// Dollar inputs are edited in dollars and stored in cents
+const toDollars = (cents: number | undefined) => (cents === undefined ? '' : String(cents / 100));
+
+const toCents = (raw: string): number | undefined => {
+  const value = parseFloat(raw);
+  return isNaN(value) || value < 0 ? undefined : Math.round(value * 100);
+};
+
+export default function AddOnRuleFields({ label, rule, onChange }: AddOnRuleFieldsProps) {
+  const isPercent = rule.basis === 'percentOfFurnishings';
+  const basis = ADD_ON_RULE_BASES.find(option => option.value === rule.basis) ?? ADD_ON_RULE_BASES[0];
+
+  // Firestore rejects undefined, so cleared values remove their key
+  const setField = (field: keyof AddOnRule, value: number | undefined) => {
+    const next: AddOnRule = { ...rule, [field]: value };
+    if (value === undefined) {
+      delete next[field];
+    }
+    onChange(next);
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">{label}</label>
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={rule.basis}
+          onChange={(e) => {
+            const nextBasis = e.target.value as AddOnRuleBasis;
+            const { minCents, maxCents } = rule;
+            const keepClamps = nextBasis !== 'flat';
+            // Rates don't carry over between bases, but clamps do
+            onChange({
+              basis: nextBasis,
+              ...(nextBasis === 'percentOfFurnishings' ? { percent: 0 } : { amountCents: 0 }),
+              ...(keepClamps && minCents !== undefined ? { minCents } : {}),
+              ...(keepClamps && maxCents !== undefined ? { maxCents } : {}),
+            });
+          }}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+        >
+          {ADD_ON_RULE_BASES.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            min="0"
+            step={isPercent ? '0.1' : '0.01'}
+            value={isPercent ? (rule.percent ?? '') : toDollars(rule.amountCents)}
+            onChange={(e) => {
+              if (isPercent) {
+                const value = parseFloat(e.target.value);
+                setField('percent', isNaN(value) || value < 0 ? 0 : value);
+              } else {
+                setField('amountCents', toCents(e.target.value) ?? 0);
+              }
+            }}
+            className="px-3 py-2 border border-gray-300 rounded-md w-28 text-sm"
+          />
+          <span className="text-sm text-gray-500">{basis.unit}</span>
+        </div>
+
+        {rule.basis !== 'flat' && (
+          <>
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-gray-500">Min $</span>
+              <input
+                type="number"
+                min="0"
+                step="1"
+                value={toDollars(rule.minCents)}
+                placeholder="None"
+                onChange={(e) => setField('minCents', toCents(e.target.value))}
+                className="px-3 py-2 border border-gray-300 rounded-md w-28 text-sm"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-gray-500">Max $</span>
+              <input
+                type="number"
+                min="0"
+                step="1"
+                value={toDollars(rule.maxCents)}
+                placeholder="None"
+                onChange={(e) => setField('maxCents', toCents(e.target.value))}
+                className="px-3 py-2 border border-gray-300 rounded-md w-28 text-sm"
+              />
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
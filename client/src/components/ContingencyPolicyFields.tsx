@@ -0,0 +1,126 @@
+import type { ContingencyMode, ContingencyPolicy, ContingencyTierOverride, QualityTier } from '../types';
+import { QUALITY_TIERS } from '../types';
+
+interface ContingencyPolicyFieldsProps {
+  policy: ContingencyPolicy;
+  onChange: (policy: ContingencyPolicy) => void;
+}
+
+const CONTINGENCY_MODES: { value: ContingencyMode; label: string; description: string }[] = [
+  { value: 'none', label: 'None', description: 'No contingency is added to the budget' },
+  { value: 'percentOfFurnishings', label: '% of Furnishings', description: 'A percentage of the furnishings subtotal' },
+  { value: 'percentOfProject', label: '% of Project', description: 'A percentage of furnishings plus project add-ons' },
+  { value: 'fixed', label: 'Fixed Amount', description: 'A flat dollar amount per tier' },
+];
+
+const TIERS: QualityTier[] = ['low', 'mid', 'midHigh', 'high'];
+
+export default function ContingencyPolicyFields({ policy, onChange }: ContingencyPolicyFieldsProps) {
+  const isFixed = policy.mode === 'fixed';
+  const valueKey: keyof ContingencyTierOverride = isFixed ? 'amountCents' : 'percent';
+
+  // Fixed amounts are stored in cents but edited in dollars
+  const toDisplay = (value: number | undefined) => {
+    if (value === undefined) return '';
+    return isFixed ? String(value / 100) : String(value);
+  };
+
+  const fromInput = (raw: string): number | undefined => {
+    const value = parseFloat(raw);
+    if (isNaN(value) || value < 0) return undefined;
+    return isFixed ? Math.round(value * 100) : value;
+  };
+
+  const updateTier = (tier: QualityTier, value: number | undefined) => {
+    const perTier = { ...policy.perTier };
+    if (value === undefined) {
+      delete perTier[tier];
+    } else {
+      perTier[tier] = { [valueKey]: value };
+    }
+
+    // Firestore rejects undefined, so drop the key entirely once no tier overrides remain
+    const next: ContingencyPolicy = { ...policy, perTier };
+    if (Object.keys(perTier).length === 0) {
+      delete next.perTier;
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-4">
+        <label htmlFor="contingencyModeSelect" className="text-gray-700 font-medium w-48">
+          Contingency
+        </label>
+        <select
+          id="contingencyModeSelect"
+          value={policy.mode}
+          onChange={(e) => {
+            const mode = e.target.value as ContingencyMode;
+            // Percent and fixed values aren't interchangeable, so switching modes starts fresh
+            if (mode === 'none') {
+              onChange({ mode });
+            } else if (mode === 'fixed') {
+              onChange({ mode, amountCents: policy.mode === 'fixed' ? (policy.amountCents ?? 0) : 0 });
+            } else {
+              onChange({ mode, percent: policy.percent ?? 10 });
+            }
+          }}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+        >
+          {CONTINGENCY_MODES.map((mode) => (
+            <option key={mode.value} value={mode.value}>
+              {mode.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <p className="text-xs text-gray-500">
+        {CONTINGENCY_MODES.find(mode => mode.value === policy.mode)?.description}
+      </p>
+
+      {policy.mode !== 'none' && (
+        <div className="ml-8 space-y-3 p-4 bg-gray-50 rounded-lg">
+          <div className="flex items-center gap-4">
+            <label className="text-sm text-gray-700 w-48">
+              {isFixed ? 'Amount:' : 'Percentage:'}
+            </label>
+            <input
+              type="number"
+              min="0"
+              step={isFixed ? '1' : '0.1'}
+              value={toDisplay(isFixed ? policy.amountCents : policy.percent)}
+              onChange={(e) => {
+                onChange({ ...policy, [valueKey]: fromInput(e.target.value) ?? 0 });
+              }}
+              className="px-3 py-2 border border-gray-300 rounded-md w-24 text-sm"
+            />
+            <span className="text-sm text-gray-500">{isFixed ? '$' : '%'}</span>
+          </div>
+
+          {TIERS.map((tier) => (
+            <div key={tier} className="flex items-center gap-4">
+              <label className="text-sm text-gray-700 w-48">
+                {QUALITY_TIERS[tier].name}:
+              </label>
+              <input
+                type="number"
+                min="0"
+                step={isFixed ? '1' : '0.1'}
+                value={toDisplay(policy.perTier?.[tier]?.[valueKey])}
+                placeholder="Default"
+                onChange={(e) => updateTier(tier, fromInput(e.target.value))}
+                className="px-3 py-2 border border-gray-300 rounded-md w-24 text-sm"
+              />
+              <span className="text-sm text-gray-500">{isFixed ? '$' : '%'}</span>
+            </div>
+          ))}
+          <p className="text-xs text-gray-500 mt-2">
+            Leave a tier blank to use the base {isFixed ? 'amount' : 'percentage'}.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import type { DesignFeePhase, DesignFeeRateBreak } from '../types';
+import { TrashIcon } from './Icons';
+
+interface DesignFeeSettingsProps {
+  phases: DesignFeePhase[];
+  rateBreaks: DesignFeeRateBreak[];
+  error: string | null;
+  onPhasesChange: (phases: DesignFeePhase[]) => void;
+  onRateBreaksChange: (rateBreaks: DesignFeeRateBreak[]) => void;
+}
+
+const parseNonNegative = (raw: string): number => {
+  const value = parseFloat(raw);
+  return isNaN(value) || value < 0 ? 0 : value;
+};
+
+export default function DesignFeeSettings({ phases, rateBreaks, error, onPhasesChange, onRateBreaksChange }: DesignFeeSettingsProps) {
+  const totalPercent = phases.reduce((sum, phase) => sum + phase.percent, 0);
+
+  const updatePhase = (index: number, updates: Partial<DesignFeePhase>) => {
+    onPhasesChange(phases.map((phase, i) => (i === index ? { ...phase, ...updates } : phase)));
+  };
+
+  const updateRateBreak = (index: number, updates: Partial<DesignFeeRateBreak>) => {
+    onRateBreaksChange(rateBreaks.map((rateBreak, i) => (i === index ? { ...rateBreak, ...updates } : rateBreak)));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="block text-sm font-medium text-gray-700">Design Fee Phases</label>
+          <span className={`text-sm ${Math.abs(totalPercent - 100) > 0.001 ? 'text-red-600' : 'text-gray-500'}`}>
+            Total: {Math.round(totalPercent * 100) / 100}%
+          </span>
+        </div>
+        <div className="space-y-2">
+          {phases.map((phase, index) => (
+            <div key={phase.id} className="flex flex-wrap items-center gap-3">
+              <input
+                type="text"
+                value={phase.label}
+                onChange={(e) => updatePhase(index, { label: e.target.value })}
+                placeholder="Phase name"
+                className="px-3 py-2 border border-gray-300 rounded-md w-48 text-sm"
+              />
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.1"
+                  value={phase.percent}
+                  onChange={(e) => updatePhase(index, { percent: parseNonNegative(e.target.value) })}
+                  className="px-3 py-2 border border-gray-300 rounded-md w-24 text-sm"
+                />
+                <span className="text-sm text-gray-500">%</span>
+              </div>
+              <input
+                type="text"
+                value={phase.description ?? ''}
+                onChange={(e) => updatePhase(index, { description: e.target.value })}
+                placeholder="Description shown on estimates"
+                className="px-3 py-2 border border-gray-300 rounded-md flex-1 min-w-[12rem] text-sm"
+              />
+              <button
+                type="button"
+                onClick={() => onPhasesChange(phases.filter((_, i) => i !== index))}
+                className="p-1 text-red-600 hover:text-red-800"
+                title="Remove phase"
+              >
+                <TrashIcon />
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={() => onPhasesChange([...phases, { id: `phase_${Date.now()}`, label: '', percent: 0, description: '' }])}
+          className="btn-secondary mt-3"
+        >
+          ➕ Add Phase
+        </button>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Large Property Rate Breaks</label>
+        <div className="space-y-2">
+          {rateBreaks.map((rateBreak, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-3">
+              <span className="text-sm text-gray-500">Above</span>
+              <input
+                type="number"
+                min="0"
+                step="100"
+                value={rateBreak.aboveSqft}
+                onChange={(e) => updateRateBreak(index, { aboveSqft: Math.floor(parseNonNegative(e.target.value)) })}
+                className="px-3 py-2 border border-gray-300 rounded-md w-28 text-sm"
+              />
+              <span className="text-sm text-gray-500">sqft, charge $</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={rateBreak.rateCents / 100}
+                onChange={(e) => updateRateBreak(index, { rateCents: Math.round(parseNonNegative(e.target.value) * 100) })}
+                className="px-3 py-2 border border-gray-300 rounded-md w-24 text-sm"
+              />
+              <span className="text-sm text-gray-500">/sqft</span>
+              <button
+                type="button"
+                onClick={() => onRateBreaksChange(rateBreaks.filter((_, i) => i !== index))}
+                className="p-1 text-red-600 hover:text-red-800"
+                title="Remove rate break"
+              >
+                <TrashIcon />
+              </button>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 mt-2">
+          Square footage above each break is billed at its rate; the rest uses the base design fee rate.
+        </p>
+        <button
+          type="button"
+          onClick={() => {
+            const lastBreak = rateBreaks[rateBreaks.length - 1];
+            onRateBreaksChange([
+              ...rateBreaks,
+              { aboveSqft: lastBreak ? lastBreak.aboveSqft + 2000 : 4000, rateCents: lastBreak?.rateCents ?? 800 },
+            ]);
+          }}
+          className="btn-secondary mt-3"
+        >
+          ➕ Add Rate Break
+        </button>
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-600">{error}</div>
+      )}
+    </div>
+  );
+}
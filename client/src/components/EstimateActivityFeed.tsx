@@ -0,0 +1,249 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import type { Estimate, EstimateNote, TeamMember } from '../types';
+import { fetchTeamMembers } from '../services/assignments';
+import { addEstimateNote, deleteEstimateNote, fetchEstimateNotes } from '../services/estimateNotes';
+import {
+  buildActivityFeed,
+  describeEditHistoryEntry,
+  describeStatusChange,
+  extractMentions,
+} from '../utils/activityFeed';
+import type { ActivityFilter } from '../utils/activityFeed';
+
+interface EstimateActivityFeedProps {
+  estimate: Estimate;
+}
+
+const FILTER_LABELS: Record<ActivityFilter, string> = {
+  all: 'All',
+  notes: 'Notes',
+  changes: 'Changes',
+};
+
+const formatDateTime = (date: Date) => `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}`;
+
+function NoteBody({ body }: { body: string }) {
+  return (
+    <p className="text-sm text-gray-800 whitespace-pre-wrap">
+      {body.split(/(@[\w.-]+)/).map((part, index) =>
+        part.startsWith('@') ? <span key={index} className="font-medium text-primary-700">{part}</span> : part
+      )}
+    </p>
+  );
+}
+
+interface NoteComposerProps {
+  placeholder: string;
+  submitLabel: string;
+  saving: boolean;
+  onSubmit: (body: string) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+function NoteComposer({ placeholder, submitLabel, saving, onSubmit, onCancel }: NoteComposerProps) {
+  const [body, setBody] = useState('');
+
+  const handleSubmit = async () => {
+    if (await onSubmit(body.trim())) setBody('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={placeholder}
+        rows={2}
+        className="w-full p-2 border border-gray-300 rounded text-sm"
+      />
+      <div className="flex items-center gap-2 justify-end">
+        {onCancel && (
+          <button onClick={onCancel} className="btn-secondary" disabled={saving}>
+            Cancel
+          </button>
+        )}
+        <button onClick={() => void handleSubmit()} className="btn-primary" disabled={saving || !body.trim()}>
+          {saving ? 'Saving...' : submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function EstimateActivityFeed({ estimate }: EstimateActivityFeedProps) {
+  const { profile } = useAuth();
+  const [notes, setNotes] = useState<EstimateNote[] | null>(null);
+  const [teamMembers, setTeamMembers] = useState<TeamMember[]>([]);
+  const [filter, setFilter] = useState<ActivityFilter>('all');
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchEstimateNotes(estimate.id)
+      .then((loaded) => {
+        if (!cancelled) setNotes(loaded);
+      })
+      .catch((loadError) => {
+        console.error('Error loading estimate notes:', loadError);
+        if (!cancelled) {
+          setNotes([]);
+          setError('Failed to load notes.');
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [estimate.id]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchTeamMembers()
+      .then((members) => {
+        if (!cancelled) setTeamMembers(members);
+      })
+      .catch((loadError) => {
+        console.error('Error loading team members:', loadError);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const feed = useMemo(() => buildActivityFeed(estimate, notes ?? [], filter), [estimate, notes, filter]);
+  const memberNames = useMemo(() => new Map(teamMembers.map(member => [member.uid, member.name])), [teamMembers]);
+
+  const handleAddNote = async (body: string, parentId?: string): Promise<boolean> => {
+    if (!profile || !body) return false;
+    const authorName = [profile.firstName, profile.lastName].filter(Boolean).join(' ') || profile.displayName || profile.email;
+    setSaving(true);
+    setError(null);
+    try {
+      const note = await addEstimateNote(estimate.id, {
+        authorUid: profile.uid,
+        authorName,
+        body,
+        mentions: extractMentions(body, teamMembers),
+        ...(parentId ? { parentId } : {}),
+      });
+      setNotes(prev => [...(prev ?? []), note]);
+      setReplyingTo(null);
+      return true;
+    } catch (saveError) {
+      console.error('Error adding estimate note:', saveError);
+      setError('Failed to save the note. Please try again.');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteNote = async (note: EstimateNote) => {
+    if (!window.confirm('Delete this note?')) return;
+    setError(null);
+    try {
+      await deleteEstimateNote(estimate.id, note.id);
+      setNotes(prev => (prev ?? []).filter(existing => existing.id !== note.id));
+    } catch (deleteError) {
+      console.error('Error deleting estimate note:', deleteError);
+      setError('Failed to delete the note. Please try again.');
+    }
+  };
+
+  const renderNote = (note: EstimateNote) => (
+    <div>
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-xs text-gray-500">
+          <span className="font-medium text-gray-700">{note.authorName}</span> · {formatDateTime(note.createdAt)}
+          {note.mentions.length > 0 && (
+            <> · mentions {note.mentions.map(uid => memberNames.get(uid) ?? 'former team member').join(', ')}</>
+          )}
+        </div>
+        {note.authorUid === profile?.uid && (
+          <button onClick={() => void handleDeleteNote(note)} className="text-xs text-red-600 hover:text-red-800">
+            Delete
+          </button>
+        )}
+      </div>
+      <NoteBody body={note.body} />
+    </div>
+  );
+
+  return (
+    <div className="card mt-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">Activity</h2>
+        <div className="flex gap-1">
+          {(Object.keys(FILTER_LABELS) as ActivityFilter[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setFilter(option)}
+              className={`px-3 py-1 rounded text-sm ${filter === option ? 'bg-primary-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+            >
+              {FILTER_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <NoteComposer
+        placeholder="Add a note for the team. Use @name to mention someone."
+        submitLabel="Add Note"
+        saving={saving && !replyingTo}
+        onSubmit={(body) => handleAddNote(body)}
+      />
+
+      {error && <div className="mt-2 text-sm text-red-600">{error}</div>}
+
+      {notes === null ? (
+        <div className="mt-4 text-sm text-gray-600">Loading activity…</div>
+      ) : feed.length === 0 ? (
+        <div className="mt-4 text-sm text-gray-500">No activity yet.</div>
+      ) : (
+        <ul className="mt-4 divide-y divide-gray-100">
+          {feed.map((entry, index) => {
+            if (entry.type === 'note') {
+              const { note, replies } = entry.thread;
+              return (
+                <li key={`note-${note.id}`} className="py-3">
+                  {renderNote(note)}
+                  {replies.length > 0 && (
+                    <div className="mt-2 ml-4 pl-3 border-l-2 border-gray-200 space-y-2">
+                      {replies.map(reply => <div key={reply.id}>{renderNote(reply)}</div>)}
+                    </div>
+                  )}
+                  <div className="mt-2 ml-4">
+                    {replyingTo === note.id ? (
+                      <NoteComposer
+                        placeholder="Reply…"
+                        submitLabel="Reply"
+                        saving={saving}
+                        onSubmit={(body) => handleAddNote(body, note.id)}
+                        onCancel={() => setReplyingTo(null)}
+                      />
+                    ) : (
+                      <button onClick={() => setReplyingTo(note.id)} className="text-xs text-primary-600 hover:text-primary-800">
+                        Reply
+                      </button>
+                    )}
+                  </div>
+                </li>
+              );
+            }
+            const summary = entry.type === 'edit' ? describeEditHistoryEntry(entry.entry, estimate.currency) : describeStatusChange(entry.change);
+            const by = entry.type === 'edit' ? entry.entry.editedBy : entry.change.changedBy;
+            return (
+              <li key={`${entry.type}-${index}`} className="py-2 text-sm text-gray-600">
+                <span className="text-gray-400 mr-2">{entry.type === 'edit' ? '✏️' : '🔄'}</span>
+                {summary}
+                <span className="text-xs text-gray-500"> · {by ? `${by} · ` : ''}{formatDateTime(entry.at)}</span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { useEffect, useState } from 'react';
+import type { Estimate, TeamMember } from '../types';
+import { fetchTeamMembers, updateEstimateAssignment } from '../services/assignments';
+import { useFollowUpsStore } from '../store/followUpsStore';
+import { FOLLOW_UP_BUCKET_LABELS, fromDateInputValue, getFollowUpBucket, toDateInputValue } from '../utils/followUps';
+import type { FollowUpBucket } from '../utils/followUps';
+
+interface EstimateAssignmentControlsProps {
+  estimate: Estimate;
+  currentUid?: string;
+}
+
+interface AssignmentDraft {
+  assignedTo: string; // '' when unassigned
+  followUpDate: string; // Date input value, '' when not set
+}
+
+const BUCKET_TEXT_CLASSES: Record<FollowUpBucket, string> = {
+  overdue: 'text-red-600',
+  today: 'text-amber-700',
+  upcoming: 'text-gray-500',
+};
+
+export default function EstimateAssignmentControls({ estimate, currentUid }: EstimateAssignmentControlsProps) {
+  const applyAssignment = useFollowUpsStore(state => state.applyAssignment);
+  const [teamMembers, setTeamMembers] = useState<TeamMember[] | null>(null);
+  // Unsaved edits; null shows the estimate's saved values
+  const [draft, setDraft] = useState<AssignmentDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchTeamMembers()
+      .then((members) => {
+        if (!cancelled) setTeamMembers(members);
+      })
+      .catch((loadError) => {
+        console.error('Error loading team members:', loadError);
+        if (!cancelled) setTeamMembers([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const values: AssignmentDraft = draft ?? {
+    assignedTo: estimate.assignedTo ?? '',
+    followUpDate: estimate.followUpDate ? toDateInputValue(estimate.followUpDate) : '',
+  };
+  const assignee = teamMembers?.find(member => member.uid === estimate.assignedTo);
+  const bucket = estimate.followUpDate && estimate.status !== 'closed' ? getFollowUpBucket(estimate.followUpDate) : null;
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const followUpDate = fromDateInputValue(draft.followUpDate);
+    const assignment = {
+      ...(draft.assignedTo ? { assignedTo: draft.assignedTo } : {}),
+      ...(followUpDate ? { followUpDate } : {}),
+    };
+    setSaving(true);
+    setError(null);
+    try {
+      await updateEstimateAssignment(estimate.id, assignment);
+      applyAssignment(estimate, assignment);
+      setDraft(null);
+    } catch (saveError) {
+      console.error('Error saving assignment:', saveError);
+      setError('Failed to save the assignment. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="card mb-6">
+      <div className="flex flex-col md:flex-row md:items-end gap-4">
+        <div className="flex-1">
+          <label htmlFor="estimate-assignee" className="block text-sm font-medium text-gray-700 mb-1">Assigned To</label>
+          <select
+            id="estimate-assignee"
+            value={values.assignedTo}
+            onChange={(e) => setDraft({ ...values, assignedTo: e.target.value })}
+            className="w-full p-2 border border-gray-300 rounded text-sm"
+            disabled={!teamMembers}
+          >
+            <option value="">Unassigned</option>
+            {values.assignedTo && teamMembers && !teamMembers.some(member => member.uid === values.assignedTo) && (
+              <option value={values.assignedTo}>Former team member</option>
+            )}
+            {teamMembers?.map(member => (
+              <option key={member.uid} value={member.uid}>
+                {member.name}{member.uid === currentUid ? ' (me)' : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="md:w-48">
+          <label htmlFor="estimate-follow-up" className="block text-sm font-medium text-gray-700 mb-1">Follow Up On</label>
+          <input
+            id="estimate-follow-up"
+            type="date"
+            value={values.followUpDate}
+            onChange={(e) => setDraft({ ...values, followUpDate: e.target.value })}
+            className="w-full p-2 border border-gray-300 rounded text-sm"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          {currentUid && values.assignedTo !== currentUid && (
+            <button onClick={() => setDraft({ ...values, assignedTo: currentUid })} className="btn-secondary" disabled={saving}>
+              Assign to Me
+            </button>
+          )}
+          <button onClick={() => void handleSave()} className="btn-primary" disabled={saving || !draft}>
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+      {!draft && (assignee || bucket) && (
+        <div className="text-xs mt-2 text-gray-500">
+          {assignee && <>Assigned to {assignee.name}{assignee.email ? ` (${assignee.email})` : ''}</>}
+          {assignee && bucket && ' · '}
+          {bucket && <span className={BUCKET_TEXT_CLASSES[bucket]}>Follow-up {FOLLOW_UP_BUCKET_LABELS[bucket].toLowerCase()}</span>}
+        </div>
+      )}
+      {error && <div className="mt-2 text-sm text-red-600">{error}</div>}
+    </div>
+  );
+}
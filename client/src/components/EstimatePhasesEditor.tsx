@@ -0,0 +1,121 @@
+import type { CurrencyCode, EstimatePhase, PhaseBreakdown, RoomWithItems } from '../types';
+import { TrashIcon } from './Icons';
+import { formatCurrency } from '../utils/calculations';
+import { getPhaseName } from '../utils/estimatePhases';
+
+interface EstimatePhasesEditorProps {
+  phases: EstimatePhase[];
+  rooms: RoomWithItems[];
+  phaseBreakdown?: PhaseBreakdown[];
+  currency: CurrencyCode;
+  onPhasesChange: (phases: EstimatePhase[]) => void;
+  onRoomPhaseChange: (roomIndex: number, phaseId?: string) => void;
+}
+
+// Room names with repeats numbered, e.g. "Bedroom 2"
+const getRoomLabels = (rooms: RoomWithItems[]): string[] => {
+  const occurrences = new Map<string, number>();
+  return rooms.map((room) => {
+    const occurrence = (occurrences.get(room.roomType) ?? 0) + 1;
+    occurrences.set(room.roomType, occurrence);
+    const name = occurrence > 1 ? `${room.displayName} ${occurrence}` : room.displayName;
+    return room.quantity > 1 ? `${name} (×${room.quantity})` : name;
+  });
+};
+
+export default function EstimatePhasesEditor({ phases, rooms, phaseBreakdown, currency, onPhasesChange, onRoomPhaseChange }: EstimatePhasesEditorProps) {
+  const roomLabels = getRoomLabels(rooms);
+
+  const updatePhase = (index: number, updates: Partial<EstimatePhase>) => {
+    onPhasesChange(phases.map((phase, i) => (i === index ? { ...phase, ...updates } : phase)));
+  };
+
+  // Firestore rejects undefined, so a cleared date removes the key
+  const setTargetDate = (index: number, targetDate: string) => {
+    const { id, name } = phases[index];
+    onPhasesChange(phases.map((phase, i) => (i === index ? { id, name, ...(targetDate ? { targetDate } : {}) } : phase)));
+  };
+
+  return (
+    <div className="mb-8">
+      <div className="bg-white rounded-lg shadow border-2 border-gray-200">
+        <div className="p-6">
+          <div className="mb-4">
+            <span className="text-xl font-bold text-primary-800">Project Phases</span>
+            <p className="text-sm text-gray-600 mt-1">
+              Furnish large projects in stages. Add-ons and contingency are split across phases in proportion to their furnishings.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            {phases.map((phase, index) => {
+              const breakdown = phaseBreakdown?.find(entry => entry.phaseId === phase.id);
+              return (
+                <div key={phase.id} className="flex flex-wrap items-center gap-3">
+                  <input
+                    type="text"
+                    value={phase.name}
+                    onChange={(e) => updatePhase(index, { name: e.target.value })}
+                    placeholder="Phase name"
+                    className="px-3 py-2 border border-gray-300 rounded-md w-48 text-sm"
+                  />
+                  <input
+                    type="date"
+                    value={phase.targetDate ?? ''}
+                    onChange={(e) => setTargetDate(index, e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    aria-label="Target date"
+                  />
+                  {breakdown && (
+                    <span className="text-sm text-gray-600">
+                      {formatCurrency(breakdown.total.low, currency)} — {formatCurrency(breakdown.total.mid, currency)}
+                    </span>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => onPhasesChange(phases.filter((_, i) => i !== index))}
+                    className="p-1 text-red-600 hover:text-red-800 ml-auto"
+                    title="Remove phase"
+                  >
+                    <TrashIcon />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+          <button
+            type="button"
+            onClick={() => onPhasesChange([...phases, { id: `phase_${Date.now()}`, name: '' }])}
+            className="btn-secondary mt-3"
+          >
+            ➕ Add Phase
+          </button>
+
+          {phases.length > 0 && rooms.length > 0 && (
+            <div className="mt-6">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Room Schedule</label>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {rooms.map((room, roomIndex) => (
+                  <div key={`${room.roomType}-${roomIndex}`} className="flex items-center justify-between gap-3">
+                    <span className="text-sm text-gray-700 truncate">{roomLabels[roomIndex]}</span>
+                    <select
+                      value={phases.some(phase => phase.id === room.phaseId) ? room.phaseId : ''}
+                      onChange={(e) => onRoomPhaseChange(roomIndex, e.target.value || undefined)}
+                      className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                      aria-label={`Phase for ${roomLabels[roomIndex]}`}
+                    >
+                      <option value="">Unscheduled</option>
+                      {phases.map((phase, index) => (
+                        <option key={phase.id} value={phase.id}>{getPhaseName(phase, index)}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import type { Estimate, EstimateStatus } from '../types';
+import {
+  ESTIMATE_STATUS_BADGE_CLASSES,
+  ESTIMATE_STATUS_LABELS,
+  createStatusChange,
+  getAllowedStatusTransitions,
+} from '../utils/estimateStatus';
+import { changeEstimateStatus } from '../services/estimateStatus';
+
+interface EstimateStatusControlsProps {
+  estimate: Estimate;
+  changedBy?: string;
+}
+
+const formatDateTime = (date: Date) => `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}`;
+
+export default function EstimateStatusControls({ estimate, changedBy }: EstimateStatusControlsProps) {
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const history = estimate.statusHistory ?? [];
+
+  const handleChange = async (to: EstimateStatus) => {
+    const change = createStatusChange(estimate.status, to, changedBy);
+    if (!change) return;
+    setSaving(true);
+    setError(null);
+    try {
+      // The page's snapshot listener picks up the new status
+      await changeEstimateStatus(estimate.id, change);
+    } catch (saveError) {
+      console.error('Error changing estimate status:', saveError);
+      setError('Failed to change the status. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="card mb-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-3">
+            <span className="text-sm font-medium text-gray-700">Status</span>
+            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ESTIMATE_STATUS_BADGE_CLASSES[estimate.status]}`}>
+              {ESTIMATE_STATUS_LABELS[estimate.status]}
+            </span>
+          </div>
+          <div className="text-xs text-gray-500 mt-1">
+            {estimate.statusChangedAt && <>Since {formatDateTime(estimate.statusChangedAt)} · </>}
+            Viewed {estimate.viewCount ?? 0} time{estimate.viewCount !== 1 ? 's' : ''} by the client
+            {estimate.lastViewedAt && <>, last on {formatDateTime(estimate.lastViewedAt)}</>}
+          </div>
+        </div>
+        <div className="flex items-center gap-2 flex-wrap">
+          {getAllowedStatusTransitions(estimate.status).map(status => (
+            <button
+              key={status}
+              onClick={() => void handleChange(status)}
+              className={status === 'closed' ? 'btn-primary' : 'btn-secondary'}
+              disabled={saving}
+            >
+              {estimate.status === 'closed' ? 'Reopen' : `Mark ${ESTIMATE_STATUS_LABELS[status]}`}
+            </button>
+          ))}
+          {history.length > 0 && (
+            <button onClick={() => setShowHistory(!showHistory)} className="text-sm text-primary-600 hover:text-primary-800">
+              {showHistory ? 'Hide History' : 'History'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && <div className="mt-3 text-sm text-red-600">{error}</div>}
+
+      {showHistory && (
+        <ul className="mt-4 border-t border-gray-200 pt-3 space-y-1 text-sm">
+          {[...history].reverse().map((change, index) => (
+            <li key={index} className="flex justify-between gap-4 text-gray-700">
+              <span>
+                {ESTIMATE_STATUS_LABELS[change.from]} → {ESTIMATE_STATUS_LABELS[change.to]}
+                <span className="text-gray-500"> · {change.changedBy ?? 'Automatic'}</span>
+              </span>
+              <span className="text-gray-500">{formatDateTime(change.changedAt)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
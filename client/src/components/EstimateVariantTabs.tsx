@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import type { EstimateVariant } from '../types';
+import { PRIMARY_VARIANT_ID } from '../utils/estimateVariants';
+
+interface EstimateVariantTabsProps {
+  variants: EstimateVariant[];
+  activeVariantId: string;
+  onSwitch: (variantId: string) => void;
+  onAdd: (name: string) => void;
+  onRename: (variantId: string, name: string) => void;
+  onRemove: (variantId: string) => void;
+}
+
+// Name being typed: for a new option (copied from the open one) or a rename of the open one
+type NameDraft = { mode: 'add' | 'rename'; name: string };
+
+export default function EstimateVariantTabs({ variants, activeVariantId, onSwitch, onAdd, onRename, onRemove }: EstimateVariantTabsProps) {
+  const [draft, setDraft] = useState<NameDraft | null>(null);
+  const activeVariant = variants.find(variant => variant.id === activeVariantId) ?? variants[0];
+
+  const handleSubmit = () => {
+    if (!draft || !draft.name.trim()) return;
+    if (draft.mode === 'add') {
+      onAdd(draft.name);
+    } else {
+      onRename(activeVariant.id, draft.name);
+    }
+    setDraft(null);
+  };
+
+  const handleRemove = () => {
+    if (!window.confirm(`Remove the "${activeVariant.name}" option? Its rooms and add-on overrides will be deleted.`)) return;
+    onRemove(activeVariant.id);
+  };
+
+  return (
+    <div className="card mb-8">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <span className="text-xl font-bold text-primary-800">Options</span>
+          <p className="text-sm text-gray-600 mt-1">
+            Each option has its own rooms and add-on overrides. The client sees every option on the estimate page.
+          </p>
+        </div>
+        {!draft && (
+          <button onClick={() => setDraft({ mode: 'add', name: '' })} className="btn-secondary whitespace-nowrap">
+            ➕ Add Option
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2 border-b border-gray-200">
+        {variants.map(variant => (
+          <button
+            key={variant.id}
+            onClick={() => onSwitch(variant.id)}
+            className={`px-4 py-2 -mb-px border-b-2 text-sm font-medium transition-colors ${
+              variant.id === activeVariant.id
+                ? 'border-primary-600 text-primary-700'
+                : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            {variant.name}
+          </button>
+        ))}
+      </div>
+
+      {draft ? (
+        <div className="mt-3 flex flex-col sm:flex-row sm:items-center gap-2">
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSubmit();
+              if (e.key === 'Escape') setDraft(null);
+            }}
+            placeholder={draft.mode === 'add' ? 'e.g. Bedrooms only' : 'Option name'}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+            autoFocus
+          />
+          <div className="flex gap-2">
+            <button onClick={handleSubmit} disabled={!draft.name.trim()} className="btn-primary disabled:opacity-50">
+              {draft.mode === 'add' ? 'Add' : 'Rename'}
+            </button>
+            <button onClick={() => setDraft(null)} className="btn-secondary">Cancel</button>
+          </div>
+          {draft.mode === 'add' && (
+            <span className="text-xs text-gray-500">Starts as a copy of {activeVariant.name}.</span>
+          )}
+        </div>
+      ) : (
+        <div className="mt-3 flex items-center gap-4 text-sm">
+          <span className="text-gray-600">Editing <span className="font-medium text-gray-900">{activeVariant.name}</span></span>
+          <button onClick={() => setDraft({ mode: 'rename', name: activeVariant.name })} className="text-primary-600 hover:text-primary-800">
+            Rename
+          </button>
+          {activeVariant.id !== PRIMARY_VARIANT_ID && (
+            <button onClick={handleRemove} className="text-red-600 hover:text-red-800">
+              Remove
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
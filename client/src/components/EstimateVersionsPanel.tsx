@@ -0,0 +1,137 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { Estimate, EstimateVersion, EstimateVersionSnapshot, Item } from '../types';
+import { fetchEstimateVersions } from '../services/estimateVersions';
+import { applyVersionSnapshot, describeFieldChange, diffEstimates } from '../utils/estimateVersions';
+
+interface EstimateVersionsPanelProps {
+  estimate: Estimate;
+  itemsMap: Map<string, Item>;
+  hasUnsavedChanges: boolean;
+  onRestore: (snapshot: EstimateVersionSnapshot) => void;
+}
+
+const formatDateTime = (date: Date) => `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}`;
+
+export default function EstimateVersionsPanel({ estimate, itemsMap, hasUnsavedChanges, onRestore }: EstimateVersionsPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [versions, setVersions] = useState<EstimateVersion[] | null>(null);
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload whenever a save adds a version
+  const latestVersionId = [...(estimate.editHistory ?? [])].reverse().find(entry => entry.versionId)?.versionId;
+
+  useEffect(() => {
+    if (!expanded) return;
+    let cancelled = false;
+    fetchEstimateVersions(estimate.id)
+      .then((loaded) => {
+        if (!cancelled) {
+          setVersions(loaded);
+          setError(null);
+        }
+      })
+      .catch((loadError) => {
+        console.error('Error loading estimate versions:', loadError);
+        if (!cancelled) setError('Failed to load version history.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [expanded, estimate.id, latestVersionId]);
+
+  const preview = versions?.find(version => version.id === previewId);
+  const restoreChanges = useMemo(
+    () => (preview ? diffEstimates(estimate, applyVersionSnapshot(estimate, preview.snapshot), itemsMap) : []),
+    [preview, estimate, itemsMap]
+  );
+
+  const handleRestore = (version: EstimateVersion) => {
+    const message = hasUnsavedChanges
+      ? 'Restore this version? Your unsaved changes will be replaced (you can undo this).'
+      : 'Restore this version? Review the estimate and save to keep it.';
+    if (!window.confirm(message)) return;
+    onRestore(version.snapshot);
+    setPreviewId(null);
+  };
+
+  return (
+    <div className="card mt-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">Version History</h2>
+        <button onClick={() => setExpanded(!expanded)} className="text-sm text-primary-600 hover:text-primary-800">
+          {expanded ? 'Hide' : 'Show'}
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="mt-4">
+          {error && <div className="text-sm text-red-600 mb-2">{error}</div>}
+          {versions === null ? (
+            !error && <div className="text-sm text-gray-600">Loading versions…</div>
+          ) : versions.length === 0 ? (
+            <div className="text-sm text-gray-500">No saved versions yet. A version is stored each time the estimate is saved.</div>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {versions.map((version, index) => {
+                const isPreviewing = previewId === version.id;
+                return (
+                  <li key={version.id} className="py-3">
+                    <div className="flex items-center justify-between gap-3">
+                      <div className="text-sm">
+                        <span className="font-medium text-gray-900">{formatDateTime(version.createdAt)}</span>
+                        {index === 0 && <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-green-100 text-green-800">Latest</span>}
+                        <div className="text-xs text-gray-500">
+                          {version.initial
+                            ? 'Original, before tracked edits'
+                            : `${version.changes.length} change${version.changes.length === 1 ? '' : 's'}${version.createdBy ? ` by ${version.createdBy}` : ''}`}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <button onClick={() => setPreviewId(isPreviewing ? null : version.id)} className="btn-secondary">
+                          {isPreviewing ? 'Close' : 'Preview'}
+                        </button>
+                        <button onClick={() => handleRestore(version)} className="btn-primary">
+                          Restore
+                        </button>
+                      </div>
+                    </div>
+
+                    {isPreviewing && (
+                      <div className="mt-3 grid md:grid-cols-2 gap-4 text-sm">
+                        <div>
+                          <div className="font-medium text-gray-700 mb-1">Changed in this save</div>
+                          {version.changes.length === 0 ? (
+                            <div className="text-gray-500">—</div>
+                          ) : (
+                            <ul className="space-y-0.5 text-gray-600">
+                              {version.changes.map(change => (
+                                <li key={change.field}>{describeFieldChange(change, version.snapshot.currency)}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </div>
+                        <div>
+                          <div className="font-medium text-gray-700 mb-1">Restoring will change</div>
+                          {restoreChanges.length === 0 ? (
+                            <div className="text-gray-500">Nothing; the estimate already matches this version.</div>
+                          ) : (
+                            <ul className="space-y-0.5 text-gray-600">
+                              {restoreChanges.map(change => (
+                                <li key={change.field}>{describeFieldChange(change, estimate.currency)}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </div>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
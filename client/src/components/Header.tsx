@@ -1,7 +1,9 @@
 import { Link } from 'react-router-dom';
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { Menu, X } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
+import { useFollowUpsStore } from '../store/followUpsStore';
+import { countDueFollowUps } from '../utils/followUps';
 import AuthModal from './auth/AuthModal';
 
 interface HeaderProps {
@@ -14,6 +16,19 @@ export default function Header({ showAdminLink = true, currentStep, totalSteps }
   const { firebaseUser, signOutUser, profile } = useAuth();
   const [authModalOpen, setAuthModalOpen] = useState(false);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  const { uid: followUpsUid, estimates: followUps, loadFollowUps, reset: resetFollowUps } = useFollowUpsStore();
+  const isAdmin = profile?.role === 'admin';
+
+  // Admins get a badge for follow-ups due today or overdue; load once per signed-in admin
+  useEffect(() => {
+    if (isAdmin && profile && followUpsUid !== profile.uid) {
+      void loadFollowUps(profile.uid);
+    } else if (!isAdmin && followUpsUid) {
+      resetFollowUps();
+    }
+  }, [isAdmin, profile, followUpsUid, loadFollowUps, resetFollowUps]);
+
+  const dueFollowUps = useMemo(() => (isAdmin ? countDueFollowUps(followUps ?? []) : 0), [isAdmin, followUps]);
 
   const renderNavLinks = (isMobile = false) => {
     const linkClass = isMobile
@@ -33,7 +48,7 @@ export default function Header({ showAdminLink = true, currentStep, totalSteps }
         )}
         {showAdminLink && (
           <>
-            {profile && profile.role === 'admin' && (
+            {isAdmin && (
               <Link to="/admin" className={linkClass}>
                 Admin
               </Link>
@@ -41,6 +56,15 @@ export default function Header({ showAdminLink = true, currentStep, totalSteps }
             <Link to="/tools/reports" className={linkClass}>
               Reports
             </Link>
+            {dueFollowUps > 0 && (
+              <Link
+                to="/tools/reports?tab=followups"
+                className={isMobile ? linkClass : 'inline-flex items-center gap-1 rounded-full bg-red-100 px-2 py-0.5 text-xs font-medium text-red-700 hover:bg-red-200'}
+                title="Follow-ups due today or overdue"
+              >
+                {dueFollowUps} follow-up{dueFollowUps !== 1 ? 's' : ''} due
+              </Link>
+            )}
             <Link to="/tools" className={linkClass}>
               Toolkit
             </Link>
@@ -0,0 +1,81 @@
+import type { CurrencyCode, PhaseBreakdown, RoomBreakdown } from '../types';
+import { formatCurrency } from '../utils/calculations';
+import { formatPhaseDate } from '../utils/estimatePhases';
+
+interface PhaseTimelineProps {
+  phases: PhaseBreakdown[];
+  roomBreakdown: RoomBreakdown[];
+  currency: CurrencyCode;
+  hidePrices?: boolean;
+}
+
+const formatRange = (low: number, mid: number, currency: CurrencyCode) =>
+  `${formatCurrency(low, currency)} — ${formatCurrency(mid, currency)}`;
+
+export default function PhaseTimeline({ phases, roomBreakdown, currency, hidePrices = false }: PhaseTimelineProps) {
+  // Progress bars show cumulative spend against the whole project at the top of the range
+  const projectTotal = phases[phases.length - 1]?.cumulative.mid ?? 0;
+
+  return (
+    <div className="mb-8">
+      <div className="card">
+        <div className="mb-6">
+          <span className="text-2xl font-bold text-primary-800">Project Timeline</span>
+          <p className="text-sm text-gray-600 mt-1">
+            Furnishing phases in order, with each phase's share of the budget and the running total
+          </p>
+        </div>
+
+        <ol className="relative border-l-2 border-primary-200 ml-2 space-y-6">
+          {phases.map((phase) => {
+            const roomNames = phase.roomIndexes
+              .map(roomIndex => roomBreakdown.find(room => room.roomIndex === roomIndex))
+              .filter((room): room is RoomBreakdown => room !== undefined)
+              .map(room => {
+                const name = room.displayName || room.roomType.replace(/_/g, ' ');
+                return room.quantity > 1 ? `${name} ×${room.quantity}` : name;
+              });
+            const percentComplete = projectTotal > 0 ? Math.round(phase.cumulative.mid / projectTotal * 100) : 0;
+
+            return (
+              <li key={phase.phaseId ?? 'unscheduled'} className="ml-6">
+                <span
+                  className={`absolute -left-[9px] mt-1.5 w-4 h-4 rounded-full border-2 border-white ${
+                    phase.phaseId ? 'bg-primary-600' : 'bg-gray-400'
+                  }`}
+                />
+                <div className="flex flex-col sm:flex-row sm:items-baseline sm:justify-between gap-1">
+                  <div>
+                    <span className="font-semibold text-gray-900">{phase.name}</span>
+                    <span className="ml-2 text-sm text-gray-500">
+                      {phase.targetDate ? `Target ${formatPhaseDate(phase.targetDate)}` : 'No target date'}
+                    </span>
+                  </div>
+                  {!hidePrices && (
+                    <span className="text-sm font-medium text-gray-900">
+                      {formatRange(phase.total.low, phase.total.mid, currency)}
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-gray-600 mt-1">
+                  {roomNames.length > 0 ? roomNames.join(', ') : 'No rooms assigned yet'}
+                </p>
+                {!hidePrices && (
+                  <div className="mt-2">
+                    <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                      <div className="h-full bg-primary-500" style={{ width: `${percentComplete}%` }} />
+                    </div>
+                    <div className="flex justify-between text-xs text-gray-500 mt-1">
+                      <span>Cumulative: {formatRange(phase.cumulative.low, phase.cumulative.mid, currency)}</span>
+                      <span>{percentComplete}% of project</span>
+                    </div>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import type { Item, PriceHistoryEntry, QualityTier } from '../types';
+import { QUALITY_TIERS } from '../types';
+import { formatCurrency } from '../utils/calculations';
+import { TIER_PRICE_FIELDS, buildPriceTimeline } from '../utils/priceHistory';
+
+interface PriceHistoryChartProps {
+  item: Item;
+  entries: PriceHistoryEntry[];
+}
+
+const TIERS: QualityTier[] = ['low', 'mid', 'midHigh', 'high'];
+const TIER_COLORS: Record<QualityTier, string> = {
+  low: '#60a5fa',
+  mid: '#2563eb',
+  midHigh: '#7c3aed',
+  high: '#db2777',
+};
+
+const WIDTH = 640;
+const HEIGHT = 240;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 72 };
+
+export default function PriceHistoryChart({ item, entries }: PriceHistoryChartProps) {
+  const now = new Date();
+  const timelines = TIERS.map(tier => ({
+    tier,
+    points: buildPriceTimeline(entries, tier, item[TIER_PRICE_FIELDS[tier]], now),
+  }));
+
+  const allPoints = timelines.flatMap(timeline => timeline.points);
+  const startTime = Math.min(...allPoints.map(point => point.date.getTime()));
+  const endTime = now.getTime();
+  const maxPrice = Math.max(...allPoints.map(point => point.price), 1);
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (date: Date) => PADDING.left + (endTime === startTime ? plotWidth : ((date.getTime() - startTime) / (endTime - startTime)) * plotWidth);
+  const y = (price: number) => PADDING.top + plotHeight - (price / maxPrice) * plotHeight;
+
+  // Prices hold until the next change, so draw each series as steps
+  const toStepPath = (points: { date: Date; price: number }[]) => points
+    .map((point, i) => (i === 0 ? `M ${x(point.date)} ${y(point.price)}` : `H ${x(point.date)} V ${y(point.price)}`))
+    .join(' ');
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={`Price history for ${item.name}`}>
+        {[0, 0.5, 1].map(fraction => (
+          <g key={fraction}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(maxPrice * fraction)}
+              y2={y(maxPrice * fraction)}
+              stroke="#e5e7eb"
+            />
+            <text x={PADDING.left - 8} y={y(maxPrice * fraction) + 4} textAnchor="end" fontSize="11" fill="#6b7280">
+              {formatCurrency(maxPrice * fraction)}
+            </text>
+          </g>
+        ))}
+        <text x={PADDING.left} y={HEIGHT - 8} fontSize="11" fill="#6b7280">
+          {new Date(startTime).toLocaleDateString()}
+        </text>
+        <text x={WIDTH - PADDING.right} y={HEIGHT - 8} textAnchor="end" fontSize="11" fill="#6b7280">
+          Today
+        </text>
+        {timelines.map(({ tier, points }) => (
+          <path key={tier} d={toStepPath(points)} fill="none" stroke={TIER_COLORS[tier]} strokeWidth="2" />
+        ))}
+      </svg>
+      <div className="flex flex-wrap gap-4 mt-2 text-xs text-gray-600">
+        {TIERS.map(tier => (
+          <span key={tier} className="flex items-center gap-1">
+            <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: TIER_COLORS[tier] }}></span>
+            {QUALITY_TIERS[tier].name}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,306 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { Budget, CurrencyCode, Estimate, Item, ProjectBudget, PurchaseOrder, QualityTier, Vendor } from '../types';
+import { QUALITY_TIERS } from '../types';
+import { formatCurrency } from '../utils/calculations';
+import { buildPurchasingList } from '../utils/purchasing';
+import { getEstimateVariants } from '../utils/estimateVariants';
+import { getSelectedTotal } from '../utils/selectedTiers';
+import {
+  PURCHASE_ORDER_STATUS_DATES,
+  PURCHASE_ORDER_STATUS_LABELS,
+  buildPurchaseOrderDrafts,
+  getNextPurchaseOrderStatus,
+  getPurchaseOrderVariantId,
+  isEstimateApproved,
+} from '../utils/purchaseOrders';
+import { createPurchaseOrders, deletePurchaseOrder, fetchPurchaseOrdersForEstimate, updatePurchaseOrderStatus } from '../services/purchaseOrders';
+import { TrashIcon } from './Icons';
+
+interface PurchaseOrdersPanelProps {
+  estimate: Estimate; // As priced for the shown option
+  variantId: string;
+  budget: Budget | ProjectBudget;
+  itemsMap: Map<string, Item>;
+  vendors: Vendor[];
+  currency: CurrencyCode;
+  createdBy?: string;
+}
+
+const STATUS_BADGE_CLASSES: Record<PurchaseOrder['status'], string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  sent: 'bg-blue-100 text-blue-800',
+  confirmed: 'bg-amber-100 text-amber-800',
+  received: 'bg-green-100 text-green-800',
+};
+
+export default function PurchaseOrdersPanel({ estimate, variantId, budget, itemsMap, vendors, currency, createdBy }: PurchaseOrdersPanelProps) {
+  const [orders, setOrders] = useState<PurchaseOrder[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [tier, setTier] = useState<QualityTier>('mid');
+  const [busy, setBusy] = useState(false);
+  const [expandedOrderId, setExpandedOrderId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchPurchaseOrdersForEstimate(estimate.id)
+      .then((loaded) => {
+        if (!cancelled) setOrders(loaded);
+      })
+      .catch((loadError) => {
+        console.error('Error loading purchase orders:', loadError);
+        if (!cancelled) setError('Failed to load purchase orders.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [estimate.id]);
+
+  const approved = isEstimateApproved(estimate);
+  // Chosen room and item tiers price every line, so there is no tier to pick
+  const hasSelectedTiers = getSelectedTotal(budget) !== undefined;
+
+  // An estimate is ordered from one option; the others show where its orders are
+  const optionOrders = useMemo(
+    () => orders?.filter(order => getPurchaseOrderVariantId(order) === variantId) ?? null,
+    [orders, variantId]
+  );
+  const orderedOptionName = useMemo(() => {
+    const otherOrder = orders?.find(order => getPurchaseOrderVariantId(order) !== variantId);
+    if (!otherOrder) return null;
+    const orderedVariantId = getPurchaseOrderVariantId(otherOrder);
+    return getEstimateVariants(estimate).find(variant => variant.id === orderedVariantId)?.name ?? 'another option';
+  }, [orders, variantId, estimate]);
+
+  // Orders that generating now would add, plus lines that have no vendor to order from
+  const pending = useMemo(() => {
+    if (!approved || !orders || orderedOptionName) return null;
+    const list = buildPurchasingList(budget, estimate.rooms, itemsMap, vendors, tier);
+    return {
+      drafts: buildPurchaseOrderDrafts(estimate.id, variantId, currency, list, orders, createdBy),
+      unassignedLines: list.groups.find(group => !group.vendor)?.lines.length ?? 0,
+    };
+  }, [approved, orders, orderedOptionName, budget, estimate.rooms, estimate.id, variantId, itemsMap, vendors, tier, currency, createdBy]);
+
+  const handleGenerate = async () => {
+    if (!pending || pending.drafts.length === 0) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const created = await createPurchaseOrders(pending.drafts);
+      setOrders(prev => [...(prev ?? []), ...created].sort((a, b) => a.vendorName.localeCompare(b.vendorName)));
+    } catch (saveError) {
+      console.error('Error creating purchase orders:', saveError);
+      setError('Failed to create purchase orders. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAdvance = async (order: PurchaseOrder) => {
+    const nextStatus = getNextPurchaseOrderStatus(order.status);
+    if (!nextStatus) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const changedAt = new Date();
+      await updatePurchaseOrderStatus(order.id, nextStatus, changedAt);
+      setOrders(prev => (prev ?? []).map(existing => existing.id === order.id
+        ? {
+          ...existing,
+          status: nextStatus,
+          updatedAt: changedAt,
+          ...(nextStatus !== 'draft' ? { [PURCHASE_ORDER_STATUS_DATES[nextStatus]]: changedAt } : {}),
+        }
+        : existing
+      ));
+    } catch (saveError) {
+      console.error('Error updating purchase order:', saveError);
+      setError('Failed to update the purchase order. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (order: PurchaseOrder) => {
+    if (!confirm(`Delete the draft purchase order for ${order.vendorName}?`)) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await deletePurchaseOrder(order.id);
+      setOrders(prev => (prev ?? []).filter(existing => existing.id !== order.id));
+    } catch (deleteError) {
+      console.error('Error deleting purchase order:', deleteError);
+      setError('Failed to delete the purchase order. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="card mb-8">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Purchase Orders</h2>
+          <p className="text-sm text-gray-600">
+            {!approved
+              ? 'Purchase orders can be generated once the estimate is closed.'
+              : hasSelectedTiers
+                ? "One order per vendor, priced at each room and item's chosen tier with quantities across all rooms."
+                : 'One order per vendor, priced at the chosen tier with quantities across all rooms.'}
+          </p>
+        </div>
+        {approved && (
+          <div className="flex items-center gap-2 flex-shrink-0">
+            {!hasSelectedTiers && (
+              <select
+                value={tier}
+                onChange={(e) => setTier(e.target.value as QualityTier)}
+                className="px-2 py-2 border border-gray-300 rounded text-sm"
+                aria-label="Purchase order tier"
+              >
+                {(Object.keys(QUALITY_TIERS) as QualityTier[]).map(option => (
+                  <option key={option} value={option}>{QUALITY_TIERS[option].name}</option>
+                ))}
+              </select>
+            )}
+            <button
+              onClick={() => void handleGenerate()}
+              className="btn-primary"
+              disabled={busy || !pending || pending.drafts.length === 0}
+            >
+              {pending && pending.drafts.length > 0
+                ? `Generate ${pending.drafts.length} Order${pending.drafts.length !== 1 ? 's' : ''}`
+                : 'Generate Orders'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {pending && pending.unassignedLines > 0 && (
+        <div className="mb-4 rounded-md bg-amber-50 border border-amber-200 p-3 text-sm text-amber-800">
+          {pending.unassignedLines} line{pending.unassignedLines !== 1 ? 's have' : ' has'} no vendor and will not be ordered. Choose a vendor for each line in the estimate editor.
+        </div>
+      )}
+
+      {orderedOptionName && (
+        <div className="mb-4 rounded-md bg-blue-50 border border-blue-200 p-3 text-sm text-blue-800">
+          Purchase orders were generated from {orderedOptionName}. Switch to that option to manage them.
+        </div>
+      )}
+
+      {error && <div className="mb-4 text-sm text-red-600">{error}</div>}
+      {!error && !optionOrders && <div className="text-gray-500 text-sm">Loading purchase orders...</div>}
+
+      {optionOrders && optionOrders.length === 0 && !orderedOptionName && (
+        <p className="text-sm text-gray-500">No purchase orders yet.</p>
+      )}
+
+      {optionOrders && optionOrders.length > 0 && (
+        <div className="space-y-3">
+          {optionOrders.map(order => {
+            const nextStatus = getNextPurchaseOrderStatus(order.status);
+            const expanded = expandedOrderId === order.id;
+            return (
+              <div key={order.id} className="border border-gray-200 rounded-lg">
+                <div className="flex items-center justify-between gap-4 p-3">
+                  <button
+                    onClick={() => setExpandedOrderId(expanded ? null : order.id)}
+                    className="flex items-center gap-3 min-w-0 text-left"
+                  >
+                    <span className="text-gray-500">{expanded ? '▼' : '▶'}</span>
+                    <div className="min-w-0">
+                      <div className="font-medium text-gray-900 truncate">{order.vendorName}</div>
+                      <div className="text-xs text-gray-500">
+                        {order.lines.length} line{order.lines.length !== 1 ? 's' : ''} · {order.lines.some(line => line.selectedTier) ? 'Selected tiers' : QUALITY_TIERS[order.tier].name} · Created {order.createdAt.toLocaleDateString()}
+                        {order.sentAt && ` · Sent ${order.sentAt.toLocaleDateString()}`}
+                        {order.confirmedAt && ` · Confirmed ${order.confirmedAt.toLocaleDateString()}`}
+                        {order.receivedAt && ` · Received ${order.receivedAt.toLocaleDateString()}`}
+                      </div>
+                    </div>
+                  </button>
+                  <div className="flex items-center gap-3 flex-shrink-0">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_BADGE_CLASSES[order.status]}`}>
+                      {PURCHASE_ORDER_STATUS_LABELS[order.status]}
+                    </span>
+                    <span className="font-semibold text-gray-900">{formatCurrency(order.total, order.currency)}</span>
+                    {nextStatus && (
+                      <button
+                        onClick={() => void handleAdvance(order)}
+                        className="btn-secondary text-sm"
+                        disabled={busy}
+                      >
+                        Mark {PURCHASE_ORDER_STATUS_LABELS[nextStatus]}
+                      </button>
+                    )}
+                    {order.status === 'draft' && (
+                      <button
+                        onClick={() => void handleDelete(order)}
+                        className="text-red-600 hover:text-red-800 p-1"
+                        title="Delete Draft"
+                        disabled={busy}
+                      >
+                        <TrashIcon />
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {expanded && (
+                  <div className="border-t border-gray-200 p-3">
+                    <table className="min-w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-600">
+                          <th className="py-1 font-medium">Item</th>
+                          <th className="py-1 font-medium">SKU</th>
+                          <th className="py-1 font-medium text-right">Qty</th>
+                          <th className="py-1 font-medium text-right">Unit Price</th>
+                          <th className="py-1 font-medium text-right">Total</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {order.lines.map(line => (
+                          <tr key={`${line.itemId}-${line.selectedTier ?? order.tier}-${line.unitPrice}`} className="border-t border-gray-100">
+                            <td className="py-1 text-gray-900">
+                              {line.productUrl ? (
+                                <a href={line.productUrl} target="_blank" rel="noopener noreferrer" className="text-primary-600 hover:text-primary-800">
+                                  {line.name}
+                                </a>
+                              ) : line.name}
+                              {line.selectedTier && (
+                                <span className="ml-2 text-xs text-gray-500">{QUALITY_TIERS[line.selectedTier].name}</span>
+                              )}
+                            </td>
+                            <td className="py-1 text-gray-600">{line.sku ?? '—'}</td>
+                            <td className="py-1 text-right text-gray-700">{line.quantity}</td>
+                            <td className="py-1 text-right text-gray-700">{formatCurrency(line.unitPrice, order.currency)}</td>
+                            <td className="py-1 text-right text-gray-900">{formatCurrency(line.total, order.currency)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                      <tfoot className="border-t border-gray-200">
+                        <tr>
+                          <td colSpan={4} className="py-1 text-right text-gray-600">Subtotal</td>
+                          <td className="py-1 text-right text-gray-900">{formatCurrency(order.subtotal, order.currency)}</td>
+                        </tr>
+                        {order.discount > 0 && (
+                          <tr>
+                            <td colSpan={4} className="py-1 text-right text-gray-600">Vendor Discount</td>
+                            <td className="py-1 text-right text-green-700">−{formatCurrency(order.discount, order.currency)}</td>
+                          </tr>
+                        )}
+                        <tr>
+                          <td colSpan={4} className="py-1 text-right font-medium text-gray-900">Total</td>
+                          <td className="py-1 text-right font-semibold text-gray-900">{formatCurrency(order.total, order.currency)}</td>
+                        </tr>
+                      </tfoot>
+                    </table>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import type { Budget, CurrencyCode, ProjectBudget } from '../types';
+import { QUALITY_TIERS } from '../types';
+import { formatCurrency } from '../utils/calculations';
+import { convertFromBase } from '../utils/currency';
+import type { SnapshotItemPriceChange } from '../utils/priceSnapshot';
+
+interface RepriceEstimateModalProps {
+  snapshotDate: Date;
+  currentBudget: Budget | ProjectBudget;
+  repricedBudget: Budget | ProjectBudget;
+  itemChanges: SnapshotItemPriceChange[];
+  defaultChanges: string[];
+  currency: CurrencyCode;
+  exchangeRate: number; // Library prices are USD; show them in the estimate currency
+  onApply: () => void;
+  onClose: () => void;
+}
+
+function getQuotedRange(budget: Budget | ProjectBudget): { low: number; high: number } {
+  return 'projectRange' in budget
+    ? { low: budget.projectRange.low, high: budget.projectRange.mid }
+    : { low: budget.rangeLow, high: budget.rangeHigh };
+}
+
+export default function RepriceEstimateModal({
+  snapshotDate,
+  currentBudget,
+  repricedBudget,
+  itemChanges,
+  defaultChanges,
+  currency,
+  exchangeRate,
+  onApply,
+  onClose,
+}: RepriceEstimateModalProps) {
+  const currentRange = getQuotedRange(currentBudget);
+  const repricedRange = getQuotedRange(repricedBudget);
+  const hasChanges = itemChanges.length > 0 || defaultChanges.length > 0;
+  const formatLibraryPrice = (cents: number) => formatCurrency(convertFromBase(cents, exchangeRate), currency);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Reprice to Current Library</h2>
+              <p className="text-sm text-gray-500">Prices locked {snapshotDate.toLocaleDateString()}</p>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              ✕
+            </button>
+          </div>
+
+          {!hasChanges ? (
+            <p className="text-gray-600">This estimate already matches the current item library and budget defaults.</p>
+          ) : (
+            <div className="space-y-6">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="p-4 bg-gray-50 rounded-lg">
+                  <div className="text-xs font-medium text-gray-500 uppercase">Quoted</div>
+                  <div className="text-lg font-semibold text-gray-900">
+                    {formatCurrency(currentRange.low, currency)} — {formatCurrency(currentRange.high, currency)}
+                  </div>
+                </div>
+                <div className="p-4 bg-primary-50 rounded-lg">
+                  <div className="text-xs font-medium text-primary-700 uppercase">After Repricing</div>
+                  <div className="text-lg font-semibold text-primary-900">
+                    {formatCurrency(repricedRange.low, currency)} — {formatCurrency(repricedRange.high, currency)}
+                  </div>
+                </div>
+              </div>
+
+              {itemChanges.length > 0 && (
+                <div>
+                  <h3 className="font-medium text-gray-900 mb-2">Item Price Changes</h3>
+                  <div className="border border-gray-200 rounded-md max-h-72 overflow-y-auto">
+                    <table className="min-w-full text-sm">
+                      <thead className="bg-gray-50 sticky top-0">
+                        <tr className="text-left text-gray-700">
+                          <th className="px-3 py-2 font-medium">Item</th>
+                          <th className="px-3 py-2 font-medium">Changes</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {itemChanges.map(itemChange => (
+                          <tr key={itemChange.itemId} className="border-t border-gray-100 align-top">
+                            <td className="px-3 py-2 font-medium text-gray-900">{itemChange.name}</td>
+                            <td className="px-3 py-2">
+                              {itemChange.changes.map(change => (
+                                <div key={change.tier}>
+                                  <span className="text-gray-600">{QUALITY_TIERS[change.tier].name}:</span>{' '}
+                                  {formatLibraryPrice(change.oldPrice)} → {formatLibraryPrice(change.newPrice)}
+                                </div>
+                              ))}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+
+              {defaultChanges.length > 0 && (
+                <div>
+                  <h3 className="font-medium text-gray-900 mb-1">Budget Default and Rate Changes</h3>
+                  <p className="text-sm text-gray-600">{defaultChanges.join(', ')}</p>
+                </div>
+              )}
+
+              <p className="text-xs text-gray-500">
+                Custom item prices and add-on overrides on this estimate are kept. Save the estimate to keep the new prices.
+              </p>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3 mt-6">
+            <button className="btn-secondary" onClick={onClose}>Cancel</button>
+            <button className="btn-primary" onClick={onApply} disabled={!hasChanges}>
+              Apply New Prices
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
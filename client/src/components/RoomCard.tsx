@@ -1,4 +1,4 @@
-import type { RoomWithItems } from '../types';
+import type { CurrencyCode, RoomWithItems } from '../types';
 import { formatCurrency } from '../utils/calculations';
 
 interface RoomCardProps {
@@ -8,6 +8,7 @@ interface RoomCardProps {
     low: number;
     mid: number;
   };
+  currency?: CurrencyCode;
   onToggle: () => void;
   onSizeChange: (size: 'small' | 'medium' | 'large') => void;
   onQuantityChange: (quantity: number) => void;
@@ -17,6 +18,7 @@ export default function RoomCard({
   room,
   isSelected,
   priceRange,
+  currency,
   onToggle,
   onSizeChange,
   onQuantityChange,
@@ -39,7 +41,7 @@ export default function RoomCard({
             </h3>
             {isSelected && (
               <div className="mt-4 text-sm text-gray-600">
-                Low: {formatCurrency(priceRange.low)} — Mid: {formatCurrency(priceRange.mid)}
+                Low: {formatCurrency(priceRange.low, currency)} — Mid: {formatCurrency(priceRange.mid, currency)}
               </div>
             )}
           </div>
@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import type { Estimate } from '../types';
+import { useProjectTemplatesStore } from '../store/projectTemplatesStore';
+import { buildProjectTemplate, summarizeProjectTemplate } from '../utils/estimateTemplates';
+
+interface SaveProjectTemplateModalProps {
+  estimate: Estimate;
+  createdBy?: string;
+  onClose: () => void;
+}
+
+export default function SaveProjectTemplateModal({ estimate, createdBy, onClose }: SaveProjectTemplateModalProps) {
+  const createTemplate = useProjectTemplatesStore(state => state.createTemplate);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const draft = buildProjectTemplate(estimate, name, description, createdBy);
+
+  const handleSave = async () => {
+    if (!draft.name) {
+      setError('Give the template a name.');
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await createTemplate(draft);
+      onClose();
+    } catch (saveError) {
+      console.error('Error saving project template:', saveError);
+      setError('Failed to save the template. Please try again.');
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-lg w-full">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Save as Project Template</h2>
+              <p className="text-sm text-gray-500">{summarizeProjectTemplate(draft)}</p>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              ✕
+            </button>
+          </div>
+
+          <p className="text-sm text-gray-600 mb-4">
+            The property size and room layout become a starting point on the budget estimator. Client details and pricing overrides are not included.
+          </p>
+
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="template-name" className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                id="template-name"
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. 6BR mountain cabin"
+                className="w-full p-2 border border-gray-300 rounded text-sm"
+              />
+            </div>
+            <div>
+              <label htmlFor="template-description" className="block text-sm font-medium text-gray-700 mb-1">Description (optional)</label>
+              <textarea
+                id="template-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={2}
+                className="w-full p-2 border border-gray-300 rounded text-sm"
+              />
+            </div>
+          </div>
+
+          {error && <div className="mt-3 text-sm text-red-600">{error}</div>}
+
+          <div className="flex justify-end gap-2 mt-6">
+            <button onClick={onClose} className="btn-secondary" disabled={saving}>
+              Cancel
+            </button>
+            <button onClick={() => void handleSave()} className="btn-primary" disabled={saving}>
+              {saving ? 'Saving...' : 'Save Template'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { useCallback, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import type { Estimate } from '../types';
+import { duplicateEstimate } from '../services/estimateDuplicates';
+
+/**
+ * Duplicate an estimate into a draft owned by the current user, then open it
+ * (in the editor for admins, who are the only ones who can edit)
+ */
+export function useDuplicateEstimate() {
+  const navigate = useNavigate();
+  const { firebaseUser, isAdmin } = useAuth();
+  const [duplicatingId, setDuplicatingId] = useState<string | null>(null);
+
+  const duplicate = useCallback(async (estimate: Estimate) => {
+    if (!firebaseUser) return;
+    setDuplicatingId(estimate.id);
+    try {
+      const newEstimateId = await duplicateEstimate(estimate, firebaseUser.uid);
+      navigate(`/tools/budget-estimator/estimate/${isAdmin ? 'edit' : 'view'}/${newEstimateId}`);
+    } catch (error) {
+      console.error('Error duplicating estimate:', error);
+      alert('Failed to duplicate the estimate. Please try again.');
+    } finally {
+      setDuplicatingId(null);
+    }
+  }, [firebaseUser, isAdmin, navigate]);
+
+  return { duplicate, duplicatingId } as const;
+}
@@ -1,10 +1,23 @@
 // Hook for estimate editing functionality
-import { useState, useEffect, useCallback } from 'react';
-import { collection, getDocs, doc, updateDoc, setDoc, query, orderBy, limit, serverTimestamp, where, QueryConstraint } from 'firebase/firestore';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { collection, getDocs, doc, writeBatch, query, orderBy, limit, serverTimestamp, where, deleteField, QueryConstraint } from 'firebase/firestore';
 import { db } from '../lib/firebase';
 import { useRoomTemplates } from './useRoomTemplates';
-import type { Estimate, RoomWithItems, EditHistoryEntry } from '../types';
+import type { Estimate, RoomWithItems, EstimateVersion, EstimateVersionSnapshot } from '../types';
 import { calculateEstimate, createOutdoorSpaceRoom } from '../utils/calculations';
+import { extendPriceSnapshot } from '../utils/priceSnapshot';
+import { parseStatusHistory } from '../utils/estimateStatus';
+import { applyVersionSnapshot, diffEstimates, getVersionSnapshot } from '../utils/estimateVersions';
+import {
+  PRIMARY_VARIANT_ID,
+  addEstimateVariant,
+  closeEstimateVariant,
+  getEstimateVariants,
+  openEstimateVariant,
+  removeEstimateVariant,
+  renameEstimateVariant,
+} from '../utils/estimateVariants';
+import { addEstimateVersionsToBatch, createEstimateRevision } from '../services/estimateVersions';
 import { useAuth } from '../context/AuthContext';
 
 /**
@@ -95,10 +108,18 @@ export function useEstimateEditing() {
           updatedAt: docData.updatedAt?.toDate ? docData.updatedAt.toDate() : docData.updatedAt,
           submittedAt: docData.submittedAt?.toDate ? docData.submittedAt.toDate() : docData.submittedAt,
           lastViewedAt: docData.lastViewedAt?.toDate ? docData.lastViewedAt.toDate() : docData.lastViewedAt,
+          statusChangedAt: docData.statusChangedAt?.toDate ? docData.statusChangedAt.toDate() : docData.statusChangedAt,
+          statusHistory: parseStatusHistory(docData.statusHistory),
           editHistory: docData.editHistory?.map((entry: any) => ({
             ...entry,
             timestamp: entry.timestamp?.toDate ? entry.timestamp.toDate() : entry.timestamp
-          }))
+          })),
+          ...(docData.priceSnapshot ? {
+            priceSnapshot: {
+              ...docData.priceSnapshot,
+              capturedAt: docData.priceSnapshot.capturedAt?.toDate ? docData.priceSnapshot.capturedAt.toDate() : docData.priceSnapshot.capturedAt
+            }
+          } : {})
         } as unknown as Estimate);
       });
 
@@ -111,36 +132,55 @@ export function useEstimateEditing() {
     }
   }, [roomTemplates, firebaseUser, isAdmin, authLoading]);
 
-  // Update estimate in Firestore
+  // Update estimate in Firestore. Fields set to undefined are removed from the document.
   const updateEstimate = useCallback(async (estimateId: string, updates: Partial<Estimate>) => {
     try {
       const estimateRef = doc(db, 'estimates', estimateId);
-
-      // Add edit history entry
-      const editHistoryEntry: EditHistoryEntry = {
-        timestamp: new Date(),
-        action: 'room_items_modified' as const,
-        details: { updatedFields: Object.keys(updates) }
-      };
+      const previous = estimates.find(estimate => estimate.id === estimateId);
+      const editedBy = firebaseUser?.email ?? undefined;
+      const savedAt = new Date();
+
+      // Record a field-level diff and store the saved state as a version
+      const changes = previous ? diffEstimates(previous, { ...previous, ...updates }, items) : [];
+      let versions: EstimateVersion[] = [];
+      let editHistory = updates.editHistory ?? previous?.editHistory ?? [];
+
+      if (previous && changes.length > 0) {
+        const revision = createEstimateRevision(previous, { ...previous, ...updates }, changes, { savedAt, editedBy });
+        versions = revision.versions;
+        editHistory = [...editHistory, revision.entry];
+      }
 
       const updateData = {
-        ...updates,
+        ...Object.fromEntries(
+          Object.entries(updates).map(([key, value]) => [key, value === undefined ? deleteField() : value])
+        ),
         updatedAt: serverTimestamp(),
         lastEditedAt: serverTimestamp(),
-        editHistory: [
-          ...(updates.editHistory || []),
-          editHistoryEntry
-        ]
+        ...(editedBy ? { lastEditedBy: editedBy } : {}),
+        editHistory
+      };
+
+      // The estimate and its versions are committed together, so edit history never points at a missing version
+      const commitUpdate = async (createDocument: boolean) => {
+        const batch = writeBatch(db);
+        if (createDocument) {
+          batch.set(estimateRef, updateData);
+        } else {
+          batch.update(estimateRef, updateData);
+        }
+        addEstimateVersionsToBatch(batch, estimateId, versions);
+        await batch.commit();
       };
 
       try {
         // Try to update the document first
-        await updateDoc(estimateRef, updateData);
+        await commitUpdate(false);
       } catch (updateErr: any) {
         // If the document doesn't exist, create it
         if (updateErr?.message?.includes('No document to update')) {
           console.log('Document does not exist, creating new document');
-          await setDoc(estimateRef, updateData);
+          await commitUpdate(true);
         } else {
           throw updateErr;
         }
@@ -150,7 +190,7 @@ export function useEstimateEditing() {
       setEstimates(prev =>
         prev.map(estimate =>
           estimate.id === estimateId
-            ? { ...estimate, ...updates, updatedAt: new Date() }
+            ? { ...estimate, ...updates, editHistory, updatedAt: savedAt }
             : estimate
         )
       );
@@ -161,7 +201,7 @@ export function useEstimateEditing() {
       setError(err instanceof Error ? err.message : 'Failed to update estimate');
       return false;
     }
-  }, [isAdmin, firebaseUser]);
+  }, [estimates, items, firebaseUser]);
 
   useEffect(() => {
     loadEstimates();
@@ -178,17 +218,26 @@ export function useEstimateEditing() {
   };
 }
 
+// An undo step: the estimate with the scenario being edited loaded into its rooms and add-ons
+interface EditorState {
+  estimate: Estimate;
+  variantId: string;
+}
+
 /**
  * Hook for managing a single estimate in editing mode
  */
 export function useEstimateEditor(estimateId?: string) {
   const [estimate, setEstimate] = useState<Estimate | null>(null);
+  const [activeVariantId, setActiveVariantId] = useState(PRIMARY_VARIANT_ID);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
-  const [history, setHistory] = useState<Estimate[]>([]);
+  const [history, setHistory] = useState<EditorState[]>([]);
   const [historyIndex, setHistoryIndex] = useState(-1);
   const { estimates, updateEstimate, roomTemplates, items } = useEstimateEditing();
+  // Keeps the open scenario when a save reloads the estimate
+  const activeVariantRef = useRef(PRIMARY_VARIANT_ID);
 
   // Load specific estimate for editing
   useEffect(() => {
@@ -215,9 +264,15 @@ export function useEstimateEditor(estimateId?: string) {
         }
       }
       
-      setEstimate(processedEstimate);
+      const variantId = getEstimateVariants(processedEstimate).some(variant => variant.id === activeVariantRef.current)
+        ? activeVariantRef.current
+        : PRIMARY_VARIANT_ID;
+      const openedEstimate = openEstimateVariant(processedEstimate, variantId);
+      activeVariantRef.current = variantId;
+      setActiveVariantId(variantId);
+      setEstimate(openedEstimate);
       // Initialize history with the processed estimate
-      setHistory([processedEstimate]);
+      setHistory([{ estimate: openedEstimate, variantId }]);
       setHistoryIndex(0);
       setHasUnsavedChanges(false);
       setLoading(false);
@@ -228,18 +283,18 @@ export function useEstimateEditor(estimateId?: string) {
   }, [estimateId, estimates]);
 
   // Add change to history
-  const addToHistory = useCallback((newEstimate: Estimate) => {
+  const addToHistory = useCallback((newEstimate: Estimate, variantId: string = activeVariantId) => {
     setHistory(prev => {
       // Remove any history after current index (when undoing)
       const newHistory = prev.slice(0, historyIndex + 1);
       // Add new state
-      newHistory.push(newEstimate);
+      newHistory.push({ estimate: newEstimate, variantId });
       // Keep only last 10 states for memory management
       return newHistory.slice(-10);
     });
     setHistoryIndex(prev => Math.min(prev + 1, 9));
     setHasUnsavedChanges(true);
-  }, [historyIndex]);
+  }, [historyIndex, activeVariantId]);
 
   // Update room in estimate
   const updateRoom = useCallback((roomIndex: number, updatedRoom: RoomWithItems) => {
@@ -252,15 +307,7 @@ export function useEstimateEditor(estimateId?: string) {
       ...estimate,
       rooms: updatedRooms,
       budget: calculateEstimate(updatedRooms, roomTemplates, items),
-      lastEditedAt: new Date(),
-      editHistory: [
-        ...(estimate.editHistory || []),
-        {
-          timestamp: new Date(),
-          action: 'room_items_modified' as const,
-          details: { roomIndex, change: 'room_updated' }
-        }
-      ]
+      lastEditedAt: new Date()
     };
 
     setEstimate(updatedEstimate);
@@ -276,15 +323,7 @@ export function useEstimateEditor(estimateId?: string) {
       ...estimate,
       rooms: updatedRooms,
       budget: calculateEstimate(updatedRooms, roomTemplates, items),
-      lastEditedAt: new Date(),
-      editHistory: [
-        ...(estimate.editHistory || []),
-        {
-          timestamp: new Date(),
-          action: 'room_added' as const,
-          details: { roomType: newRoom.roomType, roomSize: newRoom.roomSize }
-        }
-      ]
+      lastEditedAt: new Date()
     };
 
     setEstimate(updatedEstimate);
@@ -300,15 +339,7 @@ export function useEstimateEditor(estimateId?: string) {
       ...estimate,
       rooms: updatedRooms,
       budget: calculateEstimate(updatedRooms, roomTemplates, items),
-      lastEditedAt: new Date(),
-      editHistory: [
-        ...(estimate.editHistory || []),
-        {
-          timestamp: new Date(),
-          action: 'room_removed' as const,
-          details: { roomIndex, roomType: estimate.rooms[roomIndex]?.roomType }
-        }
-      ]
+      lastEditedAt: new Date()
     };
 
     setEstimate(updatedEstimate);
@@ -320,7 +351,9 @@ export function useEstimateEditor(estimateId?: string) {
     if (historyIndex > 0) {
       const previousIndex = historyIndex - 1;
       setHistoryIndex(previousIndex);
-      setEstimate(history[previousIndex]);
+      setEstimate(history[previousIndex].estimate);
+      activeVariantRef.current = history[previousIndex].variantId;
+      setActiveVariantId(history[previousIndex].variantId);
       setHasUnsavedChanges(true);
     }
   }, [history, historyIndex]);
@@ -330,7 +363,9 @@ export function useEstimateEditor(estimateId?: string) {
     if (historyIndex < history.length - 1) {
       const nextIndex = historyIndex + 1;
       setHistoryIndex(nextIndex);
-      setEstimate(history[nextIndex]);
+      setEstimate(history[nextIndex].estimate);
+      activeVariantRef.current = history[nextIndex].variantId;
+      setActiveVariantId(history[nextIndex].variantId);
       setHasUnsavedChanges(true);
     }
   }, [history, historyIndex]);
@@ -343,18 +378,17 @@ export function useEstimateEditor(estimateId?: string) {
   const saveChanges = useCallback(async () => {
     if (!estimate || !hasUnsavedChanges) return false;
 
+    const savedEstimate = closeEstimateVariant(estimate, activeVariantId);
+    // Every editable field is sent, so fields cleared since the last save (e.g. by restoring a version) are removed
     const updates: Partial<Estimate> = {
-      rooms: estimate.rooms,
-      lastEditedAt: new Date(),
-      editHistory: estimate.editHistory,
-      customRangeEnabled: estimate.customRangeEnabled,
-      customRangeLowPercent: estimate.customRangeLowPercent,
-      customRangeHighPercent: estimate.customRangeHighPercent
+      ...getVersionSnapshot(savedEstimate),
+      lastEditedAt: new Date()
     };
 
-    // Only include customProjectAddOns if it is defined to avoid sending `undefined` to Firestore
-    if (estimate.customProjectAddOns !== undefined) {
-      updates.customProjectAddOns = estimate.customProjectAddOns;
+    // Items added since submission are frozen at the prices they were added at
+    if (savedEstimate.priceSnapshot) {
+      const allRooms = getEstimateVariants(savedEstimate).flatMap(variant => variant.rooms);
+      updates.priceSnapshot = extendPriceSnapshot(savedEstimate.priceSnapshot, allRooms, items);
     }
 
     const success = await updateEstimate(estimate.id, updates);
@@ -364,7 +398,7 @@ export function useEstimateEditor(estimateId?: string) {
     }
 
     return success;
-  }, [estimate, hasUnsavedChanges, updateEstimate]);
+  }, [estimate, activeVariantId, hasUnsavedChanges, updateEstimate, items]);
 
   // Update estimate settings (like custom range)
   const updateEstimateSettings = useCallback((updates: Partial<Estimate>) => {
@@ -373,21 +407,68 @@ export function useEstimateEditor(estimateId?: string) {
     const updatedEstimate = {
       ...estimate,
       ...updates,
-      lastEditedAt: new Date(),
-      editHistory: [
-        ...(estimate.editHistory || []),
-        {
-          timestamp: new Date(),
-          action: 'room_items_modified' as const,
-          details: { updatedFields: Object.keys(updates) }
-        }
-      ]
+      lastEditedAt: new Date()
     };
 
     setEstimate(updatedEstimate);
     addToHistory(updatedEstimate);
   }, [estimate, addToHistory]);
 
+  // Load a stored version into the editor; it is saved (and can be undone) like any other edit
+  const restoreVersion = useCallback((snapshot: EstimateVersionSnapshot) => {
+    if (!estimate) return;
+
+    const restoredEstimate = {
+      ...openEstimateVariant(applyVersionSnapshot(estimate, snapshot), PRIMARY_VARIANT_ID),
+      budget: calculateEstimate(snapshot.rooms, roomTemplates, items),
+      lastEditedAt: new Date()
+    };
+
+    activeVariantRef.current = PRIMARY_VARIANT_ID;
+    setActiveVariantId(PRIMARY_VARIANT_ID);
+    setEstimate(restoredEstimate);
+    addToHistory(restoredEstimate, PRIMARY_VARIANT_ID);
+  }, [estimate, roomTemplates, items, addToHistory]);
+
+  // Open a scenario of the estimate (given in its saved shape) for editing
+  const openVariant = useCallback((savedEstimate: Estimate, variantId: string, recordHistory = true) => {
+    const updatedEstimate = openEstimateVariant(savedEstimate, variantId);
+    activeVariantRef.current = variantId;
+    setActiveVariantId(variantId);
+    setEstimate(updatedEstimate);
+    if (recordHistory) {
+      addToHistory(updatedEstimate, variantId);
+    } else {
+      // Switching scenarios changes nothing, so it replaces the current undo step instead of adding one
+      setHistory(prev => prev.map((entry, index) => (index === historyIndex ? { estimate: updatedEstimate, variantId } : entry)));
+    }
+  }, [addToHistory, historyIndex]);
+
+  const switchVariant = useCallback((variantId: string) => {
+    if (!estimate || variantId === activeVariantId) return;
+    openVariant(closeEstimateVariant(estimate, activeVariantId), variantId, false);
+  }, [estimate, activeVariantId, openVariant]);
+
+  // New scenarios start as a copy of the one being edited
+  const addVariant = useCallback((name: string) => {
+    if (!estimate) return;
+    const added = addEstimateVariant(closeEstimateVariant(estimate, activeVariantId), name, activeVariantId);
+    openVariant(added.estimate, added.variantId);
+  }, [estimate, activeVariantId, openVariant]);
+
+  const renameVariant = useCallback((variantId: string, name: string) => {
+    if (!estimate) return;
+    openVariant(renameEstimateVariant(closeEstimateVariant(estimate, activeVariantId), variantId, name), activeVariantId);
+  }, [estimate, activeVariantId, openVariant]);
+
+  const removeVariant = useCallback((variantId: string) => {
+    if (!estimate || variantId === PRIMARY_VARIANT_ID) return;
+    openVariant(
+      removeEstimateVariant(closeEstimateVariant(estimate, activeVariantId), variantId),
+      variantId === activeVariantId ? PRIMARY_VARIANT_ID : activeVariantId
+    );
+  }, [estimate, activeVariantId, openVariant]);
+
   return {
     estimate,
     loading,
@@ -401,6 +482,12 @@ export function useEstimateEditor(estimateId?: string) {
     saveChanges,
     undo,
     redo,
+    restoreVersion,
+    activeVariantId,
+    switchVariant,
+    addVariant,
+    renameVariant,
+    removeVariant,
     updateEstimate: updateEstimateSettings
   };
 }
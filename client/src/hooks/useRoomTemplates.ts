@@ -53,6 +53,7 @@ async function loadRoomTemplatesFromFirestore(): Promise<{ templates: Map<string
         highPrice: docData.highPrice,
         unit: docData.unit,
         notes: docData.notes,
+        vendorSkus: docData.vendorSkus,
         createdAt: docData.createdAt?.toDate ? docData.createdAt.toDate() : docData.createdAt,
         updatedAt: docData.updatedAt?.toDate ? docData.updatedAt.toDate() : docData.updatedAt,
       } as Item);
@@ -1,26 +1,36 @@
 import { useState, useEffect, useMemo } from 'react';
-import type { BudgetDefaults } from '../types';
+import type { BudgetDefaults, CurrencyCode } from '../types';
 import { collection, getDocs, query, orderBy, doc, updateDoc, deleteDoc, getDoc, setDoc } from 'firebase/firestore';
 import { db } from '../lib/firebase';
 import { Link } from 'react-router-dom';
-import type { RoomTemplate, Item, RoomItem } from '../types';
+import type { RoomTemplate, Item, RoomItem, ItemVendorSku, QualityTier } from '../types';
+import { QUALITY_TIERS } from '../types';
 import type { AutoConfigRules, BedroomMixRule } from '../types/config';
 import { useBudgetDefaultsStore } from '../store/budgetDefaultsStore';
 import { formatCurrency } from '../utils/calculations';
 import { calculateBedroomCapacity } from '../utils/autoConfiguration';
-import { EditIcon, TrashIcon } from '../components/Icons';
-
-// Helper function to create slug from item name
-const createSlug = (name: string) => {
-  return name
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, '_')
-    .replace(/^_+|_+$/g, '');
-};
+import { RULE_BASED_ADD_ONS, getAddOnRule } from '../utils/addOnRules';
+import { getDesignFeePhases, validateDesignFeeSettings } from '../utils/designFees';
+import { BASE_CURRENCY, CURRENCIES, CURRENCY_CODES } from '../utils/currency';
+import { EditIcon, HistoryIcon, TrashIcon } from '../components/Icons';
+import ContingencyPolicyFields from '../components/ContingencyPolicyFields';
+import AddOnRuleFields from '../components/AddOnRuleFields';
+import DesignFeeSettings from '../components/DesignFeeSettings';
+import RegionalPricingTab from './admin/RegionalPricingTab';
+import CurrencyRatesTab from './admin/CurrencyRatesTab';
+import ItemImportWizard from './admin/ItemImportWizard';
+import ItemPriceHistoryModal from './admin/ItemPriceHistoryModal';
+import PriceChangesReport from './admin/PriceChangesReport';
+import VendorsPanel from './admin/VendorsPanel';
+import { useVendorsStore } from '../store/vendorsStore';
+import { createItemSlug, exportItemLibrary } from '../utils/itemImport';
+import { diffItemPrices } from '../utils/priceHistory';
+import { recordPriceChanges } from '../services/priceHistory';
+import { useAuth } from '../context/AuthContext';
 
 // Helper function to generate unique item ID from name
 async function generateItemId(itemName: string): Promise<string> {
-  const baseSlug = createSlug(itemName);
+  const baseSlug = createItemSlug(itemName);
   let itemId = baseSlug;
   let counter = 1;
 
@@ -45,16 +55,21 @@ async function saveAutoConfigRules(rules: AutoConfigRules): Promise<void> {
 }
 
 export default function AdminPage() {
+  const { profile } = useAuth();
   const [roomTemplates, setRoomTemplates] = useState<RoomTemplate[]>([]);
   const [items, setItems] = useState<Item[]>([]);
   const [autoConfigRules, setAutoConfigRules] = useState<AutoConfigRules | null>(null);
 
   // (removed unused roomTemplatesMap and itemsMap)
   const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'templates' | 'items' | 'autoconfig' | 'defaults'>('templates');
+  const [activeTab, setActiveTab] = useState<'templates' | 'items' | 'autoconfig' | 'defaults' | 'regions' | 'currency'>('templates');
   const [editingTemplate, setEditingTemplate] = useState<RoomTemplate | null>(null);
   const [editingItem, setEditingItem] = useState<Item | null>(null);
   const [showCreateItem, setShowCreateItem] = useState(false);
+  const [showImportItems, setShowImportItems] = useState(false);
+  const [priceHistoryItem, setPriceHistoryItem] = useState<Item | null>(null);
+  const [showPriceChanges, setShowPriceChanges] = useState(false);
+  const [showVendors, setShowVendors] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
   const [searchTerm, setSearchTerm] = useState<string>('');
   const [activeRoomSizeTab, setActiveRoomSizeTab] = useState<'small' | 'medium' | 'large' | ''>('');
@@ -79,6 +94,10 @@ export default function AdminPage() {
   const [inputValues, setInputValues] = useState<Record<string, string>>({});
   const [savingBudgetDefaults, setSavingBudgetDefaults] = useState(false);
   const [defaultsDirty, setDefaultsDirty] = useState(false);
+  const designFeeError = useMemo(
+    () => localDefaults ? validateDesignFeeSettings(getDesignFeePhases(localDefaults), localDefaults.designFeeRateBreaks) : null,
+    [localDefaults]
+  );
 
   useEffect(() => {
     loadDefaults();
@@ -90,7 +109,10 @@ export default function AdminPage() {
       const newValues: Record<string, string> = {};
       for (const key in defaults) {
         const k = key as keyof BudgetDefaults;
-        const dollarValue = (defaults[k] ?? 0) / 100;
+        const value = defaults[k];
+        // Only the flat cost fields are edited as dollar inputs
+        if (typeof value !== 'number') continue;
+        const dollarValue = value / 100;
         const isCentsAllowed = key === 'designFeeRatePerSqftCents';
         newValues[k] = isCentsAllowed ? dollarValue.toFixed(2) : dollarValue.toString();
       }
@@ -313,7 +335,7 @@ export default function AdminPage() {
   };
 
   // Function to update an existing item
-  const updateItem = async (itemId: string, updates: Partial<Item>) => {
+  const updateItem = async (itemId: string, updates: Partial<Item>, priceChangeReason?: string) => {
     // Store original item for potential rollback
     const originalItem = items.find(item => item.id === itemId);
 
@@ -348,6 +370,19 @@ export default function AdminPage() {
       );
 
       setEditingItem(null);
+
+      // History is written after the item so a failure here never reverts the price change
+      const priceChanges = diffItemPrices(originalItem ?? {}, updates);
+      try {
+        await recordPriceChanges(itemId, priceChanges, {
+          itemName: updates.name ?? originalItem?.name ?? itemId,
+          changedBy: profile?.email,
+          reason: priceChangeReason,
+          source: 'manual',
+        });
+      } catch (historyError) {
+        console.error('Error recording price history:', historyError);
+      }
     } catch (error) {
       console.error('Error updating item:', error);
 
@@ -520,6 +555,26 @@ export default function AdminPage() {
             >
               💰 Budget Defaults
             </button>
+            <button
+              onClick={() => setActiveTab('regions')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'regions'
+                  ? 'border-primary-500 text-primary-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              🗺️ Regional Pricing
+            </button>
+            <button
+              onClick={() => setActiveTab('currency')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'currency'
+                  ? 'border-primary-500 text-primary-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              💱 Currency
+            </button>
           </nav>
         </div>
 
@@ -591,14 +646,51 @@ export default function AdminPage() {
                   }
                 </p>
               </div>
-              <button
-                onClick={() => setShowCreateItem(true)}
-                className="btn-primary"
-              >
-                + Create Item
-              </button>
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => exportItemLibrary(items, 'csv')}
+                  className="btn-secondary"
+                  disabled={items.length === 0}
+                >
+                  Export CSV
+                </button>
+                <button
+                  onClick={() => exportItemLibrary(items, 'xlsx')}
+                  className="btn-secondary"
+                  disabled={items.length === 0}
+                >
+                  Export XLSX
+                </button>
+                <button
+                  onClick={() => setShowImportItems(true)}
+                  className="btn-secondary"
+                >
+                  Import
+                </button>
+                <button
+                  onClick={() => setShowPriceChanges(!showPriceChanges)}
+                  className="btn-secondary"
+                >
+                  {showPriceChanges ? 'Hide Price Changes' : 'Price Changes'}
+                </button>
+                <button
+                  onClick={() => setShowVendors(!showVendors)}
+                  className="btn-secondary"
+                >
+                  {showVendors ? 'Hide Vendors' : 'Vendors'}
+                </button>
+                <button
+                  onClick={() => setShowCreateItem(true)}
+                  className="btn-primary"
+                >
+                  + Create Item
+                </button>
+              </div>
             </div>
 
+            {showPriceChanges && <PriceChangesReport />}
+            {showVendors && <VendorsPanel items={items} />}
+
             <div className="mb-6">
               <div className="flex flex-col sm:flex-row gap-4">
                 <div className="flex-1">
@@ -649,6 +741,13 @@ export default function AdminPage() {
                       >
                         <EditIcon />
                       </button>
+                      <button
+                        onClick={() => setPriceHistoryItem(item)}
+                        className="text-sm text-gray-600 hover:text-gray-800 p-1"
+                        title="Price History"
+                      >
+                        <HistoryIcon />
+                      </button>
                       <button
                         onClick={() => deleteItem(item.id)}
                         className="text-sm text-red-600 hover:text-red-800 p-1"
@@ -1731,13 +1830,49 @@ export default function AdminPage() {
             ) : localDefaults ? (
               <div className="card">
                 <div className="space-y-6">
+                  <div>
+                    <label htmlFor="defaultCurrencySelect" className="block text-sm font-medium text-gray-700 mb-2">
+                      Currency for New Estimates
+                    </label>
+                    <select
+                      id="defaultCurrencySelect"
+                      value={localDefaults.currency ?? BASE_CURRENCY}
+                      onChange={(e) => {
+                        const currency = e.target.value as CurrencyCode;
+                        setLocalDefaults((prev) => prev ? { ...prev, currency } : prev);
+                        setDefaultsDirty(true);
+                      }}
+                      className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    >
+                      {CURRENCY_CODES.map((code) => (
+                        <option key={code} value={code}>
+                          {code} — {CURRENCIES[code].name}
+                        </option>
+                      ))}
+                    </select>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Amounts below are always entered in {BASE_CURRENCY} and converted using the currency rates.
+                    </p>
+                  </div>
+
                   <div className="grid gap-6">
+                    {RULE_BASED_ADD_ONS.map(({ key, label, legacyField }) => (
+                      <AddOnRuleFields
+                        key={key}
+                        label={label}
+                        rule={getAddOnRule(localDefaults, key)}
+                        onChange={(rule) => {
+                          setLocalDefaults((prev) => prev ? {
+                            ...prev,
+                            // Mirror flat rules into the legacy field for clients that predate rules
+                            ...(rule.basis === 'flat' ? { [legacyField]: rule.amountCents ?? 0 } : {}),
+                            addOnRules: { ...prev.addOnRules, [key]: rule },
+                          } : prev);
+                          setDefaultsDirty(true);
+                        }}
+                      />
+                    ))}
                     {[
-                      { key: 'installationCents', label: 'Installation', prefix: '$', allowCents: false },
-                      { key: 'kitchenCents', label: 'Kitchen Setup', prefix: '$', allowCents: false },
-                      { key: 'fuelCents', label: 'Fuel', prefix: '$', allowCents: false },
-                      { key: 'propertyManagementCents', label: 'Property Management', prefix: '$', allowCents: false },
-                      { key: 'storageAndReceivingCents', label: 'Storage & Receiving', prefix: '$', allowCents: false },
                       { key: 'designFeeRatePerSqftCents', label: 'Design Fee', prefix: '$/sqft', allowCents: true },
                     ].map(({ key, label, prefix, allowCents }) => {
                       return (
@@ -1798,6 +1933,32 @@ export default function AdminPage() {
                     })}
                   </div>
 
+                  <div className="pt-6 border-t border-gray-200">
+                    <DesignFeeSettings
+                      phases={getDesignFeePhases(localDefaults)}
+                      rateBreaks={localDefaults.designFeeRateBreaks ?? []}
+                      error={designFeeError}
+                      onPhasesChange={(designFeePhases) => {
+                        setLocalDefaults((prev) => prev ? { ...prev, designFeePhases } : prev);
+                        setDefaultsDirty(true);
+                      }}
+                      onRateBreaksChange={(designFeeRateBreaks) => {
+                        setLocalDefaults((prev) => prev ? { ...prev, designFeeRateBreaks } : prev);
+                        setDefaultsDirty(true);
+                      }}
+                    />
+                  </div>
+
+                  <div className="pt-6 border-t border-gray-200">
+                    <ContingencyPolicyFields
+                      policy={localDefaults.contingency ?? { mode: 'none' }}
+                      onChange={(contingency) => {
+                        setLocalDefaults((prev) => prev ? { ...prev, contingency } : prev);
+                        setDefaultsDirty(true);
+                      }}
+                    />
+                  </div>
+
                   {defaultsError && (
                     <div className="text-sm text-red-600">{defaultsError}</div>
                   )}
@@ -1811,7 +1972,9 @@ export default function AdminPage() {
                           const newValues: Record<string, string> = {};
                           for (const key in defaults) {
                             const k = key as keyof BudgetDefaults;
-                            const dollarValue = (defaults[k] ?? 0) / 100;
+                            const value = defaults[k];
+                            if (typeof value !== 'number') continue;
+                            const dollarValue = value / 100;
                             const isCentsAllowed = key === 'designFeeRatePerSqftCents';
                             newValues[k] = isCentsAllowed ? dollarValue.toFixed(2) : dollarValue.toString();
                           }
@@ -1839,7 +2002,7 @@ export default function AdminPage() {
                           setSavingBudgetDefaults(false);
                         }
                       }}
-                      disabled={!defaultsDirty || savingBudgetDefaults}
+                      disabled={!defaultsDirty || savingBudgetDefaults || !!designFeeError}
                     >
                       {savingBudgetDefaults ? 'Saving...' : 'Save'}
                     </button>
@@ -1861,6 +2024,10 @@ export default function AdminPage() {
             )}
           </div>
         )}
+
+        {activeTab === 'regions' && <RegionalPricingTab />}
+
+        {activeTab === 'currency' && <CurrencyRatesTab />}
       </main>
 
       {/* Edit Template Modal */}
@@ -2251,6 +2418,30 @@ export default function AdminPage() {
         </div>
       )}
 
+      {/* Import Items Wizard */}
+      {showImportItems && (
+        <ItemImportWizard
+          items={items}
+          changedBy={profile?.email}
+          onClose={() => setShowImportItems(false)}
+          onImported={(savedItems) => {
+            const savedById = new Map(savedItems.map(item => [item.id, item]));
+            setItems(prev => [
+              ...prev.map(item => savedById.get(item.id) ?? item),
+              ...savedItems.filter(item => !prev.some(existing => existing.id === item.id)),
+            ]);
+          }}
+        />
+      )}
+
+      {/* Item Price History Modal */}
+      {priceHistoryItem && (
+        <ItemPriceHistoryModal
+          item={priceHistoryItem}
+          onClose={() => setPriceHistoryItem(null)}
+        />
+      )}
+
       {/* Edit Item Modal */}
       {editingItem && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -2270,7 +2461,7 @@ export default function AdminPage() {
 
               <ItemForm
                 item={editingItem}
-                onSubmit={(updates) => updateItem(editingItem.id, updates)}
+                onSubmit={(updates, priceChangeReason) => updateItem(editingItem.id, updates, priceChangeReason)}
                 onCancel={() => setEditingItem(null)}
               />
             </div>
@@ -2317,9 +2508,12 @@ function ItemForm({
   onCancel
 }: {
   item?: Item;
-  onSubmit: (data: any) => void;
+  onSubmit: (data: any, priceChangeReason?: string) => void;
   onCancel: () => void;
 }) {
+  const { vendors, loadVendors } = useVendorsStore();
+  const [priceChangeReason, setPriceChangeReason] = useState('');
+  const [vendorSkus, setVendorSkus] = useState<ItemVendorSku[]>(item?.vendorSkus ?? []);
   const [formData, setFormData] = useState({
     name: item?.name || '',
     category: item?.category || 'Furniture',
@@ -2343,9 +2537,26 @@ function ItemForm({
       midPrice: Math.round(formData.midPrice * 100),
       midHighPrice: Math.round(formData.midHighPrice * 100),
       highPrice: Math.round(formData.highPrice * 100),
+      // Drop rows without a vendor and blank SKU/link fields (Firestore rejects undefined)
+      vendorSkus: vendorSkus
+        .filter(row => row.vendorId)
+        .map(row => ({
+          vendorId: row.vendorId,
+          tier: row.tier,
+          ...(row.sku?.trim() ? { sku: row.sku.trim() } : {}),
+          ...(row.productUrl?.trim() ? { productUrl: row.productUrl.trim() } : {}),
+        })),
     };
 
-    onSubmit(submitData);
+    onSubmit(submitData, priceChangeReason.trim() || undefined);
+  };
+
+  useEffect(() => {
+    if (!vendors) void loadVendors();
+  }, [vendors, loadVendors]);
+
+  const updateVendorSku = (index: number, updates: Partial<ItemVendorSku>) => {
+    setVendorSkus(prev => prev.map((row, i) => (i === index ? { ...row, ...updates } : row)));
   };
 
   return (
@@ -2519,6 +2730,92 @@ function ItemForm({
         </div>
       </div>
 
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="block text-sm font-medium text-gray-700">
+            Vendor SKUs (Optional)
+          </label>
+          <button
+            type="button"
+            onClick={() => setVendorSkus(prev => [...prev, { vendorId: vendors?.[0]?.id ?? '', tier: 'mid' }])}
+            className="text-sm text-primary-600 hover:text-primary-800 disabled:text-gray-400"
+            disabled={!vendors || vendors.length === 0}
+          >
+            + Add SKU
+          </button>
+        </div>
+        {vendors && vendors.length === 0 && (
+          <p className="text-xs text-gray-500">Add vendors from the Vendors panel to link product SKUs.</p>
+        )}
+        <div className="space-y-2">
+          {vendorSkus.map((row, index) => (
+            <div key={index} className="grid grid-cols-12 gap-2 items-center">
+              <select
+                value={row.vendorId}
+                onChange={(e) => updateVendorSku(index, { vendorId: e.target.value })}
+                className="col-span-3 p-2 border border-gray-300 rounded text-sm"
+                aria-label="Vendor"
+              >
+                {!vendors?.some(vendor => vendor.id === row.vendorId) && (
+                  <option value={row.vendorId}>{row.vendorId || 'Select vendor'}</option>
+                )}
+                {vendors?.map(vendor => (
+                  <option key={vendor.id} value={vendor.id}>{vendor.name}</option>
+                ))}
+              </select>
+              <select
+                value={row.tier}
+                onChange={(e) => updateVendorSku(index, { tier: e.target.value as QualityTier })}
+                className="col-span-2 p-2 border border-gray-300 rounded text-sm"
+                aria-label="Tier"
+              >
+                {(Object.keys(QUALITY_TIERS) as QualityTier[]).map(tier => (
+                  <option key={tier} value={tier}>{QUALITY_TIERS[tier].name}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={row.sku ?? ''}
+                onChange={(e) => updateVendorSku(index, { sku: e.target.value })}
+                className="col-span-2 p-2 border border-gray-300 rounded text-sm"
+                placeholder="SKU"
+              />
+              <input
+                type="url"
+                value={row.productUrl ?? ''}
+                onChange={(e) => updateVendorSku(index, { productUrl: e.target.value })}
+                className="col-span-4 p-2 border border-gray-300 rounded text-sm"
+                placeholder="Product link"
+              />
+              <button
+                type="button"
+                onClick={() => setVendorSkus(prev => prev.filter((_, i) => i !== index))}
+                className="col-span-1 text-red-600 hover:text-red-800 p-1 justify-self-center"
+                title="Remove SKU"
+              >
+                <TrashIcon />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {item && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Reason for Price Change (Optional)
+          </label>
+          <input
+            type="text"
+            value={priceChangeReason}
+            onChange={(e) => setPriceChangeReason(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded"
+            placeholder="e.g., 2025 vendor price sheet"
+          />
+          <p className="text-xs text-gray-500 mt-1">Saved to the item's price history when any tier price changes.</p>
+        </div>
+      )}
+
       <div className="flex justify-end gap-3 pt-6 border-t">
         <button
           type="button"
@@ -0,0 +1,224 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { Download } from 'lucide-react';
+import Header from '../components/Header';
+import type { Estimate, Item, QualityTier, RoomTemplate } from '../types';
+import { QUALITY_TIERS } from '../types';
+import { useRoomTemplates } from '../hooks/useRoomTemplates';
+import { useBackDestination } from '../hooks/useBackDestination';
+import { useBudgetDefaultsStore } from '../store/budgetDefaultsStore';
+import { useRegionalPricingStore } from '../store/regionalPricingStore';
+import { useCurrencyRatesStore } from '../store/currencyRatesStore';
+import { fetchEstimatesByIds } from '../services/estimates';
+import { calculateEstimate, formatCurrency, getEstimateCalculationOptions } from '../utils/calculations';
+import { applyPriceSnapshot } from '../utils/priceSnapshot';
+import { buildEstimateComparison, getComparisonColumnLabel, parseCompareIds } from '../utils/estimateComparison';
+import type { ComparedEstimate } from '../utils/estimateComparison';
+import { buildComparisonPDF, downloadPDF } from '../utils/pdfGenerator';
+
+interface LoadedEstimates {
+  key: string; // The ids the estimates were loaded for
+  estimates: Estimate[];
+}
+
+const optionLabel = (index: number) => `Option ${String.fromCharCode(65 + index)}`;
+
+export default function EstimateComparePage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { href: backHref } = useBackDestination('/tools/reports');
+  const ids = useMemo(() => parseCompareIds(`?${searchParams.toString()}`), [searchParams]);
+  const idsKey = ids.join(',');
+  const [loaded, setLoaded] = useState<LoadedEstimates | null>(null);
+  const [tier, setTier] = useState<QualityTier>('mid');
+
+  const { roomTemplates, items, loading: templatesLoading } = useRoomTemplates();
+  const { defaults: budgetDefaults, loadDefaults } = useBudgetDefaultsStore();
+  const { config: regionalPricing, loadConfig: loadRegionalPricing } = useRegionalPricingStore();
+  const { rates: currencyRates, loadRates: loadCurrencyRates } = useCurrencyRatesStore();
+
+  useEffect(() => {
+    if (!budgetDefaults) {
+      void loadDefaults();
+    }
+  }, [budgetDefaults, loadDefaults]);
+
+  useEffect(() => {
+    if (!regionalPricing) {
+      void loadRegionalPricing();
+    }
+  }, [regionalPricing, loadRegionalPricing]);
+
+  useEffect(() => {
+    if (!currencyRates) {
+      void loadCurrencyRates();
+    }
+  }, [currencyRates, loadCurrencyRates]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchEstimatesByIds(idsKey ? idsKey.split(',') : [])
+      .then((estimates) => {
+        if (!cancelled) setLoaded({ key: idsKey, estimates });
+      })
+      .catch((error) => {
+        console.error('Error loading estimates to compare:', error);
+        if (!cancelled) setLoaded({ key: idsKey, estimates: [] });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [idsKey]);
+
+  const roomTemplatesMap = useMemo(() => {
+    const map = new Map<string, RoomTemplate>();
+    roomTemplates.forEach(template => map.set(template.id, template));
+    return map;
+  }, [roomTemplates]);
+
+  const itemsMap = useMemo(() => {
+    const map = new Map<string, Item>();
+    items.forEach(item => map.set(item.id, item));
+    return map;
+  }, [items]);
+
+  const estimates = loaded?.key === idsKey ? loaded.estimates : null;
+
+  // Each estimate is priced the same way as its view page: from its own snapshot and settings
+  const compared: ComparedEstimate[] = useMemo(() => (estimates ?? [])
+    .filter(estimate => estimate.rooms.length > 0)
+    .map(estimate => ({
+      estimate,
+      budget: calculateEstimate(
+        estimate.rooms,
+        roomTemplatesMap,
+        applyPriceSnapshot(itemsMap, estimate.priceSnapshot),
+        getEstimateCalculationOptions(estimate, budgetDefaults, regionalPricing, currencyRates)
+      ),
+    })), [estimates, roomTemplatesMap, itemsMap, budgetDefaults, regionalPricing, currencyRates]);
+
+  const comparison = useMemo(() => buildEstimateComparison(compared, tier), [compared, tier]);
+
+  const handleRemove = (estimateId: string) => {
+    const remaining = ids.filter(id => id !== estimateId);
+    navigate(`/tools/budget-estimator/compare?ids=${remaining.join(',')}`, { replace: true });
+  };
+
+  const handleExportPDF = () => {
+    try {
+      const blob = buildComparisonPDF(compared, comparison).output('blob');
+      downloadPDF(blob, `Budget_Comparison_${new Date().toISOString().split('T')[0]}.pdf`);
+    } catch (error) {
+      console.error('Error generating comparison PDF:', error);
+      alert('Failed to generate PDF. Please try again.');
+    }
+  };
+
+  const loading = estimates === null || templatesLoading;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+          <div className="flex items-center gap-4">
+            <Link to={backHref} className="btn-secondary">← Back</Link>
+            <h1 className="text-2xl font-bold text-gray-900">Compare Estimates</h1>
+          </div>
+          <div className="flex items-center gap-3">
+            <label htmlFor="compare-tier" className="text-sm font-medium text-gray-700">Rooms & add-ons at</label>
+            <select
+              id="compare-tier"
+              value={tier}
+              onChange={(e) => setTier(e.target.value as QualityTier)}
+              className="px-2 py-2 bg-white border border-gray-300 rounded-lg text-sm text-gray-700"
+            >
+              {(Object.keys(QUALITY_TIERS) as QualityTier[]).map(option => (
+                <option key={option} value={option}>{QUALITY_TIERS[option].name}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleExportPDF}
+              disabled={compared.length < 2}
+              className="flex items-center gap-2 px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download className="w-4 h-4" />
+              Download PDF
+            </button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="text-gray-600">Loading estimates…</div>
+        ) : compared.length < 2 ? (
+          <div className="card">
+            Select at least two estimates to compare from the estimates report.
+            {ids.length > compared.length && ' Some of the requested estimates could not be found or have no rooms.'}
+          </div>
+        ) : (
+          <div className="card overflow-x-auto">
+            {comparison.mixedCurrencies && (
+              <div className="mb-4 p-3 rounded bg-yellow-50 border border-yellow-200 text-sm text-yellow-800">
+                These estimates are quoted in different currencies, so differences are only shown between estimates in the same currency as Option A.
+              </div>
+            )}
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-2 pr-4 font-medium text-gray-500 w-1/4"></th>
+                  {compared.map(({ estimate }, index) => (
+                    <th key={estimate.id} className="text-right py-2 px-3 align-bottom">
+                      <div className="font-semibold text-gray-900">{optionLabel(index)}</div>
+                      <Link to={`/tools/budget-estimator/estimate/view/${estimate.id}`} className="text-xs font-normal text-primary-600 hover:text-primary-800">
+                        {getComparisonColumnLabel(estimate)}
+                      </Link>
+                      {compared.length > 2 && (
+                        <button onClick={() => handleRemove(estimate.id)} className="block ml-auto text-xs font-normal text-gray-400 hover:text-red-600">
+                          Remove
+                        </button>
+                      )}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              {comparison.sections.map(section => (
+                <tbody key={section.id}>
+                  <tr>
+                    <th colSpan={compared.length + 1} className="text-left pt-6 pb-2 text-primary-700 font-semibold">
+                      {section.title}
+                    </th>
+                  </tr>
+                  {section.rows.map(row => {
+                    const differs = row.deltas.some(delta => delta !== null && delta !== 0);
+                    return (
+                      <tr key={row.key} className={`border-t border-gray-100 ${differs ? 'bg-amber-50' : ''}`}>
+                        <td className="py-2 pr-4 text-gray-700">{row.label}</td>
+                        {row.values.map((value, index) => {
+                          const delta = row.deltas[index];
+                          const currency = comparison.currencies[index];
+                          return (
+                            <td key={compared[index].estimate.id} className="py-2 px-3 text-right whitespace-nowrap">
+                              <div className={section.id === 'tiers' ? 'font-semibold text-gray-900' : 'text-gray-900'}>
+                                {value === null ? '—' : formatCurrency(value, currency)}
+                              </div>
+                              {delta !== null && delta !== 0 && (
+                                <div className={`text-xs ${delta > 0 ? 'text-red-600' : 'text-green-700'}`}>
+                                  {delta > 0 ? '+' : '-'}{formatCurrency(Math.abs(delta), currency)}
+                                </div>
+                              )}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              ))}
+            </table>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -4,12 +4,28 @@ import { useAuth } from '../context/AuthContext';
 import { useEstimateEditor } from '../hooks/useEstimateEditing';
 import { useRoomTemplates } from '../hooks/useRoomTemplates';
 import { useBudgetDefaultsStore } from '../store/budgetDefaultsStore';
+import { useRegionalPricingStore } from '../store/regionalPricingStore';
+import { useCurrencyRatesStore } from '../store/currencyRatesStore';
+import { useVendorsStore } from '../store/vendorsStore';
 import Header from '../components/Header';
 import { UndoIcon, RedoIcon, TrashIcon, EditIcon } from '../components/Icons';
-import type { RoomWithItems, RoomTemplate, Item, ProjectBudget, Budget, RoomItem } from '../types';
-import { formatCurrency, calculateEstimate, calculateTotalRooms, calculateTotalItems } from '../utils/calculations';
+import ContingencyPolicyFields from '../components/ContingencyPolicyFields';
+import RepriceEstimateModal from '../components/RepriceEstimateModal';
+import EstimateActivityFeed from '../components/EstimateActivityFeed';
+import EstimateVersionsPanel from '../components/EstimateVersionsPanel';
+import EstimateVariantTabs from '../components/EstimateVariantTabs';
+import EstimatePhasesEditor from '../components/EstimatePhasesEditor';
+import type { RoomWithItems, RoomTemplate, Item, ProjectBudget, Budget, RoomItem, RoomBreakdown, ItemBreakdown, PricingSettings, QualityTier, CurrencyCode, Vendor } from '../types';
+import { QUALITY_TIERS } from '../types';
+import { formatCurrency, calculateEstimate, calculateTotalRooms, calculateTotalItems, getEstimateCalculationOptions, getEstimateExchangeRate, getRoomItemDisplayName } from '../utils/calculations';
+import { DEFAULT_MARKUP_PERCENT, DEFAULT_TIER_MULTIPLIERS, getBaseLowPrice, getLibraryTierPrice, getPricingSettings, getPricingStrategy, listPricingStrategies, resolvePricingStrategyId } from '../utils/pricingStrategies';
 import { calculateSelectedRoomCapacity } from '../utils/autoConfiguration';
+import { BASE_CURRENCY, CURRENCIES, CURRENCY_CODES, convertItemLibrary, hasExchangeRate } from '../utils/currency';
 import { useAutoConfigRules } from '../hooks/useAutoConfiguration';
+import { applyPriceSnapshot, diffBudgetDefaults, diffSnapshotItemPrices, diffSnapshotRates, getSnapshotRates, repricePriceSnapshot } from '../utils/priceSnapshot';
+import { closeEstimateVariant, getEstimateVariants } from '../utils/estimateVariants';
+import { assignRoomPhase } from '../utils/estimatePhases';
+import { getSelectedTotal, setRoomItemTier, setRoomTier } from '../utils/selectedTiers';
 
 // Type guard to check if budget is a ProjectBudget
 function isProjectBudget(budget: Budget | ProjectBudget | null): budget is ProjectBudget {
@@ -22,11 +38,12 @@ interface BudgetCategoryRowProps {
   value: number; // in cents
   description: string;
   categoryKey: string;
+  currency: CurrencyCode;
   onUpdate: (value: number) => void; // value in cents
   onDelete: () => void;
 }
 
-const BudgetCategoryRow = ({ label, value, description, onUpdate, onDelete }: BudgetCategoryRowProps) => {
+const BudgetCategoryRow = ({ label, value, description, currency, onUpdate, onDelete }: BudgetCategoryRowProps) => {
   const [isEditing, setIsEditing] = useState(false);
   const [inputValue, setInputValue] = useState((value / 100).toFixed(2));
 
@@ -92,7 +109,7 @@ const BudgetCategoryRow = ({ label, value, description, onUpdate, onDelete }: Bu
             </div>
           ) : (
             <>
-              <span className="text-gray-700">{formatCurrency(value)}</span>
+              <span className="text-gray-700">{formatCurrency(value, currency)}</span>
               <button
                 onClick={() => setIsEditing(true)}
                 className="text-primary-600 hover:text-primary-800 p-1"
@@ -120,9 +137,13 @@ export default function EstimateEditPage() {
   const navigate = useNavigate();
   const { estimateId } = useParams<{ estimateId: string }>();
   const { isAdmin, loading: authLoading } = useAuth();
-  const { estimate, loading, error, hasUnsavedChanges, canUndo, canRedo, updateRoom, removeRoom, saveChanges, undo, redo, updateEstimate } = useEstimateEditor(estimateId);
+  const {
+    estimate, loading, error, hasUnsavedChanges, canUndo, canRedo, updateRoom, removeRoom, saveChanges, undo, redo, restoreVersion, updateEstimate,
+    activeVariantId, switchVariant, addVariant, renameVariant, removeVariant
+  } = useEstimateEditor(estimateId);
   const { roomTemplates, items } = useRoomTemplates();
   const [saving, setSaving] = useState(false);
+  const [showReprice, setShowReprice] = useState(false);
 
   // Convert arrays to Maps for calculation functions
   const roomTemplatesMap = useMemo(() => {
@@ -138,6 +159,9 @@ export default function EstimateEditPage() {
   }, [items]);
 
   const { defaults: budgetDefaults, loadDefaults } = useBudgetDefaultsStore();
+  const { config: regionalPricing, loadConfig: loadRegionalPricing } = useRegionalPricingStore();
+  const { rates: currencyRates, loadRates: loadCurrencyRates } = useCurrencyRatesStore();
+  const { vendors, loadVendors } = useVendorsStore();
   const { rules: autoConfigRules, loading: rulesLoading } = useAutoConfigRules();
 
   useEffect(() => {
@@ -146,6 +170,25 @@ export default function EstimateEditPage() {
     }
   }, [budgetDefaults, loadDefaults]);
 
+  // Vendors are admin-only; wait for auth so the redirect below runs without a denied read
+  useEffect(() => {
+    if (isAdmin && !vendors) {
+      void loadVendors();
+    }
+  }, [isAdmin, vendors, loadVendors]);
+
+  useEffect(() => {
+    if (!regionalPricing) {
+      void loadRegionalPricing();
+    }
+  }, [regionalPricing, loadRegionalPricing]);
+
+  useEffect(() => {
+    if (!currencyRates) {
+      void loadCurrencyRates();
+    }
+  }, [currencyRates, loadCurrencyRates]);
+
   useEffect(() => {
     if (!authLoading && !isAdmin) {
       navigate(`/tools/budget-estimator/estimate/view/${estimateId}`);
@@ -159,40 +202,59 @@ export default function EstimateEditPage() {
     }
   }, [loading, estimate, error, navigate]);
 
+  // The estimate as it will be saved, with every option in place; the editor works on the open option
+  const savedEstimate = useMemo(() => (estimate ? closeEstimateVariant(estimate, activeVariantId) : null), [estimate, activeVariantId]);
+  const variants = useMemo(() => (savedEstimate ? getEstimateVariants(savedEstimate) : []), [savedEstimate]);
+
+  // Submitted estimates are priced from their snapshot; itemsMap stays live for repricing
+  const pricedItemsMap = useMemo(() => applyPriceSnapshot(itemsMap, estimate?.priceSnapshot), [itemsMap, estimate?.priceSnapshot]);
+
   const calculateBudgetBreakdown = useCallback((rooms: RoomWithItems[]) => {
-    const options = estimate?.propertySpecs && budgetDefaults
-      ? { 
-          propertySpecs: estimate.propertySpecs, 
-          budgetDefaults,
-          customRangeEnabled: estimate.customRangeEnabled,
-          customRangeLowPercent: estimate.customRangeLowPercent,
-          customRangeHighPercent: estimate.customRangeHighPercent,
-          customProjectAddOns: estimate.customProjectAddOns
-        }
-      : estimate?.customRangeEnabled
-        ? {
-            customRangeEnabled: estimate.customRangeEnabled,
-            customRangeLowPercent: estimate.customRangeLowPercent,
-            customRangeHighPercent: estimate.customRangeHighPercent,
-            customProjectAddOns: estimate.customProjectAddOns
-          }
-        : undefined;
-    return calculateEstimate(rooms, roomTemplatesMap, itemsMap, options);
-  }, [roomTemplatesMap, itemsMap, estimate, budgetDefaults]);
+    const options = getEstimateCalculationOptions(estimate, budgetDefaults, regionalPricing, currencyRates);
+    return calculateEstimate(rooms, roomTemplatesMap, pricedItemsMap, options);
+  }, [roomTemplatesMap, pricedItemsMap, estimate, budgetDefaults, regionalPricing, currencyRates]);
+
+  // Item prices are edited in the estimate's currency, at the rate it is priced at
+  const currency = estimate?.currency ?? BASE_CURRENCY;
+  const exchangeRate = getEstimateExchangeRate(estimate, currencyRates);
+  const estimateItemsMap = useMemo(() => convertItemLibrary(pricedItemsMap, exchangeRate), [pricedItemsMap, exchangeRate]);
+
+  const pricingSettings = useMemo(() => getPricingSettings(estimate), [estimate]);
+  const pricingStrategyId = resolvePricingStrategyId(pricingSettings);
 
   // Calculate current budget breakdown
   const currentBudget = useMemo(() => {
     if (!estimate?.rooms) return null;
     return calculateBudgetBreakdown(estimate.rooms);
   }, [estimate?.rooms, calculateBudgetBreakdown]);
+  const selectedTotal = currentBudget ? getSelectedTotal(currentBudget) : undefined;
+
+  // Diff between the locked prices and the current library, built only while the reprice dialog is open
+  const repricePreview = useMemo(() => {
+    if (!showReprice || !estimate?.priceSnapshot) return null;
+    // The snapshot is shared by every option
+    const allRooms = variants.flatMap(variant => variant.rooms);
+    const rates = getSnapshotRates(estimate, regionalPricing, currencyRates);
+    const snapshot = repricePriceSnapshot(estimate.priceSnapshot, allRooms, itemsMap, budgetDefaults, rates);
+    const options = getEstimateCalculationOptions({ ...estimate, priceSnapshot: snapshot }, budgetDefaults, regionalPricing, currencyRates);
+    return {
+      snapshot,
+      itemChanges: diffSnapshotItemPrices(estimate.priceSnapshot, allRooms, itemsMap),
+      defaultChanges: [
+        ...diffBudgetDefaults(estimate.priceSnapshot.budgetDefaults, budgetDefaults),
+        ...diffSnapshotRates(estimate.priceSnapshot, rates),
+      ],
+      budget: calculateEstimate(estimate.rooms, roomTemplatesMap, applyPriceSnapshot(itemsMap, snapshot), options),
+    };
+  }, [showReprice, estimate, variants, itemsMap, budgetDefaults, regionalPricing, currencyRates, roomTemplatesMap]);
 
   const calculateBudgetRange = useCallback((rooms: RoomWithItems[]) => {
     const budget = calculateBudgetBreakdown(rooms);
     if (isProjectBudget(budget)) {
-      return `${formatCurrency(budget.projectRange.low)} — ${formatCurrency(budget.projectRange.mid)}`;
+      return `${formatCurrency(budget.projectRange.low, currency)} — ${formatCurrency(budget.projectRange.mid, currency)}`;
     }
-    return `${formatCurrency(budget.rangeLow)} — ${formatCurrency(budget.rangeHigh)}`;
-  }, [calculateBudgetBreakdown]);
+    return `${formatCurrency(budget.rangeLow, currency)} — ${formatCurrency(budget.rangeHigh, currency)}`;
+  }, [calculateBudgetBreakdown, currency]);
 
   // Calculate room and item counts for the current estimate
   const totalRooms = useMemo(() => calculateTotalRooms(estimate?.rooms || []), [estimate?.rooms]);
@@ -302,9 +364,19 @@ export default function EstimateEditPage() {
             <p className="text-lg font-medium mb-3 opacity-90">
               ESTIMATED PROJECT BUDGET
             </p>
+            {variants.length > 1 && (
+              <p className="text-sm font-medium opacity-90 mb-2">
+                {variants.find(variant => variant.id === activeVariantId)?.name}
+              </p>
+            )}
             <div className="text-3xl md:text-4xl lg:text-5xl font-bold mb-2">
               {calculateBudgetRange(estimate.rooms)}
             </div>
+            {selectedTotal !== undefined && (
+              <p className="text-lg font-semibold opacity-90">
+                Selected: {formatCurrency(selectedTotal, currency)}
+              </p>
+            )}
             <p className="text-sm opacity-75 mt-4 mb-2">
               {estimate.propertySpecs.squareFootage.toLocaleString()} sq ft • {estimate.propertySpecs.guestCapacity} requested capacity • {actualCapacity} max capacity • {totalRooms} room{totalRooms !== 1 ? 's' : ''} • {totalItems} item{totalItems !== 1 ? 's' : ''}
             </p>
@@ -315,36 +387,168 @@ export default function EstimateEditPage() {
           </div>
         </div>
 
-        {/* Custom Range Settings - Only for Project Budget Estimates */}
+        {/* Scenario Options */}
+        <EstimateVariantTabs
+          variants={variants}
+          activeVariantId={activeVariantId}
+          onSwitch={switchVariant}
+          onAdd={addVariant}
+          onRename={renameVariant}
+          onRemove={removeVariant}
+        />
+
+        {/* Locked Prices */}
+        {estimate.priceSnapshot && (
+          <div className="mb-8 p-4 bg-white rounded-lg shadow border-2 border-gray-200 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <div>
+              <div className="font-medium text-gray-900">
+                Prices locked {new Date(estimate.priceSnapshot.capturedAt).toLocaleDateString()}
+              </div>
+              <p className="text-sm text-gray-600">
+                Library price and budget default changes made after this date don't affect this estimate.
+              </p>
+            </div>
+            <button onClick={() => setShowReprice(true)} className="btn-secondary whitespace-nowrap">
+              Reprice to Current Library
+            </button>
+          </div>
+        )}
+
+        {/* Pricing Settings - Only for Project Budget Estimates */}
         {isProjectBudget(currentBudget) && (
           <div className="mb-8">
             <div className="bg-white rounded-lg shadow border-2 border-gray-200">
               <div className="p-6">
                 <div className="mb-4">
                   <span className="text-xl font-bold text-primary-800">
-                    Custom Range Settings
+                    Pricing Settings
                   </span>
                 </div>
                 <div className="space-y-4">
-                  <div className="flex items-center gap-3">
-                    <input
-                      type="checkbox"
-                      id="customRangeToggle"
-                      checked={estimate.customRangeEnabled || false}
+                  <div className="flex items-center gap-4">
+                    <label htmlFor="currencySelect" className="text-gray-700 font-medium w-48">
+                      Currency
+                    </label>
+                    <select
+                      id="currencySelect"
+                      value={currency}
+                      onChange={(e) => updateEstimate({ currency: e.target.value as CurrencyCode })}
+                      className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    >
+                      {CURRENCY_CODES.map((code) => (
+                        <option key={code} value={code}>
+                          {code} — {CURRENCIES[code].name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  {!hasExchangeRate(currencyRates, currency) && (
+                    <p className="text-xs text-red-600">
+                      No conversion rate is configured for {currency}; library prices are shown unconverted.
+                    </p>
+                  )}
+                  {currency !== BASE_CURRENCY && (
+                    <p className="text-xs text-gray-500">
+                      Custom prices and add-on amounts are entered in {currency} and are not converted when the currency changes.
+                    </p>
+                  )}
+                  <div className="flex items-center gap-4">
+                    <label htmlFor="pricingStrategySelect" className="text-gray-700 font-medium w-48">
+                      Pricing Strategy
+                    </label>
+                    <select
+                      id="pricingStrategySelect"
+                      value={pricingStrategyId}
                       onChange={(e) => {
+                        const nextStrategy = e.target.value;
+                        const usesCustomRange = nextStrategy === 'percentRange';
                         updateEstimate({
-                          customRangeEnabled: e.target.checked,
-                          customRangeLowPercent: e.target.checked ? (estimate.customRangeLowPercent || 5) : undefined,
-                          customRangeHighPercent: e.target.checked ? (estimate.customRangeHighPercent || 5) : undefined
+                          pricingStrategy: nextStrategy,
+                          // Keep the legacy flag in sync for estimates read by older clients
+                          customRangeEnabled: usesCustomRange,
+                          customRangeLowPercent: usesCustomRange ? (estimate.customRangeLowPercent || 5) : estimate.customRangeLowPercent,
+                          customRangeHighPercent: usesCustomRange ? (estimate.customRangeHighPercent || 5) : estimate.customRangeHighPercent,
+                          ...(nextStrategy === 'tierMultipliers' && !estimate.pricingTierMultipliers
+                            ? { pricingTierMultipliers: DEFAULT_TIER_MULTIPLIERS }
+                            : {}),
+                          ...(nextStrategy === 'costPlus' && estimate.pricingMarkupPercent === undefined
+                            ? { pricingMarkupPercent: DEFAULT_MARKUP_PERCENT }
+                            : {}),
                         });
                       }}
-                      className="w-5 h-5 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
-                    />
-                    <label htmlFor="customRangeToggle" className="text-gray-700 font-medium cursor-pointer">
-                      Use Custom Range (based on low price point)
-                    </label>
+                      className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    >
+                      {listPricingStrategies().map((strategy) => (
+                        <option key={strategy.id} value={strategy.id}>
+                          {strategy.label}
+                        </option>
+                      ))}
+                    </select>
                   </div>
-                  {estimate.customRangeEnabled && (
+                  <p className="text-xs text-gray-500">
+                    {getPricingStrategy(pricingSettings).description}
+                  </p>
+                  {pricingStrategyId === 'tierMultipliers' && (
+                    <div className="ml-8 space-y-3 p-4 bg-gray-50 rounded-lg">
+                      {(['low', 'mid', 'midHigh', 'high'] as QualityTier[]).map((tier) => (
+                        <div key={tier} className="flex items-center gap-4">
+                          <label className="text-sm text-gray-700 w-48">
+                            {QUALITY_TIERS[tier].name}:
+                          </label>
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.05"
+                            value={(estimate.pricingTierMultipliers ?? DEFAULT_TIER_MULTIPLIERS)[tier]}
+                            onChange={(e) => {
+                              const value = parseFloat(e.target.value);
+                              if (!isNaN(value) && value >= 0) {
+                                updateEstimate({
+                                  pricingTierMultipliers: {
+                                    ...(estimate.pricingTierMultipliers ?? DEFAULT_TIER_MULTIPLIERS),
+                                    [tier]: value,
+                                  },
+                                });
+                              }
+                            }}
+                            className="px-3 py-2 border border-gray-300 rounded-md w-24 text-sm"
+                          />
+                          <span className="text-sm text-gray-500">× low price</span>
+                        </div>
+                      ))}
+                      <p className="text-xs text-gray-500 mt-2">
+                        Each tier is the low price point multiplied by its factor.
+                        You'll only need to set the low price when editing items.
+                      </p>
+                    </div>
+                  )}
+                  {pricingStrategyId === 'costPlus' && (
+                    <div className="ml-8 space-y-3 p-4 bg-gray-50 rounded-lg">
+                      <div className="flex items-center gap-4">
+                        <label className="text-sm text-gray-700 w-48">
+                          Markup (% above cost):
+                        </label>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.1"
+                          value={estimate.pricingMarkupPercent ?? DEFAULT_MARKUP_PERCENT}
+                          onChange={(e) => {
+                            const value = parseFloat(e.target.value);
+                            if (!isNaN(value) && value >= 0) {
+                              updateEstimate({ pricingMarkupPercent: value });
+                            }
+                          }}
+                          className="px-3 py-2 border border-gray-300 rounded-md w-24 text-sm"
+                        />
+                        <span className="text-sm text-gray-500">%</span>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-2">
+                        Item tier prices are treated as cost and marked up by this percentage.
+                      </p>
+                    </div>
+                  )}
+                  {pricingStrategyId === 'percentRange' && (
                     <div className="ml-8 space-y-3 p-4 bg-gray-50 rounded-lg">
                       <div className="flex items-center gap-4">
                         <label className="text-sm text-gray-700 w-48">
@@ -387,11 +591,34 @@ export default function EstimateEditPage() {
                         <span className="text-sm text-gray-500">%</span>
                       </div>
                       <p className="text-xs text-gray-500 mt-2">
-                        When enabled, item ranges will be calculated from the low price point using these percentages.
+                        Item ranges will be calculated from the low price point using these percentages.
                         You'll only need to set the low price when editing items.
                       </p>
                     </div>
                   )}
+                  <div className="pt-4 border-t border-gray-200 space-y-4">
+                    <label className="flex items-center gap-2 text-gray-700 font-medium">
+                      <input
+                        type="checkbox"
+                        checked={!!estimate.contingencyPolicy}
+                        onChange={(e) => {
+                          updateEstimate({
+                            contingencyPolicy: e.target.checked
+                              ? (budgetDefaults?.contingency ?? { mode: 'percentOfFurnishings', percent: 10 })
+                              : null,
+                          });
+                        }}
+                        className="h-4 w-4"
+                      />
+                      Override default contingency
+                    </label>
+                    {estimate.contingencyPolicy && (
+                      <ContingencyPolicyFields
+                        policy={estimate.contingencyPolicy}
+                        onChange={(contingencyPolicy) => updateEstimate({ contingencyPolicy })}
+                      />
+                    )}
+                  </div>
                 </div>
               </div>
             </div>
@@ -416,7 +643,7 @@ export default function EstimateEditPage() {
                       <div className="flex justify-between items-center mb-1">
                         <span className="text-gray-700">Furnishings</span>
                         <span className="text-gray-700">
-                          {formatCurrency(currentBudget.rangeLow)} — {formatCurrency(currentBudget.rangeHigh)}
+                          {formatCurrency(currentBudget.rangeLow, currency)} — {formatCurrency(currentBudget.rangeHigh, currency)}
                         </span>
                       </div>
                       <p className="text-xs text-gray-500">
@@ -425,67 +652,34 @@ export default function EstimateEditPage() {
                     </div>
 
                     {/* Project Add-ons - Editable */}
-                    <BudgetCategoryRow
-                      label="Design Planning"
-                      value={currentBudget.projectAddOns.designPlanning}
-                      description="Initial design consultation, space planning, and design development"
-                      categoryKey="designPlanning"
-                      onUpdate={(value) => {
-                        const updatedCustomAddOns = {
-                          ...estimate.customProjectAddOns,
-                          designPlanning: value
-                        };
-                        updateEstimate({ customProjectAddOns: updatedCustomAddOns });
-                      }}
-                      onDelete={() => {
-                        const updatedCustomAddOns = { ...estimate.customProjectAddOns };
-                        delete updatedCustomAddOns.designPlanning;
-                        updateEstimate({ customProjectAddOns: Object.keys(updatedCustomAddOns).length > 0 ? updatedCustomAddOns : {} });
-                      }}
-                    />
-
-                    <BudgetCategoryRow
-                      label="Procurement"
-                      value={currentBudget.projectAddOns.procurement}
-                      description="Sourcing, ordering, and managing furniture and accessories"
-                      categoryKey="procurement"
-                      onUpdate={(value) => {
-                        const updatedCustomAddOns = {
-                          ...estimate.customProjectAddOns,
-                          procurement: value
-                        };
-                        updateEstimate({ customProjectAddOns: updatedCustomAddOns });
-                      }}
-                      onDelete={() => {
-                        const updatedCustomAddOns = { ...estimate.customProjectAddOns };
-                        delete updatedCustomAddOns.procurement;
-                        updateEstimate({ customProjectAddOns: Object.keys(updatedCustomAddOns).length > 0 ? updatedCustomAddOns : {} });
-                      }}
-                    />
-
-                    <BudgetCategoryRow
-                      label="Design Implementation"
-                      value={currentBudget.projectAddOns.designImplementation}
-                      description="Final placement, styling, and design execution services"
-                      categoryKey="designImplementation"
-                      onUpdate={(value) => {
-                        const updatedCustomAddOns = {
-                          ...estimate.customProjectAddOns,
-                          designImplementation: value
-                        };
-                        updateEstimate({ customProjectAddOns: updatedCustomAddOns });
-                      }}
-                      onDelete={() => {
-                        const updatedCustomAddOns = { ...estimate.customProjectAddOns };
-                        delete updatedCustomAddOns.designImplementation;
-                        updateEstimate({ customProjectAddOns: Object.keys(updatedCustomAddOns).length > 0 ? updatedCustomAddOns : {} });
-                      }}
-                    />
+                    {currentBudget.designFees.map((fee) => (
+                      <BudgetCategoryRow
+                        key={fee.id}
+                        label={fee.label}
+                        value={fee.amount}
+                        description={fee.description ?? ''}
+                        currency={currency}
+                        categoryKey={fee.id}
+                        onUpdate={(value) => {
+                          const updatedCustomAddOns = {
+                            ...estimate.customProjectAddOns,
+                            [fee.id]: value
+                          };
+                          updateEstimate({ customProjectAddOns: updatedCustomAddOns });
+                        }}
+                        onDelete={() => {
+                          const updatedCustomAddOns = { ...estimate.customProjectAddOns };
+                          delete updatedCustomAddOns[fee.id];
+                          updateEstimate({ customProjectAddOns: Object.keys(updatedCustomAddOns).length > 0 ? updatedCustomAddOns : {} });
+                        }}
+                      />
+                    ))}
 
                     <BudgetCategoryRow
                       label="Installation"
                       value={currentBudget.projectAddOns.installation}
                       description="Professional delivery, setup, and installation services"
+                      currency={currency}
                       categoryKey="installation"
                       onUpdate={(value) => {
                         const updatedCustomAddOns = {
@@ -505,6 +699,7 @@ export default function EstimateEditPage() {
                       label="Fuel"
                       value={currentBudget.projectAddOns.fuel}
                       description="Transportation and fuel costs"
+                      currency={currency}
                       categoryKey="fuel"
                       onUpdate={(value) => {
                         const updatedCustomAddOns = {
@@ -524,6 +719,7 @@ export default function EstimateEditPage() {
                       label="Storage & Receiving"
                       value={currentBudget.projectAddOns.storageAndReceiving}
                       description="Temporary storage solutions and receiving services"
+                      currency={currency}
                       categoryKey="storageAndReceiving"
                       onUpdate={(value) => {
                         const updatedCustomAddOns = {
@@ -543,6 +739,7 @@ export default function EstimateEditPage() {
                       label="Kitchen"
                       value={currentBudget.projectAddOns.kitchen}
                       description="Kitchen equipment including cookware, flatware, and accessories"
+                      currency={currency}
                       categoryKey="kitchen"
                       onUpdate={(value) => {
                         const updatedCustomAddOns = {
@@ -562,6 +759,7 @@ export default function EstimateEditPage() {
                       label="Property Management"
                       value={currentBudget.projectAddOns.propertyManagement}
                       description="Items required by property management"
+                      currency={currency}
                       categoryKey="propertyManagement"
                       onUpdate={(value) => {
                         const updatedCustomAddOns = {
@@ -577,6 +775,48 @@ export default function EstimateEditPage() {
                       }}
                     />
 
+                    {/* Freight and Sales Tax - Read-only, driven by the property location */}
+                    {currentBudget.projectAddOns.freight.mid > 0 && (
+                      <div className="py-2">
+                        <div className="flex justify-between items-center mb-1">
+                          <span className="text-gray-700">Freight</span>
+                          <span className="text-gray-700">
+                            {formatCurrency(currentBudget.projectAddOns.freight.low, currency)} — {formatCurrency(currentBudget.projectAddOns.freight.mid, currency)}
+                          </span>
+                        </div>
+                      </div>
+                    )}
+                    {currentBudget.projectAddOns.salesTax.mid > 0 && (
+                      <div className="py-2">
+                        <div className="flex justify-between items-center mb-1">
+                          <span className="text-gray-700">Sales Tax</span>
+                          <span className="text-gray-700">
+                            {formatCurrency(currentBudget.projectAddOns.salesTax.low, currency)} — {formatCurrency(currentBudget.projectAddOns.salesTax.mid, currency)}
+                          </span>
+                        </div>
+                        {currentBudget.region && (
+                          <p className="text-xs text-gray-500">
+                            {currentBudget.region.name} ({currentBudget.region.salesTaxPercent}%)
+                          </p>
+                        )}
+                      </div>
+                    )}
+
+                    {/* Contingency - Read-only, configured in Pricing Settings */}
+                    {!currentBudget.contingencyDisabled && (
+                      <div className="py-2">
+                        <div className="flex justify-between items-center mb-1">
+                          <span className="text-gray-700">Contingency</span>
+                          <span className="text-gray-700">
+                            {formatCurrency(currentBudget.low.contingency, currency)} — {formatCurrency(currentBudget.mid.contingency, currency)}
+                          </span>
+                        </div>
+                        <p className="text-xs text-gray-500">
+                          Allowance for price changes and unforeseen costs
+                        </p>
+                      </div>
+                    )}
+
                   </div>
                 </div>
               </div>
@@ -584,6 +824,16 @@ export default function EstimateEditPage() {
           </div>
         )}
 
+        {/* Project Phases */}
+        <EstimatePhasesEditor
+          phases={estimate.phases ?? []}
+          rooms={estimate.rooms}
+          phaseBreakdown={currentBudget?.phases}
+          currency={currency}
+          onPhasesChange={(phases) => updateEstimate({ phases: phases.length > 0 ? phases : undefined })}
+          onRoomPhaseChange={(roomIndex, phaseId) => updateRoom(roomIndex, assignRoomPhase(estimate.rooms[roomIndex], phaseId))}
+        />
+
         {/* Rooms & Items Editing Area */}
         <div className="bg-white rounded-lg shadow">
           <div className="p-6">
@@ -611,10 +861,11 @@ export default function EstimateEditPage() {
                     room={room}
                     roomIndex={roomIndex}
                     roomTemplates={roomTemplates}
-                    itemsMap={itemsMap}
-                    customRangeEnabled={estimate.customRangeEnabled || false}
-                    customRangeLowPercent={estimate.customRangeLowPercent}
-                    customRangeHighPercent={estimate.customRangeHighPercent}
+                    itemsMap={estimateItemsMap}
+                    vendors={vendors ?? []}
+                    currency={currency}
+                    pricingSettings={pricingSettings}
+                    roomBreakdown={currentBudget?.roomBreakdown.find(breakdown => breakdown.roomIndex === roomIndex)}
                     onUpdate={(updatedRoom) => updateRoom(roomIndex, updatedRoom)}
                     onRemove={() => removeRoom(roomIndex)}
                     onQuantityChange={(newQuantity) => {
@@ -633,7 +884,34 @@ export default function EstimateEditPage() {
             )}
           </div>
         </div>
+
+        {isAdmin && (
+          <EstimateVersionsPanel
+            estimate={savedEstimate ?? estimate}
+            itemsMap={itemsMap}
+            hasUnsavedChanges={hasUnsavedChanges}
+            onRestore={restoreVersion}
+          />
+        )}
+        {isAdmin && <EstimateActivityFeed estimate={estimate} />}
       </main>
+
+      {repricePreview && currentBudget && estimate.priceSnapshot && (
+        <RepriceEstimateModal
+          snapshotDate={new Date(estimate.priceSnapshot.capturedAt)}
+          currentBudget={currentBudget}
+          repricedBudget={repricePreview.budget}
+          itemChanges={repricePreview.itemChanges}
+          defaultChanges={repricePreview.defaultChanges}
+          currency={currency}
+          exchangeRate={exchangeRate}
+          onApply={() => {
+            updateEstimate({ priceSnapshot: repricePreview.snapshot });
+            setShowReprice(false);
+          }}
+          onClose={() => setShowReprice(false)}
+        />
+      )}
     </div>
   );
 }
@@ -644,53 +922,23 @@ interface RoomEditorProps {
   roomIndex: number;
   roomTemplates: Map<string, RoomTemplate>;
   itemsMap: Map<string, Item>;
-  customRangeEnabled?: boolean;
-  customRangeLowPercent?: number;
-  customRangeHighPercent?: number;
+  vendors: Vendor[];
+  currency: CurrencyCode;
+  pricingSettings: PricingSettings;
+  roomBreakdown?: RoomBreakdown;
   onUpdate: (room: RoomWithItems) => void;
   onRemove: () => void;
   onQuantityChange: (newQuantity: number) => void;
 }
 
-function RoomEditor({ room, roomIndex, roomTemplates, itemsMap, customRangeEnabled, customRangeLowPercent, customRangeHighPercent, onUpdate, onRemove, onQuantityChange }: RoomEditorProps) {
+function RoomEditor({ room, roomIndex, roomTemplates, itemsMap, vendors, currency, pricingSettings, roomBreakdown, onUpdate, onRemove, onQuantityChange }: RoomEditorProps) {
   const [isExpanded, setIsExpanded] = useState(true);
   const [isSizeDropdownOpen, setIsSizeDropdownOpen] = useState(false);
   const sizeDropdownRef = useRef<HTMLDivElement>(null);
   const template = roomTemplates.get(room.roomType);
 
-  // Calculate room totals from items
-  const roomTotals = useMemo(() => {
-    let lowTotal = 0;
-    let midTotal = 0;
-    
-    room.items.forEach((roomItem) => {
-      // Get base low price (from override or library)
-      const baseLowPrice = roomItem.lowPrice !== undefined 
-        ? roomItem.lowPrice 
-        : (itemsMap.get(roomItem.itemId)?.lowPrice || 0);
-      
-      let lowPrice: number;
-      let midPrice: number;
-      
-      // If custom range is enabled, calculate prices from low price using percentages
-      if (customRangeEnabled && customRangeLowPercent !== undefined && customRangeHighPercent !== undefined && baseLowPrice > 0) {
-        // Low end: baseLowPrice * (1 - customRangeLowPercent / 100)
-        lowPrice = Math.round(baseLowPrice * (1 - customRangeLowPercent / 100));
-        // High end: baseLowPrice * (1 + customRangeHighPercent / 100)
-        midPrice = Math.round(baseLowPrice * (1 + customRangeHighPercent / 100));
-      } else {
-        // Use RoomItem price override if available, otherwise fall back to item library
-        lowPrice = roomItem.lowPrice !== undefined ? roomItem.lowPrice : (itemsMap.get(roomItem.itemId)?.lowPrice || 0);
-        midPrice = roomItem.midPrice !== undefined ? roomItem.midPrice : (itemsMap.get(roomItem.itemId)?.midPrice || 0);
-      }
-      
-      const totalQuantity = roomItem.quantity * room.quantity;
-      lowTotal += lowPrice * totalQuantity;
-      midTotal += midPrice * totalQuantity;
-    });
-    
-    return { low: lowTotal, mid: midTotal };
-  }, [room.items, room.quantity, itemsMap, customRangeEnabled, customRangeLowPercent, customRangeHighPercent]);
+  // Room totals come from the estimate's line-item breakdown
+  const roomTotals = { low: roomBreakdown?.lowAmount ?? 0, mid: roomBreakdown?.midAmount ?? 0 };
 
   const handleSizeChange = (newSize: 'small' | 'medium' | 'large') => {
     // Update room size and items based on the new size template
@@ -776,6 +1024,18 @@ function RoomEditor({ room, roomIndex, roomTemplates, itemsMap, customRangeEnabl
                   </div>
                 )}
               </div>
+              <select
+                value={room.tier ?? ''}
+                onClick={(e) => e.stopPropagation()}
+                onChange={(e) => onUpdate(setRoomTier(room, (e.target.value || undefined) as QualityTier | undefined))}
+                className="px-2 py-1 bg-gray-100 hover:bg-gray-200 rounded text-sm font-medium text-gray-700 border-none"
+                aria-label={`Quality for ${roomDisplayName}`}
+              >
+                <option value="">Full range</option>
+                {(Object.keys(QUALITY_TIERS) as QualityTier[]).map(tier => (
+                  <option key={tier} value={tier}>{QUALITY_TIERS[tier].name}</option>
+                ))}
+              </select>
             </div>
             <p className="text-sm text-gray-500 truncate">
               {room.roomSize.charAt(0).toUpperCase() + room.roomSize.slice(1)} × {room.quantity}
@@ -784,8 +1044,13 @@ function RoomEditor({ room, roomIndex, roomTemplates, itemsMap, customRangeEnabl
         </div>
         <div className="text-right flex-shrink-0 ml-3">
           <div className="font-semibold text-gray-700 whitespace-nowrap">
-            {formatCurrency(roomTotals.low)} — {formatCurrency(roomTotals.mid)}
+            {formatCurrency(roomTotals.low, currency)} — {formatCurrency(roomTotals.mid, currency)}
           </div>
+          {roomBreakdown?.selectedAmount !== undefined && (
+            <div className="text-xs text-primary-700 whitespace-nowrap">
+              Selected: {formatCurrency(roomBreakdown.selectedAmount, currency)}
+            </div>
+          )}
         </div>
         <div className="flex items-center gap-6 ml-4 flex-shrink-0">
           <div className="flex items-center gap-2">
@@ -837,10 +1102,12 @@ function RoomEditor({ room, roomIndex, roomTemplates, itemsMap, customRangeEnabl
                 roomIndex={roomIndex}
                 itemIndex={itemIndex}
                 itemsMap={itemsMap}
+                vendors={vendors}
+                currency={currency}
                 roomQuantity={room.quantity}
-                customRangeEnabled={customRangeEnabled}
-                customRangeLowPercent={customRangeLowPercent}
-                customRangeHighPercent={customRangeHighPercent}
+                pricingSettings={pricingSettings}
+                lineItem={roomBreakdown?.items[itemIndex]}
+                roomTier={room.tier}
                 onRemove={() => {
                   const updatedItems = room.items.filter((_, i) => i !== itemIndex);
                   onUpdate({ ...room, items: updatedItems });
@@ -867,6 +1134,22 @@ function RoomEditor({ room, roomIndex, roomTemplates, itemsMap, customRangeEnabl
                   updatedItems[itemIndex] = updatedRoomItem;
                   onUpdate({ ...room, items: updatedItems });
                 }}
+                onTierChange={(tier?: QualityTier) => {
+                  const updatedItems = [...room.items];
+                  updatedItems[itemIndex] = setRoomItemTier(roomItem, tier);
+                  onUpdate({ ...room, items: updatedItems });
+                }}
+                onVendorChange={(vendorId?: string) => {
+                  const updatedItems = [...room.items];
+                  const updatedRoomItem: RoomItem = { ...roomItem };
+                  if (vendorId === undefined) {
+                    delete updatedRoomItem.vendorId;
+                  } else {
+                    updatedRoomItem.vendorId = vendorId;
+                  }
+                  updatedItems[itemIndex] = updatedRoomItem;
+                  onUpdate({ ...room, items: updatedItems });
+                }}
               />
             ))}
           </div>
@@ -882,59 +1165,53 @@ interface ItemRowProps {
   roomIndex: number;
   itemIndex: number;
   itemsMap: Map<string, Item>;
+  vendors: Vendor[];
+  currency: CurrencyCode;
   roomQuantity: number;
-  customRangeEnabled?: boolean;
-  customRangeLowPercent?: number;
-  customRangeHighPercent?: number;
+  pricingSettings: PricingSettings;
+  lineItem?: ItemBreakdown;
+  roomTier?: QualityTier;
   onRemove: () => void;
   onQuantityChange: (newQuantity: number) => void;
   onPriceChange: (lowPrice?: number, midPrice?: number) => void;
+  onTierChange: (tier?: QualityTier) => void;
+  onVendorChange: (vendorId?: string) => void;
 }
 
-function ItemRow({ roomItem, itemsMap, roomQuantity, customRangeEnabled, customRangeLowPercent, customRangeHighPercent, onRemove, onQuantityChange, onPriceChange }: ItemRowProps) {
+function ItemRow({ roomItem, itemsMap, vendors, currency, roomQuantity, pricingSettings, lineItem, roomTier, onRemove, onQuantityChange, onPriceChange, onTierChange, onVendorChange }: ItemRowProps) {
   const item = itemsMap.get(roomItem.itemId);
-  let itemDisplayName = roomItem.name || item?.name || roomItem.itemId.replace(/_/g, ' ').replace(/\b\w/g, (l: string) => l.toUpperCase());
-  // Override display name for outdoor space item
-  if (roomItem.itemId === 'outdoor_space_item') {
-    itemDisplayName = 'Outdoor Furnishings';
-  }
+
+  // Vendors listing a SKU for this item are offered first
+  const carryingVendorIds = new Set(item?.vendorSkus?.map(sku => sku.vendorId));
+  const carryingVendors = vendors.filter(vendor => carryingVendorIds.has(vendor.id));
+  const otherVendors = vendors.filter(vendor => !carryingVendorIds.has(vendor.id));
+  const itemDisplayName = lineItem?.name ?? getRoomItemDisplayName(roomItem, item);
   
+  // Strategies that derive every tier from the low price only need a low price when editing
+  const pricingStrategy = getPricingStrategy(pricingSettings);
+  const { derivesFromLowPrice } = pricingStrategy;
+
   // Get base low price (the price point the user sets)
-  const baseLowPrice = roomItem.lowPrice !== undefined ? roomItem.lowPrice : (item?.lowPrice || 0);
+  const baseLowPrice = getBaseLowPrice(roomItem, item);
   
-  // Calculate display prices
-  let lowPrice: number;
-  let midPrice: number;
-  
-  // If custom range is enabled, calculate prices from base low price using percentages
-  if (customRangeEnabled && customRangeLowPercent !== undefined && customRangeHighPercent !== undefined && baseLowPrice > 0) {
-    // Low end: baseLowPrice * (1 - customRangeLowPercent / 100)
-    lowPrice = Math.round(baseLowPrice * (1 - customRangeLowPercent / 100));
-    // High end: baseLowPrice * (1 + customRangeHighPercent / 100)
-    midPrice = Math.round(baseLowPrice * (1 + customRangeHighPercent / 100));
-  } else {
-    // Use RoomItem price override if available, otherwise fall back to item library
-    lowPrice = roomItem.lowPrice !== undefined ? roomItem.lowPrice : (item?.lowPrice || 0);
-    midPrice = roomItem.midPrice !== undefined ? roomItem.midPrice : (item?.midPrice || 0);
-  }
-  
-  // Calculate totals considering quantity and room quantity
-  const totalQuantity = roomItem.quantity * roomQuantity;
-  const lowTotal = lowPrice * totalQuantity;
-  const midTotal = midPrice * totalQuantity;
+  // Display prices come from the estimate's line-item breakdown
+  const lowPrice = lineItem?.unitPrices.low ?? 0;
+  const midPrice = lineItem?.unitPrices.mid ?? 0;
+  const lowTotal = lineItem?.totals.low ?? 0;
+  const midTotal = lineItem?.totals.mid ?? 0;
   
   const [isEditingPrices, setIsEditingPrices] = useState(false);
   const [lowPriceInput, setLowPriceInput] = useState(Math.round(baseLowPrice / 100).toString());
-  const [midPriceInput, setMidPriceInput] = useState(Math.round((roomItem.midPrice !== undefined ? roomItem.midPrice : (item?.midPrice || 0)) / 100).toString());
+  const [midPriceInput, setMidPriceInput] = useState(Math.round(getLibraryTierPrice('mid', roomItem, item) / 100).toString());
 
-  useEffect(() => {
-    const baseLow = roomItem.lowPrice !== undefined ? roomItem.lowPrice : (item?.lowPrice || 0);
-    setLowPriceInput(Math.round(baseLow / 100).toString());
-    if (!customRangeEnabled) {
-      const baseMid = roomItem.midPrice !== undefined ? roomItem.midPrice : (item?.midPrice || 0);
-      setMidPriceInput(Math.round(baseMid / 100).toString());
+  // Inputs start from the current prices each time editing opens, so they never go stale
+  const startEditingPrices = () => {
+    setLowPriceInput(Math.round(getBaseLowPrice(roomItem, item) / 100).toString());
+    if (!derivesFromLowPrice) {
+      setMidPriceInput(Math.round(getLibraryTierPrice('mid', roomItem, item) / 100).toString());
     }
-  }, [roomItem.lowPrice, roomItem.midPrice, item?.lowPrice, item?.midPrice, customRangeEnabled]);
+    setIsEditingPrices(true);
+  };
 
   const handlePriceSave = () => {
     const lowCents = Math.round(parseFloat(lowPriceInput) * 100);
@@ -949,7 +1226,7 @@ function ItemRow({ roomItem, itemsMap, roomQuantity, customRangeEnabled, customR
       return;
     }
     
-    if (customRangeEnabled) {
+    if (derivesFromLowPrice) {
       // When custom range is enabled, only save low price
       // Mid price will be calculated automatically
       onPriceChange(
@@ -1000,7 +1277,7 @@ function ItemRow({ roomItem, itemsMap, roomQuantity, customRangeEnabled, customR
               />
               <span className="text-xs text-gray-500">each</span>
             </div>
-            {!customRangeEnabled && (
+            {!derivesFromLowPrice && (
               <div className="flex items-center gap-2">
                 <label className="text-xs text-gray-600 w-20">Mid Price:</label>
                 <input
@@ -1013,9 +1290,9 @@ function ItemRow({ roomItem, itemsMap, roomQuantity, customRangeEnabled, customR
                 <span className="text-xs text-gray-500">each</span>
               </div>
             )}
-            {customRangeEnabled && (
+            {derivesFromLowPrice && (
               <div className="text-xs text-gray-500 italic">
-                Range will be calculated from low price using custom percentages
+                Range will be calculated from low price using the {pricingStrategy.label.toLowerCase()} strategy
               </div>
             )}
             <div className="flex items-center gap-2 mt-1">
@@ -1035,20 +1312,69 @@ function ItemRow({ roomItem, itemsMap, roomQuantity, customRangeEnabled, customR
           </div>
         ) : (
           <div className="text-xs text-gray-500 mt-1">
-            {formatCurrency(lowPrice)} — {formatCurrency(midPrice)} each
-            {customRangeEnabled && (
+            {formatCurrency(lowPrice, currency)} — {formatCurrency(midPrice, currency)} each
+            {derivesFromLowPrice && (
               <span className="ml-2 text-xs text-gray-400 italic">
                 (calculated from low price)
               </span>
             )}
             <button
-              onClick={() => setIsEditingPrices(true)}
+              onClick={startEditingPrices}
               className="ml-2 text-primary-600 hover:text-primary-800 underline"
             >
               Edit
             </button>
           </div>
         )}
+        <div className="flex items-center gap-2 mt-1">
+          <label htmlFor={`tier-${roomItem.itemId}`} className="text-xs text-gray-500">Quality:</label>
+          <select
+            id={`tier-${roomItem.itemId}`}
+            value={roomItem.tier ?? ''}
+            onChange={(e) => onTierChange((e.target.value || undefined) as QualityTier | undefined)}
+            className="text-xs px-1 py-0.5 border border-gray-300 rounded bg-white"
+          >
+            <option value="">Same as room{roomTier ? ` (${QUALITY_TIERS[roomTier].name})` : ''}</option>
+            {(Object.keys(QUALITY_TIERS) as QualityTier[]).map(tier => (
+              <option key={tier} value={tier}>{QUALITY_TIERS[tier].name}</option>
+            ))}
+          </select>
+          {lineItem?.selectedTier && (
+            <span className="text-xs text-primary-700">
+              Selected: {formatCurrency(lineItem.totals[lineItem.selectedTier], currency)}
+            </span>
+          )}
+        </div>
+        {(vendors.length > 0 || roomItem.vendorId) && (
+          <div className="flex items-center gap-2 mt-1">
+            <label htmlFor={`vendor-${roomItem.itemId}`} className="text-xs text-gray-500">Vendor:</label>
+            <select
+              id={`vendor-${roomItem.itemId}`}
+              value={roomItem.vendorId ?? ''}
+              onChange={(e) => onVendorChange(e.target.value || undefined)}
+              className="text-xs px-1 py-0.5 border border-gray-300 rounded bg-white"
+            >
+              <option value="">None</option>
+              {roomItem.vendorId && !vendors.some(vendor => vendor.id === roomItem.vendorId) && (
+                <option value={roomItem.vendorId}>{roomItem.vendorId} (removed)</option>
+              )}
+              {carryingVendors.length > 0 && (
+                <optgroup label="Carries this item">
+                  {carryingVendors.map(vendor => (
+                    <option key={vendor.id} value={vendor.id}>{vendor.name}</option>
+                  ))}
+                </optgroup>
+              )}
+              {otherVendors.length > 0 && (
+                <optgroup label={carryingVendors.length > 0 ? 'Other vendors' : 'All vendors'}>
+                  {otherVendors.map(vendor => (
+                    <option key={vendor.id} value={vendor.id}>{vendor.name}</option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+          </div>
+        )}
       </div>
       <div className="flex items-center gap-3 ml-4 flex-shrink-0">
         <span className="text-gray-600">
@@ -1056,7 +1382,7 @@ function ItemRow({ roomItem, itemsMap, roomQuantity, customRangeEnabled, customR
           {roomQuantity > 1 && ` × ${roomQuantity} rooms`}
         </span>
         <span className="text-gray-700 font-semibold">
-          {formatCurrency(lowTotal)} — {formatCurrency(midTotal)}
+          {formatCurrency(lowTotal, currency)} — {formatCurrency(midTotal, currency)}
         </span>
         <div className="flex items-center gap-2">
           <button
@@ -1,13 +1,41 @@
+import { useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import Header from '../components/Header';
+import { useAuth } from '../context/AuthContext';
+import { useEstimatorStore } from '../store/estimatorStore';
+import { useProjectTemplatesStore } from '../store/projectTemplatesStore';
+import type { ProjectTemplate } from '../types';
+import { summarizeProjectTemplate } from '../utils/estimateTemplates';
 
 export default function LandingPage() {
   const navigate = useNavigate();
+  const { isAdmin } = useAuth();
+  const startFromTemplate = useEstimatorStore(state => state.startFromTemplate);
+  const { templates, loadTemplates, deleteTemplate } = useProjectTemplatesStore();
+
+  // Always refresh so templates saved by admins since the last visit show up
+  useEffect(() => {
+    void loadTemplates();
+  }, [loadTemplates]);
 
   const handleStartEstimate = () => {
     navigate('/tools/budget-estimator/property');
   };
 
+  const handleUseTemplate = (template: ProjectTemplate) => {
+    startFromTemplate(template.propertySpecs, template.rooms);
+    navigate('/tools/budget-estimator/rooms');
+  };
+
+  const handleDeleteTemplate = async (template: ProjectTemplate) => {
+    if (!confirm(`Delete the "${template.name}" template?`)) return;
+    try {
+      await deleteTemplate(template.id);
+    } catch {
+      alert('Failed to delete the template. Please try again.');
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gray-50">
       <Header />
@@ -74,6 +102,33 @@ export default function LandingPage() {
           </button>
         </div>
 
+        {templates && templates.length > 0 && (
+          <section className="max-w-6xl mx-auto">
+            <h2 className="text-2xl font-semibold text-gray-900 mb-2 text-center">Or Start From a Project Template</h2>
+            <p className="text-gray-600 mb-6 text-center">
+              Begin with a proven room layout and adjust it to fit your property.
+            </p>
+            <div className="grid md:grid-cols-3 gap-6">
+              {templates.map(template => (
+                <div key={template.id} className="card p-6 flex flex-col">
+                  <h3 className="font-semibold text-lg text-gray-900 mb-1">{template.name}</h3>
+                  <div className="text-sm text-gray-500 mb-2">{summarizeProjectTemplate(template)}</div>
+                  {template.description && <p className="text-gray-600 text-sm mb-4">{template.description}</p>}
+                  <div className="mt-auto flex items-center gap-2">
+                    <button onClick={() => handleUseTemplate(template)} className="btn-primary flex-1">
+                      Use Template
+                    </button>
+                    {isAdmin && (
+                      <button onClick={() => void handleDeleteTemplate(template)} className="btn-danger">
+                        Delete
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
       </main>
 
       {/* Footer */}
@@ -1,14 +1,27 @@
+import { useEffect, useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { useEstimatorStore } from '../store/estimatorStore';
+import { useBudgetDefaultsStore } from '../store/budgetDefaultsStore';
+import { useCurrencyRatesStore } from '../store/currencyRatesStore';
+import { useRegionalPricingStore } from '../store/regionalPricingStore';
 import { useAutoConfigRules, useAutoConfiguration } from '../hooks/useAutoConfiguration';
+import { useRoomTemplates } from '../hooks/useRoomTemplates';
 import Header from '../components/Header';
 import ProgressBar from '../components/ProgressBar';
-import type { PropertySpecs } from '../types';
+import { QUALITY_TIERS } from '../types';
+import type { CurrencyCode, PropertySpecs } from '../types';
+import { normalizeLocation } from '../utils/regionalPricing';
+import { formatCurrency } from '../utils/calculations';
+import { BASE_CURRENCY, getCurrencySymbol } from '../utils/currency';
+import { BASELINE_TIER, fitRoomsToBudget } from '../utils/budgetFit';
+
+const formatChange = (cents: number, currency: CurrencyCode) =>
+  `${cents < 0 ? '−' : '+'}${formatCurrency(Math.abs(cents), currency)}`;
 
 export default function PropertyInputPage() {
   const navigate = useNavigate();
-  const { setPropertySpecs, setCurrentStep, propertySpecs } = useEstimatorStore();
+  const { setPropertySpecs, setCurrentStep, startFromTemplate, propertySpecs } = useEstimatorStore();
 
   // Load auto-configuration rules
   const { rules, loading: rulesLoading } = useAutoConfigRules();
@@ -25,11 +38,72 @@ export default function PropertyInputPage() {
   const guestCapacity = watch('guestCapacity');
 
   // Get auto-configuration validation using current form values
-  const { validation } = useAutoConfiguration(squareFootage, guestCapacity);
+  const { validation, computedConfiguration } = useAutoConfiguration(squareFootage, guestCapacity);
+
+  // Fit to budget: the solver needs templates and the same pricing inputs as the results page
+  const { roomTemplates, loading: templatesLoading } = useRoomTemplates();
+  const { defaults: budgetDefaults, loadDefaults, loading: defaultsLoading } = useBudgetDefaultsStore();
+  const { rates: currencyRates, loadRates: loadCurrencyRates } = useCurrencyRatesStore();
+  const { config: regionalPricing, loadConfig: loadRegionalPricing } = useRegionalPricingStore();
+  const [targetBudgetInput, setTargetBudgetInput] = useState(
+    propertySpecs?.targetBudget ? String(propertySpecs.targetBudget / 100) : ''
+  );
+
+  useEffect(() => {
+    if (!budgetDefaults && !defaultsLoading) {
+      void loadDefaults();
+    }
+  }, [budgetDefaults, defaultsLoading, loadDefaults]);
+
+  useEffect(() => {
+    if (!currencyRates) {
+      void loadCurrencyRates();
+    }
+  }, [currencyRates, loadCurrencyRates]);
+
+  useEffect(() => {
+    if (!regionalPricing) {
+      void loadRegionalPricing();
+    }
+  }, [regionalPricing, loadRegionalPricing]);
+
+  // New estimates are quoted in the default currency
+  const currency = budgetDefaults?.currency ?? BASE_CURRENCY;
+  const targetBudget = Math.round((parseFloat(targetBudgetInput) || 0) * 100);
+  const location = watch('location');
+
+  const budgetFit = useMemo(() => {
+    if (!rules || !computedConfiguration || roomTemplates.size === 0 || targetBudget <= 0) return null;
+    const normalizedLocation = normalizeLocation(location);
+    const specs: PropertySpecs = {
+      squareFootage: Number(squareFootage),
+      guestCapacity: Number(guestCapacity),
+      ...(normalizedLocation ? { location: normalizedLocation } : {}),
+    };
+    return fitRoomsToBudget(targetBudget, specs.guestCapacity, computedConfiguration, rules, roomTemplates, {
+      propertySpecs: specs,
+      budgetDefaults: budgetDefaults ?? undefined,
+      regionalPricing,
+      currency,
+      currencyRates,
+    });
+  }, [rules, computedConfiguration, roomTemplates, targetBudget, squareFootage, guestCapacity, location, budgetDefaults, regionalPricing, currency, currencyRates]);
 
   const onSubmit = (data: PropertySpecs) => {
-    setPropertySpecs(data);
-    setCurrentStep(2);
+    const { location, ...specs } = data;
+    const normalizedLocation = normalizeLocation(location);
+    // Firestore rejects undefined, so leave location off entirely when it wasn't provided
+    const normalizedSpecs: PropertySpecs = normalizedLocation ? { ...specs, location: normalizedLocation } : specs;
+    delete normalizedSpecs.targetBudget;
+    delete normalizedSpecs.targetTier;
+
+    if (budgetFit) {
+      // The fitted rooms replace the suggested configuration
+      startFromTemplate({ ...normalizedSpecs, targetBudget, targetTier: budgetFit.tier }, budgetFit.rooms);
+    } else {
+      setPropertySpecs(normalizedSpecs);
+      setCurrentStep(2);
+    }
     navigate('/tools/budget-estimator/rooms');
   };
 
@@ -134,6 +208,111 @@ export default function PropertyInputPage() {
             </div>
 
 
+            {/* Location */}
+            <div className="card">
+              <label className="block text-lg font-semibold text-gray-900 mb-4">
+                Property Location <span className="text-gray-500 font-normal">(optional)</span>
+              </label>
+              <div className="flex items-center gap-4">
+                <input
+                  type="text"
+                  {...register('location.state', {
+                    pattern: { value: /^\s*[A-Za-z]{2}\s*$/, message: 'Use a two-letter state code' }
+                  })}
+                  maxLength={2}
+                  placeholder="State (e.g., CO)"
+                  className="input-field w-40 uppercase"
+                />
+                <input
+                  type="text"
+                  {...register('location.zip', {
+                    pattern: { value: /^\s*\d{5}(-\d{4})?\s*$/, message: 'Enter a valid ZIP code' }
+                  })}
+                  maxLength={10}
+                  placeholder="ZIP code"
+                  className="input-field flex-1"
+                />
+              </div>
+              <p className="text-sm text-gray-500 mt-2">
+                Used to include regional sales tax and freight in your project budget
+              </p>
+              {(errors.location?.state || errors.location?.zip) && (
+                <p className="text-red-600 text-sm mt-2">
+                  {errors.location?.state?.message || errors.location?.zip?.message}
+                </p>
+              )}
+            </div>
+
+            {/* Target Budget */}
+            <div className="card">
+              <label className="block text-lg font-semibold text-gray-900 mb-4">
+                Target Budget <span className="text-gray-500 font-normal">(optional)</span>
+              </label>
+              <div className="flex items-center gap-4">
+                <span className="text-gray-600 font-medium">{getCurrencySymbol(currency)}</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="1000"
+                  value={targetBudgetInput}
+                  onChange={(e) => setTargetBudgetInput(e.target.value)}
+                  placeholder="e.g. 150000"
+                  className="input-field flex-1"
+                />
+              </div>
+              <p className="text-sm text-gray-500 mt-2">
+                We'll pick room sizes, optional rooms and a quality level that land closest to your budget while sleeping all your guests
+              </p>
+
+              {targetBudget > 0 && (templatesLoading || !rules || !computedConfiguration) && (
+                <p className="text-sm text-gray-500 mt-4">Finding the closest configuration…</p>
+              )}
+
+              {targetBudget > 0 && !templatesLoading && rules && computedConfiguration && !budgetFit && (
+                <div className="mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+                  <p className="text-yellow-800 text-sm">
+                    No room configuration sleeps {guestCapacity} guests, so we'll start from the suggested rooms instead.
+                  </p>
+                </div>
+              )}
+
+              {budgetFit && (
+                <div className="mt-4 p-4 bg-primary-50 border border-primary-200 rounded-md">
+                  <div className="flex flex-col sm:flex-row sm:items-baseline sm:justify-between gap-1">
+                    <span className="font-semibold text-gray-900">
+                      Closest fit: {formatCurrency(budgetFit.total, currency)} at {QUALITY_TIERS[budgetFit.tier].name}
+                    </span>
+                    <span className="text-sm text-gray-600">
+                      {budgetFit.difference === 0
+                        ? 'Right on target'
+                        : `${formatCurrency(Math.abs(budgetFit.difference), currency)} ${budgetFit.difference < 0 ? 'under' : 'over'} target`}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-600 mt-1">
+                    {budgetFit.rooms.map(room => (room.quantity > 1 ? `${room.displayName} ×${room.quantity}` : room.displayName)).join(', ')} • sleeps {budgetFit.capacity}
+                  </p>
+                  <div className="mt-3">
+                    <span className="text-sm font-medium text-gray-700">Trade-offs</span>
+                    {budgetFit.tradeOffs.length > 0 ? (
+                      <ul className="mt-1 space-y-1">
+                        {budgetFit.tradeOffs.map(tradeOff => (
+                          <li key={tradeOff.description} className="flex justify-between gap-3 text-sm text-gray-700">
+                            <span>{tradeOff.description}</span>
+                            <span className="flex-shrink-0">{formatChange(tradeOff.amount, currency)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="text-sm text-gray-600 mt-1">None — the suggested rooms at {QUALITY_TIERS[BASELINE_TIER].name} fit best</p>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-3">
+                    These rooms are selected when you continue, and you can still adjust them on the next step.
+                  </p>
+                </div>
+              )}
+            </div>
+
             {/* Additional Notes */}
             <div className="card">
               <label className="block text-lg font-semibold text-gray-900 mb-4">
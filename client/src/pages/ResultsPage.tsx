@@ -6,15 +6,22 @@ import { auth, db } from '../lib/firebase';
 import { useAuth } from '../context/AuthContext';
 import { useAuthModal, AuthModalCancelledError } from '../components/auth/AuthModalProvider';
 import { useEstimatorStore } from '../store/estimatorStore';
+import { useRegionalPricingStore } from '../store/regionalPricingStore';
+import { useCurrencyRatesStore } from '../store/currencyRatesStore';
+import { BASE_CURRENCY } from '../utils/currency';
 import Header from '../components/Header';
 import ProgressBar from '../components/ProgressBar';
-import type { RoomItem, RoomWithItems, Budget, ProjectBudget } from '../types';
+import { QUALITY_TIERS } from '../types';
+import type { ItemBreakdown, RoomWithItems, Budget, ProjectBudget } from '../types';
 
 // Type guard to check if budget is a ProjectBudget
 function isProjectBudget(budget: Budget | ProjectBudget | null): budget is ProjectBudget {
   return budget !== null && 'projectRange' in budget;
 }
-import { formatCurrency, calculateTotalRooms, calculateTotalItems } from '../utils/calculations';
+
+// A row in a room's "Included Items" list
+type IncludedItem = Pick<ItemBreakdown, 'name' | 'quantity'>;
+import { formatCurrency, calculateTotalRooms, calculateTotalItems, getRoomItemDisplayName } from '../utils/calculations';
 import { useRoomTemplates } from '../hooks/useRoomTemplates';
 import { calculateSelectedRoomCapacity } from '../utils/autoConfiguration';
 import { useAutoConfigRules } from '../hooks/useAutoConfiguration';
@@ -22,6 +29,7 @@ import { syncToHighLevel } from '../utils/highLevelSync';
 import { calculateEstimate } from '../utils/calculations';
 import type { BudgetDefaults } from '../types';
 import { getOptIn } from '../utils/optInStorage';
+import { createPriceSnapshot, getSnapshotRates } from '../utils/priceSnapshot';
 
 export default function ResultsPage() {
   const navigate = useNavigate();
@@ -39,6 +47,10 @@ export default function ResultsPage() {
   const [isProjectBudgetType, setIsProjectBudgetType] = useState(false);
   const [budgetDefaults, setBudgetDefaults] = useState<BudgetDefaults | null>(null);
   const [defaultsLoading, setDefaultsLoading] = useState(true);
+  const { config: regionalPricing, loadConfig: loadRegionalPricing } = useRegionalPricingStore();
+  const { rates: currencyRates, loadRates: loadCurrencyRates } = useCurrencyRatesStore();
+  // New estimates are quoted in the default currency
+  const currency = budgetDefaults?.currency ?? BASE_CURRENCY;
 
   // Convert arrays to Maps for calculation functions
   const roomTemplatesMap = useMemo(() => {
@@ -65,13 +77,16 @@ export default function ResultsPage() {
       return calculateEstimate(selectedRooms, roomTemplatesMap, itemsMap, {
         propertySpecs,
         budgetDefaults: budgetDefaults || undefined,
+        regionalPricing,
+        currency,
+        currencyRates,
       });
     }
 
     // Otherwise, create a regular furnishings budget
     setIsProjectBudgetType(false);
     return calculateEstimate(selectedRooms, roomTemplatesMap, itemsMap);
-  }, [selectedRooms, roomTemplatesMap, itemsMap, propertySpecs, budgetDefaults]);
+  }, [selectedRooms, roomTemplatesMap, itemsMap, propertySpecs, budgetDefaults, regionalPricing, currency, currencyRates]);
 
   // Calculate room and item counts
   const totalRooms = useMemo(() => calculateTotalRooms(selectedRooms), [selectedRooms]);
@@ -131,6 +146,11 @@ export default function ResultsPage() {
             kitchenCents: data.kitchenCents || 0,
             propertyManagementCents: data.propertyManagementCents || 0,
             designFeeRatePerSqftCents: data.designFeeRatePerSqftCents || 1000, // Default $10/sqft
+            contingency: data.contingency,
+            addOnRules: data.addOnRules,
+            designFeePhases: data.designFeePhases,
+            designFeeRateBreaks: data.designFeeRateBreaks,
+            currency: data.currency,
           });
         } else {
           // No defaults in Firestore - use minimal defaults for project budget
@@ -162,6 +182,18 @@ export default function ResultsPage() {
     void loadBudgetDefaults();
   }, []);
 
+  useEffect(() => {
+    if (!regionalPricing) {
+      void loadRegionalPricing();
+    }
+  }, [regionalPricing, loadRegionalPricing]);
+
+  useEffect(() => {
+    if (!currencyRates) {
+      void loadCurrencyRates();
+    }
+  }, [currencyRates, loadCurrencyRates]);
+
   useEffect(() => {
     if (!budget || !selectedRooms || selectedRooms.length === 0) {
       navigate('/tools/budget-estimator/rooms');
@@ -225,8 +257,17 @@ export default function ResultsPage() {
       const estimateData = {
         clientInfo,
         propertySpecs,
+        ...(budgetDefaults?.currency ? { currency: budgetDefaults.currency } : {}),
         rooms: roomsWithItems,
+        // Freeze prices so later library edits don't change the submitted quote
+        priceSnapshot: createPriceSnapshot(
+          roomsWithItems,
+          itemsMap,
+          budgetDefaults,
+          getSnapshotRates({ currency, propertySpecs }, regionalPricing, currencyRates)
+        ),
         status: 'submitted',
+        statusChangedAt: serverTimestamp(),
         source: 'direct',
         viewCount: 0,
         syncedToHighLevel: false,
@@ -293,12 +334,17 @@ export default function ResultsPage() {
               </p>
               <div className="text-3xl md:text-4xl lg:text-5xl font-bold mb-2">
                 {isProjectBudgetType && isProjectBudget(budget)
-                  ? `${formatCurrency(budget.projectRange.low)} — ${formatCurrency(budget.projectRange.mid)}`
-                  : budget ? `${formatCurrency(budget.rangeLow)} — ${formatCurrency(budget.rangeHigh)}` : '$0 — $0'}
+                  ? `${formatCurrency(budget.projectRange.low, currency)} — ${formatCurrency(budget.projectRange.mid, currency)}`
+                  : budget ? `${formatCurrency(budget.rangeLow, currency)} — ${formatCurrency(budget.rangeHigh, currency)}` : `${formatCurrency(0, currency)} — ${formatCurrency(0, currency)}`}
               </div>
               <p className="text-sm opacity-75 mt-4">
                 {propertySpecs.squareFootage.toLocaleString()} sq ft • {propertySpecs.guestCapacity} requested capacity • {actualCapacity} max capacity • {totalRooms} room{totalRooms !== 1 ? 's' : ''} • {totalItems} item{totalItems !== 1 ? 's' : ''}
               </p>
+              {propertySpecs.targetBudget && propertySpecs.targetTier && isProjectBudget(budget) && (
+                <p className="text-sm opacity-90 mt-2">
+                  Target budget {formatCurrency(propertySpecs.targetBudget, currency)} • {QUALITY_TIERS[propertySpecs.targetTier].name}: {formatCurrency(budget.projectRange[propertySpecs.targetTier], currency)}
+                </p>
+              )}
             </div>
           </div>
 
@@ -325,7 +371,7 @@ export default function ResultsPage() {
                       <div className="flex justify-between items-center mb-1">
                         <span className="text-gray-700 flex-1 min-w-0">Furnishings</span>
                         <span className="text-gray-700 flex-shrink-0 ml-3">
-                          {formatCurrency(budget.rangeLow)} — {formatCurrency(budget.rangeHigh)}
+                          {formatCurrency(budget.rangeLow, currency)} — {formatCurrency(budget.rangeHigh, currency)}
                         </span>
                       </div>
                       <p className="text-xs text-gray-500">
@@ -334,46 +380,26 @@ export default function ResultsPage() {
                     </div>
 
                     {/* Project Add-ons */}
-                    <div className="py-2">
-                      <div className="flex justify-between items-center mb-1">
-                        <span className="text-gray-700 flex-1 min-w-0">Design Planning</span>
-                        <span className="text-gray-700 flex-shrink-0 ml-3">
-                          {formatCurrency(budget.projectAddOns.designPlanning)}
-                        </span>
-                      </div>
-                      <p className="text-xs text-gray-500">
-                        Initial design consultation, space planning, and design development
-                      </p>
-                    </div>
-
-                    <div className="py-2">
-                      <div className="flex justify-between items-center mb-1">
-                        <span className="text-gray-700 flex-1 min-w-0">Procurement</span>
-                        <span className="text-gray-700 flex-shrink-0 ml-3">
-                          {formatCurrency(budget.projectAddOns.procurement)}
-                        </span>
-                      </div>
-                      <p className="text-xs text-gray-500">
-                        Sourcing, ordering, and managing furniture and accessories
-                      </p>
-                    </div>
-
-                    <div className="py-2">
-                      <div className="flex justify-between items-center mb-1">
-                        <span className="text-gray-700 flex-1 min-w-0">Design Implementation</span>
-                        <span className="text-gray-700 flex-shrink-0 ml-3">
-                          {formatCurrency(budget.projectAddOns.designImplementation)}
-                        </span>
+                    {budget.designFees.map((fee) => (
+                      <div key={fee.id} className="py-2">
+                        <div className="flex justify-between items-center mb-1">
+                          <span className="text-gray-700 flex-1 min-w-0">{fee.label}</span>
+                          <span className="text-gray-700 flex-shrink-0 ml-3">
+                            {formatCurrency(fee.amount, currency)}
+                          </span>
+                        </div>
+                        {fee.description && (
+                          <p className="text-xs text-gray-500">
+                            {fee.description}
+                          </p>
+                        )}
                       </div>
-                      <p className="text-xs text-gray-500">
-                        Final placement, styling, and design execution services
-                      </p>
-                    </div>
+                    ))}
 
                     <div className="py-2">
                       <div className="flex justify-between items-center mb-1">
                         <span className="text-gray-700 flex-1 min-w-0">Installation</span>
-                        <span className="text-gray-700 flex-shrink-0 ml-3">{formatCurrency(budget.projectAddOns.installation)}</span>
+                        <span className="text-gray-700 flex-shrink-0 ml-3">{formatCurrency(budget.projectAddOns.installation, currency)}</span>
                       </div>
                       <p className="text-xs text-gray-500">
                         Professional delivery, setup, and installation services
@@ -383,7 +409,7 @@ export default function ResultsPage() {
                     <div className="py-2">
                       <div className="flex justify-between items-center mb-1">
                         <span className="text-gray-700 flex-1 min-w-0">Fuel</span>
-                        <span className="text-gray-700 flex-shrink-0 ml-3">{formatCurrency(budget.projectAddOns.fuel)}</span>
+                        <span className="text-gray-700 flex-shrink-0 ml-3">{formatCurrency(budget.projectAddOns.fuel, currency)}</span>
                       </div>
                       <p className="text-xs text-gray-500">
                         Transportation and fuel costs
@@ -393,7 +419,7 @@ export default function ResultsPage() {
                     <div className="py-2">
                       <div className="flex justify-between items-center mb-1">
                         <span className="text-gray-700 flex-1 min-w-0">Storage & Receiving</span>
-                        <span className="text-gray-700 flex-shrink-0 ml-3">{formatCurrency(budget.projectAddOns.storageAndReceiving)}</span>
+                        <span className="text-gray-700 flex-shrink-0 ml-3">{formatCurrency(budget.projectAddOns.storageAndReceiving, currency)}</span>
                       </div>
                       <p className="text-xs text-gray-500">
                         Temporary storage solutions and receiving services
@@ -403,7 +429,7 @@ export default function ResultsPage() {
                     <div className="py-2">
                       <div className="flex justify-between items-center mb-1">
                         <span className="text-gray-700 flex-1 min-w-0">Kitchen</span>
-                        <span className="text-gray-700 flex-shrink-0 ml-3">{formatCurrency(budget.projectAddOns.kitchen)}</span>
+                        <span className="text-gray-700 flex-shrink-0 ml-3">{formatCurrency(budget.projectAddOns.kitchen, currency)}</span>
                       </div>
                       <p className="text-xs text-gray-500">
                         Kitchen equipment including cookware, flatware, and accessories
@@ -413,18 +439,60 @@ export default function ResultsPage() {
                     <div className="py-2">
                       <div className="flex justify-between items-center mb-1">
                         <span className="text-gray-700 flex-1 min-w-0">Property Management</span>
-                        <span className="text-gray-700 flex-shrink-0 ml-3">{formatCurrency(budget.projectAddOns.propertyManagement)}</span>
+                        <span className="text-gray-700 flex-shrink-0 ml-3">{formatCurrency(budget.projectAddOns.propertyManagement, currency)}</span>
                       </div>
                       <p className="text-xs text-gray-500">
                         Items required by property management
                       </p>
                     </div>
 
+                    {budget.projectAddOns.freight.mid > 0 && (
+                      <div className="py-2">
+                        <div className="flex justify-between items-center mb-1">
+                          <span className="text-gray-700 flex-1 min-w-0">Freight</span>
+                          <span className="text-gray-700 flex-shrink-0 ml-3">
+                            {formatCurrency(budget.projectAddOns.freight.low, currency)} — {formatCurrency(budget.projectAddOns.freight.mid, currency)}
+                          </span>
+                        </div>
+                        <p className="text-xs text-gray-500">
+                          Shipping and delivery of furnishings{budget.region ? ` to ${budget.region.name}` : ''}
+                        </p>
+                      </div>
+                    )}
+
+                    {budget.projectAddOns.salesTax.mid > 0 && (
+                      <div className="py-2">
+                        <div className="flex justify-between items-center mb-1">
+                          <span className="text-gray-700 flex-1 min-w-0">Sales Tax</span>
+                          <span className="text-gray-700 flex-shrink-0 ml-3">
+                            {formatCurrency(budget.projectAddOns.salesTax.low, currency)} — {formatCurrency(budget.projectAddOns.salesTax.mid, currency)}
+                          </span>
+                        </div>
+                        <p className="text-xs text-gray-500">
+                          {budget.region ? `${budget.region.name} sales tax (${budget.region.salesTaxPercent}%)` : 'Sales tax'} on taxable furnishings
+                        </p>
+                      </div>
+                    )}
+
+                    {!budget.contingencyDisabled && (
+                      <div className="py-2">
+                        <div className="flex justify-between items-center mb-1">
+                          <span className="text-gray-700 flex-1 min-w-0">Contingency</span>
+                          <span className="text-gray-700 flex-shrink-0 ml-3">
+                            {formatCurrency(budget.low.contingency, currency)} — {formatCurrency(budget.mid.contingency, currency)}
+                          </span>
+                        </div>
+                        <p className="text-xs text-gray-500">
+                          Allowance for price changes and unforeseen costs
+                        </p>
+                      </div>
+                    )}
+
                     {/* Project Total */}
                     <div className="flex justify-between items-center py-4 border-t-2 border-gray-300 mt-4">
                       <span className="text-lg sm:text-xl font-bold text-gray-900 flex-1 min-w-0">Project Total</span>
                       <span className="text-lg sm:text-xl font-bold text-primary-600 flex-shrink-0 ml-3">
-                        {formatCurrency(budget.projectRange.low)} — {formatCurrency(budget.projectRange.mid)}
+                        {formatCurrency(budget.projectRange.low, currency)} — {formatCurrency(budget.projectRange.mid, currency)}
                       </span>
                     </div>
 
@@ -466,10 +534,15 @@ export default function ResultsPage() {
 
                 <div className="space-y-4">
                   {budget.roomBreakdown.map((room, idx) => {
-                    const template = roomTemplates.get(room.roomType);
-                    const roomSizeData = template?.sizes[room.roomSize as 'small' | 'medium' | 'large'];
                     const isExpanded = expandedRooms.has(room.roomType);
-                    const roomDisplayName = room.roomType.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+                    const roomDisplayName = room.displayName || room.roomType.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+                    // Template-priced rooms have no line items, so list the template's contents instead
+                    const includedItems: IncludedItem[] = room.templatePriced
+                      ? (roomTemplates.get(room.roomType)?.sizes[room.roomSize as 'small' | 'medium' | 'large']?.items ?? []).map((roomItem) => ({
+                          name: getRoomItemDisplayName(roomItem, items.get(roomItem.itemId)),
+                          quantity: roomItem.quantity,
+                        }))
+                      : room.items;
 
                     return (
                       <div key={idx} className="border border-gray-200 rounded-lg overflow-hidden">
@@ -497,35 +570,26 @@ export default function ResultsPage() {
                           </div>
                           <div className="text-right flex-shrink-0 ml-3">
                             <div className="font-semibold text-gray-700 whitespace-nowrap">
-                              {formatCurrency(room.lowAmount)} — {formatCurrency(room.midAmount)}
+                              {formatCurrency(room.lowAmount, currency)} — {formatCurrency(room.midAmount, currency)}
                             </div>
                           </div>
                         </div>
 
                         {/* Room Details - Collapsible */}
-                        {isExpanded && roomSizeData && roomSizeData.items.length > 0 && (
+                        {isExpanded && includedItems.length > 0 && (
                           <div className="border-t border-gray-200 p-4 bg-white">
                             <h5 className="text-sm font-medium text-gray-700 mb-3">Included Items:</h5>
                             <div className="grid gap-2">
-                              {roomSizeData.items
-                                .sort((a: RoomItem, b: RoomItem) => {
-                                  const itemA = items.get(a.itemId);
-                                  const itemB = items.get(b.itemId);
-                                  const nameA = itemA?.name || a.itemId.replace(/_/g, ' ').replace(/\b\w/g, (l: string) => l.toUpperCase());
-                                  const nameB = itemB?.name || b.itemId.replace(/_/g, ' ').replace(/\b\w/g, (l: string) => l.toUpperCase());
-                                  return nameA.localeCompare(nameB);
-                                })
-                                .map((roomItem: RoomItem, itemIdx: number) => {
-                                  const item = items.get(roomItem.itemId);
-                                  const itemDisplayName = item?.name || roomItem.itemId.replace(/_/g, ' ').replace(/\b\w/g, (l: string) => l.toUpperCase());
-
+                              {[...includedItems]
+                                .sort((a: IncludedItem, b: IncludedItem) => a.name.localeCompare(b.name))
+                                .map((lineItem: IncludedItem, itemIdx: number) => {
                                   return (
                                     <div key={itemIdx} className="flex justify-between items-center text-sm bg-gray-50 px-4 py-3 rounded-lg">
                                       <span className="text-gray-700 font-medium">
-                                        {itemDisplayName}
+                                        {lineItem.name}
                                       </span>
                                       <span className="text-gray-600">
-                                        Qty: {roomItem.quantity}
+                                        Qty: {lineItem.quantity}
                                       </span>
                                     </div>
                                   );
@@ -10,6 +10,8 @@ import { useRoomTemplates } from '../hooks/useRoomTemplates';
 import { useAutoConfiguration, useAutoConfigRules } from '../hooks/useAutoConfiguration';
 import { calculateSelectedRoomCapacity } from '../utils/autoConfiguration';
 import { useBudgetDefaultsStore } from '../store/budgetDefaultsStore';
+import { useCurrencyRatesStore } from '../store/currencyRatesStore';
+import { BASE_CURRENCY, convertFromBase, getExchangeRate } from '../utils/currency';
 
 export default function RoomConfigurationPage() {
   const navigate = useNavigate();
@@ -24,6 +26,7 @@ export default function RoomConfigurationPage() {
   
   const { roomTemplates, loading } = useRoomTemplates();
   const { defaults: budgetDefaults, loadDefaults, loading: defaultsLoading } = useBudgetDefaultsStore();
+  const { rates: currencyRates, loadRates: loadCurrencyRates } = useCurrencyRatesStore();
   const { computedConfiguration } = useAutoConfiguration();
   const { rules } = useAutoConfigRules();
   const [localRooms, setLocalRooms] = useState<RoomWithItems[]>(selectedRooms as RoomWithItems[]);
@@ -71,6 +74,16 @@ export default function RoomConfigurationPage() {
     }
   }, [budgetDefaults, defaultsLoading, loadDefaults]);
 
+  useEffect(() => {
+    if (!currencyRates) {
+      void loadCurrencyRates();
+    }
+  }, [currencyRates, loadCurrencyRates]);
+
+  // New estimates are quoted in the default currency
+  const currency = budgetDefaults?.currency ?? BASE_CURRENCY;
+  const exchangeRate = getExchangeRate(currencyRates, currency);
+
   const handleToggleRoom = (roomType: string) => {
     const existingIndex = localRooms.findIndex(r => r.roomType === roomType);
     
@@ -125,8 +138,8 @@ export default function RoomConfigurationPage() {
     if (!roomSize) return { low: 0, mid: 0 };
 
     return {
-      low: roomSize.totals.low,
-      mid: roomSize.totals.mid,
+      low: convertFromBase(roomSize.totals.low, exchangeRate),
+      mid: convertFromBase(roomSize.totals.mid, exchangeRate),
     };
   };
 
@@ -146,6 +159,8 @@ export default function RoomConfigurationPage() {
     const projectBudget = calculateEstimate(localRooms, roomTemplates, undefined, {
       propertySpecs,
       budgetDefaults,
+      currency,
+      currencyRates,
     });
 
     if ('projectRange' in projectBudget) {
@@ -231,6 +246,7 @@ export default function RoomConfigurationPage() {
                       items: [],
                     }}
                     isSelected={isSelected}
+                    currency={currency}
                     priceRange={getRoomPriceRange(
                       template.id,
                       room?.roomSize || 'medium'
@@ -266,6 +282,7 @@ export default function RoomConfigurationPage() {
                       items: [],
                     }}
                     isSelected={isSelected}
+                    currency={currency}
                     priceRange={getRoomPriceRange(
                       template.id,
                       room?.roomSize || 'medium'
@@ -287,7 +304,7 @@ export default function RoomConfigurationPage() {
                   Estimated {budgetDefaults ? 'Project Budget' : 'Budget'} Range
                 </p>
                 <p className="text-3xl font-bold text-primary-800">
-                  {formatCurrency(runningTotal.low)} - {formatCurrency(runningTotal.mid)}
+                  {formatCurrency(runningTotal.low, currency)} - {formatCurrency(runningTotal.mid, currency)}
                 </p>
                 <p className="text-sm text-gray-600 mt-2">
                   {propertySpecs?.squareFootage?.toLocaleString() || 0} sqft • Max capacity: {rules ? calculateSelectedRoomCapacity(localRooms.map(room => ({ roomType: room.roomType, quantity: room.quantity, roomSize: room.roomSize })), rules) : 0} guests
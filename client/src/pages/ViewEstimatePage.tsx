@@ -1,26 +1,52 @@
 import { useState, useEffect, useMemo, useRef } from 'react';
 import { useParams, Link, useSearchParams } from 'react-router-dom';
 import { useBackDestination } from '../hooks/useBackDestination';
+import { useDuplicateEstimate } from '../hooks/useDuplicateEstimate';
 import { doc, onSnapshot } from 'firebase/firestore';
-import { ChevronDown, ChevronRight, Download } from 'lucide-react';
+import { ChevronDown, ChevronRight, Download, FileSpreadsheet } from 'lucide-react';
 import { db } from '../lib/firebase';
 import Header from '../components/Header';
-import type { Estimate, RoomItem, Budget, ProjectBudget, Item, RoomTemplate } from '../types';
-import { formatCurrency, calculateTotalRooms, calculateTotalItems, calculateEstimate, createOutdoorSpaceRoom } from '../utils/calculations';
+import PurchaseOrdersPanel from '../components/PurchaseOrdersPanel';
+import EstimateStatusControls from '../components/EstimateStatusControls';
+import EstimateAssignmentControls from '../components/EstimateAssignmentControls';
+import EstimateActivityFeed from '../components/EstimateActivityFeed';
+import SaveProjectTemplateModal from '../components/SaveProjectTemplateModal';
+import PhaseTimeline from '../components/PhaseTimeline';
+import { parseEditHistory } from '../utils/activityFeed';
+import type { Estimate, ItemBreakdown, Budget, ProjectBudget, Item, RoomTemplate, QualityTier } from '../types';
+import { QUALITY_TIERS } from '../types';
+import { formatCurrency, calculateTotalRooms, calculateTotalItems, calculateEstimate, createOutdoorSpaceRoom, getEstimateCalculationOptions } from '../utils/calculations';
 import { useRoomTemplates } from '../hooks/useRoomTemplates';
 import { calculateSelectedRoomCapacity } from '../utils/autoConfiguration';
 import { useAutoConfigRules } from '../hooks/useAutoConfiguration';
 import { useBudgetDefaultsStore } from '../store/budgetDefaultsStore';
+import { useRegionalPricingStore } from '../store/regionalPricingStore';
+import { useCurrencyRatesStore } from '../store/currencyRatesStore';
+import { useVendorsStore } from '../store/vendorsStore';
+import { BASE_CURRENCY } from '../utils/currency';
 import { useAuth } from '../context/AuthContext';
 import { useAuthModal } from '../components/auth/AuthModalProvider';
-import html2canvas from 'html2canvas';
-import jsPDF from 'jspdf';
+import { downloadPDF, generateEstimatePDF, getEstimatePDFFilename } from '../utils/pdfGenerator';
+import { exportEstimateToExcel } from '../utils/excelExport';
+import { applyPriceSnapshot } from '../utils/priceSnapshot';
+import { buildPurchasingList, exportPurchasingList } from '../utils/purchasing';
+import { isOwnerView, parseStatusHistory } from '../utils/estimateStatus';
+import { recordOwnerView } from '../services/estimateStatus';
+import { PRIMARY_VARIANT_ID, getEstimateVariants, selectEstimateVariant } from '../utils/estimateVariants';
+import { getSelectedTotal } from '../utils/selectedTiers';
 
 // Type guard to check if budget is a ProjectBudget
 function isProjectBudget(budget: Budget | ProjectBudget | null): budget is ProjectBudget {
   return budget !== null && 'projectRange' in budget;
 }
 
+// Headline range: the project budget when add-ons apply, otherwise the furnishings range
+function formatBudgetRange(budget: Budget | ProjectBudget, currency: Estimate['currency']): string {
+  return isProjectBudget(budget)
+    ? `${formatCurrency(budget.projectRange.low, currency)} — ${formatCurrency(budget.projectRange.mid, currency)}`
+    : `${formatCurrency(budget.rangeLow, currency)} — ${formatCurrency(budget.rangeHigh, currency)}`;
+}
+
 export default function ViewEstimatePage() {
   const { estimateId } = useParams<{ estimateId: string }>();
   const { href: backHref } = useBackDestination('/tools/reports?tab=estimates');
@@ -32,13 +58,17 @@ export default function ViewEstimatePage() {
   const [expandedRooms, setExpandedRooms] = useState<Set<string>>(new Set());
   const [isGeneratingPDF, setIsGeneratingPDF] = useState(false);
   const [hidePrices, setHidePrices] = useState(false);
-  const pdfContentRef = useRef<HTMLDivElement>(null);
+  const [purchasingTier, setPurchasingTier] = useState<QualityTier>('mid');
+  const [variantId, setVariantId] = useState(PRIMARY_VARIANT_ID);
   const { profile, loading: authLoading } = useAuth();
   const { requireAccount } = useAuthModal();
 
   const { roomTemplates, items, loading: templatesLoading } = useRoomTemplates();
   const { rules: autoConfigRules, loading: rulesLoading } = useAutoConfigRules();
   const { defaults: budgetDefaults, loadDefaults } = useBudgetDefaultsStore();
+  const { config: regionalPricing, loadConfig: loadRegionalPricing } = useRegionalPricingStore();
+  const { rates: currencyRates, loadRates: loadCurrencyRates } = useCurrencyRatesStore();
+  const { vendors, loadVendors } = useVendorsStore();
 
   useEffect(() => {
     if (authLoading) {
@@ -53,7 +83,16 @@ export default function ViewEstimatePage() {
     const estimateRef = doc(db, 'estimates', estimateId);
     const unsubscribe = onSnapshot(estimateRef, (estimateSnap) => {
       if (estimateSnap.exists()) {
-        const estimateData = { id: estimateSnap.id, ...estimateSnap.data() } as Estimate;
+        const docData = estimateSnap.data();
+        const estimateData = {
+          id: estimateSnap.id,
+          ...docData,
+          statusChangedAt: docData.statusChangedAt?.toDate ? docData.statusChangedAt.toDate() : docData.statusChangedAt,
+          lastViewedAt: docData.lastViewedAt?.toDate ? docData.lastViewedAt.toDate() : docData.lastViewedAt,
+          followUpDate: docData.followUpDate?.toDate ? docData.followUpDate.toDate() : docData.followUpDate,
+          statusHistory: parseStatusHistory(docData.statusHistory),
+          editHistory: parseEditHistory(docData.editHistory),
+        } as Estimate;
         
         // For project budgets, ensure Outdoor Space room exists
         if (estimateData.propertySpecs) {
@@ -85,6 +124,16 @@ export default function ViewEstimatePage() {
     return () => unsubscribe();
   }, [estimateId, profile, authLoading, requireAccount]);
   
+  // Count each page load by the estimate's owner once; the snapshot listener refires after the update
+  const recordedViewRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!estimate || recordedViewRef.current === estimate.id || !isOwnerView(estimate, profile?.uid)) return;
+    recordedViewRef.current = estimate.id;
+    recordOwnerView(estimate).catch((error) => {
+      console.error('Error recording estimate view:', error);
+    });
+  }, [estimate, profile?.uid]);
+
   // Load budget defaults using the same store as EstimateEditPage
   useEffect(() => {
     if (!budgetDefaults) {
@@ -92,7 +141,22 @@ export default function ViewEstimatePage() {
     }
   }, [budgetDefaults, loadDefaults]);
 
-  const selectedRooms = estimate?.rooms || [];
+  useEffect(() => {
+    if (!regionalPricing) {
+      void loadRegionalPricing();
+    }
+  }, [regionalPricing, loadRegionalPricing]);
+
+  useEffect(() => {
+    if (!currencyRates) {
+      void loadCurrencyRates();
+    }
+  }, [currencyRates, loadCurrencyRates]);
+
+  // Everything below the options shows the selected option; the main one is shown first
+  const variants = useMemo(() => (estimate ? getEstimateVariants(estimate) : []), [estimate]);
+  const shownEstimate = useMemo(() => (estimate ? selectEstimateVariant(estimate, variantId) : null), [estimate, variantId]);
+  const selectedRooms = shownEstimate?.rooms || [];
   const propertySpecs = estimate?.propertySpecs;
 
   const roomTemplatesMap = useMemo(() => {
@@ -101,38 +165,37 @@ export default function ViewEstimatePage() {
     return map;
   }, [roomTemplates]);
 
+  // Submitted estimates are priced from their snapshot, not the live library
   const itemsMap = useMemo(() => {
     const map = new Map<string, Item>();
     items.forEach(item => map.set(item.id, item));
-    return map;
-  }, [items]);
+    return applyPriceSnapshot(map, estimate?.priceSnapshot);
+  }, [items, estimate?.priceSnapshot]);
 
   const budget: Budget | ProjectBudget | null = useMemo(() => {
     if (selectedRooms.length === 0) {
       return null;
     }
 
-    // Build options object matching EstimateEditPage logic exactly
-    const options = estimate?.propertySpecs && budgetDefaults
-      ? { 
-          propertySpecs: estimate.propertySpecs, 
-          budgetDefaults,
-          customRangeEnabled: estimate.customRangeEnabled,
-          customRangeLowPercent: estimate.customRangeLowPercent,
-          customRangeHighPercent: estimate.customRangeHighPercent,
-          customProjectAddOns: estimate.customProjectAddOns
-        }
-      : estimate?.customRangeEnabled
-        ? {
-            customRangeEnabled: estimate.customRangeEnabled,
-            customRangeLowPercent: estimate.customRangeLowPercent,
-            customRangeHighPercent: estimate.customRangeHighPercent,
-            customProjectAddOns: estimate.customProjectAddOns
-          }
-        : undefined;
-
+    const options = getEstimateCalculationOptions(shownEstimate, budgetDefaults, regionalPricing, currencyRates);
     return calculateEstimate(selectedRooms, roomTemplatesMap, itemsMap, options);
-  }, [selectedRooms, roomTemplatesMap, itemsMap, budgetDefaults, estimate]);
+  }, [selectedRooms, roomTemplatesMap, itemsMap, budgetDefaults, regionalPricing, currencyRates, shownEstimate]);
+  const selectedTotal = budget ? getSelectedTotal(budget) : undefined;
+
+  const variantSummaries = useMemo(() => {
+    if (!estimate || variants.length < 2) return [];
+    return variants.map(variant => {
+      const variantEstimate = selectEstimateVariant(estimate, variant.id);
+      const options = getEstimateCalculationOptions(variantEstimate, budgetDefaults, regionalPricing, currencyRates);
+      return {
+        variant,
+        roomCount: calculateTotalRooms(variant.rooms),
+        budget: variant.rooms.length > 0 ? calculateEstimate(variant.rooms, roomTemplatesMap, itemsMap, options) : null,
+      };
+    });
+  }, [estimate, variants, roomTemplatesMap, itemsMap, budgetDefaults, regionalPricing, currencyRates]);
+
+  const currency = estimate?.currency ?? BASE_CURRENCY;
 
   const totalRooms = useMemo(() => calculateTotalRooms(selectedRooms), [selectedRooms]);
   const totalItems = useMemo(() => calculateTotalItems(selectedRooms, roomTemplatesMap, itemsMap), [selectedRooms, roomTemplatesMap, itemsMap]);
@@ -169,192 +232,55 @@ export default function ViewEstimatePage() {
     setExpandedRooms(new Set());
   };
 
-  const handleDownloadPDF = async () => {
-    if (!pdfContentRef.current || !budget) return;
+  const handleDownloadPDF = () => {
+    if (!shownEstimate || !budget) return;
 
     setIsGeneratingPDF(true);
-    
-    // Add class to hide expand/collapse buttons during PDF generation
-    pdfContentRef.current.classList.add('generating-pdf');
-    
-    // Expand all rooms before capturing
-    const allRoomTypes = budget.roomBreakdown.map(room => room.roomType);
-    setExpandedRooms(new Set(allRoomTypes));
-
-    // Wait a bit for the DOM to update with expanded rooms
-    await new Promise(resolve => setTimeout(resolve, 300));
 
     try {
-      const canvas = await html2canvas(pdfContentRef.current, {
-        // Use an integer scale to avoid text baseline clipping while still
-        // relying on JPEG compression to keep file sizes reasonable
-        scale: 2,
-        useCORS: true,
-        logging: false,
-        backgroundColor: '#f9fafb', // gray-50 background
-        windowWidth: pdfContentRef.current.scrollWidth,
-        windowHeight: pdfContentRef.current.scrollHeight,
-      });
-
-      const padding = 5; // 5mm padding around the PDF
-      const pageWidth = 210; // A4 width in mm
-      const pageHeight = 297; // A4 height in mm
-      const usableWidth = pageWidth - (padding * 2); // Content width with padding
-      const usableHeight = pageHeight - (padding * 2); // Content height with padding
-
-      const imgWidth = usableWidth; // Image width fits within padding
-      const fullImgHeight = (canvas.height * imgWidth) / canvas.width; // Proportional height in mm for full canvas
-      const mmPerPixel = imgWidth / canvas.width;
-
-      // Figure out how many vertical pixels fit into one PDF page's usable height
-      const pageHeightPx = Math.floor(
-        (canvas.height * usableHeight) / fullImgHeight
-      );
-      const canvasCtx = canvas.getContext('2d');
-
-      const findSafeSliceHeight = (startPx: number, desiredHeightPx: number, totalHeightPx: number) => {
-        if (!canvasCtx) {
-          return desiredHeightPx;
-        }
-
-        const maxEndPx = Math.min(startPx + desiredHeightPx, totalHeightPx);
-
-        // If this is the final slice, use whatever remains
-        if (maxEndPx >= totalHeightPx) {
-          return totalHeightPx - startPx;
-        }
-
-        const searchWindowPx = Math.min(80, Math.max(25, Math.floor(desiredHeightPx * 0.2)));
-        const searchStart = Math.max(maxEndPx - searchWindowPx, startPx);
-        const searchHeight = maxEndPx - searchStart;
-
-        if (searchHeight <= 0) {
-          return desiredHeightPx;
-        }
-
-        try {
-          const imageData = canvasCtx.getImageData(0, searchStart, canvas.width, searchHeight);
-          const data = imageData.data;
-          const rowStride = canvas.width * 4;
-          const sampleStep = Math.max(1, Math.floor(canvas.width / 600));
-          const darkThreshold = 215;
-          const maxDarkSamplesPerRow = Math.max(3, Math.floor((canvas.width / sampleStep) * 0.015));
-
-          for (let row = searchHeight - 1; row >= 0; row--) {
-            let darkSamples = 0;
-            const rowOffset = row * rowStride;
-
-            for (let col = 0; col < canvas.width; col += sampleStep) {
-              const idx = rowOffset + col * 4;
-              const alpha = data[idx + 3];
-
-              if (alpha < 200) {
-                continue;
-              }
-
-              const r = data[idx];
-              const g = data[idx + 1];
-              const b = data[idx + 2];
-
-              if (r < darkThreshold || g < darkThreshold || b < darkThreshold) {
-                darkSamples++;
-                if (darkSamples > maxDarkSamplesPerRow) {
-                  break;
-                }
-              }
-            }
-
-            if (darkSamples <= maxDarkSamplesPerRow) {
-              return Math.max(1, searchStart + row - startPx);
-            }
-          }
-        } catch (err) {
-          console.warn('PDF safe slice detection failed:', err);
-        }
-
-        // If we couldn't find a clean cut, back off slightly to avoid slicing through text
-        const fallbackReduction = Math.max(12, Math.floor(desiredHeightPx * 0.1));
-        return Math.max(1, Math.min(desiredHeightPx - fallbackReduction, totalHeightPx - startPx));
-      };
-
-      const sliceToImageData = (sourceCanvas: HTMLCanvasElement, startPx: number, sliceHeightPx: number) => {
-        const sliceCanvas = document.createElement('canvas');
-        sliceCanvas.width = sourceCanvas.width;
-        sliceCanvas.height = sliceHeightPx;
-        const sliceCtx = sliceCanvas.getContext('2d');
-
-        if (sliceCtx) {
-          sliceCtx.drawImage(
-            sourceCanvas,
-            0,
-            startPx,
-            sourceCanvas.width,
-            sliceHeightPx,
-            0,
-            0,
-            sourceCanvas.width,
-            sliceHeightPx
-          );
-          return sliceCanvas.toDataURL('image/jpeg', 0.8);
-        }
-
-        return null;
-      };
-
-      // Enable internal compression for images
-      const pdf = new jsPDF({
-        orientation: 'p',
-        unit: 'mm',
-        format: 'a4',
-        compress: true,
-      });
-
-      // Slice the tall canvas into page-sized chunks in pixel space to avoid
-      // clipping or duplicating lines at page boundaries.
-      let currentPxOffset = 0;
-      const totalHeightPx = canvas.height;
-
-      while (currentPxOffset < totalHeightPx) {
-        const remainingPx = totalHeightPx - currentPxOffset;
-        const desiredSliceHeightPx = Math.min(pageHeightPx, remainingPx);
-        const safeSliceHeightPx = findSafeSliceHeight(currentPxOffset, desiredSliceHeightPx, totalHeightPx);
-        const sliceHeightPx = Math.max(1, Math.min(safeSliceHeightPx, remainingPx));
-
-        const sliceImgData = sliceToImageData(canvas, currentPxOffset, sliceHeightPx);
-
-        if (sliceImgData) {
-          const sliceImgHeight = sliceHeightPx * mmPerPixel;
-          pdf.addImage(sliceImgData, 'JPEG', padding, padding, imgWidth, sliceImgHeight);
-        }
-
-        currentPxOffset += sliceHeightPx;
-
-        if (currentPxOffset < totalHeightPx) {
-          pdf.addPage();
-        }
-      }
-
-      // Generate filename
-      const clientName = estimate?.clientInfo.firstName && estimate?.clientInfo.lastName
-        ? `${estimate.clientInfo.firstName}_${estimate.clientInfo.lastName}`
-        : 'Estimate';
-      const date = new Date().toISOString().split('T')[0];
-      const filename = `Budget_Estimate_${clientName}_${date}.pdf`;
-
-      pdf.save(filename);
+      const blob = generateEstimatePDF(shownEstimate, budget, { hidePrices });
+      downloadPDF(blob, getEstimatePDFFilename(shownEstimate));
     } catch (error) {
       console.error('Error generating PDF:', error);
       alert('Failed to generate PDF. Please try again.');
     } finally {
-      // Remove the class to show buttons again
-      if (pdfContentRef.current) {
-        pdfContentRef.current.classList.remove('generating-pdf');
-      }
       setIsGeneratingPDF(false);
     }
   };
 
+  const handleExportExcel = () => {
+    if (!shownEstimate || !budget) return;
+
+    try {
+      exportEstimateToExcel(shownEstimate, budget);
+    } catch (error) {
+      console.error('Error exporting to Excel:', error);
+      alert('Failed to export to Excel. Please try again.');
+    }
+  };
+
   const { isAdmin } = useAuth();
+  const { duplicate, duplicatingId } = useDuplicateEstimate();
+  const [showSaveTemplate, setShowSaveTemplate] = useState(false);
+
+  // Vendors are only needed for the admin purchasing list
+  useEffect(() => {
+    if (isAdmin && !vendors) {
+      void loadVendors();
+    }
+  }, [isAdmin, vendors, loadVendors]);
+
+  const handleExportPurchasingList = () => {
+    if (!shownEstimate || !budget) return;
+
+    try {
+      const list = buildPurchasingList(budget, selectedRooms, itemsMap, vendors ?? [], purchasingTier);
+      exportPurchasingList(shownEstimate, list);
+    } catch (error) {
+      console.error('Error exporting purchasing list:', error);
+      alert('Failed to export the purchasing list. Please try again.');
+    }
+  };
 
   if (loading || templatesLoading || rulesLoading) {
     return (
@@ -367,7 +293,7 @@ export default function ViewEstimatePage() {
     );
   }
 
-  if (!estimate || !budget || !propertySpecs) {
+  if (!estimate || !shownEstimate || !budget || !propertySpecs) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
@@ -380,6 +306,8 @@ export default function ViewEstimatePage() {
   }
 
   const isProjectBudgetType = isProjectBudget(budget);
+  // A removed option falls back to the main one
+  const shownVariantId = variants.some(variant => variant.id === variantId) ? variantId : PRIMARY_VARIANT_ID;
 
 
   return (
@@ -423,6 +351,49 @@ export default function ViewEstimatePage() {
                   Edit
                 </Link>
               )}
+              {profile && (
+                <button onClick={() => void duplicate(estimate)} className="btn-secondary" disabled={duplicatingId === estimate.id}>
+                  {duplicatingId === estimate.id ? 'Duplicating...' : 'Duplicate'}
+                </button>
+              )}
+              {isAdmin && (
+                <button onClick={() => setShowSaveTemplate(true)} className="btn-secondary">
+                  Save as Template
+                </button>
+              )}
+              <button
+                onClick={handleExportExcel}
+                className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 rounded-lg transition-colors"
+                title="Export to Excel"
+              >
+                <FileSpreadsheet className="w-4 h-4" />
+                Export to Excel
+              </button>
+              {isAdmin && (
+                <div className="flex items-center">
+                  {/* Chosen room and item tiers price every line, so there is no tier to pick */}
+                  {selectedTotal === undefined && (
+                    <select
+                      value={purchasingTier}
+                      onChange={(e) => setPurchasingTier(e.target.value as QualityTier)}
+                      className="px-2 py-2 bg-white border border-gray-300 border-r-0 rounded-l-lg text-sm text-gray-700"
+                      aria-label="Purchasing list tier"
+                    >
+                      {(Object.keys(QUALITY_TIERS) as QualityTier[]).map(tier => (
+                        <option key={tier} value={tier}>{QUALITY_TIERS[tier].name}</option>
+                      ))}
+                    </select>
+                  )}
+                  <button
+                    onClick={handleExportPurchasingList}
+                    className={`flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 transition-colors ${selectedTotal === undefined ? 'rounded-r-lg' : 'rounded-lg'}`}
+                    title="Export a purchasing list grouped by vendor"
+                  >
+                    <FileSpreadsheet className="w-4 h-4" />
+                    Purchasing List
+                  </button>
+                </div>
+              )}
               <button
                 onClick={handleDownloadPDF}
                 disabled={isGeneratingPDF}
@@ -436,19 +407,54 @@ export default function ViewEstimatePage() {
           </div>
         </div>
 
-        {/* PDF Content Container - starts from banner */}
-        <div ref={pdfContentRef} id="pdf-content">
+        {isAdmin && <EstimateStatusControls estimate={estimate} changedBy={profile?.email} />}
+        {isAdmin && <EstimateAssignmentControls estimate={estimate} currentUid={profile?.uid} />}
+
+        {/* Scenario Options */}
+        {variantSummaries.length > 1 && (
+          <div className="card mb-6">
+            <h2 className="text-xl font-bold text-primary-800 mb-4">Options</h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {variantSummaries.map(({ variant, roomCount, budget: variantBudget }) => (
+                <button
+                  key={variant.id}
+                  onClick={() => setVariantId(variant.id)}
+                  className={`text-left p-4 rounded-lg border-2 transition-colors ${
+                    variant.id === shownVariantId ? 'border-primary-600 bg-primary-50' : 'border-gray-200 hover:border-primary-300'
+                  }`}
+                >
+                  <div className="font-semibold text-gray-900">{variant.name}</div>
+                  <div className="text-lg font-bold text-primary-800 mt-1">
+                    {variantBudget ? formatBudgetRange(variantBudget, currency) : '—'}
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">{roomCount} room{roomCount !== 1 ? 's' : ''}</div>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Estimate Content - starts from banner */}
+        <div id="pdf-content">
           {/* Overall Budget Range */}
           <div className="sticky top-[4.25rem] z-10 mb-8 bg-gradient-to-br from-primary-600 to-primary-900 text-white rounded-xl shadow-md p-6 hover:shadow-lg transition-shadow duration-200">
             <div className="text-center py-6">
               <p className="text-lg font-medium mb-3 opacity-90">
                 {isProjectBudgetType ? 'ESTIMATED PROJECT BUDGET' : 'ESTIMATED FURNISHINGS BUDGET RANGE'}
               </p>
+            {variantSummaries.length > 1 && (
+              <p className="text-sm font-medium opacity-90 mb-2">
+                {variants.find(variant => variant.id === shownVariantId)?.name}
+              </p>
+            )}
             <div className="text-3xl md:text-4xl lg:text-5xl font-bold mb-2">
-              {isProjectBudgetType && isProjectBudget(budget)
-                ? `${formatCurrency(budget.projectRange.low)} — ${formatCurrency(budget.projectRange.mid)}`
-                : budget ? `${formatCurrency(budget.rangeLow)} — ${formatCurrency(budget.rangeHigh)}` : '$0 — $0'}
+              {formatBudgetRange(budget, currency)}
             </div>
+            {selectedTotal !== undefined && (
+              <p className="text-lg font-semibold opacity-90">
+                Selected: {formatCurrency(selectedTotal, currency)}
+              </p>
+            )}
             <p className="text-sm opacity-75 mt-4 mb-2">
               {propertySpecs.squareFootage.toLocaleString()} sq ft • {propertySpecs.guestCapacity} requested capacity • {actualCapacity} max capacity • {totalRooms} room{totalRooms !== 1 ? 's' : ''} • {totalItems} item{totalItems !== 1 ? 's' : ''}
             </p>
@@ -490,7 +496,7 @@ export default function ViewEstimatePage() {
                         <span className="text-gray-700 flex-1 min-w-0">Furnishings</span>
                         {!hidePrices && (
                           <span className="text-gray-700 flex-shrink-0 ml-3">
-                            {formatCurrency(budget.rangeLow)} — {formatCurrency(budget.rangeHigh)}
+                            {formatCurrency(budget.rangeLow, currency)} — {formatCurrency(budget.rangeHigh, currency)}
                           </span>
                         )}
                       </div>
@@ -500,53 +506,29 @@ export default function ViewEstimatePage() {
                     </div>
 
                     {/* Project Add-ons */}
-                    <div className="py-2">
-                      <div className="flex justify-between items-center mb-1">
-                        <span className="text-gray-700 flex-1 min-w-0">Design Planning</span>
-                        {!hidePrices && (
-                          <span className="text-gray-700 flex-shrink-0 ml-3">
-                            {formatCurrency(budget.projectAddOns.designPlanning)}
-                          </span>
-                        )}
-                      </div>
-                      <p className="text-xs text-gray-500">
-                        Initial design consultation, space planning, and design development
-                      </p>
-                    </div>
-
-                    <div className="py-2">
-                      <div className="flex justify-between items-center mb-1">
-                        <span className="text-gray-700 flex-1 min-w-0">Procurement</span>
-                        {!hidePrices && (
-                          <span className="text-gray-700 flex-shrink-0 ml-3">
-                            {formatCurrency(budget.projectAddOns.procurement)}
-                          </span>
-                        )}
-                      </div>
-                      <p className="text-xs text-gray-500">
-                        Sourcing, ordering, and managing furniture and accessories
-                      </p>
-                    </div>
-
-                    <div className="py-2">
-                      <div className="flex justify-between items-center mb-1">
-                        <span className="text-gray-700 flex-1 min-w-0">Design Implementation</span>
-                        {!hidePrices && (
-                          <span className="text-gray-700 flex-shrink-0 ml-3">
-                            {formatCurrency(budget.projectAddOns.designImplementation)}
-                          </span>
+                    {budget.designFees.map((fee) => (
+                      <div key={fee.id} className="py-2">
+                        <div className="flex justify-between items-center mb-1">
+                          <span className="text-gray-700 flex-1 min-w-0">{fee.label}</span>
+                          {!hidePrices && (
+                            <span className="text-gray-700 flex-shrink-0 ml-3">
+                              {formatCurrency(fee.amount, currency)}
+                            </span>
+                          )}
+                        </div>
+                        {fee.description && (
+                          <p className="text-xs text-gray-500">
+                            {fee.description}
+                          </p>
                         )}
                       </div>
-                      <p className="text-xs text-gray-500">
-                        Final placement, styling, and design execution services
-                      </p>
-                    </div>
+                    ))}
 
                     <div className="py-2">
                       <div className="flex justify-between items-center mb-1">
                         <span className="text-gray-700 flex-1 min-w-0">Installation</span>
                         {!hidePrices && (
-                          <span className="text-gray-700 flex-shrink-0 ml-3">{formatCurrency(budget.projectAddOns.installation)}</span>
+                          <span className="text-gray-700 flex-shrink-0 ml-3">{formatCurrency(budget.projectAddOns.installation, currency)}</span>
                         )}
                       </div>
                       <p className="text-xs text-gray-500">
@@ -558,7 +540,7 @@ export default function ViewEstimatePage() {
                       <div className="flex justify-between items-center mb-1">
                         <span className="text-gray-700 flex-1 min-w-0">Fuel</span>
                         {!hidePrices && (
-                          <span className="text-gray-700 flex-shrink-0 ml-3">{formatCurrency(budget.projectAddOns.fuel)}</span>
+                          <span className="text-gray-700 flex-shrink-0 ml-3">{formatCurrency(budget.projectAddOns.fuel, currency)}</span>
                         )}
                       </div>
                       <p className="text-xs text-gray-500">
@@ -570,7 +552,7 @@ export default function ViewEstimatePage() {
                       <div className="flex justify-between items-center mb-1">
                         <span className="text-gray-700 flex-1 min-w-0">Storage & Receiving</span>
                         {!hidePrices && (
-                          <span className="text-gray-700 flex-shrink-0 ml-3">{formatCurrency(budget.projectAddOns.storageAndReceiving)}</span>
+                          <span className="text-gray-700 flex-shrink-0 ml-3">{formatCurrency(budget.projectAddOns.storageAndReceiving, currency)}</span>
                         )}
                       </div>
                       <p className="text-xs text-gray-500">
@@ -582,7 +564,7 @@ export default function ViewEstimatePage() {
                       <div className="flex justify-between items-center mb-1">
                         <span className="text-gray-700 flex-1 min-w-0">Kitchen</span>
                         {!hidePrices && (
-                          <span className="text-gray-700 flex-shrink-0 ml-3">{formatCurrency(budget.projectAddOns.kitchen)}</span>
+                          <span className="text-gray-700 flex-shrink-0 ml-3">{formatCurrency(budget.projectAddOns.kitchen, currency)}</span>
                         )}
                       </div>
                       <p className="text-xs text-gray-500">
@@ -594,7 +576,7 @@ export default function ViewEstimatePage() {
                       <div className="flex justify-between items-center mb-1">
                         <span className="text-gray-700 flex-1 min-w-0">Property Management</span>
                         {!hidePrices && (
-                          <span className="text-gray-700 flex-shrink-0 ml-3">{formatCurrency(budget.projectAddOns.propertyManagement)}</span>
+                          <span className="text-gray-700 flex-shrink-0 ml-3">{formatCurrency(budget.projectAddOns.propertyManagement, currency)}</span>
                         )}
                       </div>
                       <p className="text-xs text-gray-500">
@@ -602,12 +584,60 @@ export default function ViewEstimatePage() {
                       </p>
                     </div>
 
+                    {budget.projectAddOns.freight.mid > 0 && (
+                      <div className="py-2">
+                        <div className="flex justify-between items-center mb-1">
+                          <span className="text-gray-700 flex-1 min-w-0">Freight</span>
+                          {!hidePrices && (
+                            <span className="text-gray-700 flex-shrink-0 ml-3">
+                              {formatCurrency(budget.projectAddOns.freight.low, currency)} — {formatCurrency(budget.projectAddOns.freight.mid, currency)}
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-xs text-gray-500">
+                          Shipping and delivery of furnishings{budget.region ? ` to ${budget.region.name}` : ''}
+                        </p>
+                      </div>
+                    )}
+
+                    {budget.projectAddOns.salesTax.mid > 0 && (
+                      <div className="py-2">
+                        <div className="flex justify-between items-center mb-1">
+                          <span className="text-gray-700 flex-1 min-w-0">Sales Tax</span>
+                          {!hidePrices && (
+                            <span className="text-gray-700 flex-shrink-0 ml-3">
+                              {formatCurrency(budget.projectAddOns.salesTax.low, currency)} — {formatCurrency(budget.projectAddOns.salesTax.mid, currency)}
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-xs text-gray-500">
+                          {budget.region ? `${budget.region.name} sales tax (${budget.region.salesTaxPercent}%)` : 'Sales tax'} on taxable furnishings
+                        </p>
+                      </div>
+                    )}
+
+                    {!budget.contingencyDisabled && (
+                      <div className="py-2">
+                        <div className="flex justify-between items-center mb-1">
+                          <span className="text-gray-700 flex-1 min-w-0">Contingency</span>
+                          {!hidePrices && (
+                            <span className="text-gray-700 flex-shrink-0 ml-3">
+                              {formatCurrency(budget.low.contingency, currency)} — {formatCurrency(budget.mid.contingency, currency)}
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-xs text-gray-500">
+                          Allowance for price changes and unforeseen costs
+                        </p>
+                      </div>
+                    )}
+
                     {/* Project Total */}
                     {!hidePrices && (
                       <div className="flex justify-between items-center py-4 border-t-2 border-gray-300 mt-4">
                         <span className="text-lg sm:text-xl font-bold text-gray-900 flex-1 min-w-0">Project Total</span>
                         <span className="text-lg sm:text-xl font-bold text-primary-600 flex-shrink-0 ml-3">
-                          {formatCurrency(budget.projectRange.low)} — {formatCurrency(budget.projectRange.mid)}
+                          {formatCurrency(budget.projectRange.low, currency)} — {formatCurrency(budget.projectRange.mid, currency)}
                         </span>
                       </div>
                     )}
@@ -618,6 +648,11 @@ export default function ViewEstimatePage() {
             </div>
           )}
 
+          {/* Phase Timeline */}
+          {budget.phases && budget.phases.length > 0 && (
+            <PhaseTimeline phases={budget.phases} roomBreakdown={budget.roomBreakdown} currency={currency} hidePrices={hidePrices} />
+          )}
+
           {/* Detailed Room Breakdown */}
           <div id="detailed-room-breakdown" className="mb-8">
             <div className="card">
@@ -631,7 +666,7 @@ export default function ViewEstimatePage() {
                   <p className="text-sm text-gray-600 mt-1 mb-4">
                     Complete itemized breakdown by room
                   </p>
-                  <div className="flex items-center gap-2 pdf-controls">
+                  <div className="flex items-center gap-2">
                     <button
                       onClick={expandAllRooms}
                       className="text-sm text-primary-600 hover:text-primary-800 font-medium"
@@ -650,11 +685,8 @@ export default function ViewEstimatePage() {
 
                 <div className="space-y-4">
                   {budget.roomBreakdown.map((room, idx) => {
-                    const estimateRoomData = estimate.rooms.find(
-                      (r) => r.roomType === room.roomType && r.roomSize === room.roomSize
-                    );
                     const isExpanded = expandedRooms.has(room.roomType);
-                    const roomDisplayName = estimateRoomData?.displayName || room.roomType.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+                    const roomDisplayName = room.displayName || room.roomType.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
 
                     return (
                       <div key={idx} className="border border-gray-200 rounded-lg overflow-hidden">
@@ -683,86 +715,54 @@ export default function ViewEstimatePage() {
                           {!hidePrices && (
                             <div className="text-right flex-shrink-0 ml-3">
                               <div className="font-semibold text-gray-700 whitespace-nowrap">
-                                {formatCurrency(room.lowAmount)} — {formatCurrency(room.midAmount)}
+                                {formatCurrency(room.lowAmount, currency)} — {formatCurrency(room.midAmount, currency)}
                               </div>
+                              {room.selectedAmount !== undefined && (
+                                <div className="text-xs text-primary-700 whitespace-nowrap">
+                                  Selected: {formatCurrency(room.selectedAmount, currency)}
+                                </div>
+                              )}
                             </div>
                           )}
                         </div>
 
                         {/* Room Details - Collapsible */}
-                        {isExpanded && estimateRoomData && estimateRoomData.items.length > 0 && (
+                        {isExpanded && room.items.length > 0 && (
                           <div className="border-t border-gray-200 p-4 bg-white">
                             <h5 className="text-sm font-medium text-gray-700 mb-3">Included Items:</h5>
                             <div className="grid gap-2">
-                              {estimateRoomData.items
-                                .sort((a: RoomItem, b: RoomItem) => {
-                                  const itemA = items.get(a.itemId);
-                                  const itemB = items.get(b.itemId);
-                                  let nameA = a.name || itemA?.name || a.itemId.replace(/_/g, ' ').replace(/\b\w/g, (l: string) => l.toUpperCase());
-                                  let nameB = b.name || itemB?.name || b.itemId.replace(/_/g, ' ').replace(/\b\w/g, (l: string) => l.toUpperCase());
-                                  // Override display name for outdoor space item in sorting
-                                  if (a.itemId === 'outdoor_space_item') {
-                                    nameA = 'Outdoor Furnishings';
-                                  }
-                                  if (b.itemId === 'outdoor_space_item') {
-                                    nameB = 'Outdoor Furnishings';
-                                  }
-                                  return nameA.localeCompare(nameB);
-                                })
-                                .map((roomItem: RoomItem, itemIdx: number) => {
-                                  const item = items.get(roomItem.itemId);
-                                  let itemDisplayName = roomItem.name || item?.name || roomItem.itemId.replace(/_/g, ' ').replace(/\b\w/g, (l: string) => l.toUpperCase());
-                                  // Override display name for outdoor space item
-                                  if (roomItem.itemId === 'outdoor_space_item') {
-                                    itemDisplayName = 'Outdoor Furnishings';
-                                  }
-                                  const totalQuantity = roomItem.quantity * room.quantity;
-                                  
-                                  // Get base low price (the price point the user sets)
-                                  const baseLowPrice = roomItem.lowPrice !== undefined ? roomItem.lowPrice : (item?.lowPrice || 0);
-                                  
-                                  // Calculate display prices - respect custom range settings if enabled
-                                  let lowPrice: number;
-                                  let midPrice: number;
-                                  
-                                  // If custom range is enabled, calculate prices from base low price using percentages
-                                  if (estimate?.customRangeEnabled && 
-                                      estimate.customRangeLowPercent !== undefined && 
-                                      estimate.customRangeHighPercent !== undefined && 
-                                      baseLowPrice > 0) {
-                                    // Low end: baseLowPrice * (1 - customRangeLowPercent / 100)
-                                    lowPrice = Math.round(baseLowPrice * (1 - estimate.customRangeLowPercent / 100));
-                                    // High end: baseLowPrice * (1 + customRangeHighPercent / 100)
-                                    midPrice = Math.round(baseLowPrice * (1 + estimate.customRangeHighPercent / 100));
-                                  } else {
-                                    // Use RoomItem price override if available, otherwise fall back to item library
-                                    lowPrice = roomItem.lowPrice !== undefined ? roomItem.lowPrice : (item?.lowPrice || 0);
-                                    midPrice = roomItem.midPrice !== undefined ? roomItem.midPrice : (item?.midPrice || 0);
-                                  }
-                                  
-                                  const lowTotal = lowPrice * totalQuantity;
-                                  const midTotal = midPrice * totalQuantity;
+                              {[...room.items]
+                                .sort((a: ItemBreakdown, b: ItemBreakdown) => a.name.localeCompare(b.name))
+                                .map((lineItem: ItemBreakdown, itemIdx: number) => {
+                                  const lowPrice = lineItem.unitPrices.low;
+                                  const midPrice = lineItem.unitPrices.mid;
+                                  const lowTotal = lineItem.totals.low;
+                                  const midTotal = lineItem.totals.mid;
+                                  const hasPrice = lineItem.priceSource === 'override' || items.has(lineItem.itemId);
 
                                   return (
                                     <div key={itemIdx} className="flex justify-between items-center text-sm bg-gray-50 px-4 py-3 rounded-lg">
                                       <div className="flex-1 min-w-0">
                                         <span className="text-gray-700 font-medium">
-                                          {itemDisplayName}
+                                          {lineItem.name}
                                         </span>
-                                        {!hidePrices && isAdmin && (item || roomItem.lowPrice !== undefined || roomItem.midPrice !== undefined) && (
+                                        {lineItem.selectedTier && (
+                                          <span className="ml-2 text-xs text-gray-500">{QUALITY_TIERS[lineItem.selectedTier].name}</span>
+                                        )}
+                                        {!hidePrices && isAdmin && hasPrice && (
                                           <div className="text-xs text-gray-500 mt-1">
-                                            {formatCurrency(lowPrice)} — {formatCurrency(midPrice)} each
+                                            {formatCurrency(lowPrice, currency)} — {formatCurrency(midPrice, currency)} each
                                           </div>
                                         )}
                                       </div>
                                       <div className="flex items-center gap-3 ml-4 flex-shrink-0">
                                         <span className="text-gray-600">
-                                          Qty: {roomItem.quantity}
+                                          Qty: {lineItem.quantity}
                                           {room.quantity > 1 && ` × ${room.quantity} rooms`}
                                         </span>
-                                        {!hidePrices && isAdmin && (item || roomItem.lowPrice !== undefined || roomItem.midPrice !== undefined) && (
+                                        {!hidePrices && isAdmin && hasPrice && (
                                           <span className="text-gray-700 font-semibold">
-                                            {formatCurrency(lowTotal)} — {formatCurrency(midTotal)}
+                                            {formatCurrency(lowTotal, currency)} — {formatCurrency(midTotal, currency)}
                                           </span>
                                         )}
                                       </div>
@@ -780,8 +780,28 @@ export default function ViewEstimatePage() {
             </div>
           </div>
         </div> {/* End PDF content container */}
-        
+
+        {isAdmin && (
+          <PurchaseOrdersPanel
+            estimate={shownEstimate}
+            variantId={shownVariantId}
+            budget={budget}
+            itemsMap={itemsMap}
+            vendors={vendors ?? []}
+            currency={currency}
+            createdBy={profile?.email}
+          />
+        )}
+        {isAdmin && <EstimateActivityFeed estimate={estimate} />}
       </main>
+
+      {showSaveTemplate && (
+        <SaveProjectTemplateModal
+          estimate={estimate}
+          createdBy={profile?.email}
+          onClose={() => setShowSaveTemplate(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,129 @@
+import { useEffect, useState } from 'react';
+import { useCurrencyRatesStore } from '../../store/currencyRatesStore';
+import { BASE_CURRENCY, CURRENCIES, CURRENCY_CODES } from '../../utils/currency';
+import type { CurrencyCode } from '../../types';
+
+type RateInputs = Partial<Record<CurrencyCode, string>>;
+
+export default function CurrencyRatesTab() {
+  const { rates, loading, error, loadRates, saveRates, setError } = useCurrencyRatesStore();
+  // Unsaved edits; null means the form shows the saved rates
+  const [draft, setDraft] = useState<RateInputs | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    void loadRates();
+  }, [loadRates]);
+
+  const convertibleCurrencies = CURRENCY_CODES.filter(code => code !== BASE_CURRENCY);
+
+  const inputs: RateInputs = draft ?? Object.fromEntries(
+    convertibleCurrencies.map(code => [code, rates?.rates[code]?.toString() ?? ''])
+  );
+
+  const invalidCurrency = convertibleCurrencies.find((code) => {
+    const raw = inputs[code];
+    if (!raw) return false;
+    const rate = parseFloat(raw);
+    return isNaN(rate) || rate <= 0;
+  });
+
+  const handleSave = async () => {
+    setError(null);
+    setSaving(true);
+    try {
+      const nextRates: Partial<Record<CurrencyCode, number>> = {};
+      convertibleCurrencies.forEach((code) => {
+        const rate = parseFloat(inputs[code] ?? '');
+        if (!isNaN(rate) && rate > 0) {
+          nextRates[code] = rate;
+        }
+      });
+      await saveRates({ rates: nextRates, updatedAt: new Date().toISOString() });
+      // The store records failures in its error state; keep the draft so nothing is lost
+      if (!useCurrencyRatesStore.getState().error) {
+        setDraft(null);
+      }
+    } catch (saveError) {
+      console.error('Failed to save currency rates:', saveError);
+      setError('Failed to save changes. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">
+          Currency Rates
+        </h2>
+        <p className="text-gray-600">
+          Item library prices and budget defaults are in {BASE_CURRENCY}. These rates convert them for estimates quoted in other currencies.
+        </p>
+      </div>
+
+      {loading && !rates && !draft ? (
+        <div className="card text-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading currency rates...</p>
+        </div>
+      ) : (
+        <div className="card space-y-6">
+          <div className="grid gap-6">
+            {convertibleCurrencies.map((code) => (
+              <div key={code}>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {CURRENCIES[code].name} ({code})
+                </label>
+                <div className="flex items-center gap-3">
+                  <span className="text-gray-500 whitespace-nowrap">1 {BASE_CURRENCY} =</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.0001"
+                    value={inputs[code] ?? ''}
+                    onChange={(e) => setDraft({ ...inputs, [code]: e.target.value })}
+                    placeholder="Not configured"
+                    className="px-3 py-2 border border-gray-300 rounded-md w-40 text-sm"
+                  />
+                  <span className="text-gray-500">{code}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {rates?.updatedAt && (
+            <p className="text-xs text-gray-500">
+              Last updated {new Date(rates.updatedAt).toLocaleString()}
+            </p>
+          )}
+
+          {invalidCurrency && (
+            <div className="text-sm text-red-600">Enter a rate greater than zero for {invalidCurrency}</div>
+          )}
+          {error && (
+            <div className="text-sm text-red-600">{error}</div>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <button
+              className="btn-secondary"
+              onClick={() => setDraft(null)}
+              disabled={!draft || saving}
+            >
+              Reset
+            </button>
+            <button
+              className="btn-primary"
+              onClick={() => void handleSave()}
+              disabled={!draft || saving || !!invalidCurrency}
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
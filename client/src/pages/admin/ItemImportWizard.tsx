@@ -0,0 +1,263 @@
+import { useMemo, useState } from 'react';
+import { doc, writeBatch } from 'firebase/firestore';
+import { db } from '../../lib/firebase';
+import type { Item } from '../../types';
+import { formatCurrency } from '../../utils/calculations';
+import {
+  ITEM_IMPORT_FIELDS,
+  guessColumnMapping,
+  parseItemSheet,
+  planItemImport,
+} from '../../utils/itemImport';
+import { diffItemPrices } from '../../utils/priceHistory';
+import { addPriceChangesToBatch } from '../../services/priceHistory';
+import type { ItemColumnMapping, ItemImportAction, ItemSheet } from '../../utils/itemImport';
+
+// Firestore allows at most 500 writes per batch; each row writes the item plus up to four price history entries
+const BATCH_SIZE = 90;
+
+const ACTION_STYLES: Record<ItemImportAction, { label: string; className: string }> = {
+  create: { label: 'Create', className: 'bg-green-100 text-green-800' },
+  update: { label: 'Update', className: 'bg-blue-100 text-blue-800' },
+  unchanged: { label: 'Unchanged', className: 'bg-gray-100 text-gray-700' },
+  conflict: { label: 'Conflict', className: 'bg-yellow-100 text-yellow-800' },
+  invalid: { label: 'Invalid', className: 'bg-red-100 text-red-800' },
+};
+
+interface ItemImportWizardProps {
+  items: Item[];
+  changedBy?: string; // Recorded on price history entries
+  onClose: () => void;
+  onImported: (savedItems: Item[]) => void;
+}
+
+export default function ItemImportWizard({ items, changedBy, onClose, onImported }: ItemImportWizardProps) {
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<ItemSheet | null>(null);
+  const [mapping, setMapping] = useState<ItemColumnMapping>({});
+  const [step, setStep] = useState<'upload' | 'map' | 'preview'>('upload');
+  const [error, setError] = useState<string | null>(null);
+  const [applying, setApplying] = useState(false);
+
+  const plan = useMemo(
+    () => (sheet && step === 'preview' ? planItemImport(sheet.rows, mapping, items) : null),
+    [sheet, mapping, items, step]
+  );
+  const pendingRows = plan?.rows.filter(row => row.action === 'create' || row.action === 'update') ?? [];
+  const hasMatchColumn = !!mapping.id || !!mapping.name;
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    try {
+      const parsed = parseItemSheet(await file.arrayBuffer());
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        setError('The file has no item rows.');
+        return;
+      }
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+      setStep('map');
+    } catch (parseError) {
+      console.error('Error reading item sheet:', parseError);
+      setError('Could not read the file. Upload a CSV or XLSX file.');
+    }
+  };
+
+  const handleApply = async () => {
+    if (pendingRows.length === 0) return;
+    setApplying(true);
+    setError(null);
+
+    const now = new Date();
+    const itemsById = new Map(items.map(item => [item.id, item]));
+    const savedItems: Item[] = [];
+
+    try {
+      for (let start = 0; start < pendingRows.length; start += BATCH_SIZE) {
+        const batch = writeBatch(db);
+        const chunk = pendingRows.slice(start, start + BATCH_SIZE);
+        const chunkItems: Item[] = [];
+
+        chunk.forEach((row) => {
+          if (!row.data) return;
+          const itemRef = doc(db, 'items', row.id);
+          if (row.action === 'create') {
+            batch.set(itemRef, { ...row.data, createdAt: now, updatedAt: now });
+            chunkItems.push({ id: row.id, ...row.data, createdAt: now, updatedAt: now });
+          } else {
+            batch.update(itemRef, { ...row.data, updatedAt: now });
+            const existing = itemsById.get(row.id);
+            addPriceChangesToBatch(batch, row.id, diffItemPrices(existing ?? {}, row.data), {
+              itemName: row.data.name,
+              changedBy,
+              reason: `Imported from ${fileName}`,
+              source: 'import',
+              changedAt: now,
+            });
+            // Keep fields the sheet doesn't carry (e.g. vendor SKUs), which the update leaves in place
+            chunkItems.push({ ...existing, id: row.id, ...row.data, createdAt: existing?.createdAt ?? now, updatedAt: now });
+          }
+        });
+
+        await batch.commit();
+        savedItems.push(...chunkItems);
+      }
+
+      onImported(savedItems);
+      onClose();
+    } catch (applyError) {
+      console.error('Error importing items:', applyError);
+      // Earlier batches may have committed; report what was saved so the catalog stays accurate
+      if (savedItems.length > 0) {
+        onImported(savedItems);
+      }
+      setError(`Failed to import items (${savedItems.length} of ${pendingRows.length} saved). Please try again.`);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Import Items</h2>
+              {fileName && <p className="text-sm text-gray-500">{fileName}</p>}
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              ✕
+            </button>
+          </div>
+
+          {step === 'upload' && (
+            <div className="space-y-4">
+              <p className="text-gray-600">
+                Upload a CSV or XLSX sheet with one item per row. Prices are in dollars. Rows are matched to existing
+                items by ID, or by the name&apos;s slug when there is no ID column. Use Export to get a sheet in the expected format.
+              </p>
+              <input
+                type="file"
+                accept=".csv,.xlsx,.xls"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) void handleFile(file);
+                }}
+                className="block w-full text-sm text-gray-700"
+              />
+            </div>
+          )}
+
+          {step === 'map' && sheet && (
+            <div className="space-y-4">
+              <p className="text-gray-600">
+                Choose the column for each item field. Unmapped fields keep their current values on existing items.
+              </p>
+              <div className="grid gap-3 sm:grid-cols-2">
+                {ITEM_IMPORT_FIELDS.map(({ key, label }) => (
+                  <div key={key} className="flex items-center gap-3">
+                    <label htmlFor={`import-${key}`} className="text-sm font-medium text-gray-700 w-36">
+                      {label}
+                    </label>
+                    <select
+                      id={`import-${key}`}
+                      value={mapping[key] ?? ''}
+                      onChange={(e) => {
+                        const next = { ...mapping };
+                        if (e.target.value) {
+                          next[key] = e.target.value;
+                        } else {
+                          delete next[key];
+                        }
+                        setMapping(next);
+                      }}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    >
+                      <option value="">Not imported</option>
+                      {sheet.headers.map(header => (
+                        <option key={header} value={header}>{header}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              {!hasMatchColumn && (
+                <div className="text-sm text-red-600">Map an ID or Name column so rows can be matched to items.</div>
+              )}
+              <div className="flex justify-end gap-3">
+                <button className="btn-secondary" onClick={() => setStep('upload')}>Back</button>
+                <button className="btn-primary" onClick={() => setStep('preview')} disabled={!hasMatchColumn}>
+                  Preview Changes
+                </button>
+              </div>
+            </div>
+          )}
+
+          {step === 'preview' && plan && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(ACTION_STYLES) as ItemImportAction[]).map(action => (
+                  <span key={action} className={`px-2 py-1 rounded-full text-xs font-medium ${ACTION_STYLES[action].className}`}>
+                    {plan.counts[action]} {ACTION_STYLES[action].label}
+                  </span>
+                ))}
+              </div>
+              <p className="text-sm text-gray-600">
+                Conflicting and invalid rows are skipped. Fix them in the sheet and import again to include them.
+              </p>
+
+              <div className="border border-gray-200 rounded-md max-h-96 overflow-y-auto">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50 sticky top-0">
+                    <tr className="text-left text-gray-700">
+                      <th className="px-3 py-2 font-medium">Row</th>
+                      <th className="px-3 py-2 font-medium">Item</th>
+                      <th className="px-3 py-2 font-medium">Action</th>
+                      <th className="px-3 py-2 font-medium">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {plan.rows.filter(row => row.action !== 'unchanged').map(row => (
+                      <tr key={row.rowNumber} className="border-t border-gray-100 align-top">
+                        <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                        <td className="px-3 py-2">
+                          <div className="font-medium text-gray-900">{row.name || '—'}</div>
+                          <div className="text-xs text-gray-500">{row.id}</div>
+                        </td>
+                        <td className="px-3 py-2">
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${ACTION_STYLES[row.action].className}`}>
+                            {ACTION_STYLES[row.action].label}
+                          </span>
+                        </td>
+                        <td className="px-3 py-2 text-gray-600">
+                          {row.messages.length > 0
+                            ? row.messages.join('; ')
+                            : row.action === 'update'
+                              ? `Changes: ${row.changedFields.map(field => ITEM_IMPORT_FIELDS.find(f => f.key === field)?.label).join(', ')}`
+                              : row.data && `${formatCurrency(row.data.lowPrice)} — ${formatCurrency(row.data.highPrice)}`}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex justify-end gap-3">
+                <button className="btn-secondary" onClick={() => setStep('map')} disabled={applying}>Back</button>
+                <button className="btn-primary" onClick={() => void handleApply()} disabled={applying || pendingRows.length === 0}>
+                  {applying ? 'Importing...' : `Apply ${pendingRows.length} Change${pendingRows.length !== 1 ? 's' : ''}`}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="mt-4 text-sm text-red-600">{error}</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { useEffect, useState } from 'react';
+import type { Item, PriceHistoryEntry } from '../../types';
+import { QUALITY_TIERS } from '../../types';
+import { formatCurrency } from '../../utils/calculations';
+import { fetchItemPriceHistory } from '../../services/priceHistory';
+import PriceHistoryChart from '../../components/PriceHistoryChart';
+
+interface ItemPriceHistoryModalProps {
+  item: Item;
+  onClose: () => void;
+}
+
+export default function ItemPriceHistoryModal({ item, onClose }: ItemPriceHistoryModalProps) {
+  const [entries, setEntries] = useState<PriceHistoryEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchItemPriceHistory(item.id)
+      .then((history) => {
+        if (!cancelled) setEntries(history);
+      })
+      .catch((loadError) => {
+        console.error('Error loading price history:', loadError);
+        if (!cancelled) setError('Failed to load price history.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [item.id]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Price History</h2>
+              <p className="text-sm text-gray-500">{item.name}</p>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              ✕
+            </button>
+          </div>
+
+          {error && <div className="text-sm text-red-600">{error}</div>}
+          {!error && !entries && <div className="text-gray-500">Loading price history...</div>}
+
+          {entries && (
+            <div className="space-y-6">
+              <PriceHistoryChart item={item} entries={entries} />
+
+              {entries.length === 0 ? (
+                <p className="text-gray-500 text-sm">No price changes have been recorded for this item.</p>
+              ) : (
+                <div className="border border-gray-200 rounded-md">
+                  <table className="min-w-full text-sm">
+                    <thead className="bg-gray-50">
+                      <tr className="text-left text-gray-700">
+                        <th className="px-3 py-2 font-medium">Date</th>
+                        <th className="px-3 py-2 font-medium">Tier</th>
+                        <th className="px-3 py-2 font-medium">Change</th>
+                        <th className="px-3 py-2 font-medium">By</th>
+                        <th className="px-3 py-2 font-medium">Reason</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {[...entries].reverse().map(entry => (
+                        <tr key={entry.id} className="border-t border-gray-100 align-top">
+                          <td className="px-3 py-2 text-gray-600 whitespace-nowrap">{entry.changedAt.toLocaleString()}</td>
+                          <td className="px-3 py-2">{QUALITY_TIERS[entry.tier].name}</td>
+                          <td className="px-3 py-2 whitespace-nowrap">
+                            {formatCurrency(entry.oldPrice)} → {formatCurrency(entry.newPrice)}
+                          </td>
+                          <td className="px-3 py-2 text-gray-600">{entry.changedBy ?? '—'}</td>
+                          <td className="px-3 py-2 text-gray-600">
+                            {entry.reason ?? (entry.source === 'import' ? 'Import' : '—')}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { QUALITY_TIERS } from '../../types';
+import { formatCurrency } from '../../utils/calculations';
+import { summarizePriceChanges } from '../../utils/priceHistory';
+import type { ItemPriceChangeSummary } from '../../utils/priceHistory';
+import { fetchPriceChangesSince } from '../../services/priceHistory';
+
+const DEFAULT_LOOKBACK_DAYS = 30;
+
+function toDateInputValue(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+export default function PriceChangesReport() {
+  const [since, setSince] = useState(() => toDateInputValue(new Date(Date.now() - DEFAULT_LOOKBACK_DAYS * 24 * 60 * 60 * 1000)));
+  const [summaries, setSummaries] = useState<ItemPriceChangeSummary[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReport = async () => {
+    if (!since) return;
+    setLoading(true);
+    setError(null);
+    try {
+      // Date inputs are local calendar dates, so start from local midnight
+      const entries = await fetchPriceChangesSince(new Date(`${since}T00:00:00`));
+      setSummaries(summarizePriceChanges(entries));
+    } catch (loadError) {
+      console.error('Error loading price changes:', loadError);
+      setError('Failed to load price changes.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="card mb-6">
+      <div className="flex flex-col sm:flex-row sm:items-end gap-4 mb-4">
+        <div>
+          <h3 className="font-semibold text-gray-900">Price Changes</h3>
+          <p className="text-sm text-gray-600">Net tier price changes for every item changed since a date.</p>
+        </div>
+        <div className="flex items-end gap-3 sm:ml-auto">
+          <div>
+            <label htmlFor="price-changes-since" className="block text-sm font-medium text-gray-700 mb-1">
+              Changed since
+            </label>
+            <input
+              id="price-changes-since"
+              type="date"
+              value={since}
+              onChange={(e) => setSince(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+          <button className="btn-primary" onClick={() => void loadReport()} disabled={loading || !since}>
+            {loading ? 'Loading...' : 'Show Changes'}
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      {summaries && summaries.length === 0 && (
+        <p className="text-sm text-gray-500">No prices changed since {new Date(`${since}T00:00:00`).toLocaleDateString()}.</p>
+      )}
+
+      {summaries && summaries.length > 0 && (
+        <div className="border border-gray-200 rounded-md max-h-96 overflow-y-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr className="text-left text-gray-700">
+                <th className="px-3 py-2 font-medium">Item</th>
+                <th className="px-3 py-2 font-medium">Changes</th>
+                <th className="px-3 py-2 font-medium">Last Changed</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summaries.map(summary => (
+                <tr key={summary.itemId} className="border-t border-gray-100 align-top">
+                  <td className="px-3 py-2 font-medium text-gray-900">{summary.itemName}</td>
+                  <td className="px-3 py-2">
+                    {summary.changes.map(change => {
+                      const percent = change.oldPrice > 0 ? ((change.newPrice - change.oldPrice) / change.oldPrice) * 100 : null;
+                      return (
+                        <div key={change.tier}>
+                          <span className="text-gray-600">{QUALITY_TIERS[change.tier].name}:</span>{' '}
+                          {formatCurrency(change.oldPrice)} → {formatCurrency(change.newPrice)}
+                          {percent !== null && (
+                            <span className={`ml-1 ${percent > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                              ({percent > 0 ? '+' : ''}{percent.toFixed(1)}%)
+                            </span>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </td>
+                  <td className="px-3 py-2 text-gray-600">
+                    <div>{summary.lastChangedAt.toLocaleDateString()}</div>
+                    {summary.lastChangedBy && <div className="text-xs">{summary.lastChangedBy}</div>}
+                    <div className="text-xs text-gray-500">
+                      {summary.changeCount} change{summary.changeCount !== 1 ? 's' : ''}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
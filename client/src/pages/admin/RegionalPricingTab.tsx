@@ -0,0 +1,235 @@
+import { useEffect, useState } from 'react';
+import { useRegionalPricingStore } from '../../store/regionalPricingStore';
+import { TrashIcon } from '../../components/Icons';
+import type { RegionalPricingConfig, RegionalRate } from '../../types';
+
+const EMPTY_CONFIG: RegionalPricingConfig = {
+  regions: [],
+  taxableCategories: [],
+  defaultFreightPercent: 0,
+};
+
+// Comma separated lists are edited as text and split on save
+const toList = (value: string): string[] =>
+  value.split(',').map(entry => entry.trim()).filter(Boolean);
+
+export default function RegionalPricingTab() {
+  const { config, loading, error, loadConfig, saveConfig, setError } = useRegionalPricingStore();
+  // Unsaved edits; null means the form shows the saved config
+  const [draft, setDraft] = useState<RegionalPricingConfig | null>(null);
+  const [taxableCategoriesDraft, setTaxableCategoriesDraft] = useState<string | null>(null);
+  // Bumped on reset so the uncommitted list inputs re-read their values
+  const [revision, setRevision] = useState(0);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    void loadConfig();
+  }, [loadConfig]);
+
+  const localConfig = draft ?? config ?? EMPTY_CONFIG;
+  const taxableCategoriesInput = taxableCategoriesDraft ?? localConfig.taxableCategories.join(', ');
+  const dirty = draft !== null || taxableCategoriesDraft !== null;
+
+  const updateConfig = (updates: Partial<RegionalPricingConfig>) => {
+    setDraft({ ...localConfig, ...updates });
+  };
+
+  const resetDraft = () => {
+    setDraft(null);
+    setTaxableCategoriesDraft(null);
+    setRevision(prev => prev + 1);
+  };
+
+  const updateRegion = (index: number, updates: Partial<RegionalRate>) => {
+    updateConfig({
+      regions: localConfig.regions.map((region, i) => (i === index ? { ...region, ...updates } : region)),
+    });
+  };
+
+  const addRegion = () => {
+    updateConfig({
+      regions: [
+        ...localConfig.regions,
+        {
+          id: `region_${Date.now()}`,
+          name: 'New Region',
+          states: [],
+          salesTaxPercent: 0,
+          freightPercent: localConfig.defaultFreightPercent,
+          costMultiplier: 1,
+        },
+      ],
+    });
+  };
+
+  const handleSave = async () => {
+    setError(null);
+    setSaving(true);
+    try {
+      await saveConfig({ ...localConfig, taxableCategories: toList(taxableCategoriesInput) });
+      // The store records failures in its error state; keep the draft so nothing is lost
+      if (!useRegionalPricingStore.getState().error) {
+        resetDraft();
+      }
+    } catch (saveError) {
+      console.error('Failed to save regional pricing:', saveError);
+      setError('Failed to save changes. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const numberInput = (value: number, onChange: (value: number) => void, step: string) => (
+    <input
+      type="number"
+      min="0"
+      step={step}
+      value={value}
+      onChange={(e) => {
+        const parsed = parseFloat(e.target.value);
+        onChange(isNaN(parsed) || parsed < 0 ? 0 : parsed);
+      }}
+      className="px-2 py-1 border border-gray-300 rounded-md w-20 text-sm"
+    />
+  );
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">
+          Regional Pricing
+        </h2>
+        <p className="text-gray-600">
+          Configure sales tax, freight and cost-of-living multipliers by state or ZIP prefix
+        </p>
+      </div>
+
+      {loading && !config && !dirty ? (
+        <div className="card text-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading regional pricing...</p>
+        </div>
+      ) : (
+        <div className="card space-y-6">
+          <div className="grid gap-6 md:grid-cols-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Taxable Item Categories</label>
+              <input
+                type="text"
+                value={taxableCategoriesInput}
+                onChange={(e) => setTaxableCategoriesDraft(e.target.value)}
+                placeholder="All categories"
+                className="input-field"
+              />
+              <p className="text-xs text-gray-500 mt-1">Comma separated. Leave blank to tax all furnishings.</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Default Freight (%)</label>
+              {numberInput(localConfig.defaultFreightPercent, (value) => updateConfig({ defaultFreightPercent: value }), '0.1')}
+              <p className="text-xs text-gray-500 mt-1">Applied when a property doesn't match any region.</p>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b border-gray-200">
+                  <th className="py-2 pr-3 font-medium">Region</th>
+                  <th className="py-2 pr-3 font-medium">States</th>
+                  <th className="py-2 pr-3 font-medium">ZIP Prefixes</th>
+                  <th className="py-2 pr-3 font-medium">Sales Tax %</th>
+                  <th className="py-2 pr-3 font-medium">Freight %</th>
+                  <th className="py-2 pr-3 font-medium">Cost Multiplier</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {localConfig.regions.map((region, index) => (
+                  <tr key={`${region.id}-${revision}`} className="border-b border-gray-100">
+                    <td className="py-2 pr-3">
+                      <input
+                        type="text"
+                        value={region.name}
+                        onChange={(e) => updateRegion(index, { name: e.target.value })}
+                        className="px-2 py-1 border border-gray-300 rounded-md w-40 text-sm"
+                      />
+                    </td>
+                    <td className="py-2 pr-3">
+                      <input
+                        type="text"
+                        defaultValue={region.states.join(', ')}
+                        onBlur={(e) => updateRegion(index, { states: toList(e.target.value).map(state => state.toUpperCase()) })}
+                        placeholder="CO, UT"
+                        className="px-2 py-1 border border-gray-300 rounded-md w-28 text-sm"
+                      />
+                    </td>
+                    <td className="py-2 pr-3">
+                      <input
+                        type="text"
+                        defaultValue={(region.zipPrefixes ?? []).join(', ')}
+                        onBlur={(e) => updateRegion(index, { zipPrefixes: toList(e.target.value) })}
+                        placeholder="816, 8043"
+                        className="px-2 py-1 border border-gray-300 rounded-md w-28 text-sm"
+                      />
+                    </td>
+                    <td className="py-2 pr-3">
+                      {numberInput(region.salesTaxPercent, (value) => updateRegion(index, { salesTaxPercent: value }), '0.01')}
+                    </td>
+                    <td className="py-2 pr-3">
+                      {numberInput(region.freightPercent, (value) => updateRegion(index, { freightPercent: value }), '0.1')}
+                    </td>
+                    <td className="py-2 pr-3">
+                      {numberInput(region.costMultiplier, (value) => updateRegion(index, { costMultiplier: value }), '0.05')}
+                    </td>
+                    <td className="py-2 text-right">
+                      <button
+                        onClick={() => updateConfig({ regions: localConfig.regions.filter((_, i) => i !== index) })}
+                        className="p-1 text-red-600 hover:text-red-800"
+                        title="Remove region"
+                      >
+                        <TrashIcon />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                {localConfig.regions.length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="py-6 text-center text-gray-500">
+                      No regions configured
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {error && (
+            <div className="text-sm text-red-600">{error}</div>
+          )}
+
+          <div className="flex justify-between gap-3">
+            <button className="btn-secondary" onClick={addRegion}>
+              ➕ Add Region
+            </button>
+            <div className="flex gap-3">
+              <button
+                className="btn-secondary"
+                onClick={resetDraft}
+                disabled={!dirty || saving}
+              >
+                Reset
+              </button>
+              <button
+                className="btn-primary"
+                onClick={() => void handleSave()}
+                disabled={!dirty || saving}
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+import { useEffect, useState } from 'react';
+import type { Item, Vendor } from '../../types';
+import { useVendorsStore } from '../../store/vendorsStore';
+import { createItemSlug } from '../../utils/itemImport';
+import { EditIcon, TrashIcon } from '../../components/Icons';
+
+interface VendorsPanelProps {
+  items: Item[]; // Used to show how many items each vendor supplies
+}
+
+// Form values are kept as strings so fields can be cleared while typing
+interface VendorDraft {
+  id?: string; // Missing for new vendors
+  name: string;
+  leadTimeDays: string;
+  shippingTerms: string;
+  discountPercent: string;
+  contactEmail: string;
+  website: string;
+  notes: string;
+}
+
+const EMPTY_DRAFT: VendorDraft = {
+  name: '',
+  leadTimeDays: '',
+  shippingTerms: '',
+  discountPercent: '',
+  contactEmail: '',
+  website: '',
+  notes: '',
+};
+
+function toDraft(vendor: Vendor): VendorDraft {
+  return {
+    id: vendor.id,
+    name: vendor.name,
+    leadTimeDays: vendor.leadTimeDays?.toString() ?? '',
+    shippingTerms: vendor.shippingTerms ?? '',
+    discountPercent: vendor.discountPercent?.toString() ?? '',
+    contactEmail: vendor.contactEmail ?? '',
+    website: vendor.website ?? '',
+    notes: vendor.notes ?? '',
+  };
+}
+
+function uniqueVendorId(name: string, vendors: Vendor[]): string {
+  const base = createItemSlug(name) || 'vendor';
+  let id = base;
+  let suffix = 2;
+  while (vendors.some(vendor => vendor.id === id)) {
+    id = `${base}_${suffix++}`;
+  }
+  return id;
+}
+
+export default function VendorsPanel({ items }: VendorsPanelProps) {
+  const { vendors, loading, error, loadVendors, saveVendor, deleteVendor, setError } = useVendorsStore();
+  const [draft, setDraft] = useState<VendorDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    void loadVendors();
+  }, [loadVendors]);
+
+  const leadTime = draft?.leadTimeDays ? parseInt(draft.leadTimeDays, 10) : undefined;
+  const discount = draft?.discountPercent ? parseFloat(draft.discountPercent) : undefined;
+  const validationError = !draft
+    ? null
+    : !draft.name.trim()
+      ? 'Vendor name is required'
+      : leadTime !== undefined && (isNaN(leadTime) || leadTime < 0)
+        ? 'Lead time must be zero or more days'
+        : discount !== undefined && (isNaN(discount) || discount < 0 || discount >= 100)
+          ? 'Discount must be between 0 and 100%'
+          : null;
+
+  const countItems = (vendorId: string) =>
+    items.filter(item => item.vendorSkus?.some(sku => sku.vendorId === vendorId)).length;
+
+  const handleSave = async () => {
+    if (!draft || validationError) return;
+    setSaving(true);
+    try {
+      await saveVendor({
+        id: draft.id ?? uniqueVendorId(draft.name, vendors ?? []),
+        name: draft.name.trim(),
+        ...(leadTime !== undefined ? { leadTimeDays: leadTime } : {}),
+        ...(draft.shippingTerms.trim() ? { shippingTerms: draft.shippingTerms.trim() } : {}),
+        ...(discount !== undefined ? { discountPercent: discount } : {}),
+        ...(draft.contactEmail.trim() ? { contactEmail: draft.contactEmail.trim() } : {}),
+        ...(draft.website.trim() ? { website: draft.website.trim() } : {}),
+        ...(draft.notes.trim() ? { notes: draft.notes.trim() } : {}),
+      });
+      setDraft(null);
+    } catch {
+      // The store records the error message
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (vendor: Vendor) => {
+    const itemCount = countItems(vendor.id);
+    const warning = itemCount > 0 ? ` ${itemCount} item${itemCount !== 1 ? 's' : ''} still list SKUs from this vendor.` : '';
+    if (!confirm(`Delete vendor "${vendor.name}"?${warning}`)) return;
+    try {
+      await deleteVendor(vendor.id);
+    } catch {
+      // The store records the error message
+    }
+  };
+
+  const updateDraft = (updates: Partial<VendorDraft>) => {
+    setError(null);
+    setDraft(prev => (prev ? { ...prev, ...updates } : prev));
+  };
+
+  return (
+    <div className="card mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="font-semibold text-gray-900">Vendors</h3>
+          <p className="text-sm text-gray-600">Suppliers that items can list SKUs from and estimate lines can be purchased through.</p>
+        </div>
+        {!draft && (
+          <button className="btn-secondary" onClick={() => setDraft(EMPTY_DRAFT)}>
+            + Add Vendor
+          </button>
+        )}
+      </div>
+
+      {draft && (
+        <div className="mb-6 p-4 bg-gray-50 rounded-lg space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div>
+              <label htmlFor="vendor-name" className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                id="vendor-name"
+                type="text"
+                value={draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+                className="w-full p-2 border border-gray-300 rounded"
+              />
+            </div>
+            <div>
+              <label htmlFor="vendor-shipping" className="block text-sm font-medium text-gray-700 mb-1">Shipping Terms</label>
+              <input
+                id="vendor-shipping"
+                type="text"
+                value={draft.shippingTerms}
+                onChange={(e) => updateDraft({ shippingTerms: e.target.value })}
+                className="w-full p-2 border border-gray-300 rounded"
+                placeholder="e.g., FOB origin, free over $5,000"
+              />
+            </div>
+            <div>
+              <label htmlFor="vendor-lead-time" className="block text-sm font-medium text-gray-700 mb-1">Lead Time (days)</label>
+              <input
+                id="vendor-lead-time"
+                type="number"
+                min="0"
+                step="1"
+                value={draft.leadTimeDays}
+                onChange={(e) => updateDraft({ leadTimeDays: e.target.value })}
+                className="w-full p-2 border border-gray-300 rounded"
+              />
+            </div>
+            <div>
+              <label htmlFor="vendor-discount" className="block text-sm font-medium text-gray-700 mb-1">Trade Discount (%)</label>
+              <input
+                id="vendor-discount"
+                type="number"
+                min="0"
+                max="99"
+                step="0.1"
+                value={draft.discountPercent}
+                onChange={(e) => updateDraft({ discountPercent: e.target.value })}
+                className="w-full p-2 border border-gray-300 rounded"
+              />
+            </div>
+            <div>
+              <label htmlFor="vendor-email" className="block text-sm font-medium text-gray-700 mb-1">Contact Email</label>
+              <input
+                id="vendor-email"
+                type="email"
+                value={draft.contactEmail}
+                onChange={(e) => updateDraft({ contactEmail: e.target.value })}
+                className="w-full p-2 border border-gray-300 rounded"
+              />
+            </div>
+            <div>
+              <label htmlFor="vendor-website" className="block text-sm font-medium text-gray-700 mb-1">Website</label>
+              <input
+                id="vendor-website"
+                type="url"
+                value={draft.website}
+                onChange={(e) => updateDraft({ website: e.target.value })}
+                className="w-full p-2 border border-gray-300 rounded"
+                placeholder="https://"
+              />
+            </div>
+          </div>
+          <div>
+            <label htmlFor="vendor-notes" className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+            <textarea
+              id="vendor-notes"
+              value={draft.notes}
+              onChange={(e) => updateDraft({ notes: e.target.value })}
+              className="w-full p-2 border border-gray-300 rounded"
+              rows={2}
+            />
+          </div>
+          {(validationError || error) && (
+            <div className="text-sm text-red-600">{validationError ?? error}</div>
+          )}
+          <div className="flex justify-end gap-3">
+            <button className="btn-secondary" onClick={() => setDraft(null)} disabled={saving}>Cancel</button>
+            <button className="btn-primary" onClick={() => void handleSave()} disabled={saving || !!validationError}>
+              {saving ? 'Saving...' : draft.id ? 'Update Vendor' : 'Add Vendor'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading && !vendors ? (
+        <div className="text-gray-500 text-sm">Loading vendors...</div>
+      ) : !vendors || vendors.length === 0 ? (
+        <p className="text-sm text-gray-500">No vendors yet.</p>
+      ) : (
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr className="text-left text-gray-700">
+              <th className="px-3 py-2 font-medium">Vendor</th>
+              <th className="px-3 py-2 font-medium">Lead Time</th>
+              <th className="px-3 py-2 font-medium">Shipping</th>
+              <th className="px-3 py-2 font-medium">Discount</th>
+              <th className="px-3 py-2 font-medium">Items</th>
+              <th className="px-3 py-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {vendors.map(vendor => (
+              <tr key={vendor.id} className="border-t border-gray-100 align-top">
+                <td className="px-3 py-2">
+                  <div className="font-medium text-gray-900">
+                    {vendor.website ? (
+                      <a href={vendor.website} target="_blank" rel="noopener noreferrer" className="hover:text-primary-700">
+                        {vendor.name}
+                      </a>
+                    ) : vendor.name}
+                  </div>
+                  {vendor.contactEmail && <div className="text-xs text-gray-500">{vendor.contactEmail}</div>}
+                </td>
+                <td className="px-3 py-2 text-gray-600">{vendor.leadTimeDays !== undefined ? `${vendor.leadTimeDays} days` : '—'}</td>
+                <td className="px-3 py-2 text-gray-600">{vendor.shippingTerms ?? '—'}</td>
+                <td className="px-3 py-2 text-gray-600">{vendor.discountPercent !== undefined ? `${vendor.discountPercent}%` : '—'}</td>
+                <td className="px-3 py-2 text-gray-600">{countItems(vendor.id)}</td>
+                <td className="px-3 py-2">
+                  <div className="flex items-center justify-end gap-2">
+                    <button
+                      onClick={() => setDraft(toDraft(vendor))}
+                      className="text-primary-600 hover:text-primary-800 p-1"
+                      title="Edit Vendor"
+                    >
+                      <EditIcon />
+                    </button>
+                    <button
+                      onClick={() => void handleDelete(vendor)}
+                      className="text-red-600 hover:text-red-800 p-1"
+                      title="Delete Vendor"
+                    >
+                      <TrashIcon />
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -4,8 +4,15 @@ import { Link, useLocation } from 'react-router-dom';
 import { db } from '../../lib/firebase';
 import { useAuth } from '../../context/AuthContext';
 import type { Estimate, RoomTemplate, Item, ProjectBudget, BudgetDefaults } from '../../types';
-import { formatCurrency, calculateTotalRooms, calculateTotalItems, calculateEstimate } from '../../utils/calculations';
+import { formatCurrency, calculateTotalRooms, calculateTotalItems, calculateEstimate, getEstimateCalculationOptions } from '../../utils/calculations';
+import { applyPriceSnapshot } from '../../utils/priceSnapshot';
 import { useRoomTemplates } from '../../hooks/useRoomTemplates';
+import { useRegionalPricingStore } from '../../store/regionalPricingStore';
+import { useCurrencyRatesStore } from '../../store/currencyRatesStore';
+import { BASE_CURRENCY } from '../../utils/currency';
+import { exportEstimateToExcel } from '../../utils/excelExport';
+import { useDuplicateEstimate } from '../../hooks/useDuplicateEstimate';
+import { MAX_COMPARED_ESTIMATES } from '../../utils/estimateComparison';
 
 interface Props {
   onCountChange?: (count: number) => void;
@@ -19,6 +26,10 @@ export default function EstimatesReportsTab({ onCountChange }: Props) {
   const { roomTemplates, items } = useRoomTemplates();
   const [budgetDefaults, setBudgetDefaults] = useState<BudgetDefaults | null>(null);
   const [defaultsLoading, setDefaultsLoading] = useState(true);
+  const { config: regionalPricing, loadConfig: loadRegionalPricing } = useRegionalPricingStore();
+  const { rates: currencyRates, loadRates: loadCurrencyRates } = useCurrencyRatesStore();
+  const { duplicate, duplicatingId } = useDuplicateEstimate();
+  const [compareIds, setCompareIds] = useState<string[]>([]);
 
   // Convert arrays to Maps for calculation functions
   const roomTemplatesMap = useMemo(() => {
@@ -49,6 +60,11 @@ export default function EstimatesReportsTab({ onCountChange }: Props) {
             kitchenCents: data.kitchenCents || 0,
             propertyManagementCents: data.propertyManagementCents || 0,
             designFeeRatePerSqftCents: data.designFeeRatePerSqftCents || 1000,
+            contingency: data.contingency,
+            addOnRules: data.addOnRules,
+            designFeePhases: data.designFeePhases,
+            designFeeRateBreaks: data.designFeeRateBreaks,
+            currency: data.currency,
           });
         } else {
           setBudgetDefaults({
@@ -78,6 +94,18 @@ export default function EstimatesReportsTab({ onCountChange }: Props) {
     void loadBudgetDefaults();
   }, []);
 
+  useEffect(() => {
+    if (!regionalPricing) {
+      void loadRegionalPricing();
+    }
+  }, [regionalPricing, loadRegionalPricing]);
+
+  useEffect(() => {
+    if (!currencyRates) {
+      void loadCurrencyRates();
+    }
+  }, [currencyRates, loadCurrencyRates]);
+
   const fetchEstimates = async () => {
     if (!firebaseUser) return;
     setLoading(true);
@@ -138,6 +166,12 @@ export default function EstimatesReportsTab({ onCountChange }: Props) {
     }
   };
 
+  const toggleCompare = (estimateId: string) => {
+    setCompareIds(prev => prev.includes(estimateId)
+      ? prev.filter(id => id !== estimateId)
+      : [...prev, estimateId].slice(-MAX_COMPARED_ESTIMATES));
+  };
+
   if (!firebaseUser) {
     return null;
   }
@@ -150,16 +184,35 @@ export default function EstimatesReportsTab({ onCountChange }: Props) {
         <div className="card">No estimates found.</div>
       ) : (
         <div className="space-y-3">
+          {compareIds.length > 0 && (
+            <div className="sticky top-0 z-10 card flex items-center justify-between bg-primary-50 border border-primary-200">
+              <span className="text-sm text-primary-900">
+                {compareIds.length} selected to compare{compareIds.length < 2 ? ' (select at least two)' : ''}
+              </span>
+              <div className="flex items-center gap-2">
+                <button onClick={() => setCompareIds([])} className="btn-secondary">
+                  Clear
+                </button>
+                {compareIds.length >= 2 && (
+                  <Link
+                    to={`/tools/budget-estimator/compare?ids=${compareIds.join(',')}`}
+                    state={{ from: { pathname: location.pathname, search: location.search } }}
+                    className="btn-primary"
+                  >
+                    Compare
+                  </Link>
+                )}
+              </div>
+            </div>
+          )}
           {estimates.map((estimate) => {
             // Calculate metrics for this estimate
             const totalRooms = calculateTotalRooms(estimate.rooms || []);
             const totalItems = calculateTotalItems(estimate.rooms || [], roomTemplatesMap, itemsMap);
 
             // Calculate budget using the same function as the rest of the system
-            const budget = estimate.rooms?.length ? calculateEstimate(estimate.rooms, roomTemplatesMap, itemsMap, {
-              propertySpecs: estimate.propertySpecs,
-              budgetDefaults: budgetDefaults || undefined,
-            }) : null;
+            const budget = estimate.rooms?.length ? calculateEstimate(estimate.rooms, roomTemplatesMap, applyPriceSnapshot(itemsMap, estimate.priceSnapshot), getEstimateCalculationOptions(estimate, budgetDefaults, regionalPricing, currencyRates)) : null;
+            const currency = estimate.currency ?? BASE_CURRENCY;
 
             const displayRangeLow = budget && 'projectRange' in budget ? (budget as ProjectBudget).projectRange.low : budget?.rangeLow;
             const displayRangeHigh = budget && 'projectRange' in budget ? (budget as ProjectBudget).projectRange.mid : budget?.rangeHigh;
@@ -170,8 +223,12 @@ export default function EstimatesReportsTab({ onCountChange }: Props) {
                   <div className="flex-1">
                     {/* Date and Client Info */}
                     <div className="mb-2">
-                      <div className="text-sm text-gray-500 mb-1">
-                        {estimate.createdAt ? new Date(estimate.createdAt).toLocaleDateString() : 'No date'}
+                      <div className="flex items-center justify-between text-sm text-gray-500 mb-1">
+                        <span>{estimate.createdAt ? new Date(estimate.createdAt).toLocaleDateString() : 'No date'}</span>
+                        <label className="flex items-center gap-1 cursor-pointer">
+                          <input type="checkbox" checked={compareIds.includes(estimate.id)} onChange={() => toggleCompare(estimate.id)} />
+                          Compare
+                        </label>
                       </div>
                       <div className="font-semibold text-gray-900">
                         {estimate.clientInfo.firstName} {estimate.clientInfo.lastName}
@@ -187,9 +244,14 @@ export default function EstimatesReportsTab({ onCountChange }: Props) {
                     {budget && displayRangeLow != null && displayRangeHigh != null && (displayRangeLow > 0 || displayRangeHigh > 0) && (
                       <div className="mb-3">
                         <div className="text-lg font-semibold text-primary-700">
-                          {formatCurrency(displayRangeLow)} — {formatCurrency(displayRangeHigh)}
+                          {formatCurrency(displayRangeLow, currency)} — {formatCurrency(displayRangeHigh, currency)}
                         </div>
                         <div className="text-xs text-gray-500">Estimated Budget Range</div>
+                        {'projectRange' in budget && !(budget as ProjectBudget).contingencyDisabled && (
+                          <div className="text-xs text-gray-500 mt-1">
+                            Contingency: {formatCurrency(budget.low.contingency, currency)} — {formatCurrency(budget.mid.contingency, currency)}
+                          </div>
+                        )}
                       </div>
                     )}
 
@@ -235,6 +297,22 @@ export default function EstimatesReportsTab({ onCountChange }: Props) {
                     >
                       View
                     </Link>
+                    {budget && (
+                      <button
+                        onClick={() => exportEstimateToExcel(estimate, budget)}
+                        className="btn-secondary w-full sm:w-auto"
+                        title="Export to Excel"
+                      >
+                        Excel
+                      </button>
+                    )}
+                    <button
+                      onClick={() => void duplicate(estimate)}
+                      className="btn-secondary w-full sm:w-auto"
+                      disabled={duplicatingId === estimate.id}
+                    >
+                      {duplicatingId === estimate.id ? 'Duplicating...' : 'Duplicate'}
+                    </button>
                     {isAdmin && (
                       <Link
                         to={`/tools/budget-estimator/estimate/edit/${estimate.id}`}
@@ -0,0 +1,115 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { useAuth } from '../../context/AuthContext';
+import type { Estimate } from '../../types';
+import { useFollowUpsStore } from '../../store/followUpsStore';
+import { updateEstimateAssignment } from '../../services/assignments';
+import { FOLLOW_UP_BUCKETS, FOLLOW_UP_BUCKET_LABELS, groupFollowUps } from '../../utils/followUps';
+import type { FollowUpBucket } from '../../utils/followUps';
+import { ESTIMATE_STATUS_BADGE_CLASSES, ESTIMATE_STATUS_LABELS } from '../../utils/estimateStatus';
+
+const BUCKET_HEADER_CLASSES: Record<FollowUpBucket, string> = {
+  overdue: 'text-red-700',
+  today: 'text-amber-700',
+  upcoming: 'text-gray-700',
+};
+
+const addDays = (date: Date, days: number): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+export default function FollowUpsTab() {
+  const { profile } = useAuth();
+  const location = useLocation();
+  const { estimates, loading, error, loadFollowUps, applyAssignment } = useFollowUpsStore();
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Always reload when the queue is opened so it reflects assignments made by others
+  useEffect(() => {
+    if (profile?.uid) {
+      void loadFollowUps(profile.uid);
+    }
+  }, [profile?.uid, loadFollowUps]);
+
+  const groups = useMemo(() => groupFollowUps(estimates ?? []), [estimates]);
+  const total = FOLLOW_UP_BUCKETS.reduce((sum, bucket) => sum + groups[bucket].length, 0);
+
+  const reschedule = async (estimate: Estimate, followUpDate?: Date) => {
+    const assignment = { assignedTo: estimate.assignedTo, ...(followUpDate ? { followUpDate } : {}) };
+    setSavingId(estimate.id);
+    setSaveError(null);
+    try {
+      await updateEstimateAssignment(estimate.id, assignment);
+      applyAssignment(estimate, assignment);
+    } catch (updateError) {
+      console.error('Error updating follow-up:', updateError);
+      setSaveError('Failed to update the follow-up. Please try again.');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  if (loading && !estimates) {
+    return <div className="text-gray-600">Loading follow-ups…</div>;
+  }
+
+  return (
+    <div className="space-y-8">
+      {(error || saveError) && <div className="text-sm text-red-600">{saveError ?? error}</div>}
+
+      {total === 0 ? (
+        <div className="card">
+          No follow-ups scheduled. Assign an estimate to yourself and set a follow-up date from its page.
+        </div>
+      ) : (
+        FOLLOW_UP_BUCKETS.filter(bucket => groups[bucket].length > 0).map(bucket => (
+          <section key={bucket}>
+            <h2 className={`text-lg font-semibold mb-3 ${BUCKET_HEADER_CLASSES[bucket]}`}>
+              {FOLLOW_UP_BUCKET_LABELS[bucket]} ({groups[bucket].length})
+            </h2>
+            <div className="space-y-2">
+              {groups[bucket].map(estimate => {
+                const clientName = `${estimate.clientInfo?.firstName ?? ''} ${estimate.clientInfo?.lastName ?? ''}`.trim() || 'Unnamed client';
+                const saving = savingId === estimate.id;
+                return (
+                  <div key={estimate.id} className={`card flex flex-col md:flex-row md:items-center md:justify-between gap-3 ${saving ? 'opacity-50' : ''}`}>
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-semibold text-gray-900 truncate">{clientName}</span>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ESTIMATE_STATUS_BADGE_CLASSES[estimate.status]}`}>
+                          {ESTIMATE_STATUS_LABELS[estimate.status]}
+                        </span>
+                      </div>
+                      <div className="text-sm text-gray-600">
+                        {estimate.clientInfo?.email}
+                        {estimate.clientInfo?.phone && ` · ${estimate.clientInfo.phone}`}
+                      </div>
+                      <div className="text-xs text-gray-500 mt-1">Follow up on {estimate.followUpDate.toLocaleDateString()}</div>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <Link
+                        to={`/tools/budget-estimator/estimate/view/${estimate.id}`}
+                        state={{ from: { pathname: location.pathname, search: location.search } }}
+                        className="btn-secondary"
+                      >
+                        View
+                      </Link>
+                      <button onClick={() => void reschedule(estimate, addDays(new Date(), 1))} className="btn-secondary" disabled={saving}>
+                        Tomorrow
+                      </button>
+                      <button onClick={() => void reschedule(estimate, addDays(new Date(), 7))} className="btn-secondary" disabled={saving}>
+                        Next Week
+                      </button>
+                      <button onClick={() => void reschedule(estimate)} className="btn-primary" disabled={saving}>
+                        Done
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+        ))
+      )}
+    </div>
+  );
+}
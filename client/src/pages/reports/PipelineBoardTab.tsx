@@ -0,0 +1,209 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { DragEvent } from 'react';
+import { collection, getDocs, limit, orderBy, query, where } from 'firebase/firestore';
+import { Link, useLocation } from 'react-router-dom';
+import { db } from '../../lib/firebase';
+import { useAuth } from '../../context/AuthContext';
+import type { Estimate, EstimateStatus } from '../../types';
+import {
+  ESTIMATE_STATUSES,
+  ESTIMATE_STATUS_LABELS,
+  canTransitionEstimateStatus,
+  createStatusChange,
+  getAllowedStatusTransitions,
+  parseStatusHistory,
+} from '../../utils/estimateStatus';
+import { changeEstimateStatus } from '../../services/estimateStatus';
+
+// The board shows the most recent estimates; older closed work drops off
+const BOARD_LIMIT = 200;
+
+const COLUMN_HEADER_CLASSES: Record<EstimateStatus, string> = {
+  draft: 'border-gray-300',
+  submitted: 'border-blue-400',
+  viewed: 'border-indigo-400',
+  contacted: 'border-amber-400',
+  closed: 'border-green-500',
+};
+
+export default function PipelineBoardTab() {
+  const { profile } = useAuth();
+  const location = useLocation();
+  const [estimates, setEstimates] = useState<Estimate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<EstimateStatus | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const fetchEstimates = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const snap = await getDocs(query(
+        collection(db, 'estimates'),
+        where('toolId', '==', 'budget-estimator'),
+        orderBy('createdAt', 'desc'),
+        limit(BOARD_LIMIT)
+      ));
+      const rows: Estimate[] = [];
+      snap.forEach((estimateDoc) => {
+        const docData = estimateDoc.data();
+        rows.push({
+          id: estimateDoc.id,
+          ...docData,
+          status: docData.status ?? 'submitted',
+          createdAt: docData.createdAt?.toDate ? docData.createdAt.toDate() : docData.createdAt,
+          statusChangedAt: docData.statusChangedAt?.toDate ? docData.statusChangedAt.toDate() : docData.statusChangedAt,
+          lastViewedAt: docData.lastViewedAt?.toDate ? docData.lastViewedAt.toDate() : docData.lastViewedAt,
+          statusHistory: parseStatusHistory(docData.statusHistory),
+        } as unknown as Estimate);
+      });
+      setEstimates(rows);
+    } catch (loadError) {
+      console.error('Error loading estimate pipeline:', loadError);
+      setError('Failed to load estimates.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void fetchEstimates();
+  }, [fetchEstimates]);
+
+  const columns = useMemo(() => {
+    const byStatus = new Map<EstimateStatus, Estimate[]>(ESTIMATE_STATUSES.map(status => [status, []]));
+    estimates.forEach(estimate => byStatus.get(estimate.status)?.push(estimate));
+    return byStatus;
+  }, [estimates]);
+
+  const draggedEstimate = draggedId ? estimates.find(estimate => estimate.id === draggedId) : undefined;
+
+  const moveEstimate = async (estimate: Estimate, to: EstimateStatus) => {
+    const change = createStatusChange(estimate.status, to, profile?.email);
+    if (!change) return;
+    setSavingId(estimate.id);
+    setError(null);
+    try {
+      await changeEstimateStatus(estimate.id, change);
+      setEstimates(prev => prev.map(existing => existing.id === estimate.id
+        ? { ...existing, status: to, statusChangedAt: change.changedAt, statusHistory: [...(existing.statusHistory ?? []), change] }
+        : existing
+      ));
+    } catch (saveError) {
+      console.error('Error changing estimate status:', saveError);
+      setError('Failed to move the estimate. Please try again.');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleDragOver = (event: DragEvent<HTMLDivElement>, status: EstimateStatus) => {
+    if (!draggedEstimate || !canTransitionEstimateStatus(draggedEstimate.status, status)) return;
+    event.preventDefault();
+    setDropTarget(status);
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>, status: EstimateStatus) => {
+    event.preventDefault();
+    if (draggedEstimate) void moveEstimate(draggedEstimate, status);
+    setDraggedId(null);
+    setDropTarget(null);
+  };
+
+  if (loading) {
+    return <div className="text-gray-600">Loading pipeline…</div>;
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <p className="text-sm text-gray-600">
+          Drag an estimate to another column, or use its menu, to change its status. Columns only accept allowed moves.
+        </p>
+        <button onClick={() => void fetchEstimates()} className="btn-secondary text-sm">Refresh</button>
+      </div>
+
+      {error && <div className="mb-4 text-sm text-red-600">{error}</div>}
+
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+        {ESTIMATE_STATUSES.map(status => {
+          const columnEstimates = columns.get(status) ?? [];
+          const acceptsDrop = !!draggedEstimate && canTransitionEstimateStatus(draggedEstimate.status, status);
+          return (
+            <div
+              key={status}
+              onDragOver={(event) => handleDragOver(event, status)}
+              onDragLeave={() => setDropTarget(prev => (prev === status ? null : prev))}
+              onDrop={(event) => handleDrop(event, status)}
+              className={`rounded-lg bg-gray-100 p-3 min-h-[12rem] transition-colors ${
+                dropTarget === status ? 'bg-primary-50 ring-2 ring-primary-300' : acceptsDrop ? 'ring-1 ring-primary-200' : ''
+              }`}
+            >
+              <div className={`flex items-center justify-between border-b-2 pb-2 mb-3 ${COLUMN_HEADER_CLASSES[status]}`}>
+                <h3 className="font-semibold text-gray-800">{ESTIMATE_STATUS_LABELS[status]}</h3>
+                <span className="text-xs font-medium text-gray-500">{columnEstimates.length}</span>
+              </div>
+
+              <div className="space-y-2">
+                {columnEstimates.map(estimate => {
+                  const clientName = `${estimate.clientInfo?.firstName ?? ''} ${estimate.clientInfo?.lastName ?? ''}`.trim() || 'Unnamed client';
+                  const transitions = getAllowedStatusTransitions(estimate.status);
+                  return (
+                    <div
+                      key={estimate.id}
+                      draggable={savingId !== estimate.id}
+                      onDragStart={(event) => {
+                        event.dataTransfer.effectAllowed = 'move';
+                        setDraggedId(estimate.id);
+                      }}
+                      onDragEnd={() => {
+                        setDraggedId(null);
+                        setDropTarget(null);
+                      }}
+                      className={`bg-white rounded-md border border-gray-200 p-3 shadow-sm cursor-grab ${
+                        savingId === estimate.id ? 'opacity-50' : ''
+                      }`}
+                    >
+                      <Link
+                        to={`/tools/budget-estimator/estimate/view/${estimate.id}`}
+                        state={{ from: { pathname: location.pathname, search: location.search } }}
+                        className="font-medium text-gray-900 hover:text-primary-700 block truncate"
+                      >
+                        {clientName}
+                      </Link>
+                      <div className="text-xs text-gray-500 truncate">{estimate.clientInfo?.email}</div>
+                      <div className="text-xs text-gray-500 mt-1">
+                        {estimate.statusChangedAt
+                          ? `Since ${estimate.statusChangedAt.toLocaleDateString()}`
+                          : estimate.createdAt ? `Created ${new Date(estimate.createdAt).toLocaleDateString()}` : null}
+                        {estimate.viewCount > 0 && ` · ${estimate.viewCount} view${estimate.viewCount !== 1 ? 's' : ''}`}
+                      </div>
+                      {transitions.length > 0 && (
+                        <select
+                          value=""
+                          onChange={(e) => {
+                            if (e.target.value) void moveEstimate(estimate, e.target.value as EstimateStatus);
+                          }}
+                          className="mt-2 w-full text-xs border border-gray-300 rounded px-1 py-0.5 bg-white text-gray-600"
+                          aria-label={`Move ${clientName}`}
+                          disabled={savingId === estimate.id}
+                        >
+                          <option value="">Move to…</option>
+                          {transitions.map(next => (
+                            <option key={next} value={next}>{ESTIMATE_STATUS_LABELS[next]}</option>
+                          ))}
+                        </select>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
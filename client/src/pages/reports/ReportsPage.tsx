@@ -4,9 +4,16 @@ import Header from '../../components/Header';
 import { useSearchParams } from 'react-router-dom';
 import EstimatesReportsTab from './EstimatesReportsTab';
 import ProjectionsReportsTab from './ProjectionsReportsTab';
+import RepricingReportTab from './RepricingReportTab';
+import PipelineBoardTab from './PipelineBoardTab';
+import FollowUpsTab from './FollowUpsTab';
 import { useAuth } from '../../context/AuthContext';
 import { useAuthModal, AuthModalCancelledError } from '../../components/auth/AuthModalProvider';
 import { db } from '../../lib/firebase';
+import { useFollowUpsStore } from '../../store/followUpsStore';
+import { countDueFollowUps } from '../../utils/followUps';
+
+type ReportsTab = 'estimates' | 'projections' | 'pipeline' | 'followups' | 'repricing';
 
 export default function ReportsPage() {
   const [searchParams, setSearchParams] = useSearchParams();
@@ -14,13 +21,21 @@ export default function ReportsPage() {
   const [projectionsCount, setProjectionsCount] = useState(0);
   const { firebaseUser, isAdmin } = useAuth();
   const { requireAccount } = useAuthModal();
+  const followUps = useFollowUpsStore(state => state.estimates);
+  const dueFollowUps = useMemo(() => countDueFollowUps(followUps ?? []), [followUps]);
 
-  const activeTab = useMemo<'estimates' | 'projections'>(() => {
+  const activeTab = useMemo<ReportsTab>(() => {
     const tab = searchParams.get('tab');
-    return tab === 'projections' ? 'projections' : 'estimates';
-  }, [searchParams]);
-
-  const setActiveTab = (tab: 'estimates' | 'projections') => {
+    if (tab === 'projections') return 'projections';
+    // Repricing recomputes every open estimate, so it is admin-only
+    if (tab === 'repricing' && isAdmin) return 'repricing';
+    // Status changes are admin-only, so the pipeline board is too
+    if (tab === 'pipeline' && isAdmin) return 'pipeline';
+    if (tab === 'followups' && isAdmin) return 'followups';
+    return 'estimates';
+  }, [searchParams, isAdmin]);
+
+  const setActiveTab = (tab: ReportsTab) => {
     const next = new URLSearchParams(searchParams);
     next.set('tab', tab);
     setSearchParams(next, { replace: true });
@@ -123,14 +138,50 @@ export default function ReportsPage() {
             >
               ROI Projections ({projectionsCount})
             </button>
+            {isAdmin && (
+              <button
+                onClick={() => setActiveTab('pipeline')}
+                className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                  activeTab === 'pipeline'
+                    ? 'border-primary-500 text-primary-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                Pipeline
+              </button>
+            )}
+            {isAdmin && (
+              <button
+                onClick={() => setActiveTab('followups')}
+                className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                  activeTab === 'followups'
+                    ? 'border-primary-500 text-primary-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                My Follow-ups{dueFollowUps > 0 ? ` (${dueFollowUps} due)` : ''}
+              </button>
+            )}
+            {isAdmin && (
+              <button
+                onClick={() => setActiveTab('repricing')}
+                className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                  activeTab === 'repricing'
+                    ? 'border-primary-500 text-primary-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                Repricing
+              </button>
+            )}
           </nav>
         </div>
 
-        {activeTab === 'estimates' ? (
-          <EstimatesReportsTab onCountChange={setEstimatesCount} />
-        ) : (
-          <ProjectionsReportsTab onCountChange={setProjectionsCount} />)
-        }
+        {activeTab === 'estimates' && <EstimatesReportsTab onCountChange={setEstimatesCount} />}
+        {activeTab === 'projections' && <ProjectionsReportsTab onCountChange={setProjectionsCount} />}
+        {activeTab === 'pipeline' && <PipelineBoardTab />}
+        {activeTab === 'followups' && <FollowUpsTab />}
+        {activeTab === 'repricing' && <RepricingReportTab />}
       </main>
     </div>
   );
@@ -0,0 +1,375 @@
+import { Fragment, useCallback, useEffect, useMemo, useState } from 'react';
+import { arrayUnion, collection, doc, getDocs, orderBy, query, serverTimestamp, where, writeBatch } from 'firebase/firestore';
+import { Link } from 'react-router-dom';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { db } from '../../lib/firebase';
+import type { Estimate, EstimatePriceSnapshot, Item, RoomTemplate, TierAmounts } from '../../types';
+import { QUALITY_TIERS } from '../../types';
+import { calculateEstimate, formatCurrency, getEstimateCalculationOptions } from '../../utils/calculations';
+import { applyPriceSnapshot, getSnapshotRates, repricePriceSnapshot } from '../../utils/priceSnapshot';
+import { diffEstimateBudgets, getRepricingChanges, getTierDeltas } from '../../utils/repricingReport';
+import { PRIMARY_VARIANT_ID, getEstimateVariants, selectEstimateVariant } from '../../utils/estimateVariants';
+import type { EstimateRepricingDiff } from '../../utils/repricingReport';
+import { BASE_CURRENCY } from '../../utils/currency';
+import { useRoomTemplates } from '../../hooks/useRoomTemplates';
+import { useBudgetDefaultsStore } from '../../store/budgetDefaultsStore';
+import { useRegionalPricingStore } from '../../store/regionalPricingStore';
+import { useCurrencyRatesStore } from '../../store/currencyRatesStore';
+import { useAuth } from '../../context/AuthContext';
+import { addEstimateVersionsToBatch, createEstimateRevision } from '../../services/estimateVersions';
+
+// Firestore allows at most 500 writes per batch; each estimate takes up to three (the estimate and two versions)
+const ESTIMATES_PER_BATCH = 150;
+
+const TIERS = ['low', 'mid', 'midHigh', 'high'] as const;
+
+interface OptionRepricing {
+  variantId: string;
+  name: string;
+  diff: EstimateRepricingDiff;
+}
+
+interface RepricingRow {
+  estimate: Estimate;
+  snapshot: EstimatePriceSnapshot; // Snapshot taken from the current library and defaults
+  diff: EstimateRepricingDiff; // The main option, shown on the estimate's row
+  options: OptionRepricing[]; // Every option, the main one first
+  isStale: boolean; // Any option changed
+}
+
+function formatDelta(cents: number, currency: Estimate['currency']): string {
+  if (cents === 0) return '—';
+  return `${cents > 0 ? '+' : '−'}${formatCurrency(Math.abs(cents), currency ?? BASE_CURRENCY)}`;
+}
+
+function deltaClassName(cents: number): string {
+  if (cents > 0) return 'text-red-600';
+  if (cents < 0) return 'text-green-600';
+  return 'text-gray-500';
+}
+
+function TierDeltaCells({ before, after, currency }: { before: TierAmounts; after: TierAmounts; currency: Estimate['currency'] }) {
+  const deltas = getTierDeltas(before, after);
+  return (
+    <>
+      {TIERS.map(tier => (
+        <td key={tier} className={`px-3 py-2 text-right whitespace-nowrap ${deltaClassName(deltas[tier])}`}>
+          {formatDelta(deltas[tier], currency)}
+        </td>
+      ))}
+    </>
+  );
+}
+
+export default function RepricingReportTab() {
+  const [estimates, setEstimates] = useState<Estimate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showAll, setShowAll] = useState(false);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [updating, setUpdating] = useState(false);
+
+  const { firebaseUser } = useAuth();
+  const { roomTemplates, items, loading: templatesLoading } = useRoomTemplates();
+  const { defaults: budgetDefaults, loadDefaults } = useBudgetDefaultsStore();
+  const { config: regionalPricing, loadConfig: loadRegionalPricing } = useRegionalPricingStore();
+  const { rates: currencyRates, loadRates: loadCurrencyRates } = useCurrencyRatesStore();
+
+  useEffect(() => {
+    if (!budgetDefaults) {
+      void loadDefaults();
+    }
+  }, [budgetDefaults, loadDefaults]);
+
+  useEffect(() => {
+    if (!regionalPricing) {
+      void loadRegionalPricing();
+    }
+  }, [regionalPricing, loadRegionalPricing]);
+
+  useEffect(() => {
+    if (!currencyRates) {
+      void loadCurrencyRates();
+    }
+  }, [currencyRates, loadCurrencyRates]);
+
+  const roomTemplatesMap = useMemo(() => {
+    const map = new Map<string, RoomTemplate>();
+    roomTemplates.forEach(template => map.set(template.id, template));
+    return map;
+  }, [roomTemplates]);
+
+  const itemsMap = useMemo(() => {
+    const map = new Map<string, Item>();
+    items.forEach(item => map.set(item.id, item));
+    return map;
+  }, [items]);
+
+  const fetchOpenEstimates = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const snap = await getDocs(query(
+        collection(db, 'estimates'),
+        where('toolId', '==', 'budget-estimator'),
+        orderBy('createdAt', 'desc')
+      ));
+      const rows: Estimate[] = [];
+      snap.forEach((estimateDoc) => {
+        const docData = estimateDoc.data();
+        if (docData.status === 'closed') return;
+        rows.push({
+          id: estimateDoc.id,
+          ...docData,
+          rooms: docData.rooms ?? [],
+          createdAt: docData.createdAt?.toDate ? docData.createdAt.toDate() : docData.createdAt,
+          updatedAt: docData.updatedAt?.toDate ? docData.updatedAt.toDate() : docData.updatedAt,
+          ...(docData.priceSnapshot ? {
+            priceSnapshot: {
+              ...docData.priceSnapshot,
+              capturedAt: docData.priceSnapshot.capturedAt?.toDate ? docData.priceSnapshot.capturedAt.toDate() : docData.priceSnapshot.capturedAt,
+            },
+          } : {}),
+        } as unknown as Estimate);
+      });
+      setEstimates(rows);
+      setSelected(new Set());
+    } catch (loadError) {
+      console.error('Error loading estimates for repricing:', loadError);
+      setError('Failed to load estimates.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void fetchOpenEstimates();
+  }, [fetchOpenEstimates]);
+
+  // Estimates without a snapshot already price from the live library, so only locked estimates can go stale
+  const lockedEstimates = useMemo(() => estimates.filter(estimate => estimate.priceSnapshot), [estimates]);
+
+  const rows: RepricingRow[] = useMemo(() => {
+    if (templatesLoading) return [];
+    return lockedEstimates.flatMap((estimate) => {
+      const { priceSnapshot } = estimate;
+      const variants = getEstimateVariants(estimate);
+      // The snapshot is shared by every option
+      const allRooms = variants.flatMap(variant => variant.rooms);
+      if (!priceSnapshot || allRooms.length === 0) return [];
+
+      const snapshot = repricePriceSnapshot(priceSnapshot, allRooms, itemsMap, budgetDefaults, getSnapshotRates(estimate, regionalPricing, currencyRates));
+      const quotedItems = applyPriceSnapshot(itemsMap, priceSnapshot);
+      const currentItems = applyPriceSnapshot(itemsMap, snapshot);
+      const options = variants.map((variant): OptionRepricing => {
+        const option = selectEstimateVariant(estimate, variant.id);
+        const quoted = calculateEstimate(
+          option.rooms,
+          roomTemplatesMap,
+          quotedItems,
+          getEstimateCalculationOptions(option, budgetDefaults, regionalPricing, currencyRates)
+        );
+        const current = calculateEstimate(
+          option.rooms,
+          roomTemplatesMap,
+          currentItems,
+          getEstimateCalculationOptions({ ...option, priceSnapshot: snapshot }, budgetDefaults, regionalPricing, currencyRates)
+        );
+        return { variantId: variant.id, name: variant.name, diff: diffEstimateBudgets(quoted, current) };
+      });
+      return [{ estimate, snapshot, diff: options[0].diff, options, isStale: options.some(option => option.diff.isStale) }];
+    });
+  }, [lockedEstimates, templatesLoading, roomTemplatesMap, itemsMap, budgetDefaults, regionalPricing, currencyRates]);
+
+  const staleRows = rows.filter(row => row.isStale);
+  const visibleRows = showAll ? rows : staleRows;
+  const selectedRows = staleRows.filter(row => selected.has(row.estimate.id));
+
+  const toggle = (set: Set<string>, id: string): Set<string> => {
+    const next = new Set(set);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    return next;
+  };
+
+  const handleRepriceSelected = async () => {
+    if (selectedRows.length === 0) return;
+    if (!confirm(`Update ${selectedRows.length} estimate${selectedRows.length !== 1 ? 's' : ''} to current library prices? Clients will see the new totals.`)) {
+      return;
+    }
+
+    setUpdating(true);
+    setError(null);
+    try {
+      const editedBy = firebaseUser?.email ?? undefined;
+      for (let start = 0; start < selectedRows.length; start += ESTIMATES_PER_BATCH) {
+        const batch = writeBatch(db);
+        selectedRows.slice(start, start + ESTIMATES_PER_BATCH).forEach(({ estimate, snapshot, options }) => {
+          // Other options' totals are prefixed with their name, as in an editor save
+          const changes = options.flatMap(({ variantId, name, diff }) => getRepricingChanges(diff).map(change => (
+            variantId === PRIMARY_VARIANT_ID ? change : { ...change, field: `variants.${variantId}.${change.field}`, label: `${name} › ${change.label}` }
+          )));
+          // Recorded like an editor save, so the reprice shows who made it and can be compared and restored
+          const { versions, entry } = createEstimateRevision(estimate, { ...estimate, priceSnapshot: snapshot }, changes, {
+            savedAt: new Date(),
+            editedBy,
+            details: { source: 'bulk_reprice' },
+          });
+          batch.update(doc(db, 'estimates', estimate.id), {
+            priceSnapshot: snapshot,
+            updatedAt: serverTimestamp(),
+            lastEditedAt: serverTimestamp(),
+            ...(editedBy ? { lastEditedBy: editedBy } : {}),
+            editHistory: arrayUnion(entry),
+          });
+          addEstimateVersionsToBatch(batch, estimate.id, versions);
+        });
+        await batch.commit();
+      }
+      await fetchOpenEstimates();
+    } catch (updateError) {
+      console.error('Error repricing estimates:', updateError);
+      setError('Failed to update some estimates. Refresh to see which were repriced.');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  if (loading || templatesLoading) {
+    return <div className="text-gray-600">Loading estimates…</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="card">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Estimate Repricing</h2>
+            <p className="text-sm text-gray-600">
+              {estimates.length} open estimate{estimates.length !== 1 ? 's' : ''} • {staleRows.length} stale against the current item library, budget defaults and rates
+              {estimates.length > lockedEstimates.length && ` • ${estimates.length - lockedEstimates.length} without locked prices (always current)`}
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} className="h-4 w-4" />
+              Show up-to-date estimates
+            </label>
+            <button className="btn-secondary" onClick={() => void fetchOpenEstimates()} disabled={updating}>
+              Refresh
+            </button>
+            <button className="btn-primary" onClick={() => void handleRepriceSelected()} disabled={updating || selectedRows.length === 0}>
+              {updating ? 'Updating…' : `Reprice Selected (${selectedRows.length})`}
+            </button>
+          </div>
+        </div>
+        {error && <div className="mt-3 text-sm text-red-600">{error}</div>}
+      </div>
+
+      {visibleRows.length === 0 ? (
+        <div className="card text-gray-600">No open estimates are affected by library, budget default or rate changes.</div>
+      ) : (
+        <div className="card overflow-x-auto p-0">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-gray-700">
+                <th className="px-3 py-2">
+                  <input
+                    type="checkbox"
+                    aria-label="Select all stale estimates"
+                    checked={staleRows.length > 0 && selectedRows.length === staleRows.length}
+                    onChange={(e) => setSelected(e.target.checked ? new Set(staleRows.map(row => row.estimate.id)) : new Set())}
+                    className="h-4 w-4"
+                  />
+                </th>
+                <th className="px-3 py-2 font-medium">Estimate</th>
+                <th className="px-3 py-2 font-medium text-right">Quoted (Low — Mid)</th>
+                {TIERS.map(tier => (
+                  <th key={tier} className="px-3 py-2 font-medium text-right">{QUALITY_TIERS[tier].name} Δ</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {visibleRows.map(({ estimate, diff, options, isStale }) => {
+                const isExpanded = expanded.has(estimate.id);
+                const currency = estimate.currency ?? BASE_CURRENCY;
+                const hasOptions = options.length > 1;
+                const canExpand = hasOptions || diff.rooms.length > 0;
+                return (
+                  <Fragment key={estimate.id}>
+                    <tr className="border-t border-gray-100 align-top">
+                      <td className="px-3 py-2">
+                        <input
+                          type="checkbox"
+                          aria-label={`Select estimate for ${estimate.clientInfo.firstName} ${estimate.clientInfo.lastName}`}
+                          checked={selected.has(estimate.id)}
+                          disabled={!isStale}
+                          onChange={() => setSelected(prev => toggle(prev, estimate.id))}
+                          className="h-4 w-4"
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        <button
+                          className="flex items-center gap-1 font-medium text-gray-900 hover:text-primary-700"
+                          onClick={() => setExpanded(prev => toggle(prev, estimate.id))}
+                          disabled={!canExpand}
+                        >
+                          {canExpand && (isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />)}
+                          {estimate.clientInfo.firstName} {estimate.clientInfo.lastName}
+                        </button>
+                        <div className="text-xs text-gray-500">
+                          {estimate.status} • locked {estimate.priceSnapshot ? new Date(estimate.priceSnapshot.capturedAt).toLocaleDateString() : ''} •{' '}
+                          <Link to={`/tools/budget-estimator/estimate/edit/${estimate.id}`} className="text-primary-600 hover:text-primary-800">
+                            Edit
+                          </Link>
+                        </div>
+                      </td>
+                      <td className="px-3 py-2 text-right whitespace-nowrap">
+                        {formatCurrency(diff.before.low, currency)} — {formatCurrency(diff.before.mid, currency)}
+                      </td>
+                      <TierDeltaCells before={diff.before} after={diff.after} currency={currency} />
+                    </tr>
+                    {isExpanded && options.map(option => (
+                      <Fragment key={`${estimate.id}-${option.variantId}`}>
+                        {hasOptions && (
+                          <tr className="bg-gray-50">
+                            <td></td>
+                            <td className="px-3 py-2 pl-8 font-medium text-gray-900">{option.name}</td>
+                            <td className="px-3 py-2 text-right whitespace-nowrap text-gray-700">
+                              {formatCurrency(option.diff.before.low, currency)} — {formatCurrency(option.diff.before.mid, currency)}
+                            </td>
+                            <TierDeltaCells before={option.diff.before} after={option.diff.after} currency={currency} />
+                          </tr>
+                        )}
+                        {option.diff.rooms.map(room => (
+                          <Fragment key={`${estimate.id}-${option.variantId}-${room.roomIndex}`}>
+                            <tr className="bg-gray-50">
+                              <td></td>
+                              <td className={`px-3 py-2 ${hasOptions ? 'pl-12' : 'pl-8'} font-medium text-gray-700`} colSpan={2}>{room.name}</td>
+                              <TierDeltaCells before={room.before} after={room.after} currency={currency} />
+                            </tr>
+                            {room.items.map(item => (
+                              <tr key={`${estimate.id}-${option.variantId}-${room.roomIndex}-${item.itemId}`} className="bg-gray-50 text-gray-600">
+                                <td></td>
+                                <td className={`px-3 py-1 ${hasOptions ? 'pl-16' : 'pl-12'}`} colSpan={2}>{item.name}</td>
+                                <TierDeltaCells before={item.before} after={item.after} currency={currency} />
+                              </tr>
+                            ))}
+                          </Fragment>
+                        ))}
+                      </Fragment>
+                    ))}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { collection, deleteField, doc, getDocs, query, serverTimestamp, updateDoc, where } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import type { Estimate, TeamMember } from '../types';
+import { parseStatusHistory } from '../utils/estimateStatus';
+
+export interface EstimateAssignment {
+  assignedTo?: string;
+  followUpDate?: Date;
+}
+
+/**
+ * Load the admins estimates can be assigned to, sorted by name
+ */
+export async function fetchTeamMembers(): Promise<TeamMember[]> {
+  const snapshot = await getDocs(query(collection(db, 'users'), where('role', '==', 'admin')));
+  return snapshot.docs
+    .map((userDoc): TeamMember => {
+      const data = userDoc.data();
+      const fullName = [data.firstName, data.lastName].filter(Boolean).join(' ');
+      return {
+        uid: userDoc.id,
+        email: data.email ?? '',
+        name: fullName || data.displayName || data.email || userDoc.id,
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Set or clear an estimate's assignee and follow-up date
+ */
+export async function updateEstimateAssignment(estimateId: string, assignment: EstimateAssignment): Promise<void> {
+  await updateDoc(doc(db, 'estimates', estimateId), {
+    assignedTo: assignment.assignedTo ?? deleteField(),
+    followUpDate: assignment.followUpDate ?? deleteField(),
+    updatedAt: serverTimestamp(),
+  });
+}
+
+/**
+ * Load the estimates assigned to an admin
+ */
+export async function fetchAssignedEstimates(uid: string): Promise<Estimate[]> {
+  const snapshot = await getDocs(query(collection(db, 'estimates'), where('assignedTo', '==', uid)));
+  return snapshot.docs.map((estimateDoc) => {
+    const docData = estimateDoc.data();
+    return {
+      id: estimateDoc.id,
+      ...docData,
+      createdAt: docData.createdAt?.toDate ? docData.createdAt.toDate() : docData.createdAt,
+      followUpDate: docData.followUpDate?.toDate ? docData.followUpDate.toDate() : docData.followUpDate,
+      statusChangedAt: docData.statusChangedAt?.toDate ? docData.statusChangedAt.toDate() : docData.statusChangedAt,
+      statusHistory: parseStatusHistory(docData.statusHistory),
+    } as unknown as Estimate;
+  });
+}
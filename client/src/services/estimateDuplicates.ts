@@ -0,0 +1,17 @@
+import { addDoc, collection, serverTimestamp } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import type { Estimate } from '../types';
+import { buildEstimateDuplicate } from '../utils/estimateTemplates';
+
+/**
+ * Copy an estimate into a new draft owned by the given user and return the new estimate's ID
+ */
+export async function duplicateEstimate(estimate: Estimate, ownerUid: string): Promise<string> {
+  const estimateRef = await addDoc(collection(db, 'estimates'), {
+    ...buildEstimateDuplicate(estimate, ownerUid),
+    statusChangedAt: serverTimestamp(),
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+  return estimateRef.id;
+}
@@ -0,0 +1,43 @@
+import { addDoc, collection, deleteDoc, doc, getDocs, orderBy, query } from 'firebase/firestore';
+import type { DocumentData } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import type { EstimateNote } from '../types';
+
+const NOTES_COLLECTION = 'notes';
+
+export type NewEstimateNote = Omit<EstimateNote, 'id' | 'createdAt'>;
+
+function toEstimateNote(id: string, data: DocumentData): EstimateNote {
+  return {
+    id,
+    authorUid: data.authorUid ?? '',
+    authorName: data.authorName ?? 'Unknown',
+    body: data.body ?? '',
+    mentions: Array.isArray(data.mentions) ? data.mentions : [],
+    createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
+    ...(data.parentId ? { parentId: data.parentId } : {}),
+  };
+}
+
+/**
+ * Load an estimate's notes, oldest first
+ */
+export async function fetchEstimateNotes(estimateId: string): Promise<EstimateNote[]> {
+  const snapshot = await getDocs(query(collection(db, 'estimates', estimateId, NOTES_COLLECTION), orderBy('createdAt', 'asc')));
+  return snapshot.docs.map(noteDoc => toEstimateNote(noteDoc.id, noteDoc.data()));
+}
+
+/**
+ * Save a note and return it with its ID
+ */
+export async function addEstimateNote(estimateId: string, note: NewEstimateNote): Promise<EstimateNote> {
+  const createdAt = new Date();
+  const { parentId, ...fields } = note;
+  const data = { ...fields, ...(parentId ? { parentId } : {}), createdAt };
+  const noteRef = await addDoc(collection(db, 'estimates', estimateId, NOTES_COLLECTION), data);
+  return { id: noteRef.id, ...data };
+}
+
+export async function deleteEstimateNote(estimateId: string, noteId: string): Promise<void> {
+  await deleteDoc(doc(db, 'estimates', estimateId, NOTES_COLLECTION, noteId));
+}
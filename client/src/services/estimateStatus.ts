@@ -0,0 +1,34 @@
+import { arrayUnion, doc, increment, serverTimestamp, updateDoc } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import type { Estimate, EstimateStatusChange } from '../types';
+import { createStatusChange, getStatusAfterOwnerView } from '../utils/estimateStatus';
+
+/**
+ * Apply a status change and append it to the estimate's status history
+ */
+export async function changeEstimateStatus(estimateId: string, change: EstimateStatusChange): Promise<void> {
+  await updateDoc(doc(db, 'estimates', estimateId), {
+    status: change.to,
+    statusChangedAt: change.changedAt,
+    statusHistory: arrayUnion(change),
+    updatedAt: serverTimestamp(),
+  });
+}
+
+/**
+ * Count an owner view, moving a submitted estimate to viewed the first time
+ */
+export async function recordOwnerView(estimate: Pick<Estimate, 'id' | 'status'>): Promise<void> {
+  const nextStatus = getStatusAfterOwnerView(estimate.status);
+  const change = nextStatus !== estimate.status ? createStatusChange(estimate.status, nextStatus) : null;
+
+  await updateDoc(doc(db, 'estimates', estimate.id), {
+    viewCount: increment(1),
+    lastViewedAt: serverTimestamp(),
+    ...(change ? {
+      status: change.to,
+      statusChangedAt: change.changedAt,
+      statusHistory: arrayUnion(change),
+    } : {}),
+  });
+}
@@ -0,0 +1,91 @@
+import { collection, doc, getDocs, orderBy, query } from 'firebase/firestore';
+import type { WriteBatch } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import type { EditHistoryEntry, Estimate, EstimateFieldChange, EstimateVersion, EstimateVersionSnapshot } from '../types';
+import { getEditAction, getVersionSnapshot, summarizeFieldChanges, toVersionDocument } from '../utils/estimateVersions';
+
+const VERSIONS_COLLECTION = 'versions';
+
+/**
+ * Reserve an ID for a version so the edit history entry can reference it before it is written
+ */
+export function createEstimateVersionId(estimateId: string): string {
+  return doc(collection(db, 'estimates', estimateId, VERSIONS_COLLECTION)).id;
+}
+
+interface EstimateRevisionOptions {
+  savedAt: Date;
+  editedBy?: string;
+  details?: EditHistoryEntry['details']; // Extra edit history details, e.g. where the change came from
+}
+
+/**
+ * Build the versions and edit history entry for a change to an estimate. The first tracked change
+ * also stores the state it started from, so it can be restored.
+ */
+export function createEstimateRevision(
+  previous: Estimate,
+  updated: Estimate,
+  changes: EstimateFieldChange[],
+  { savedAt, editedBy, details }: EstimateRevisionOptions
+): { versions: EstimateVersion[]; entry: EditHistoryEntry } {
+  const versions: EstimateVersion[] = [];
+  if (!(updated.editHistory ?? []).some(entry => entry.versionId)) {
+    versions.push({
+      id: createEstimateVersionId(previous.id),
+      createdAt: previous.updatedAt instanceof Date ? previous.updatedAt : savedAt,
+      snapshot: getVersionSnapshot(previous),
+      changes: [],
+      initial: true,
+    });
+  }
+  const versionId = createEstimateVersionId(previous.id);
+  versions.push({
+    id: versionId,
+    createdAt: savedAt,
+    snapshot: getVersionSnapshot(updated),
+    changes,
+    ...(editedBy ? { createdBy: editedBy } : {}),
+  });
+
+  const entry: EditHistoryEntry = {
+    timestamp: savedAt,
+    action: getEditAction(changes),
+    details: { updatedFields: [...new Set(changes.map(change => change.field.split('.')[0]))], ...details },
+    // The full diff stays on the admin-only version; the estimate keeps a summary so it stays small
+    summary: summarizeFieldChanges(changes, updated.currency),
+    versionId,
+    ...(editedBy ? { editedBy } : {}),
+  };
+  return { versions, entry };
+}
+
+/**
+ * Load an estimate's stored versions, newest first
+ */
+export async function fetchEstimateVersions(estimateId: string): Promise<EstimateVersion[]> {
+  const snapshot = await getDocs(query(collection(db, 'estimates', estimateId, VERSIONS_COLLECTION), orderBy('createdAt', 'desc')));
+  return snapshot.docs.map((versionDoc): EstimateVersion => {
+    const data = versionDoc.data();
+    return {
+      id: versionDoc.id,
+      createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
+      snapshot: { ...data.snapshot, rooms: data.snapshot?.rooms ?? [] } as EstimateVersionSnapshot,
+      changes: Array.isArray(data.changes) ? data.changes : [],
+      ...(data.createdBy ? { createdBy: data.createdBy } : {}),
+      ...(data.initial ? { initial: true } : {}),
+    };
+  });
+}
+
+/**
+ * Queue versions on an existing batch, so they are written together with the estimate update
+ */
+export function addEstimateVersionsToBatch(batch: WriteBatch, estimateId: string, versions: EstimateVersion[]): void {
+  versions.forEach(({ id, snapshot, ...version }) => {
+    batch.set(doc(db, 'estimates', estimateId, VERSIONS_COLLECTION, id), {
+      ...version,
+      snapshot: toVersionDocument(snapshot),
+    });
+  });
+}
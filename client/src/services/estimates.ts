@@ -0,0 +1,36 @@
+import { doc, getDoc } from 'firebase/firestore';
+import type { DocumentData } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import type { Estimate } from '../types';
+import { createOutdoorSpaceRoom } from '../utils/calculations';
+
+function toEstimate(id: string, docData: DocumentData): Estimate {
+  const estimate = {
+    id,
+    ...docData,
+    rooms: docData.rooms ?? [],
+    createdAt: docData.createdAt?.toDate ? docData.createdAt.toDate() : docData.createdAt,
+    updatedAt: docData.updatedAt?.toDate ? docData.updatedAt.toDate() : docData.updatedAt,
+    submittedAt: docData.submittedAt?.toDate ? docData.submittedAt.toDate() : docData.submittedAt,
+  } as Estimate;
+
+  // Project budgets always include Outdoor Space, matching the view and edit pages
+  if (estimate.propertySpecs && !estimate.rooms.some(room => room.roomType === 'outdoor_space')) {
+    estimate.rooms = [...estimate.rooms, createOutdoorSpaceRoom()];
+  }
+  return estimate;
+}
+
+/**
+ * Load estimates by ID, in the order given. Estimates that don't exist or can't be read are skipped.
+ */
+export async function fetchEstimatesByIds(ids: string[]): Promise<Estimate[]> {
+  const results = await Promise.allSettled(ids.map(id => getDoc(doc(db, 'estimates', id))));
+  return results.flatMap((result) => {
+    if (result.status === 'rejected') {
+      console.error('Error loading estimate for comparison:', result.reason);
+      return [];
+    }
+    return result.value.exists() ? [toEstimate(result.value.id, result.value.data())] : [];
+  });
+}
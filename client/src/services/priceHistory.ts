@@ -0,0 +1,82 @@
+import { collection, collectionGroup, doc, getDocs, orderBy, query, Timestamp, where, writeBatch } from 'firebase/firestore';
+import type { DocumentData, WriteBatch } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import type { PriceHistoryEntry } from '../types';
+import type { PriceChange } from '../utils/priceHistory';
+
+const PRICE_HISTORY_COLLECTION = 'priceHistory';
+
+export interface PriceChangeContext {
+  itemName: string;
+  changedBy?: string;
+  reason?: string;
+  source: PriceHistoryEntry['source'];
+  changedAt?: Date;
+}
+
+function toPriceHistoryEntry(id: string, itemId: string, data: DocumentData): PriceHistoryEntry {
+  return {
+    id,
+    itemId,
+    itemName: data.itemName ?? itemId,
+    tier: data.tier,
+    oldPrice: data.oldPrice ?? 0,
+    newPrice: data.newPrice ?? 0,
+    changedAt: data.changedAt?.toDate ? data.changedAt.toDate() : new Date(data.changedAt),
+    source: data.source ?? 'manual',
+    ...(data.changedBy ? { changedBy: data.changedBy } : {}),
+    ...(data.reason ? { reason: data.reason } : {}),
+  };
+}
+
+/**
+ * Queue one history entry per changed tier on an existing batch
+ */
+export function addPriceChangesToBatch(batch: WriteBatch, itemId: string, changes: PriceChange[], context: PriceChangeContext): void {
+  const historyRef = collection(db, 'items', itemId, PRICE_HISTORY_COLLECTION);
+  const changedAt = context.changedAt ?? new Date();
+
+  changes.forEach((change) => {
+    batch.set(doc(historyRef), {
+      itemId,
+      itemName: context.itemName,
+      tier: change.tier,
+      oldPrice: change.oldPrice,
+      newPrice: change.newPrice,
+      changedAt,
+      source: context.source,
+      ...(context.changedBy ? { changedBy: context.changedBy } : {}),
+      ...(context.reason ? { reason: context.reason } : {}),
+    });
+  });
+}
+
+/**
+ * Record tier price changes for an item
+ */
+export async function recordPriceChanges(itemId: string, changes: PriceChange[], context: PriceChangeContext): Promise<void> {
+  if (changes.length === 0) return;
+  const batch = writeBatch(db);
+  addPriceChangesToBatch(batch, itemId, changes, context);
+  await batch.commit();
+}
+
+/**
+ * Load an item's price history, oldest first
+ */
+export async function fetchItemPriceHistory(itemId: string): Promise<PriceHistoryEntry[]> {
+  const snapshot = await getDocs(query(collection(db, 'items', itemId, PRICE_HISTORY_COLLECTION), orderBy('changedAt', 'asc')));
+  return snapshot.docs.map(entryDoc => toPriceHistoryEntry(entryDoc.id, itemId, entryDoc.data()));
+}
+
+/**
+ * Load price changes across all items made on or after a date, oldest first
+ */
+export async function fetchPriceChangesSince(since: Date): Promise<PriceHistoryEntry[]> {
+  const snapshot = await getDocs(query(
+    collectionGroup(db, PRICE_HISTORY_COLLECTION),
+    where('changedAt', '>=', Timestamp.fromDate(since)),
+    orderBy('changedAt', 'asc')
+  ));
+  return snapshot.docs.map(entryDoc => toPriceHistoryEntry(entryDoc.id, entryDoc.data().itemId ?? entryDoc.ref.parent.parent?.id ?? '', entryDoc.data()));
+}
@@ -0,0 +1,83 @@
+import { collection, deleteDoc, doc, getDocs, query, updateDoc, where, writeBatch } from 'firebase/firestore';
+import type { DocumentData } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import type { PurchaseOrder, PurchaseOrderStatus } from '../types';
+import { BASE_CURRENCY } from '../utils/currency';
+import { PURCHASE_ORDER_STATUS_DATES } from '../utils/purchaseOrders';
+import type { PurchaseOrderDraft } from '../utils/purchaseOrders';
+
+const PURCHASE_ORDERS_COLLECTION = 'purchaseOrders';
+
+const toDate = (value: unknown): Date | undefined => {
+  if (!value) return undefined;
+  const timestamp = value as { toDate?: () => Date };
+  return timestamp.toDate ? timestamp.toDate() : new Date(value as string);
+};
+
+function toPurchaseOrder(id: string, data: DocumentData): PurchaseOrder {
+  const sentAt = toDate(data.sentAt);
+  const confirmedAt = toDate(data.confirmedAt);
+  const receivedAt = toDate(data.receivedAt);
+  return {
+    id,
+    estimateId: data.estimateId,
+    ...(data.variantId ? { variantId: data.variantId } : {}),
+    vendorId: data.vendorId,
+    vendorName: data.vendorName ?? data.vendorId,
+    tier: data.tier ?? 'mid',
+    currency: data.currency ?? BASE_CURRENCY,
+    status: data.status ?? 'draft',
+    lines: data.lines ?? [],
+    subtotal: data.subtotal ?? 0,
+    discount: data.discount ?? 0,
+    total: data.total ?? 0,
+    createdAt: toDate(data.createdAt) ?? new Date(),
+    updatedAt: toDate(data.updatedAt) ?? new Date(),
+    ...(data.createdBy ? { createdBy: data.createdBy } : {}),
+    ...(sentAt ? { sentAt } : {}),
+    ...(confirmedAt ? { confirmedAt } : {}),
+    ...(receivedAt ? { receivedAt } : {}),
+  };
+}
+
+/**
+ * Load the purchase orders generated for an estimate, sorted by vendor
+ */
+export async function fetchPurchaseOrdersForEstimate(estimateId: string): Promise<PurchaseOrder[]> {
+  const snapshot = await getDocs(query(collection(db, PURCHASE_ORDERS_COLLECTION), where('estimateId', '==', estimateId)));
+  return snapshot.docs
+    .map(orderDoc => toPurchaseOrder(orderDoc.id, orderDoc.data()))
+    .sort((a, b) => a.vendorName.localeCompare(b.vendorName));
+}
+
+/**
+ * Save new draft orders in one batch and return them with their IDs
+ */
+export async function createPurchaseOrders(drafts: PurchaseOrderDraft[]): Promise<PurchaseOrder[]> {
+  if (drafts.length === 0) return [];
+
+  const batch = writeBatch(db);
+  const now = new Date();
+  const orders = drafts.map((draft): PurchaseOrder => {
+    const orderRef = doc(collection(db, PURCHASE_ORDERS_COLLECTION));
+    batch.set(orderRef, { ...draft, createdAt: now, updatedAt: now });
+    return { id: orderRef.id, ...draft, createdAt: now, updatedAt: now };
+  });
+  await batch.commit();
+  return orders;
+}
+
+/**
+ * Move an order to a new status, stamping the date it entered that status
+ */
+export async function updatePurchaseOrderStatus(orderId: string, status: PurchaseOrderStatus, changedAt = new Date()): Promise<void> {
+  await updateDoc(doc(db, PURCHASE_ORDERS_COLLECTION, orderId), {
+    status,
+    updatedAt: changedAt,
+    ...(status !== 'draft' ? { [PURCHASE_ORDER_STATUS_DATES[status]]: changedAt } : {}),
+  });
+}
+
+export async function deletePurchaseOrder(orderId: string): Promise<void> {
+  await deleteDoc(doc(db, PURCHASE_ORDERS_COLLECTION, orderId));
+}
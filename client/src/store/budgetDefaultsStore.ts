@@ -51,6 +51,12 @@ export const useBudgetDefaultsStore = create<BudgetDefaultsState>()(
                 kitchenCents: data.kitchenCents,
                 propertyManagementCents: data.propertyManagementCents,
                 designFeeRatePerSqftCents: data.designFeeRatePerSqftCents,
+                // Firestore rejects undefined, so only carry contingency when configured
+                ...(data.contingency ? { contingency: data.contingency } : {}),
+                ...(data.addOnRules ? { addOnRules: data.addOnRules } : {}),
+                ...(data.designFeePhases ? { designFeePhases: data.designFeePhases } : {}),
+                ...(data.designFeeRateBreaks ? { designFeeRateBreaks: data.designFeeRateBreaks } : {}),
+                ...(data.currency ? { currency: data.currency } : {}),
               },
               loading: false
             });
@@ -0,0 +1,109 @@
+// Zustand store for currency conversion rates state management
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { collection, doc, getDoc, setDoc } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import type { CurrencyCode, CurrencyRates } from '../types';
+import { CURRENCY_CODES } from '../utils/currency';
+
+interface CurrencyRatesState {
+  // Conversion rates from USD
+  rates: CurrencyRates | null;
+
+  // Loading state
+  loading: boolean;
+  error: string | null;
+
+  // Actions
+  loadRates: () => Promise<void>;
+  saveRates: (rates: CurrencyRates) => Promise<void>;
+  setError: (error: string | null) => void;
+  reset: () => void;
+}
+
+const initialState = {
+  rates: null,
+  loading: false,
+  error: null,
+};
+
+const CURRENCY_RATES_DOC_ID = 'currencyRates';
+
+/**
+ * Map a Firestore document onto currency rates, ignoring unknown currencies and invalid rates
+ */
+export function parseCurrencyRates(data: Record<string, unknown>): CurrencyRates {
+  const storedRates = (data.rates ?? {}) as Record<string, unknown>;
+  const rates: Partial<Record<CurrencyCode, number>> = {};
+
+  CURRENCY_CODES.forEach((code) => {
+    const rate = storedRates[code];
+    if (typeof rate === 'number' && rate > 0) {
+      rates[code] = rate;
+    }
+  });
+
+  return {
+    rates,
+    ...(typeof data.updatedAt === 'string' ? { updatedAt: data.updatedAt } : {}),
+  };
+}
+
+export const useCurrencyRatesStore = create<CurrencyRatesState>()(
+  persist(
+    (set) => ({
+      ...initialState,
+
+      loadRates: async () => {
+        set({ loading: true, error: null });
+
+        try {
+          const docRef = doc(collection(db, 'config'), CURRENCY_RATES_DOC_ID);
+          const docSnap = await getDoc(docRef);
+
+          if (docSnap.exists()) {
+            set({ rates: parseCurrencyRates(docSnap.data()), loading: false });
+          } else {
+            // No rates configured - estimates can only be quoted in USD
+            set({ rates: null, loading: false });
+          }
+        } catch (error) {
+          console.error('Error loading currency rates from Firestore:', error);
+          set({
+            rates: null,
+            error: error instanceof Error ? error.message : 'Failed to load currency rates',
+            loading: false
+          });
+        }
+      },
+
+      saveRates: async (newRates) => {
+        set({ loading: true, error: null });
+
+        try {
+          const docRef = doc(collection(db, 'config'), CURRENCY_RATES_DOC_ID);
+          await setDoc(docRef, newRates);
+
+          set({ rates: newRates, loading: false });
+        } catch (error) {
+          console.error('Error saving currency rates:', error);
+          set({
+            error: error instanceof Error ? error.message : 'Failed to save currency rates',
+            loading: false
+          });
+        }
+      },
+
+      setError: (error) => set({ error }),
+
+      reset: () => set(initialState),
+    }),
+    {
+      name: 'currency-rates-storage',
+      // Only persist the rates (not loading/error state)
+      partialize: (state) => ({
+        rates: state.rates,
+      }),
+    }
+  )
+);
@@ -29,6 +29,7 @@ interface EstimatorState {
   removeRoom: (index: number) => void;
   setClientInfo: (info: ClientInfo) => void;
   setConfigurationInitialized: (initialized: boolean) => void;
+  startFromTemplate: (specs: PropertySpecs, rooms: RoomWithItems[]) => void;
   reset: () => void;
 }
 
@@ -79,6 +80,15 @@ export const useEstimatorStore = create<EstimatorState>()(
       setConfigurationInitialized: (initialized) =>
         set({ isConfigurationInitialized: initialized }),
 
+      // Rooms come from a template or the budget fit, so skip the suggested configuration
+      startFromTemplate: (specs, rooms) =>
+        set({
+          propertySpecs: specs,
+          selectedRooms: rooms,
+          isConfigurationInitialized: true,
+          currentStep: 2,
+        }),
+
       reset: () => set(initialState),
     }),
     {
@@ -0,0 +1,73 @@
+// Zustand store for the signed-in admin's assigned estimates. Not persisted: assignments
+// belong to one user and change often, so they are always loaded fresh.
+import { create } from 'zustand';
+import type { Estimate } from '../types';
+import { fetchAssignedEstimates } from '../services/assignments';
+import type { EstimateAssignment } from '../services/assignments';
+
+interface FollowUpsState {
+  // Admin the estimates were loaded for
+  uid: string | null;
+  estimates: Estimate[] | null;
+
+  // Loading state
+  loading: boolean;
+  error: string | null;
+
+  // Actions
+  loadFollowUps: (uid: string) => Promise<void>;
+  applyAssignment: (estimate: Estimate, assignment: EstimateAssignment) => void;
+  reset: () => void;
+}
+
+const initialState = {
+  uid: null,
+  estimates: null,
+  loading: false,
+  error: null,
+};
+
+export const useFollowUpsStore = create<FollowUpsState>()((set, get) => ({
+  ...initialState,
+
+  loadFollowUps: async (uid) => {
+    set({ uid, loading: true, error: null });
+
+    try {
+      const estimates = await fetchAssignedEstimates(uid);
+      // Ignore results for an admin who signed out while loading
+      if (get().uid === uid) {
+        set({ estimates, loading: false });
+      }
+    } catch (error) {
+      console.error('Error loading follow-ups:', error);
+      set({
+        estimates: null,
+        error: error instanceof Error ? error.message : 'Failed to load follow-ups',
+        loading: false
+      });
+    }
+  },
+
+  // Keep the queue in step with an assignment saved elsewhere (e.g. on the estimate page)
+  applyAssignment: (estimate, assignment) => {
+    const { uid, estimates } = get();
+    if (!estimates) return;
+
+    const others = estimates.filter(existing => existing.id !== estimate.id);
+    if (!uid || assignment.assignedTo !== uid) {
+      set({ estimates: others });
+      return;
+    }
+
+    const updated: Estimate = { ...estimate, assignedTo: assignment.assignedTo };
+    if (assignment.followUpDate) {
+      updated.followUpDate = assignment.followUpDate;
+    } else {
+      delete updated.followUpDate;
+    }
+    set({ estimates: [...others, updated] });
+  },
+
+  reset: () => set(initialState),
+}));
@@ -0,0 +1,123 @@
+// Zustand store for project templates shown on the budget estimator landing page
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { addDoc, collection, deleteDoc, doc, getDocs } from 'firebase/firestore';
+import type { DocumentData } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import type { ProjectTemplate } from '../types';
+import type { ProjectTemplateDraft } from '../utils/estimateTemplates';
+
+interface ProjectTemplatesState {
+  // Templates sorted by name
+  templates: ProjectTemplate[] | null;
+
+  // Loading state
+  loading: boolean;
+  error: string | null;
+
+  // Actions
+  loadTemplates: () => Promise<void>;
+  createTemplate: (draft: ProjectTemplateDraft) => Promise<ProjectTemplate>;
+  deleteTemplate: (templateId: string) => Promise<void>;
+  reset: () => void;
+}
+
+const initialState = {
+  templates: null,
+  loading: false,
+  error: null,
+};
+
+const PROJECT_TEMPLATES_COLLECTION = 'projectTemplates';
+
+const sortTemplates = (templates: ProjectTemplate[]): ProjectTemplate[] => [...templates].sort((a, b) => a.name.localeCompare(b.name));
+
+/**
+ * Map a Firestore document onto a project template
+ */
+export function parseProjectTemplate(id: string, data: DocumentData): ProjectTemplate {
+  return {
+    id,
+    name: typeof data.name === 'string' ? data.name : id,
+    propertySpecs: {
+      squareFootage: data.propertySpecs?.squareFootage ?? 0,
+      guestCapacity: data.propertySpecs?.guestCapacity ?? 0,
+    },
+    rooms: Array.isArray(data.rooms) ? data.rooms : [],
+    createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
+    ...(data.description ? { description: data.description } : {}),
+    ...(data.sourceEstimateId ? { sourceEstimateId: data.sourceEstimateId } : {}),
+    ...(data.createdBy ? { createdBy: data.createdBy } : {}),
+  };
+}
+
+export const useProjectTemplatesStore = create<ProjectTemplatesState>()(
+  persist(
+    (set, get) => ({
+      ...initialState,
+
+      loadTemplates: async () => {
+        set({ loading: true, error: null });
+
+        try {
+          const snapshot = await getDocs(collection(db, PROJECT_TEMPLATES_COLLECTION));
+          set({
+            templates: sortTemplates(snapshot.docs.map(templateDoc => parseProjectTemplate(templateDoc.id, templateDoc.data()))),
+            loading: false,
+          });
+        } catch (error) {
+          console.error('Error loading project templates from Firestore:', error);
+          set({
+            templates: null,
+            error: error instanceof Error ? error.message : 'Failed to load project templates',
+            loading: false
+          });
+        }
+      },
+
+      createTemplate: async (draft) => {
+        set({ loading: true, error: null });
+
+        try {
+          const createdAt = new Date();
+          const templateRef = await addDoc(collection(db, PROJECT_TEMPLATES_COLLECTION), { ...draft, createdAt });
+          const template: ProjectTemplate = { ...draft, id: templateRef.id, createdAt };
+          set({ templates: sortTemplates([...(get().templates ?? []), template]), loading: false });
+          return template;
+        } catch (error) {
+          console.error('Error saving project template:', error);
+          set({
+            error: error instanceof Error ? error.message : 'Failed to save project template',
+            loading: false
+          });
+          throw error;
+        }
+      },
+
+      deleteTemplate: async (templateId) => {
+        set({ loading: true, error: null });
+
+        try {
+          await deleteDoc(doc(db, PROJECT_TEMPLATES_COLLECTION, templateId));
+          set({ templates: (get().templates ?? []).filter(template => template.id !== templateId), loading: false });
+        } catch (error) {
+          console.error('Error deleting project template:', error);
+          set({
+            error: error instanceof Error ? error.message : 'Failed to delete project template',
+            loading: false
+          });
+          throw error;
+        }
+      },
+
+      reset: () => set(initialState),
+    }),
+    {
+      name: 'project-templates-storage',
+      // Only persist the templates (not loading/error state)
+      partialize: (state) => ({
+        templates: state.templates,
+      }),
+    }
+  )
+);
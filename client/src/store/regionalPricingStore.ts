@@ -0,0 +1,109 @@
+// Zustand store for regional pricing (tax, freight and cost multipliers) state management
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { collection, doc, getDoc, setDoc } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import type { RegionalPricingConfig, RegionalRate } from '../types';
+
+interface RegionalPricingState {
+  // Regional pricing table
+  config: RegionalPricingConfig | null;
+
+  // Loading state
+  loading: boolean;
+  error: string | null;
+
+  // Actions
+  loadConfig: () => Promise<void>;
+  saveConfig: (config: RegionalPricingConfig) => Promise<void>;
+  setError: (error: string | null) => void;
+  reset: () => void;
+}
+
+const initialState = {
+  config: null,
+  loading: false,
+  error: null,
+};
+
+const REGIONAL_PRICING_DOC_ID = 'regionalPricing';
+
+/**
+ * Map a Firestore document onto a complete regional pricing config
+ */
+export function parseRegionalPricingConfig(data: Record<string, unknown>): RegionalPricingConfig {
+  const regions = Array.isArray(data.regions) ? (data.regions as Partial<RegionalRate>[]) : [];
+
+  return {
+    regions: regions.map((region, index) => ({
+      id: region.id || `region_${index + 1}`,
+      name: region.name || '',
+      states: Array.isArray(region.states) ? region.states : [],
+      ...(Array.isArray(region.zipPrefixes) ? { zipPrefixes: region.zipPrefixes } : {}),
+      salesTaxPercent: region.salesTaxPercent || 0,
+      freightPercent: region.freightPercent || 0,
+      costMultiplier: region.costMultiplier || 1,
+    })),
+    taxableCategories: Array.isArray(data.taxableCategories) ? (data.taxableCategories as string[]) : [],
+    defaultFreightPercent: typeof data.defaultFreightPercent === 'number' ? data.defaultFreightPercent : 0,
+  };
+}
+
+export const useRegionalPricingStore = create<RegionalPricingState>()(
+  persist(
+    (set) => ({
+      ...initialState,
+
+      loadConfig: async () => {
+        set({ loading: true, error: null });
+
+        try {
+          const docRef = doc(collection(db, 'config'), REGIONAL_PRICING_DOC_ID);
+          const docSnap = await getDoc(docRef);
+
+          if (docSnap.exists()) {
+            set({ config: parseRegionalPricingConfig(docSnap.data()), loading: false });
+          } else {
+            // No regions configured - estimates are calculated without tax or freight
+            set({ config: null, loading: false });
+          }
+        } catch (error) {
+          console.error('Error loading regional pricing from Firestore:', error);
+          set({
+            config: null,
+            error: error instanceof Error ? error.message : 'Failed to load regional pricing',
+            loading: false
+          });
+        }
+      },
+
+      saveConfig: async (newConfig) => {
+        set({ loading: true, error: null });
+
+        try {
+          const docRef = doc(collection(db, 'config'), REGIONAL_PRICING_DOC_ID);
+          await setDoc(docRef, newConfig);
+
+          set({ config: newConfig, loading: false });
+        } catch (error) {
+          console.error('Error saving regional pricing:', error);
+          set({
+            error: error instanceof Error ? error.message : 'Failed to save regional pricing',
+            loading: false
+          });
+        }
+      },
+
+      setError: (error) => set({ error }),
+
+      reset: () => set(initialState),
+    }),
+    {
+      name: 'regional-pricing-storage',
+      // Only persist the config data (not loading/error state)
+      partialize: (state) => ({
+        config: state.config,
+      }),
+    }
+  )
+);
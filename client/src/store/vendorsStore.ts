@@ -0,0 +1,122 @@
+// Zustand store for the vendor list
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { collection, deleteDoc, doc, getDocs, setDoc } from 'firebase/firestore';
+import type { DocumentData } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import type { Vendor } from '../types';
+
+interface VendorsState {
+  // Vendors sorted by name
+  vendors: Vendor[] | null;
+
+  // Loading state
+  loading: boolean;
+  error: string | null;
+
+  // Actions
+  loadVendors: () => Promise<void>;
+  saveVendor: (vendor: Vendor) => Promise<void>;
+  deleteVendor: (vendorId: string) => Promise<void>;
+  setError: (error: string | null) => void;
+  reset: () => void;
+}
+
+const initialState = {
+  vendors: null,
+  loading: false,
+  error: null,
+};
+
+const VENDORS_COLLECTION = 'vendors';
+
+const sortVendors = (vendors: Vendor[]): Vendor[] => [...vendors].sort((a, b) => a.name.localeCompare(b.name));
+
+/**
+ * Map a Firestore document onto a vendor, dropping blank optional fields
+ */
+export function parseVendor(id: string, data: DocumentData): Vendor {
+  return {
+    id,
+    name: typeof data.name === 'string' ? data.name : id,
+    ...(typeof data.leadTimeDays === 'number' ? { leadTimeDays: data.leadTimeDays } : {}),
+    ...(data.shippingTerms ? { shippingTerms: data.shippingTerms } : {}),
+    ...(typeof data.discountPercent === 'number' ? { discountPercent: data.discountPercent } : {}),
+    ...(data.contactEmail ? { contactEmail: data.contactEmail } : {}),
+    ...(data.website ? { website: data.website } : {}),
+    ...(data.notes ? { notes: data.notes } : {}),
+  };
+}
+
+export const useVendorsStore = create<VendorsState>()(
+  persist(
+    (set, get) => ({
+      ...initialState,
+
+      loadVendors: async () => {
+        set({ loading: true, error: null });
+
+        try {
+          const snapshot = await getDocs(collection(db, VENDORS_COLLECTION));
+          set({
+            vendors: sortVendors(snapshot.docs.map(vendorDoc => parseVendor(vendorDoc.id, vendorDoc.data()))),
+            loading: false,
+          });
+        } catch (error) {
+          console.error('Error loading vendors from Firestore:', error);
+          set({
+            vendors: null,
+            error: error instanceof Error ? error.message : 'Failed to load vendors',
+            loading: false
+          });
+        }
+      },
+
+      saveVendor: async (vendor) => {
+        set({ loading: true, error: null });
+
+        try {
+          const { id, ...data } = parseVendor(vendor.id, { ...vendor });
+          await setDoc(doc(db, VENDORS_COLLECTION, id), data);
+
+          const others = (get().vendors ?? []).filter(existing => existing.id !== id);
+          set({ vendors: sortVendors([...others, { id, ...data }]), loading: false });
+        } catch (error) {
+          console.error('Error saving vendor:', error);
+          set({
+            error: error instanceof Error ? error.message : 'Failed to save vendor',
+            loading: false
+          });
+          throw error;
+        }
+      },
+
+      deleteVendor: async (vendorId) => {
+        set({ loading: true, error: null });
+
+        try {
+          await deleteDoc(doc(db, VENDORS_COLLECTION, vendorId));
+          set({ vendors: (get().vendors ?? []).filter(vendor => vendor.id !== vendorId), loading: false });
+        } catch (error) {
+          console.error('Error deleting vendor:', error);
+          set({
+            error: error instanceof Error ? error.message : 'Failed to delete vendor',
+            loading: false
+          });
+          throw error;
+        }
+      },
+
+      setError: (error) => set({ error }),
+
+      reset: () => set(initialState),
+    }),
+    {
+      name: 'vendors-storage',
+      // Only persist the vendors (not loading/error state)
+      partialize: (state) => ({
+        vendors: state.vendors,
+      }),
+    }
+  )
+);
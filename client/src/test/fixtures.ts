@@ -0,0 +1,43 @@
+// Item and room builders shared by the unit tests
+import type { Item, RoomWithItems } from '../types';
+
+/**
+ * A library item. Tier prices default to 2×, 3× and 4× the low price; any field can be overridden.
+ */
+export function createItem(id: string, overrides: Partial<Item> = {}): Item {
+  const lowPrice = overrides.lowPrice ?? 10000;
+  return {
+    id,
+    name: id,
+    category: 'Furniture',
+    lowPrice,
+    midPrice: lowPrice * 2,
+    midHighPrice: lowPrice * 3,
+    highPrice: lowPrice * 4,
+    unit: 'each',
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+    ...overrides,
+  };
+}
+
+/**
+ * Key items by ID, like the item library maps the pages build
+ */
+export function createItemsMap(items: Item[]): Map<string, Item> {
+  return new Map(items.map(item => [item.id, item]));
+}
+
+/**
+ * One medium room named after its type (living_room is "Living Room"), with no items unless given
+ */
+export function createRoom(roomType: string, overrides: Partial<RoomWithItems> = {}): RoomWithItems {
+  return {
+    roomType,
+    roomSize: 'medium',
+    quantity: 1,
+    displayName: roomType.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' '),
+    items: [],
+    ...overrides,
+  };
+}
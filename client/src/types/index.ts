@@ -12,16 +12,88 @@ export interface Item {
   unit: string;
   reimbursementType?: string;
   notes?: string;
+  vendorSkus?: ItemVendorSku[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+// A supplier items can be purchased from (stored in the vendors collection)
+export interface Vendor {
+  id: string;
+  name: string;
+  leadTimeDays?: number;
+  shippingTerms?: string; // e.g. "FOB origin", "Free over $5,000"
+  discountPercent?: number; // Trade discount off list price (e.g., 15 for 15%)
+  contactEmail?: string;
+  website?: string;
+  notes?: string;
+}
+
+// The vendor product that fills one quality tier of an item
+export interface ItemVendorSku {
+  vendorId: string;
+  tier: QualityTier;
+  sku?: string;
+  productUrl?: string;
+}
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'confirmed' | 'received';
+
+export interface PurchaseOrderLine {
+  itemId: string;
+  name: string;
+  quantity: number; // Per-room quantity × room quantity, summed across rooms
+  unitPrice: number; // in cents, at the line's chosen tier or else the order's tier
+  total: number; // in cents
+  sku?: string;
+  productUrl?: string;
+  selectedTier?: QualityTier; // Only when the estimate has chosen tiers
+}
+
+// An order to one vendor generated from an approved estimate (stored in the purchaseOrders collection)
+export interface PurchaseOrder {
+  id: string;
+  estimateId: string;
+  variantId?: string; // The option the order was generated from; orders from before options belong to the main one
+  vendorId: string;
+  vendorName: string; // Copied so the order still reads correctly if the vendor is renamed or deleted
+  tier: QualityTier;
+  currency: CurrencyCode;
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  subtotal: number; // in cents
+  discount: number; // Vendor trade discount, in cents
+  total: number; // in cents
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy?: string;
+  sentAt?: Date;
+  confirmedAt?: Date;
+  receivedAt?: Date;
+}
+
+// A change to one tier price of a library item, stored in items/{itemId}/priceHistory
+export interface PriceHistoryEntry {
+  id: string;
+  itemId: string;
+  itemName: string;
+  tier: QualityTier;
+  oldPrice: number; // in cents
+  newPrice: number; // in cents
+  changedAt: Date;
+  changedBy?: string; // Email of the admin who made the change
+  reason?: string;
+  source: 'manual' | 'import';
+}
+
 export interface RoomItem {
   itemId: string;
   quantity: number;
   name?: string; // Optional for backwards compatibility
   lowPrice?: number; // Optional per-item price override (in cents)
   midPrice?: number; // Optional per-item price override (in cents)
+  vendorId?: string; // Vendor chosen for purchasing this line
+  tier?: QualityTier; // Chosen quality tier for the selected total; overrides the room's
 }
 
 export interface RoomSize {
@@ -61,22 +133,52 @@ export interface SelectedRoom {
 
 export interface RoomWithItems extends SelectedRoom {
   items: RoomItem[];
+  phaseId?: string; // EstimatePhase the room is furnished in; missing means unscheduled
+  tier?: QualityTier; // Chosen quality tier for the selected total
+}
+
+export interface PropertyLocation {
+  state?: string; // Two-letter state code (e.g., 'CO')
+  zip?: string;
+  regionId?: string; // Explicit region; takes precedence over state/ZIP matching
 }
 
 export interface PropertySpecs {
   squareFootage: number;
   guestCapacity: number;
   notes?: string;
+  location?: PropertyLocation;
+  targetBudget?: number; // Fit-to-budget target in cents, in the estimate currency
+  targetTier?: QualityTier; // Quality tier the rooms were fitted to the target at
+}
+
+// Where a line item's unit prices came from
+export type PriceSource = 'override' | 'customRange' | 'strategy' | 'library';
+
+export interface ItemBreakdown {
+  itemId: string;
+  name: string;
+  quantity: number; // per room
+  totalQuantity: number; // quantity × room quantity
+  unitPrices: Record<QualityTier, number>; // in cents
+  totals: Record<QualityTier, number>; // unit price × total quantity, in cents
+  priceSource: PriceSource;
+  selectedTier?: QualityTier; // Only when the estimate has chosen tiers
 }
 
 export interface RoomBreakdown {
+  roomIndex: number; // index into the rooms passed to calculateEstimate
   roomType: string;
   roomSize: string;
+  displayName?: string;
   quantity: number;
   lowAmount: number;
   midAmount: number;
   midHighAmount: number;
   highAmount: number;
+  selectedAmount?: number; // At each item's chosen tier; only when the estimate has chosen tiers
+  items: ItemBreakdown[]; // empty when templatePriced
+  templatePriced?: boolean; // amounts come from the room template's totals
 }
 
 export interface TierTotal {
@@ -93,6 +195,21 @@ export interface Budget {
   high: TierTotal;
   rangeLow: number;
   rangeHigh: number;
+  selected?: TierTotal; // Each room and item at its chosen tier; only when the estimate has chosen tiers
+  phases?: PhaseBreakdown[]; // Only when the estimate is phased
+}
+
+// One phase of a phased budget, in schedule order. Amounts are in cents and add up to the whole budget.
+export interface PhaseBreakdown {
+  phaseId: string | null; // null for rooms not assigned to a phase
+  name: string;
+  targetDate?: string;
+  roomIndexes: number[]; // Indexes into the budget's roomBreakdown
+  subtotal: TierAmounts; // Furnishings
+  contingency: TierAmounts;
+  addOns: TierAmounts; // This phase's share of the project add-ons (zero without property specs)
+  total: TierAmounts;
+  cumulative: TierAmounts; // Total of this phase and every phase before it
 }
 
 export interface ClientInfo {
@@ -108,7 +225,9 @@ export interface Estimate {
   clientInfo: ClientInfo;
   propertySpecs: PropertySpecs;
   rooms: RoomWithItems[];
-  status: 'draft' | 'submitted' | 'viewed' | 'contacted' | 'closed';
+  status: EstimateStatus;
+  statusChangedAt?: Date;
+  statusHistory?: EstimateStatusChange[];
   source: string;
   viewCount: number;
   lastViewedAt?: Date;
@@ -123,9 +242,8 @@ export interface Estimate {
   submittedAt?: Date;
   ipAddress?: string;
   userAgent?: string;
-  adminNotes?: string;
-  assignedTo?: string;
-  followUpDate?: Date;
+  assignedTo?: string; // uid of the admin responsible for the estimate
+  followUpDate?: Date; // Local midnight of the day to follow up
   // New fields for editing support
   lastEditedAt?: Date;
   lastEditedBy?: string;
@@ -133,11 +251,24 @@ export interface Estimate {
   // Ownership and tool identification
   ownerUid?: string;
   toolId?: string;
+  duplicatedFrom?: string; // ID of the estimate this draft was copied from
   // Custom range settings for project budget estimates
   customRangeEnabled?: boolean;
   customRangeLowPercent?: number; // Percentage below low price point (e.g., 5 for 5%)
   customRangeHighPercent?: number; // Percentage above low price point (e.g., 5 for 5%)
-  // Custom project add-ons overrides (in cents). If a key exists, it overrides the calculated/default value
+  // Pricing strategy used to resolve per-tier item prices (defaults to library tiers, or percentRange when customRangeEnabled)
+  pricingStrategy?: PricingStrategyId;
+  pricingTierMultipliers?: Record<QualityTier, number>; // Multipliers applied to the low price point per tier
+  pricingMarkupPercent?: number; // Markup applied on top of tier cost (e.g., 20 for 20%)
+  // Contingency override for this estimate (null or missing uses the budget defaults)
+  contingencyPolicy?: ContingencyPolicy | null;
+  // Currency the estimate is quoted in (missing means USD). Item library prices are converted from USD;
+  // per-item price overrides and custom add-ons are entered in this currency.
+  currency?: CurrencyCode;
+  // Prices frozen at submission; missing on older estimates, which price from the live library
+  priceSnapshot?: EstimatePriceSnapshot;
+  // Custom project add-ons overrides (in cents). If a key exists, it overrides the calculated/default value.
+  // Design fee phases are keyed by phase id (designPlanning, procurement and designImplementation by default)
   customProjectAddOns?: Partial<{
     installation: number;
     fuel: number;
@@ -147,13 +278,125 @@ export interface Estimate {
     designPlanning: number;
     procurement: number;
     designImplementation: number;
-  }>;
+  }> & { [phaseId: string]: number | undefined };
+  // Alternative scenarios shown to the client alongside the main one (rooms and customProjectAddOns above)
+  primaryVariantName?: string; // Name of the main scenario; missing uses "Option 1"
+  variants?: EstimateVariant[];
+  // Furnishing phases; rooms are assigned by phaseId and the budget is broken down per phase
+  phases?: EstimatePhase[];
+}
+
+// A stage of a large project furnished over time (e.g. "Main house" by June)
+export interface EstimatePhase {
+  id: string;
+  name: string;
+  targetDate?: string; // Target completion date, YYYY-MM-DD
+}
+
+// A named scenario within an estimate (e.g. "Bedrooms only") with its own rooms and add-on overrides
+export interface EstimateVariant {
+  id: string;
+  name: string;
+  rooms: RoomWithItems[];
+  customProjectAddOns?: Estimate['customProjectAddOns'];
+}
+
+// Library prices and budget defaults frozen onto an estimate when it is submitted,
+// so later library edits do not change a quote the client has already seen
+export interface EstimatePriceSnapshot {
+  capturedAt: Date;
+  items: Record<string, SnapshotItem>; // Library items used by the estimate's rooms, in USD cents
+  budgetDefaults?: BudgetDefaults;
+  currency?: CurrencyCode; // The estimate currency the exchange rate was taken for
+  exchangeRate?: number; // Units of that currency per 1 USD
+  regionalRates?: ResolvedRegionalRates; // Rates for the property's location
+}
+
+export type SnapshotItem = Pick<Item, 'id' | 'name' | 'category' | 'lowPrice' | 'midPrice' | 'midHighPrice' | 'highPrice' | 'unit'>;
+
+// A reusable starting point for new estimates (e.g. "6BR mountain cabin"), saved by an admin from an existing estimate
+export interface ProjectTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  propertySpecs: PropertySpecs;
+  rooms: RoomWithItems[];
+  sourceEstimateId?: string;
+  createdBy?: string;
+  createdAt: Date;
+}
+
+// An admin estimates can be assigned to
+export interface TeamMember {
+  uid: string;
+  email: string;
+  name: string;
+}
+
+export type EstimateStatus = 'draft' | 'submitted' | 'viewed' | 'contacted' | 'closed';
+
+export interface EstimateStatusChange {
+  from: EstimateStatus;
+  to: EstimateStatus;
+  changedAt: Date;
+  changedBy?: string; // Email of the admin, or missing for automatic changes
 }
 
 export interface EditHistoryEntry {
   timestamp: Date;
   action: 'room_items_modified' | 'room_added' | 'room_removed' | 'room_quantity_changed' | 'room_size_changed';
   details: Record<string, any>;
+  editedBy?: string; // Email of the admin who saved the change
+  summary?: string; // One-line description of the save; the field-level diff is kept on the version
+  changes?: EstimateFieldChange[]; // Only on older entries, from before diffs moved to versions
+  versionId?: string; // Version stored after the save (estimates/{estimateId}/versions)
+}
+
+// One field changed by a save. Values are stored raw; unit says how to display numbers.
+export interface EstimateFieldChange {
+  field: string; // Stable path, e.g. rooms.living_room#1.items.sofa.quantity
+  label: string;
+  before: string | number | boolean | null; // null when the field was not set
+  after: string | number | boolean | null;
+  unit?: 'cents' | 'percent';
+}
+
+// The editable parts of an estimate, stored as a version on every save so any prior state can be restored
+export type EstimateVersionSnapshot = Pick<
+  Estimate,
+  | 'rooms'
+  | 'currency'
+  | 'pricingStrategy'
+  | 'pricingTierMultipliers'
+  | 'pricingMarkupPercent'
+  | 'customRangeEnabled'
+  | 'customRangeLowPercent'
+  | 'customRangeHighPercent'
+  | 'contingencyPolicy'
+  | 'customProjectAddOns'
+  | 'primaryVariantName'
+  | 'variants'
+  | 'phases'
+>;
+
+export interface EstimateVersion {
+  id: string;
+  createdAt: Date;
+  createdBy?: string;
+  snapshot: EstimateVersionSnapshot;
+  changes: EstimateFieldChange[]; // Empty for the initial version
+  initial?: boolean; // State before the first tracked save
+}
+
+// An admin note on an estimate (stored in estimates/{estimateId}/notes)
+export interface EstimateNote {
+  id: string;
+  authorUid: string;
+  authorName: string;
+  body: string;
+  mentions: string[]; // uids of team members mentioned with @
+  parentId?: string; // Set on replies; threads are one level deep
+  createdAt: Date;
 }
 
 export type QualityTier = 'low' | 'mid' | 'midHigh' | 'high';
@@ -177,14 +420,112 @@ export const QUALITY_TIERS: { [key in QualityTier]: { name: string; description:
   },
 };
 
+// Pricing strategies. Built in: 'library', 'percentRange', 'tierMultipliers' and 'costPlus';
+// any other registered strategy is keyed by its own ID.
+export type PricingStrategyId = string;
+
+export interface PricingSettings {
+  pricingStrategy?: PricingStrategyId;
+  customRangeEnabled?: boolean;
+  customRangeLowPercent?: number;
+  customRangeHighPercent?: number;
+  pricingTierMultipliers?: Record<QualityTier, number>;
+  pricingMarkupPercent?: number;
+}
+
+// Contingency policy
+export type ContingencyMode = 'none' | 'percentOfFurnishings' | 'percentOfProject' | 'fixed';
+
+export interface ContingencyTierOverride {
+  percent?: number; // e.g., 10 for 10%
+  amountCents?: number;
+}
+
+export interface ContingencyPolicy {
+  mode: ContingencyMode;
+  percent?: number; // Used by the percent modes (e.g., 10 for 10%)
+  amountCents?: number; // Used by the fixed mode
+  perTier?: Partial<Record<QualityTier, ContingencyTierOverride>>;
+}
+
 // Budget defaults
+// How a project add-on default scales with the project
+export type AddOnRuleBasis = 'flat' | 'perSqft' | 'perRoom' | 'perItem' | 'percentOfFurnishings';
+
+export interface AddOnRule {
+  basis: AddOnRuleBasis;
+  amountCents?: number; // Flat amount or rate per sqft/room/item
+  percent?: number; // Used by percentOfFurnishings (e.g., 5 for 5%)
+  minCents?: number;
+  maxCents?: number;
+}
+
+// A share of the design fee shown as its own add-on line
+export interface DesignFeePhase {
+  id: string;
+  label: string;
+  percent: number; // Share of the design fee; all phases must sum to 100
+  description?: string;
+}
+
+// Rate break for large properties: square footage above the threshold is billed at this rate
+export interface DesignFeeRateBreak {
+  aboveSqft: number;
+  rateCents: number; // Per sqft
+}
+
+export type RuleBasedAddOnKey = 'installation' | 'fuel' | 'storageAndReceiving' | 'kitchen' | 'propertyManagement';
+
 export interface BudgetDefaults {
+  // Flat amounts; used when an add-on has no rule
   installationCents: number;
   fuelCents: number;
   storageAndReceivingCents: number;
   kitchenCents: number;
   propertyManagementCents: number;
   designFeeRatePerSqftCents: number;
+  contingency?: ContingencyPolicy;
+  addOnRules?: Partial<Record<RuleBasedAddOnKey, AddOnRule>>;
+  designFeePhases?: DesignFeePhase[];
+  designFeeRateBreaks?: DesignFeeRateBreak[];
+  currency?: CurrencyCode; // Currency new estimates are quoted in (amounts above are always USD)
+}
+
+export type CurrencyCode = 'USD' | 'CAD' | 'MXN';
+
+// Conversion rates from USD (stored in config/currencyRates)
+export interface CurrencyRates {
+  rates: Partial<Record<CurrencyCode, number>>; // Units of each currency per 1 USD
+  updatedAt?: string; // ISO date the rates were last updated
+}
+
+// Regional tax, freight and cost-of-living rates (stored in config/regionalPricing)
+export interface RegionalRate {
+  id: string;
+  name: string;
+  states: string[]; // Two-letter state codes covered by the region
+  zipPrefixes?: string[]; // ZIP prefixes that map to the region regardless of state
+  salesTaxPercent: number; // e.g., 8.25 for 8.25%
+  freightPercent: number; // Percentage of furnishings
+  costMultiplier: number; // Applied to calculated service add-ons (1 = national baseline)
+}
+
+// The rates that apply to one property: its region's, or the defaults outside every region
+export type ResolvedRegionalRates = Pick<RegionalRate, 'salesTaxPercent' | 'freightPercent' | 'costMultiplier'>;
+
+export interface RegionalPricingConfig {
+  regions: RegionalRate[];
+  taxableCategories: string[]; // Item categories subject to sales tax; empty means all
+  defaultFreightPercent: number; // Used when the property has no matching region
+}
+
+export type TierAmounts = Record<QualityTier, number>;
+
+export interface DesignFeeLine {
+  id: string;
+  label: string;
+  description?: string;
+  amount: number; // in cents
 }
 
 // Extended budget with project add-ons
@@ -196,15 +537,18 @@ export interface ProjectBudget extends Budget {
     storageAndReceiving: number;
     kitchen: number;
     propertyManagement: number;
-    designPlanning: number;
-    procurement: number;
-    designImplementation: number;
+    // Tax and freight scale with the goods in each tier (in cents)
+    salesTax: TierAmounts;
+    freight: TierAmounts;
   };
+  designFees: DesignFeeLine[];
+  region?: RegionalRate;
   projectRange: {
     low: number;
     mid: number;
     midHigh: number;
     high: number;
+    selected?: number; // Project total with each room and item at its chosen tier
   };
 }
 
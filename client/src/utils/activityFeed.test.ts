@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import type { EstimateNote, TeamMember } from '../types';
+import { buildActivityFeed, describeEditHistoryEntry, extractMentions, threadNotes } from './activityFeed';
+
+const teamMembers: TeamMember[] = [
+  { uid: 'u1', email: 'jane.doe@example.com', name: 'Jane Doe' },
+  { uid: 'u2', email: 'sam@example.com', name: 'Sam' },
+];
+
+const createNote = (id: string, minute: number, parentId?: string): EstimateNote => ({
+  id,
+  authorUid: 'u1',
+  authorName: 'Jane Doe',
+  body: id,
+  mentions: [],
+  createdAt: new Date(2025, 2, 10, 9, minute),
+  ...(parentId ? { parentId } : {}),
+});
+
+describe('extractMentions', () => {
+  it('matches full names and email handles, case-insensitively', () => {
+    expect(extractMentions('@jane.doe can you check this?', teamMembers)).toEqual(['u1']);
+    expect(extractMentions('Thanks @Jane Doe and @sam', teamMembers)).toEqual(['u1', 'u2']);
+  });
+
+  it('ignores partial words and email addresses', () => {
+    expect(extractMentions('@samantha, see sam@example.com', teamMembers)).toEqual([]);
+  });
+});
+
+describe('threadNotes', () => {
+  it('nests replies under their parent, oldest first', () => {
+    const threads = threadNotes([createNote('reply2', 5, 'root'), createNote('root', 1), createNote('reply1', 3, 'root')]);
+    expect(threads).toHaveLength(1);
+    expect(threads[0].note.id).toBe('root');
+    expect(threads[0].replies.map(reply => reply.id)).toEqual(['reply1', 'reply2']);
+  });
+
+  it('keeps replies to deleted notes as their own threads', () => {
+    const threads = threadNotes([createNote('orphan', 2, 'deleted')]);
+    expect(threads.map(thread => thread.note.id)).toEqual(['orphan']);
+  });
+});
+
+describe('buildActivityFeed', () => {
+  const estimate = {
+    editHistory: [{ timestamp: new Date(2025, 2, 10, 9, 4), action: 'room_added' as const, details: { roomType: 'living_room' } }],
+    statusHistory: [{ from: 'submitted' as const, to: 'contacted' as const, changedAt: new Date(2025, 2, 10, 9, 2) }],
+  };
+  const notes = [createNote('root', 0), createNote('reply', 6, 'root'), createNote('other', 3)];
+
+  it('merges notes and history newest first, ordering threads by their latest reply', () => {
+    const feed = buildActivityFeed(estimate, notes);
+    expect(feed.map(entry => entry.type)).toEqual(['note', 'edit', 'note', 'status']);
+    expect(feed[0].type === 'note' && feed[0].thread.note.id).toBe('root');
+  });
+
+  it('filters to notes or changes', () => {
+    expect(buildActivityFeed(estimate, notes, 'notes').every(entry => entry.type === 'note')).toBe(true);
+    expect(buildActivityFeed(estimate, notes, 'changes').map(entry => entry.type)).toEqual(['edit', 'status']);
+  });
+});
+
+describe('describeEditHistoryEntry', () => {
+  it('summarises room and field changes', () => {
+    expect(describeEditHistoryEntry({ timestamp: new Date(), action: 'room_added', details: { roomType: 'living_room' } })).toBe('Added room living room');
+    expect(describeEditHistoryEntry({ timestamp: new Date(), action: 'room_items_modified', details: { updatedFields: ['rooms', 'currency'] } })).toBe('Updated rooms, currency');
+    expect(describeEditHistoryEntry({ timestamp: new Date(), action: 'room_items_modified', details: {}, summary: 'Currency: USD → CAD' })).toBe('Currency: USD → CAD');
+  });
+});
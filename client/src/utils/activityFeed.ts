@@ -0,0 +1,130 @@
+// Activity feed for an estimate: admin note threads merged with edit and status history
+import type { CurrencyCode, EditHistoryEntry, Estimate, EstimateNote, EstimateStatusChange, TeamMember } from '../types';
+import { ESTIMATE_STATUS_LABELS } from './estimateStatus';
+import { summarizeFieldChanges } from './estimateVersions';
+
+export interface NoteThread {
+  note: EstimateNote;
+  replies: EstimateNote[]; // Oldest first
+}
+
+export type ActivityEntry =
+  | { type: 'note'; at: Date; thread: NoteThread }
+  | { type: 'edit'; at: Date; entry: EditHistoryEntry }
+  | { type: 'status'; at: Date; change: EstimateStatusChange };
+
+export type ActivityFilter = 'all' | 'notes' | 'changes';
+
+const byCreatedAt = (a: EstimateNote, b: EstimateNote) => a.createdAt.getTime() - b.createdAt.getTime();
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Convert Firestore timestamps in an estimate's edit history to dates
+ */
+export function parseEditHistory(raw: unknown): EditHistoryEntry[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  return raw.map((entry: EditHistoryEntry) => {
+    const timestamp = entry.timestamp as unknown as { toDate?: () => Date } | undefined;
+    return { ...entry, timestamp: timestamp?.toDate ? timestamp.toDate() : new Date(entry.timestamp) };
+  });
+}
+
+/**
+ * Names a team member can be mentioned by: their full name or the local part of their email
+ */
+function getMentionHandles(member: TeamMember): string[] {
+  const emailHandle = member.email.split('@')[0];
+  return [member.name, emailHandle].filter(handle => handle.trim().length > 0);
+}
+
+/**
+ * Find the team members mentioned in a note body as @Name or @emailname
+ */
+export function extractMentions(body: string, teamMembers: TeamMember[]): string[] {
+  return teamMembers
+    .filter(member => getMentionHandles(member).some(handle =>
+      new RegExp(`(^|\\s)@${escapeRegExp(handle)}(?![\\w])`, 'i').test(body)
+    ))
+    .map(member => member.uid);
+}
+
+/**
+ * Group replies under their parent note. Replies whose parent was deleted are shown as their own thread.
+ */
+export function threadNotes(notes: EstimateNote[]): NoteThread[] {
+  const topLevelIds = new Set(notes.filter(note => !note.parentId).map(note => note.id));
+  const threads = new Map<string, NoteThread>();
+
+  [...notes].sort(byCreatedAt).forEach(note => {
+    if (note.parentId && topLevelIds.has(note.parentId)) {
+      threads.get(note.parentId)?.replies.push(note);
+    } else {
+      threads.set(note.id, { note, replies: [] });
+    }
+  });
+
+  return [...threads.values()];
+}
+
+/**
+ * Merge note threads with edit and status history, newest first. Threads sort by their latest reply
+ * so active conversations stay near the top.
+ */
+export function buildActivityFeed(
+  estimate: Pick<Estimate, 'editHistory' | 'statusHistory'>,
+  notes: EstimateNote[],
+  filter: ActivityFilter = 'all'
+): ActivityEntry[] {
+  const entries: ActivityEntry[] = [];
+
+  if (filter !== 'changes') {
+    threadNotes(notes).forEach(thread => {
+      const latest = thread.replies[thread.replies.length - 1] ?? thread.note;
+      entries.push({ type: 'note', at: latest.createdAt, thread });
+    });
+  }
+
+  if (filter !== 'notes') {
+    (estimate.editHistory ?? []).forEach(entry => {
+      entries.push({ type: 'edit', at: new Date(entry.timestamp), entry });
+    });
+    (estimate.statusHistory ?? []).forEach(change => {
+      entries.push({ type: 'status', at: new Date(change.changedAt), change });
+    });
+  }
+
+  return entries.sort((a, b) => b.at.getTime() - a.at.getTime());
+}
+
+/**
+ * One-line summary of an edit history entry
+ */
+export function describeEditHistoryEntry(entry: EditHistoryEntry, currency?: CurrencyCode): string {
+  if (entry.summary) return entry.summary;
+  // Older entries carry their full diff
+  if (entry.changes && entry.changes.length > 0) return summarizeFieldChanges(entry.changes, currency);
+  const details = entry.details ?? {};
+  switch (entry.action) {
+    case 'room_added':
+      return `Added room ${String(details.roomType ?? '').replace(/_/g, ' ')}`.trim();
+    case 'room_removed':
+      return `Removed room ${String(details.roomType ?? '').replace(/_/g, ' ')}`.trim();
+    case 'room_quantity_changed':
+      return 'Changed room quantity';
+    case 'room_size_changed':
+      return 'Changed room size';
+    default:
+      if (Array.isArray(details.updatedFields) && details.updatedFields.length > 0) {
+        return `Updated ${details.updatedFields.join(', ')}`;
+      }
+      return 'Updated room items';
+  }
+}
+
+/**
+ * One-line summary of a status change
+ */
+export function describeStatusChange(change: EstimateStatusChange): string {
+  return `Status changed from ${ESTIMATE_STATUS_LABELS[change.from]} to ${ESTIMATE_STATUS_LABELS[change.to]}`;
+}
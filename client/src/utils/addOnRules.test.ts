@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import type { BudgetDefaults } from '../types';
+import { evaluateAddOnRule, getAddOnRule } from './addOnRules';
+
+const context = {
+  squareFootage: 6000,
+  roomCount: 8,
+  itemCount: 120,
+  furnishingsCents: 10000000,
+};
+
+const defaults: BudgetDefaults = {
+  installationCents: 500000,
+  fuelCents: 20000,
+  storageAndReceivingCents: 0,
+  kitchenCents: 0,
+  propertyManagementCents: 0,
+  designFeeRatePerSqftCents: 1000,
+  addOnRules: {
+    installation: { basis: 'perSqft', amountCents: 150, minCents: 200000, maxCents: 800000 },
+  },
+};
+
+describe('evaluateAddOnRule', () => {
+  it('scales by each basis', () => {
+    expect(evaluateAddOnRule({ basis: 'flat', amountCents: 50000 }, context)).toBe(50000);
+    expect(evaluateAddOnRule({ basis: 'perSqft', amountCents: 100 }, context)).toBe(600000);
+    expect(evaluateAddOnRule({ basis: 'perRoom', amountCents: 25000 }, context)).toBe(200000);
+    expect(evaluateAddOnRule({ basis: 'perItem', amountCents: 500 }, context)).toBe(60000);
+    expect(evaluateAddOnRule({ basis: 'percentOfFurnishings', percent: 2.5 }, context)).toBe(250000);
+  });
+
+  it('clamps to min and max', () => {
+    const rule = defaults.addOnRules!.installation!;
+    expect(evaluateAddOnRule(rule, context)).toBe(800000);
+    expect(evaluateAddOnRule(rule, { ...context, squareFootage: 900 })).toBe(200000);
+  });
+});
+
+describe('getAddOnRule', () => {
+  it('falls back to the flat legacy amount', () => {
+    expect(getAddOnRule(defaults, 'fuel')).toEqual({ basis: 'flat', amountCents: 20000 });
+    expect(getAddOnRule(defaults, 'installation').basis).toBe('perSqft');
+    expect(getAddOnRule(null, 'kitchen')).toEqual({ basis: 'flat', amountCents: 0 });
+  });
+});
@@ -0,0 +1,72 @@
+// Formula-based project add-on defaults (installation, fuel, storage, kitchen, property management)
+import type { AddOnRule, AddOnRuleBasis, BudgetDefaults, RuleBasedAddOnKey } from '../types';
+
+export interface AddOnRuleContext {
+  squareFootage: number;
+  roomCount: number;
+  itemCount: number;
+  furnishingsCents: number;
+}
+
+export const ADD_ON_RULE_BASES: { value: AddOnRuleBasis; label: string; unit: string }[] = [
+  { value: 'flat', label: 'Flat Amount', unit: '$' },
+  { value: 'perSqft', label: 'Per Sq Ft', unit: '$/sqft' },
+  { value: 'perRoom', label: 'Per Room', unit: '$/room' },
+  { value: 'perItem', label: 'Per Item', unit: '$/item' },
+  { value: 'percentOfFurnishings', label: '% of Furnishings', unit: '%' },
+];
+
+// Rule-based add-ons and the flat BudgetDefaults field each one replaces
+export const RULE_BASED_ADD_ONS: { key: RuleBasedAddOnKey; label: string; legacyField: keyof BudgetDefaults }[] = [
+  { key: 'installation', label: 'Installation', legacyField: 'installationCents' },
+  { key: 'kitchen', label: 'Kitchen Setup', legacyField: 'kitchenCents' },
+  { key: 'fuel', label: 'Fuel', legacyField: 'fuelCents' },
+  { key: 'propertyManagement', label: 'Property Management', legacyField: 'propertyManagementCents' },
+  { key: 'storageAndReceiving', label: 'Storage & Receiving', legacyField: 'storageAndReceivingCents' },
+];
+
+/**
+ * Get the rule for an add-on, treating defaults saved before rules existed as flat amounts
+ */
+export function getAddOnRule(defaults: BudgetDefaults | null | undefined, key: RuleBasedAddOnKey): AddOnRule {
+  const rule = defaults?.addOnRules?.[key];
+  if (rule) return rule;
+
+  const legacyField = RULE_BASED_ADD_ONS.find(addOn => addOn.key === key)?.legacyField;
+  const legacyValue = legacyField ? defaults?.[legacyField] : undefined;
+  return { basis: 'flat', amountCents: typeof legacyValue === 'number' ? legacyValue : 0 };
+}
+
+/**
+ * Evaluate an add-on rule (in cents), clamped to its min/max
+ */
+export function evaluateAddOnRule(rule: AddOnRule, context: AddOnRuleContext): number {
+  const rate = rule.amountCents ?? 0;
+  let cents: number;
+
+  switch (rule.basis) {
+    case 'perSqft':
+      cents = rate * context.squareFootage;
+      break;
+    case 'perRoom':
+      cents = rate * context.roomCount;
+      break;
+    case 'perItem':
+      cents = rate * context.itemCount;
+      break;
+    case 'percentOfFurnishings':
+      cents = context.furnishingsCents * (rule.percent ?? 0) / 100;
+      break;
+    default:
+      cents = rate;
+  }
+
+  if (rule.minCents !== undefined) {
+    cents = Math.max(cents, rule.minCents);
+  }
+  if (rule.maxCents !== undefined) {
+    cents = Math.min(cents, rule.maxCents);
+  }
+
+  return Math.max(0, Math.round(cents));
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import type { RoomSize, RoomTemplate } from '../types';
+import type { AutoConfigRules, ComputedConfiguration } from '../types/config';
+import { fitRoomsToBudget } from './budgetFit';
+
+// Low tier is $1,000 per size step; each tier above adds the low price again
+const createSize = (step: number): RoomSize => ({
+  displayName: `Size ${step}`,
+  items: [],
+  totals: { low: step * 100000, mid: step * 200000, midHigh: step * 300000, high: step * 400000 },
+});
+
+const createTemplate = (id: string, displayName: string): RoomTemplate => ({
+  id,
+  name: id,
+  displayName,
+  description: '',
+  category: 'common_spaces',
+  sizes: { small: createSize(1), medium: createSize(2), large: createSize(3) },
+  sortOrder: 0,
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+});
+
+const roomTemplates = new Map<string, RoomTemplate>(
+  [
+    ['living_room', 'Living Room'],
+    ['kitchen', 'Kitchen'],
+    ['dining_room', 'Dining Room'],
+    ['single_bedroom', 'Single Bedroom'],
+    ['double_bedroom', 'Double Bedroom'],
+    ['bunk_room', 'Bunk Room'],
+    ['rec_room', 'Rec Room'],
+  ].map(([id, displayName]) => [id, createTemplate(id, displayName)])
+);
+
+const rules = {
+  bunkCapacities: { small: 4, medium: 8, large: 12 },
+} as AutoConfigRules;
+
+// Sleeps 10: a single (2), a double (4) and a small bunk room (4)
+const configuration: ComputedConfiguration = {
+  bedrooms: { single: 1, double: 1, bunk: 'small' },
+  commonAreas: { kitchen: 'medium', dining: 'medium', living: 'medium', recRoom: 'none' },
+};
+
+describe('fitRoomsToBudget', () => {
+  it('keeps the suggested rooms at mid tier when they already hit the target', () => {
+    // Five medium rooms at $4,000 and a small bunk room at $2,000
+    const fit = fitRoomsToBudget(2200000, 10, configuration, rules, roomTemplates);
+
+    expect(fit).not.toBeNull();
+    expect(fit?.tier).toBe('mid');
+    expect(fit?.total).toBe(2200000);
+    expect(fit?.difference).toBe(0);
+    expect(fit?.tradeOffs).toEqual([]);
+    expect(fit?.rooms.map(room => room.roomType)).not.toContain('rec_room');
+  });
+
+  it('scales down to the smallest rooms and lowest tier without dropping the guests it must sleep', () => {
+    const fit = fitRoomsToBudget(500000, 10, configuration, rules, roomTemplates);
+
+    expect(fit?.tier).toBe('low');
+    expect(fit?.total).toBe(600000);
+    expect(fit?.difference).toBe(100000);
+    expect(fit?.capacity).toBe(10);
+    // The bunk room stays because the bedrooms alone sleep only 6
+    expect(fit?.rooms.find(room => room.roomType === 'bunk_room')?.roomSize).toBe('small');
+    expect(fit?.tradeOffs).toEqual(expect.arrayContaining([
+      { description: 'Low Quality furnishings instead of Mid-Range Quality', amount: -600000 },
+      { description: 'Living Room: small instead of medium', amount: -100000 },
+      { description: 'Bedrooms: small instead of medium', amount: -200000 },
+    ]));
+  });
+
+  it('adds optional rooms and upgrades the tier for a generous budget', () => {
+    const fit = fitRoomsToBudget(10000000, 10, configuration, rules, roomTemplates);
+
+    expect(fit?.tier).toBe('high');
+    expect(fit?.total).toBe(8400000);
+    expect(fit?.capacity).toBe(18);
+    expect(fit?.tradeOffs).toEqual(expect.arrayContaining([
+      { description: 'Adds a large Rec Room', amount: 1200000 },
+      { description: 'Bunk Room: large instead of small', amount: 800000 },
+    ]));
+  });
+
+  it('returns null without a target or when no configuration sleeps the guests', () => {
+    expect(fitRoomsToBudget(0, 10, configuration, rules, roomTemplates)).toBeNull();
+    expect(fitRoomsToBudget(2200000, 30, configuration, rules, roomTemplates)).toBeNull();
+  });
+});
@@ -0,0 +1,164 @@
+// Fit to budget: search room sizes, optional rooms and quality tiers for the configuration closest to a target budget
+import { QUALITY_TIERS } from '../types';
+import type { QualityTier, RoomTemplate, RoomWithItems, SelectedRoom } from '../types';
+import type { AutoConfigRules, ComputedConfiguration } from '../types/config';
+import { calculateEstimate, suggestRoomConfiguration } from './calculations';
+import type { EstimateCalculationOptions } from './calculations';
+import { calculateSelectedRoomCapacity } from './autoConfiguration';
+import { convertFromBase, getExchangeRate } from './currency';
+
+type RoomSizeName = SelectedRoom['roomSize'];
+
+const SIZES: RoomSizeName[] = ['small', 'medium', 'large'];
+const TIERS: QualityTier[] = ['low', 'mid', 'midHigh', 'high'];
+
+// Trade-offs are described against the suggested configuration at the top of the quoted range
+export const BASELINE_TIER: QualityTier = 'mid';
+
+export interface BudgetFitTradeOff {
+  description: string;
+  amount: number; // Change to furnishings at the chosen tier, in cents (negative when it saves)
+}
+
+export interface BudgetFit {
+  rooms: RoomWithItems[];
+  tier: QualityTier;
+  total: number; // Project total at the chosen tier (furnishings and contingency without property specs), in cents
+  difference: number; // total minus the target; negative when under budget
+  capacity: number;
+  tradeOffs: BudgetFitTradeOff[];
+}
+
+// Rooms the solver sizes together, or leaves out when the room is optional
+interface RoomSlot {
+  roomTypes: string[];
+  label: string;
+  base: RoomSizeName | null; // Size in the suggested configuration; null when it leaves the room out
+  choices: (RoomSizeName | null)[];
+}
+
+const toSize = (size: string | null): RoomSizeName | null => (size && size !== 'none' ? (size as RoomSizeName) : null);
+
+// Every combination of one choice per slot
+const combine = (slots: RoomSlot[]): (RoomSizeName | null)[][] =>
+  slots.reduce<(RoomSizeName | null)[][]>(
+    (combos, slot) => combos.flatMap(combo => slot.choices.map(choice => [...combo, choice])),
+    [[]]
+  );
+
+const describeTradeOff = (slot: RoomSlot, size: RoomSizeName | null): string => {
+  if (!size) return `Leaves out the ${slot.label}`;
+  if (!slot.base) return `Adds a ${size} ${slot.label}`;
+  return `${slot.label}: ${size} instead of ${slot.base}`;
+};
+
+/**
+ * Find the rooms and quality tier whose total lands closest to a target budget (in cents, in the
+ * estimate currency). Starting from the suggested configuration, the solver resizes common areas and
+ * bedrooms, adds or leaves out the rec room and bunk room, and prices every tier, keeping only
+ * configurations that still sleep the requested guests. Ties go to the fewest trade-offs.
+ * Returns null when nothing meets the guest capacity.
+ */
+export function fitRoomsToBudget(
+  targetBudget: number,
+  guestCapacity: number,
+  configuration: ComputedConfiguration,
+  rules: AutoConfigRules,
+  roomTemplates: Map<string, RoomTemplate>,
+  options?: EstimateCalculationOptions
+): BudgetFit | null {
+  if (!(targetBudget > 0)) return null;
+
+  // Suggest every optional room so each one has its place and display name; slots decide whether it stays
+  const baseRecRoom = toSize(configuration.commonAreas.recRoom);
+  const baseBunk = toSize(configuration.bedrooms.bunk);
+  const allRooms = suggestRoomConfiguration({
+    ...configuration,
+    bedrooms: { ...configuration.bedrooms, bunk: baseBunk ?? 'medium' },
+    commonAreas: { ...configuration.commonAreas, recRoom: baseRecRoom ?? 'medium' },
+  });
+
+  const sizesFor = (roomType: string, base: RoomSizeName | null, optional: boolean): (RoomSizeName | null)[] => {
+    if (!roomTemplates.has(roomType)) return [base];
+    return optional ? [null, ...SIZES] : SIZES;
+  };
+
+  const slots: RoomSlot[] = [];
+  allRooms.forEach((room) => {
+    if (['living_room', 'kitchen', 'dining_room'].includes(room.roomType)) {
+      slots.push({ roomTypes: [room.roomType], label: room.displayName, base: room.roomSize, choices: sizesFor(room.roomType, room.roomSize, false) });
+    } else if (room.roomType === 'rec_room') {
+      slots.push({ roomTypes: ['rec_room'], label: room.displayName, base: baseRecRoom, choices: sizesFor('rec_room', baseRecRoom, true) });
+    } else if (room.roomType === 'bunk_room') {
+      slots.push({ roomTypes: ['bunk_room'], label: room.displayName, base: baseBunk, choices: sizesFor('bunk_room', baseBunk, true) });
+    }
+  });
+  // Bedrooms are suggested at medium and sized together
+  const bedroomTypes = allRooms
+    .map(room => room.roomType)
+    .filter(roomType => roomType === 'single_bedroom' || roomType === 'double_bedroom');
+  if (bedroomTypes.length > 0) {
+    const resizable = bedroomTypes.every(roomType => roomTemplates.has(roomType));
+    slots.push({ roomTypes: bedroomTypes, label: 'Bedrooms', base: 'medium', choices: resizable ? SIZES : ['medium'] });
+  }
+
+  const buildRooms = (combo: (RoomSizeName | null)[]): RoomWithItems[] =>
+    allRooms.flatMap((room) => {
+      const slotIndex = slots.findIndex(slot => slot.roomTypes.includes(room.roomType));
+      if (slotIndex < 0) return [room];
+      const size = combo[slotIndex];
+      return size ? [{ ...room, roomSize: size }] : [];
+    });
+
+  let best: { combo: (RoomSizeName | null)[]; rooms: RoomWithItems[]; tier: QualityTier; total: number; changes: number; capacity: number } | null = null;
+
+  for (const combo of combine(slots)) {
+    const rooms = buildRooms(combo);
+    const capacity = calculateSelectedRoomCapacity(rooms, rules);
+    if (capacity < guestCapacity) continue;
+
+    const budget = calculateEstimate(rooms, roomTemplates, undefined, options);
+    const roomChanges = combo.filter((size, index) => size !== slots[index].base).length;
+
+    for (const tier of TIERS) {
+      const total = 'projectRange' in budget ? budget.projectRange[tier] : budget[tier].total;
+      const changes = roomChanges + (tier === BASELINE_TIER ? 0 : 1);
+      const distance = Math.abs(total - targetBudget);
+      const bestDistance = best ? Math.abs(best.total - targetBudget) : Infinity;
+      if (distance < bestDistance || (distance === bestDistance && best && changes < best.changes)) {
+        best = { combo, rooms, tier, total, changes, capacity };
+      }
+    }
+  }
+
+  if (!best) return null;
+  const { combo, rooms, tier, total, capacity } = best;
+
+  // Trade-offs are priced from template totals at the chosen tier, like the room cards
+  const exchangeRate = options?.exchangeRate ?? getExchangeRate(options?.currencyRates, options?.currency);
+  const furnishings = (roomTypes: string[], size: RoomSizeName | null, furnishingsTier: QualityTier) =>
+    allRooms
+      .filter(room => roomTypes.includes(room.roomType))
+      .reduce((sum, room) => {
+        const totals = size ? roomTemplates.get(room.roomType)?.sizes[size]?.totals : undefined;
+        return sum + (totals ? convertFromBase(totals[furnishingsTier], exchangeRate) * room.quantity : 0);
+      }, 0);
+
+  const tradeOffs: BudgetFitTradeOff[] = slots
+    .map((slot, index) => ({ slot, size: combo[index] }))
+    .filter(({ slot, size }) => size !== slot.base)
+    .map(({ slot, size }) => ({
+      description: describeTradeOff(slot, size),
+      amount: furnishings(slot.roomTypes, size, tier) - furnishings(slot.roomTypes, slot.base, tier),
+    }));
+
+  if (tier !== BASELINE_TIER) {
+    const budget = calculateEstimate(rooms, roomTemplates, undefined, options);
+    tradeOffs.unshift({
+      description: `${QUALITY_TIERS[tier].name} furnishings instead of ${QUALITY_TIERS[BASELINE_TIER].name}`,
+      amount: budget[tier].subtotal - budget[BASELINE_TIER].subtotal,
+    });
+  }
+
+  return { rooms, tier, total, difference: total - targetBudget, capacity, tradeOffs };
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import type { RoomTemplate, RoomWithItems } from '../types';
+import { calculateEstimate, calculateContingency } from './calculations';
+import { createItem, createItemsMap, createRoom } from '../test/fixtures';
+
+const createItems = () => createItemsMap([
+  createItem('sofa', { lowPrice: 100000, midPrice: 150000, midHighPrice: 200000, highPrice: 300000 }),
+  createItem('lamp', { lowPrice: 5000, midPrice: 8000, midHighPrice: 12000, highPrice: 20000 }),
+]);
+
+const createRooms = (): RoomWithItems[] => [
+  createRoom('living_room', {
+    quantity: 2,
+    items: [
+      { itemId: 'sofa', quantity: 1 },
+      { itemId: 'lamp', quantity: 2, lowPrice: 4000 },
+    ],
+  }),
+];
+
+describe('calculateEstimate line items', () => {
+  it('returns per-item unit prices, totals and price sources', () => {
+    const budget = calculateEstimate(createRooms(), new Map<string, RoomTemplate>(), createItems());
+    const [room] = budget.roomBreakdown;
+
+    expect(room.roomIndex).toBe(0);
+    expect(room.items).toHaveLength(2);
+
+    const [sofa, lamp] = room.items;
+    expect(sofa.priceSource).toBe('library');
+    expect(sofa.totalQuantity).toBe(2);
+    expect(sofa.unitPrices.mid).toBe(150000);
+    expect(sofa.totals.mid).toBe(300000);
+
+    expect(lamp.priceSource).toBe('override');
+    expect(lamp.unitPrices.low).toBe(4000);
+    expect(lamp.totals.low).toBe(16000);
+  });
+
+  it('sums line items into room and tier totals', () => {
+    const budget = calculateEstimate(createRooms(), new Map<string, RoomTemplate>(), createItems());
+    const [room] = budget.roomBreakdown;
+    const lineTotal = room.items.reduce((sum, lineItem) => sum + lineItem.totals.low, 0);
+
+    expect(room.lowAmount).toBe(lineTotal);
+    expect(budget.low.subtotal).toBe(lineTotal);
+    expect(budget.rangeHigh).toBe(budget.mid.subtotal);
+  });
+
+  it('prices rooms without items from template totals and lists no line items', () => {
+    const size = {
+      displayName: 'Medium',
+      items: [{ itemId: 'sofa', quantity: 1 }],
+      totals: { low: 250000, mid: 400000, midHigh: 550000, high: 700000 },
+    };
+    const template = { id: 'living_room', sizes: { small: size, medium: size, large: size } } as RoomTemplate;
+    const budget = calculateEstimate(
+      [createRoom('living_room', { quantity: 2 })],
+      new Map([['living_room', template]]),
+      createItems()
+    );
+    const [room] = budget.roomBreakdown;
+
+    expect(room.templatePriced).toBe(true);
+    expect(room.items).toEqual([]);
+    expect(room.lowAmount).toBe(500000);
+    expect(budget.mid.subtotal).toBe(800000);
+  });
+
+  it('marks custom range prices', () => {
+    const budget = calculateEstimate(createRooms(), new Map<string, RoomTemplate>(), createItems(), {
+      customRangeEnabled: true,
+      customRangeLowPercent: 10,
+      customRangeHighPercent: 10,
+    });
+
+    expect(budget.roomBreakdown[0].items[0].priceSource).toBe('customRange');
+    expect(budget.roomBreakdown[0].items[0].unitPrices.low).toBe(90000);
+  });
+
+  it('reports library prices when the custom range falls back to them', () => {
+    const budget = calculateEstimate(createRooms(), new Map<string, RoomTemplate>(), createItems(), {
+      customRangeEnabled: true,
+    });
+
+    expect(budget.roomBreakdown[0].items[0].priceSource).toBe('library');
+    expect(budget.roomBreakdown[0].items[0].unitPrices.mid).toBe(150000);
+  });
+
+  it('does not report overrides the strategy ignores', () => {
+    const rooms = [createRoom('living_room', { items: [{ itemId: 'sofa', quantity: 1, midPrice: 120000 }] })];
+    const budget = calculateEstimate(rooms, new Map<string, RoomTemplate>(), createItems(), {
+      pricingStrategy: 'tierMultipliers',
+    });
+
+    expect(budget.roomBreakdown[0].items[0].priceSource).toBe('strategy');
+    expect(budget.roomBreakdown[0].items[0].unitPrices.mid).toBe(150000);
+  });
+});
+
+describe('contingency', () => {
+  it('adds a percentage of furnishings to each tier total', () => {
+    const budget = calculateEstimate(createRooms(), new Map<string, RoomTemplate>(), createItems(), {
+      contingencyPolicy: { mode: 'percentOfFurnishings', percent: 10 },
+    });
+
+    expect(budget.low.contingency).toBe(Math.round(budget.low.subtotal * 0.1));
+    expect(budget.low.total).toBe(budget.low.subtotal + budget.low.contingency);
+    expect(budget.rangeLow).toBe(budget.low.subtotal);
+    expect(budget.rangeHigh).toBe(budget.mid.subtotal);
+  });
+
+  it('applies per-tier overrides and fixed amounts', () => {
+    const policy = { mode: 'fixed' as const, amountCents: 50000, perTier: { high: { amountCents: 90000 } } };
+
+    expect(calculateContingency(policy, 'low', 100000)).toBe(50000);
+    expect(calculateContingency(policy, 'high', 100000)).toBe(90000);
+  });
+
+  it('includes add-ons for percent of project', () => {
+    const policy = { mode: 'percentOfProject' as const, percent: 5, perTier: { mid: { percent: 10 } } };
+
+    expect(calculateContingency(policy, 'low', 100000, 100000)).toBe(10000);
+    expect(calculateContingency(policy, 'mid', 100000, 100000)).toBe(20000);
+    expect(calculateContingency({ mode: 'none' }, 'mid', 100000, 100000)).toBe(0);
+  });
+});
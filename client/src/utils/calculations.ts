@@ -1,36 +1,140 @@
 // Budget calculation utilities
-import type { RoomTemplate, RoomWithItems, RoomItem, Budget, RoomBreakdown, QualityTier, Item, PropertySpecs, BudgetDefaults, ProjectBudget } from '../types';
+import type { RoomTemplate, RoomWithItems, RoomItem, Budget, RoomBreakdown, QualityTier, Item, PropertySpecs, BudgetDefaults, ProjectBudget, Estimate, PricingSettings, ItemBreakdown, PriceSource, ContingencyPolicy, RegionalPricingConfig, ResolvedRegionalRates, TierAmounts, RuleBasedAddOnKey, CurrencyCode, CurrencyRates, EstimatePhase, TierTotal } from '../types';
 import type { ComputedConfiguration } from '../types/config';
+import { getPricingSettings, getPricingStrategy } from './pricingStrategies';
+import type { PricingStrategy } from './pricingStrategies';
+import { applyPercentToTiers, calculateTaxableGoods, getRegionalRates, resolveRegion } from './regionalPricing';
+import { evaluateAddOnRule, getAddOnRule } from './addOnRules';
+import type { AddOnRuleContext } from './addOnRules';
+import { DEFAULT_DESIGN_FEE_RATE_CENTS, calculateDesignFee, getDesignFeePhases, splitDesignFee } from './designFees';
+import { BASE_CURRENCY, CURRENCIES, convertFromBase, convertItemLibrary, getCurrencySymbol, getExchangeRate } from './currency';
+import { buildPhaseBreakdown } from './estimatePhases';
+import { DEFAULT_SELECTED_TIER, collapseToSelectedTiers, getSelectedTier, hasSelectedTiers } from './selectedTiers';
 
 // Re-export QUALITY_TIERS for convenience
 export { QUALITY_TIERS } from '../types';
 
+export type CustomProjectAddOns = NonNullable<Estimate['customProjectAddOns']>;
+
+export interface EstimateCalculationOptions extends PricingSettings {
+  propertySpecs?: PropertySpecs;
+  budgetDefaults?: BudgetDefaults;
+  customProjectAddOns?: CustomProjectAddOns;
+  contingencyPolicy?: ContingencyPolicy | null;
+  regionalPricing?: RegionalPricingConfig | null;
+  currency?: CurrencyCode;
+  currencyRates?: CurrencyRates | null;
+  exchangeRate?: number; // Takes precedence over currencyRates
+  regionalRates?: ResolvedRegionalRates; // Takes precedence over the rates resolved from regionalPricing
+  phases?: EstimatePhase[]; // Break the budget down by the rooms' phases
+}
+
+/**
+ * The exchange rate a saved estimate is priced at: the one frozen on its price snapshot while the
+ * estimate is still in that currency, otherwise the current rate
+ */
+export function getEstimateExchangeRate(
+  estimate: Pick<Estimate, 'currency' | 'priceSnapshot'> | null | undefined,
+  currencyRates?: CurrencyRates | null
+): number {
+  const currency = estimate?.currency ?? BASE_CURRENCY;
+  const snapshot = estimate?.priceSnapshot;
+  if (snapshot?.exchangeRate && snapshot.currency === currency) return snapshot.exchangeRate;
+  return getExchangeRate(currencyRates, currency);
+}
+
+/**
+ * Build calculateEstimate options for a saved estimate so every page prices it the same way.
+ * Budget defaults, exchange and regional rates frozen on the estimate's price snapshot take precedence
+ * over the current ones.
+ */
+export function getEstimateCalculationOptions(
+  estimate: Estimate | null | undefined,
+  budgetDefaults?: BudgetDefaults | null,
+  regionalPricing?: RegionalPricingConfig | null,
+  currencyRates?: CurrencyRates | null
+): EstimateCalculationOptions {
+  const defaults = estimate?.priceSnapshot?.budgetDefaults ?? budgetDefaults;
+  return {
+    ...getPricingSettings(estimate),
+    // Project add-ons require both the property specs and budget defaults
+    ...(estimate?.propertySpecs && defaults
+      ? { propertySpecs: estimate.propertySpecs, budgetDefaults: defaults }
+      : {}),
+    customProjectAddOns: estimate?.customProjectAddOns,
+    contingencyPolicy: estimate?.contingencyPolicy,
+    regionalPricing,
+    currency: estimate?.currency,
+    currencyRates,
+    exchangeRate: getEstimateExchangeRate(estimate, currencyRates),
+    ...(estimate?.priceSnapshot?.regionalRates ? { regionalRates: estimate.priceSnapshot.regionalRates } : {}),
+    phases: estimate?.phases,
+  };
+}
+
+/**
+ * Get the display name for a room item
+ */
+export function getRoomItemDisplayName(roomItem: RoomItem, item?: Item): string {
+  if (roomItem.itemId === 'outdoor_space_item') {
+    return 'Outdoor Furnishings';
+  }
+  return roomItem.name || item?.name || roomItem.itemId.replace(/_/g, ' ').replace(/\b\w/g, (l: string) => l.toUpperCase());
+}
+
+/**
+ * Price a single room item for every tier
+ */
+function buildItemBreakdown(
+  roomItem: RoomItem,
+  item: Item | undefined,
+  roomQuantity: number,
+  pricingStrategy: PricingStrategy,
+  options?: EstimateCalculationOptions
+): ItemBreakdown {
+  const tiers: QualityTier[] = ['low', 'mid', 'midHigh', 'high'];
+  const totalQuantity = roomItem.quantity * roomQuantity;
+  const unitPrices = { low: 0, mid: 0, midHigh: 0, high: 0 };
+  const totals = { low: 0, mid: 0, midHigh: 0, high: 0 };
+
+  const sources: PriceSource[] = tiers.map((tier) => {
+    const resolved = pricingStrategy.resolveUnitPrice(tier, roomItem, item, options ?? {});
+    unitPrices[tier] = resolved.price;
+    totals[tier] = resolved.price * totalQuantity;
+    return resolved.source;
+  });
+
+  // An override on any tier marks the line; otherwise every tier resolves the same way
+  const priceSource = sources.includes('override') ? 'override' : sources[0];
+
+  return {
+    itemId: roomItem.itemId,
+    name: getRoomItemDisplayName(roomItem, item),
+    quantity: roomItem.quantity,
+    totalQuantity,
+    unitPrices,
+    totals,
+    priceSource,
+  };
+}
+
 /**
  * Calculate estimate for all quality tiers (low to mid range)
  */
 export function calculateEstimate(
   selectedRooms: RoomWithItems[],
   roomTemplates: Map<string, RoomTemplate>,
-  items?: Map<string, Item>,
-  options?: {
-    propertySpecs?: PropertySpecs;
-    budgetDefaults?: BudgetDefaults;
-    customRangeEnabled?: boolean;
-    customRangeLowPercent?: number;
-    customRangeHighPercent?: number;
-    customProjectAddOns?: Partial<{
-      installation: number;
-      fuel: number;
-      storageAndReceiving: number;
-      kitchen: number;
-      propertyManagement: number;
-      designPlanning: number;
-      procurement: number;
-      designImplementation: number;
-    }>;
-  }
+  itemLibrary?: Map<string, Item>,
+  options?: EstimateCalculationOptions
 ): Budget | ProjectBudget {
   const tiers: QualityTier[] = ['low', 'mid', 'midHigh', 'high'];
+  const pricingStrategy = getPricingStrategy(options);
+  // A selected total is only priced once a room or item has a chosen tier
+  const mixedTiers = hasSelectedTiers(selectedRooms);
+
+  // Library prices, template totals and budget defaults are USD; quote them in the estimate currency
+  const exchangeRate = options?.exchangeRate ?? getExchangeRate(options?.currencyRates, options?.currency);
+  const items = itemLibrary && convertItemLibrary(itemLibrary, exchangeRate);
 
   const budget: Budget = {
     roomBreakdown: [],
@@ -42,17 +146,20 @@ export function calculateEstimate(
     rangeHigh: 0,
   };
 
-  selectedRooms.forEach((room) => {
+  selectedRooms.forEach((room, roomIndex) => {
     const template = roomTemplates.get(room.roomType);
     
     const roomData: RoomBreakdown = {
+      roomIndex,
       roomType: room.roomType,
       roomSize: room.roomSize,
+      displayName: room.displayName,
       quantity: room.quantity,
       lowAmount: 0,
       midAmount: 0,
       midHighAmount: 0,
       highAmount: 0,
+      items: [],
     };
 
     // Ensure items is a non-empty array before using dynamic item-based calculations
@@ -62,79 +169,32 @@ export function calculateEstimate(
     // Handle rooms with items (including custom rooms without templates)
     if (hasItems && items) {
         // Calculate dynamically from current room items for all tiers
+        roomData.items = room.items.map((roomItem) =>
+          buildItemBreakdown(roomItem, items.get(roomItem.itemId), room.quantity, pricingStrategy, options)
+        );
         tiers.forEach((tier) => {
-          const roomTotal = room.items.reduce((total: number, roomItem: RoomItem) => {
-            // Use RoomItem price override if available, otherwise fall back to item library
-            let tierPrice = 0;
-            
-            // Get base low price (from override or library)
-            const baseLowPrice = roomItem.lowPrice !== undefined 
-              ? roomItem.lowPrice 
-              : (items.get(roomItem.itemId)?.lowPrice || 0);
-            
-            // If custom range is enabled, calculate prices from low price using percentages
-            if (options?.customRangeEnabled && 
-                options.customRangeLowPercent !== undefined && 
-                options.customRangeHighPercent !== undefined &&
-                baseLowPrice > 0) {
-              
-              if (tier === 'low') {
-                // Low end: baseLowPrice * (1 - customRangeLowPercent / 100)
-                tierPrice = Math.round(baseLowPrice * (1 - options.customRangeLowPercent / 100));
-              } else if (tier === 'mid') {
-                // High end: baseLowPrice * (1 + customRangeHighPercent / 100)
-                tierPrice = Math.round(baseLowPrice * (1 + options.customRangeHighPercent / 100));
-              } else {
-                // For midHigh and high tiers, use proportional scaling
-                // midHigh: between mid and high
-                // high: further above
-                const lowEnd = Math.round(baseLowPrice * (1 - options.customRangeLowPercent / 100));
-                const highEnd = Math.round(baseLowPrice * (1 + options.customRangeHighPercent / 100));
-                const range = highEnd - lowEnd;
-                
-                if (tier === 'midHigh') {
-                  tierPrice = Math.round(lowEnd + range * 0.75);
-                } else if (tier === 'high') {
-                  tierPrice = Math.round(lowEnd + range * 1.5);
-                }
-              }
-            } else {
-              // Default behavior: use overrides or library prices
-              if (tier === 'low' && roomItem.lowPrice !== undefined) {
-                tierPrice = roomItem.lowPrice;
-              } else if (tier === 'mid' && roomItem.midPrice !== undefined) {
-                tierPrice = roomItem.midPrice;
-              } else {
-                // Fall back to item library prices
-                const item = items.get(roomItem.itemId);
-                if (item) {
-                  const tierKey = `${tier}Price` as keyof Item;
-                  const candidate = item[tierKey];
-                  tierPrice = typeof candidate === 'number' ? candidate : 0;
-                }
-              }
-            }
-            
-            return total + tierPrice * roomItem.quantity;
-          }, 0) * room.quantity;
-          roomData[`${tier}Amount` as keyof RoomBreakdown] = roomTotal as never;
+          const roomTotal = roomData.items.reduce((total, lineItem) => total + lineItem.totals[tier], 0);
+          roomData[`${tier}Amount` as const] = roomTotal;
           budget[tier].subtotal += roomTotal;
         });
     } else if (template) {
         // Use pre-calculated room totals for rooms without items
         const roomSize = template.sizes[room.roomSize as keyof typeof template.sizes];
         if (!roomSize) return;
-        
+
+        // Template totals are not built from item prices, so there are no line items to add up
+        roomData.templatePriced = true;
+
         tiers.forEach((tier) => {
-          const templateTotals = template.sizes[room.roomSize as keyof typeof template.sizes]?.totals as Record<string, number> | undefined;
+          const templateTotals = roomSize.totals as Record<string, number> | undefined;
           if (!templateTotals) return;
 
           // Use proper tier names: low, mid, midHigh, high
           const tierKey = tier;
           const candidate = templateTotals[tierKey];
           const roomTotals = typeof candidate === 'number' ? candidate : 0;
-          const roomTotal = roomTotals * room.quantity;
-          roomData[`${tier}Amount` as keyof RoomBreakdown] = roomTotal as never;
+          const roomTotal = convertFromBase(roomTotals, exchangeRate) * room.quantity;
+          roomData[`${tier}Amount` as const] = roomTotal;
           budget[tier].subtotal += roomTotal;
         });
     } else {
@@ -142,59 +202,143 @@ export function calculateEstimate(
       return;
     }
 
+    if (mixedTiers) {
+      const pricedByItem = hasItems && !!items;
+      roomData.items = roomData.items.map((lineItem, itemIndex) => ({
+        ...lineItem,
+        selectedTier: getSelectedTier(room, pricedByItem ? room.items[itemIndex] : undefined),
+      }));
+      roomData.selectedAmount = pricedByItem
+        ? roomData.items.reduce((total, lineItem) => total + lineItem.totals[lineItem.selectedTier ?? DEFAULT_SELECTED_TIER], 0)
+        : roomData[`${getSelectedTier(room)}Amount` as const];
+    }
+
     budget.roomBreakdown.push(roomData);
   });
 
-  // Zero out contingency for each tier (totals equal subtotals)
-  tiers.forEach((tier) => {
-    budget[tier].contingency = 0;
-    budget[tier].total = budget[tier].subtotal;
-  });
+  // Estimate-level contingency overrides the budget defaults policy
+  const contingencyPolicy = options?.contingencyPolicy ?? convertContingencyPolicy(options?.budgetDefaults?.contingency, exchangeRate);
 
   // Set overall range (low tier for lower range, mid tier for upper range)
-  budget.rangeLow = budget.low.total;
-  budget.rangeHigh = budget.mid.total;
+  // These stay furnishings-only; contingency is reported separately on each tier
+  budget.rangeLow = budget.low.subtotal;
+  budget.rangeHigh = budget.mid.subtotal;
 
   // If property specs are provided, calculate project budget with add-ons
   if (options?.propertySpecs) {
-    const { propertySpecs, budgetDefaults, customProjectAddOns } = options;
-
-    // Calculate base design fee from rate
-    const baseDesignFee = Math.round(propertySpecs.squareFootage * (budgetDefaults?.designFeeRatePerSqftCents || 1000)); // Default $10/sqft design fee
-    
-    // Split design fee into three categories: 40% design planning, 30% procurement, 30% design implementation
-    // Calculate designImplementation as remainder to ensure total equals baseDesignFee exactly
-    const designPlanning = Math.round(baseDesignFee * 0.4);
-    const procurement = Math.round(baseDesignFee * 0.3);
-    const designImplementation = baseDesignFee - designPlanning - procurement;
+    const { propertySpecs, budgetDefaults, customProjectAddOns, regionalPricing } = options;
+
+    // Regional cost of living scales the calculated service costs, which are then converted from USD.
+    // Custom overrides are used as entered.
+    const region = resolveRegion(regionalPricing, propertySpecs.location);
+    const { salesTaxPercent, freightPercent, costMultiplier } = options.regionalRates ?? getRegionalRates(regionalPricing, propertySpecs.location);
+    const regionalCost = (usdCents: number) => Math.round(usdCents * costMultiplier * exchangeRate);
+
+    // Calculate base design fee from rate (and any large-property rate breaks)
+    const baseDesignFee = regionalCost(calculateDesignFee(
+      propertySpecs.squareFootage,
+      budgetDefaults?.designFeeRatePerSqftCents || DEFAULT_DESIGN_FEE_RATE_CENTS,
+      budgetDefaults?.designFeeRateBreaks
+    ));
+
+    // Split design fee into the configured phases, applying per-estimate overrides by phase id
+    const designFeePhases = getDesignFeePhases(budgetDefaults);
+    const designFeeSplit = splitDesignFee(baseDesignFee, designFeePhases);
+    const designFees = designFeePhases.map((phase) => ({
+      id: phase.id,
+      label: phase.label,
+      ...(phase.description ? { description: phase.description } : {}),
+      amount: customProjectAddOns?.[phase.id] ?? designFeeSplit[phase.id],
+    }));
+
+    // Add-on rules scale with the project. Percent-of-furnishings rules use the mid tier
+    // (the top of the quoted range) so each add-on stays a single amount across tiers.
+    const addOnRuleContext: AddOnRuleContext = {
+      squareFootage: propertySpecs.squareFootage,
+      roomCount: calculateTotalRooms(selectedRooms),
+      itemCount: calculateTotalItems(selectedRooms, roomTemplates, items),
+      // Rules are defined in USD, so evaluate them against USD furnishings
+      furnishingsCents: Math.round(budget.mid.subtotal / exchangeRate),
+    };
+    const ruleDefault = (key: RuleBasedAddOnKey) =>
+      regionalCost(evaluateAddOnRule(getAddOnRule(budgetDefaults, key), addOnRuleContext));
 
     // Use budget defaults if available, otherwise use minimal defaults
     // Apply custom overrides if provided
     const projectAddOns = {
-      installation: customProjectAddOns?.installation !== undefined ? customProjectAddOns.installation : (budgetDefaults?.installationCents || 0),
-      fuel: customProjectAddOns?.fuel !== undefined ? customProjectAddOns.fuel : (budgetDefaults?.fuelCents || 0),
-      storageAndReceiving: customProjectAddOns?.storageAndReceiving !== undefined ? customProjectAddOns.storageAndReceiving : (budgetDefaults?.storageAndReceivingCents || 0),
-      kitchen: customProjectAddOns?.kitchen !== undefined ? customProjectAddOns.kitchen : (budgetDefaults?.kitchenCents || 0),
-      propertyManagement: customProjectAddOns?.propertyManagement !== undefined ? customProjectAddOns.propertyManagement : (budgetDefaults?.propertyManagementCents || 0),
-      designPlanning: customProjectAddOns?.designPlanning !== undefined ? customProjectAddOns.designPlanning : designPlanning,
-      procurement: customProjectAddOns?.procurement !== undefined ? customProjectAddOns.procurement : procurement,
-      designImplementation: customProjectAddOns?.designImplementation !== undefined ? customProjectAddOns.designImplementation : designImplementation,
+      installation: customProjectAddOns?.installation !== undefined ? customProjectAddOns.installation : ruleDefault('installation'),
+      fuel: customProjectAddOns?.fuel !== undefined ? customProjectAddOns.fuel : ruleDefault('fuel'),
+      storageAndReceiving: customProjectAddOns?.storageAndReceiving !== undefined ? customProjectAddOns.storageAndReceiving : ruleDefault('storageAndReceiving'),
+      kitchen: customProjectAddOns?.kitchen !== undefined ? customProjectAddOns.kitchen : ruleDefault('kitchen'),
+      propertyManagement: customProjectAddOns?.propertyManagement !== undefined ? customProjectAddOns.propertyManagement : ruleDefault('propertyManagement'),
     } as const;
 
-    const addOnTotal = Object.values(projectAddOns).reduce((sum, cents) => sum + cents, 0);
+    const flatAddOnTotal = Object.values(projectAddOns).reduce((sum, cents) => sum + cents, 0)
+      + designFees.reduce((sum, fee) => sum + fee.amount, 0);
+
+    // Freight applies to all furnishings; sales tax only to taxable categories in the property's region
+    const furnishings: TierAmounts = {
+      low: budget.low.subtotal,
+      mid: budget.mid.subtotal,
+      midHigh: budget.midHigh.subtotal,
+      high: budget.high.subtotal,
+    };
+    const freight = applyPercentToTiers(furnishings, freightPercent);
+    const taxableGoods = calculateTaxableGoods(budget.roomBreakdown, items, regionalPricing?.taxableCategories ?? []);
+    const salesTax = applyPercentToTiers(taxableGoods, salesTaxPercent);
+
+    const addOnTotals: TierAmounts = {
+      low: flatAddOnTotal + salesTax.low + freight.low,
+      mid: flatAddOnTotal + salesTax.mid + freight.mid,
+      midHigh: flatAddOnTotal + salesTax.midHigh + freight.midHigh,
+      high: flatAddOnTotal + salesTax.high + freight.high,
+    };
+
+    applyContingency(budget, tiers, contingencyPolicy, addOnTotals);
+
+    // The selected total takes freight and tax on its own goods
+    let selectedAddOns = 0;
+    if (mixedTiers) {
+      const selectedSubtotal = sumSelectedAmounts(budget.roomBreakdown);
+      const selectedTaxable = calculateTaxableGoods(
+        collapseToSelectedTiers(budget.roomBreakdown), items, regionalPricing?.taxableCategories ?? []
+      )[DEFAULT_SELECTED_TIER];
+      selectedAddOns = flatAddOnTotal
+        + Math.round(selectedSubtotal * freightPercent / 100)
+        + Math.round(selectedTaxable * salesTaxPercent / 100);
+      budget.selected = calculateSelectedTotal(selectedSubtotal, contingencyPolicy, selectedAddOns);
+    }
 
     const projectRange = {
-      low: budget.low.total + addOnTotal,
-      mid: budget.mid.total + addOnTotal,
-      midHigh: budget.midHigh.total + addOnTotal,
-      high: budget.high.total + addOnTotal
-    } as const;
+      low: budget.low.total + addOnTotals.low,
+      mid: budget.mid.total + addOnTotals.mid,
+      midHigh: budget.midHigh.total + addOnTotals.midHigh,
+      high: budget.high.total + addOnTotals.high,
+      ...(budget.selected ? { selected: budget.selected.total + selectedAddOns } : {}),
+    };
 
     const projectBudget: ProjectBudget = {
       ...budget,
-      contingencyDisabled: true,
-      projectAddOns,
+      contingencyDisabled: !isContingencyEnabled(contingencyPolicy),
+      projectAddOns: {
+        ...projectAddOns,
+        salesTax,
+        freight,
+      },
+      designFees,
       projectRange,
+      ...(region ? { region } : {}),
+      ...(options.phases?.length
+        ? {
+          phases: buildPhaseBreakdown(budget, selectedRooms, options.phases, {
+            flat: flatAddOnTotal,
+            freight,
+            salesTax,
+            items,
+            taxableCategories: regionalPricing?.taxableCategories ?? [],
+          }),
+        }
+        : {}),
       // Keep original furnishings ranges intact - don't overwrite them!
       // The base Budget.rangeLow/rangeHigh should always be furnishings-only
     };
@@ -202,16 +346,108 @@ export function calculateEstimate(
     return projectBudget;
   }
 
+  applyContingency(budget, tiers, contingencyPolicy, { low: 0, mid: 0, midHigh: 0, high: 0 });
+
+  if (mixedTiers) {
+    budget.selected = calculateSelectedTotal(sumSelectedAmounts(budget.roomBreakdown), contingencyPolicy);
+  }
+
+  if (options?.phases?.length) {
+    budget.phases = buildPhaseBreakdown(budget, selectedRooms, options.phases);
+  }
+
   return budget;
 }
 
+const sumSelectedAmounts = (roomBreakdown: RoomBreakdown[]): number =>
+  roomBreakdown.reduce((total, room) => total + (room.selectedAmount ?? 0), 0);
+
+/**
+ * Contingency for the selected total. A mixed selection has no single tier, so per-tier
+ * contingency overrides follow the default selected tier.
+ */
+function calculateSelectedTotal(
+  subtotal: number,
+  policy: ContingencyPolicy | null | undefined,
+  addOnTotal: number = 0
+): TierTotal {
+  const contingency = calculateContingency(policy, DEFAULT_SELECTED_TIER, subtotal, addOnTotal);
+  return { subtotal, contingency, total: subtotal + contingency };
+}
+
+/**
+ * Check whether a contingency policy adds anything to the budget
+ */
+export function isContingencyEnabled(policy?: ContingencyPolicy | null): boolean {
+  return !!policy && policy.mode !== 'none';
+}
+
+/**
+ * Calculate the contingency (in cents) for a tier under a policy
+ */
+export function calculateContingency(
+  policy: ContingencyPolicy | null | undefined,
+  tier: QualityTier,
+  furnishingsSubtotal: number,
+  addOnTotal: number = 0
+): number {
+  if (!policy || !isContingencyEnabled(policy)) {
+    return 0;
+  }
+
+  const tierOverride = policy.perTier?.[tier];
+
+  if (policy.mode === 'fixed') {
+    return Math.max(0, Math.round(tierOverride?.amountCents ?? policy.amountCents ?? 0));
+  }
+
+  const percent = tierOverride?.percent ?? policy.percent ?? 0;
+  const base = policy.mode === 'percentOfProject' ? furnishingsSubtotal + addOnTotal : furnishingsSubtotal;
+  return Math.max(0, Math.round(base * percent / 100));
+}
+
+/**
+ * Convert the fixed amounts of a budget-defaults contingency policy from USD
+ */
+function convertContingencyPolicy(
+  policy: ContingencyPolicy | undefined,
+  exchangeRate: number
+): ContingencyPolicy | undefined {
+  if (!policy || policy.mode !== 'fixed' || exchangeRate === 1) return policy;
+
+  const perTier: ContingencyPolicy['perTier'] = {};
+  Object.entries(policy.perTier ?? {}).forEach(([tier, override]) => {
+    perTier[tier as QualityTier] = override.amountCents !== undefined
+      ? { ...override, amountCents: convertFromBase(override.amountCents, exchangeRate) }
+      : override;
+  });
+
+  return {
+    ...policy,
+    ...(policy.amountCents !== undefined ? { amountCents: convertFromBase(policy.amountCents, exchangeRate) } : {}),
+    ...(policy.perTier ? { perTier } : {}),
+  };
+}
+
+function applyContingency(
+  budget: Budget,
+  tiers: QualityTier[],
+  policy: ContingencyPolicy | null | undefined,
+  addOnTotals: TierAmounts
+): void {
+  tiers.forEach((tier) => {
+    budget[tier].contingency = calculateContingency(policy, tier, budget[tier].subtotal, addOnTotals[tier]);
+    budget[tier].total = budget[tier].subtotal + budget[tier].contingency;
+  });
+}
+
 /**
- * Format currency from cents to dollars
+ * Format currency from cents using the currency's own locale (USD by default)
  */
-export function formatCurrency(cents: number): string {
-  return new Intl.NumberFormat('en-US', {
+export function formatCurrency(cents: number, currency: CurrencyCode = BASE_CURRENCY): string {
+  return new Intl.NumberFormat(CURRENCIES[currency].locale, {
     style: 'currency',
-    currency: 'USD',
+    currency,
     minimumFractionDigits: 0,
     maximumFractionDigits: 0,
   }).format(cents / 100);
@@ -220,15 +456,16 @@ export function formatCurrency(cents: number): string {
 /**
  * Format currency in abbreviated form (e.g., $85k)
  */
-export function formatCurrencyAbbreviated(cents: number): string {
+export function formatCurrencyAbbreviated(cents: number, currency: CurrencyCode = BASE_CURRENCY): string {
   const dollars = cents / 100;
+  const symbol = getCurrencySymbol(currency);
   if (dollars >= 1000000) {
-    return `$${(dollars / 1000000).toFixed(2)}M`;
+    return `${symbol}${(dollars / 1000000).toFixed(2)}M`;
   }
   if (dollars >= 1000) {
-    return `$${(dollars / 1000).toFixed(2)}k`;
+    return `${symbol}${(dollars / 1000).toFixed(2)}k`;
   }
-  return formatCurrency(cents);
+  return formatCurrency(cents, currency);
 }
 
 /**
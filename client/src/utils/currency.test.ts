@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import type { RoomTemplate } from '../types';
+import { convertFromBase, convertItemLibrary, getExchangeRate, hasExchangeRate } from './currency';
+import { calculateEstimate, formatCurrency } from './calculations';
+import { createItem, createItemsMap, createRoom } from '../test/fixtures';
+
+const rates = { rates: { CAD: 1.35, MXN: 17 } };
+
+const createItems = () => createItemsMap([
+  createItem('sofa', { lowPrice: 100000, midPrice: 150000, midHighPrice: 200000, highPrice: 300000 }),
+]);
+
+describe('exchange rates', () => {
+  it('falls back to 1 for USD and unconfigured currencies', () => {
+    expect(getExchangeRate(rates, 'USD')).toBe(1);
+    expect(getExchangeRate(rates, 'CAD')).toBe(1.35);
+    expect(getExchangeRate({ rates: {} }, 'MXN')).toBe(1);
+    expect(hasExchangeRate({ rates: {} }, 'MXN')).toBe(false);
+    expect(hasExchangeRate(null, 'USD')).toBe(true);
+  });
+
+  it('converts library prices to the estimate currency', () => {
+    const converted = convertItemLibrary(createItems(), 1.35).get('sofa');
+
+    expect(converted?.lowPrice).toBe(135000);
+    expect(converted?.highPrice).toBe(405000);
+    expect(convertFromBase(12345, 17)).toBe(209865);
+  });
+});
+
+describe('calculateEstimate currency', () => {
+  it('converts library prices but keeps overrides in the estimate currency', () => {
+    const rooms = [createRoom('living_room', { items: [{ itemId: 'sofa', quantity: 1, lowPrice: 120000 }] })];
+
+    const budget = calculateEstimate(rooms, new Map<string, RoomTemplate>(), createItems(), {
+      currency: 'CAD',
+      currencyRates: rates,
+    });
+    const [sofa] = budget.roomBreakdown[0].items;
+
+    expect(sofa.unitPrices.low).toBe(120000);
+    expect(sofa.unitPrices.mid).toBe(202500);
+  });
+});
+
+describe('formatCurrency', () => {
+  it('formats in the currency locale', () => {
+    expect(formatCurrency(123456)).toBe('$1,235');
+    expect(formatCurrency(123456, 'CAD')).toBe('$1,235');
+    expect(formatCurrency(123456, 'MXN')).toBe('$1,235');
+  });
+});
@@ -0,0 +1,66 @@
+// Currency metadata and conversion from the USD item library
+import type { CurrencyCode, CurrencyRates, Item } from '../types';
+
+// Item library prices, budget defaults and room template totals are all stored in USD
+export const BASE_CURRENCY: CurrencyCode = 'USD';
+
+export const CURRENCIES: Record<CurrencyCode, { name: string; locale: string }> = {
+  USD: { name: 'US Dollar', locale: 'en-US' },
+  CAD: { name: 'Canadian Dollar', locale: 'en-CA' },
+  MXN: { name: 'Mexican Peso', locale: 'es-MX' },
+};
+
+export const CURRENCY_CODES = Object.keys(CURRENCIES) as CurrencyCode[];
+
+/**
+ * Get the rate to convert USD amounts into a currency.
+ * Falls back to 1 when no rate has been configured.
+ */
+export function getExchangeRate(rates: CurrencyRates | null | undefined, currency?: CurrencyCode): number {
+  if (!currency || currency === BASE_CURRENCY) return 1;
+  const rate = rates?.rates[currency];
+  return rate && rate > 0 ? rate : 1;
+}
+
+/**
+ * Check whether a currency can be converted with the configured rates
+ */
+export function hasExchangeRate(rates: CurrencyRates | null | undefined, currency?: CurrencyCode): boolean {
+  if (!currency || currency === BASE_CURRENCY) return true;
+  const rate = rates?.rates[currency];
+  return !!rate && rate > 0;
+}
+
+/**
+ * Convert a USD amount (in cents) using an exchange rate
+ */
+export function convertFromBase(cents: number, exchangeRate: number): number {
+  return exchangeRate === 1 ? cents : Math.round(cents * exchangeRate);
+}
+
+/**
+ * Convert item library prices from USD into the estimate currency
+ */
+export function convertItemLibrary(items: Map<string, Item>, exchangeRate: number): Map<string, Item> {
+  if (exchangeRate === 1) return items;
+
+  const converted = new Map<string, Item>();
+  items.forEach((item, id) => {
+    converted.set(id, {
+      ...item,
+      lowPrice: convertFromBase(item.lowPrice, exchangeRate),
+      midPrice: convertFromBase(item.midPrice, exchangeRate),
+      midHighPrice: convertFromBase(item.midHighPrice, exchangeRate),
+      highPrice: convertFromBase(item.highPrice, exchangeRate),
+    });
+  });
+  return converted;
+}
+
+/**
+ * Get the symbol a currency is written with in its own locale (e.g., '$' for CAD in en-CA)
+ */
+export function getCurrencySymbol(currency: CurrencyCode): string {
+  const parts = new Intl.NumberFormat(CURRENCIES[currency].locale, { style: 'currency', currency }).formatToParts(0);
+  return parts.find(part => part.type === 'currency')?.value ?? currency;
+}
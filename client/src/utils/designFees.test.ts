@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_DESIGN_FEE_PHASES, calculateDesignFee, splitDesignFee, validateDesignFeeSettings } from './designFees';
+
+describe('calculateDesignFee', () => {
+  it('uses the base rate without rate breaks', () => {
+    expect(calculateDesignFee(2000, 1000)).toBe(2000000);
+  });
+
+  it('bills square footage above each break at the break rate', () => {
+    const rateBreaks = [{ aboveSqft: 6000, rateCents: 500 }, { aboveSqft: 4000, rateCents: 800 }];
+
+    expect(calculateDesignFee(3000, 1000, rateBreaks)).toBe(3000000);
+    expect(calculateDesignFee(5000, 1000, rateBreaks)).toBe(4000 * 1000 + 1000 * 800);
+    expect(calculateDesignFee(7000, 1000, rateBreaks)).toBe(4000 * 1000 + 2000 * 800 + 1000 * 500);
+  });
+});
+
+describe('splitDesignFee', () => {
+  it('keeps the 40/30/30 default split exact', () => {
+    expect(splitDesignFee(1000001, DEFAULT_DESIGN_FEE_PHASES)).toEqual({
+      designPlanning: 400000,
+      procurement: 300000,
+      designImplementation: 300001,
+    });
+  });
+});
+
+describe('validateDesignFeeSettings', () => {
+  it('requires phases to add up to 100%', () => {
+    expect(validateDesignFeeSettings(DEFAULT_DESIGN_FEE_PHASES)).toBeNull();
+    expect(validateDesignFeeSettings([{ id: 'a', label: 'A', percent: 60 }, { id: 'b', label: 'B', percent: 30 }]))
+      .toBe('Design fee phases must add up to 100% (currently 90%)');
+  });
+
+  it('rejects duplicate rate breaks', () => {
+    expect(validateDesignFeeSettings(DEFAULT_DESIGN_FEE_PHASES, [
+      { aboveSqft: 4000, rateCents: 800 },
+      { aboveSqft: 4000, rateCents: 700 },
+    ])).not.toBeNull();
+  });
+});
@@ -0,0 +1,104 @@
+// Design fee rates and the phases the fee is split into
+import type { BudgetDefaults, DesignFeePhase, DesignFeeRateBreak } from '../types';
+
+export const DEFAULT_DESIGN_FEE_RATE_CENTS = 1000; // $10/sqft
+
+export const DEFAULT_DESIGN_FEE_PHASES: DesignFeePhase[] = [
+  {
+    id: 'designPlanning',
+    label: 'Design Planning',
+    percent: 40,
+    description: 'Initial design consultation, space planning, and design development',
+  },
+  {
+    id: 'procurement',
+    label: 'Procurement',
+    percent: 30,
+    description: 'Sourcing, ordering, and managing furniture and accessories',
+  },
+  {
+    id: 'designImplementation',
+    label: 'Design Implementation',
+    percent: 30,
+    description: 'Final placement, styling, and design execution services',
+  },
+];
+
+/**
+ * Get the configured design fee phases, falling back to the standard 40/30/30 split
+ */
+export function getDesignFeePhases(defaults?: BudgetDefaults | null): DesignFeePhase[] {
+  return defaults?.designFeePhases?.length ? defaults.designFeePhases : DEFAULT_DESIGN_FEE_PHASES;
+}
+
+/**
+ * Calculate the design fee (in cents) for a property.
+ * Rate breaks are marginal: only the square footage above each threshold gets the break's rate.
+ */
+export function calculateDesignFee(
+  squareFootage: number,
+  baseRateCents: number,
+  rateBreaks: DesignFeeRateBreak[] = []
+): number {
+  const breaks = [...rateBreaks].sort((a, b) => a.aboveSqft - b.aboveSqft);
+
+  let fee = 0;
+  let billedSqft = 0;
+  let rate = baseRateCents;
+
+  breaks.forEach((rateBreak) => {
+    if (squareFootage <= rateBreak.aboveSqft) return;
+    fee += Math.max(0, rateBreak.aboveSqft - billedSqft) * rate;
+    billedSqft = Math.max(billedSqft, rateBreak.aboveSqft);
+    rate = rateBreak.rateCents;
+  });
+
+  fee += Math.max(0, squareFootage - billedSqft) * rate;
+  return Math.round(fee);
+}
+
+/**
+ * Split a design fee across phases. The last phase takes the remainder so the total is exact.
+ */
+export function splitDesignFee(fee: number, phases: DesignFeePhase[]): Record<string, number> {
+  const amounts: Record<string, number> = {};
+  let allocated = 0;
+
+  phases.forEach((phase, index) => {
+    const amount = index === phases.length - 1 ? fee - allocated : Math.round(fee * phase.percent / 100);
+    amounts[phase.id] = amount;
+    allocated += amount;
+  });
+
+  return amounts;
+}
+
+/**
+ * Validate design fee settings, returning an error message or null when they're usable
+ */
+export function validateDesignFeeSettings(
+  phases: DesignFeePhase[],
+  rateBreaks: DesignFeeRateBreak[] = []
+): string | null {
+  if (phases.length === 0) {
+    return 'Add at least one design fee phase';
+  }
+  if (phases.some(phase => !phase.label.trim())) {
+    return 'Every design fee phase needs a name';
+  }
+  if (new Set(phases.map(phase => phase.id)).size !== phases.length) {
+    return 'Design fee phases must be unique';
+  }
+
+  const totalPercent = phases.reduce((sum, phase) => sum + phase.percent, 0);
+  // Allow for floating point error in fractional percentages
+  if (Math.abs(totalPercent - 100) > 0.001) {
+    return `Design fee phases must add up to 100% (currently ${Math.round(totalPercent * 100) / 100}%)`;
+  }
+
+  if (new Set(rateBreaks.map(rateBreak => rateBreak.aboveSqft)).size !== rateBreaks.length) {
+    return 'Each design fee rate break needs a different square footage';
+  }
+
+  return null;
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import type { Estimate, RoomTemplate, RoomWithItems } from '../types';
+import { calculateEstimate } from './calculations';
+import { buildEstimateComparison, parseCompareIds } from './estimateComparison';
+import type { ComparedEstimate } from './estimateComparison';
+import { createItem, createItemsMap, createRoom } from '../test/fixtures';
+
+// Prices stop rising after mid-range
+const items = createItemsMap([
+  createItem('bed', { lowPrice: 50000, midPrice: 80000, midHighPrice: 80000, highPrice: 80000 }),
+  createItem('sofa', { lowPrice: 100000, midPrice: 150000, midHighPrice: 150000, highPrice: 150000 }),
+]);
+
+const createFurnishedRoom = (roomType: string, itemId: string, quantity = 1): RoomWithItems => createRoom(roomType, {
+  quantity,
+  items: [{ itemId, quantity: 1 }],
+});
+
+const compare = (id: string, rooms: RoomWithItems[], currency?: Estimate['currency']): ComparedEstimate => ({
+  estimate: { id, rooms, ...(currency ? { currency } : {}) } as Estimate,
+  budget: calculateEstimate(rooms, new Map<string, RoomTemplate>(), items),
+});
+
+describe('parseCompareIds', () => {
+  it('reads unique, non-blank ids and caps the count', () => {
+    expect(parseCompareIds('?ids=a,%20b,,a,c')).toEqual(['a', 'b', 'c']);
+    expect(parseCompareIds('?ids=a,b,c,d,e')).toHaveLength(4);
+    expect(parseCompareIds('')).toEqual([]);
+  });
+});
+
+describe('buildEstimateComparison', () => {
+  const base = compare('a', [createFurnishedRoom('living_room', 'sofa'), createFurnishedRoom('bedroom', 'bed')]);
+  const bigger = compare('b', [createFurnishedRoom('living_room', 'sofa'), createFurnishedRoom('bedroom', 'bed', 2), createFurnishedRoom('bedroom', 'bed')]);
+
+  it('lines up rooms by type and occurrence and marks missing rooms', () => {
+    const comparison = buildEstimateComparison([base, bigger], 'mid');
+    const rooms = comparison.sections.find(section => section.id === 'rooms')!;
+
+    expect(rooms.rows.map(row => row.key)).toEqual(['room.living_room#1', 'room.bedroom#1', 'room.bedroom#2']);
+    expect(rooms.rows[0].deltas).toEqual([null, 0]);
+    expect(rooms.rows[1].values).toEqual([80000, 160000]);
+    expect(rooms.rows[1].deltas).toEqual([null, 80000]);
+    expect(rooms.rows[2].values).toEqual([null, 80000]);
+    expect(rooms.rows[2].deltas).toEqual([null, null]);
+  });
+
+  it('compares each tier total against the first estimate', () => {
+    const tiers = buildEstimateComparison([base, bigger]).sections[0];
+    expect(tiers.rows.map(row => row.deltas[1])).toEqual([100000, 160000, 160000, 160000]);
+  });
+
+  it('skips deltas between estimates quoted in different currencies', () => {
+    const comparison = buildEstimateComparison([base, compare('c', bigger.estimate.rooms, 'CAD')]);
+    expect(comparison.mixedCurrencies).toBe(true);
+    expect(comparison.sections[0].rows[0].deltas).toEqual([null, null]);
+  });
+
+  it('leaves out the add-on section when no estimate has project add-ons', () => {
+    expect(buildEstimateComparison([base, bigger]).sections.map(section => section.id)).toEqual(['tiers', 'rooms']);
+  });
+});
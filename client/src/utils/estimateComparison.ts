@@ -0,0 +1,164 @@
+// Side-by-side comparison of estimates: aligned tier, room and add-on rows with deltas against the first estimate
+import type { Budget, CurrencyCode, Estimate, ProjectBudget, QualityTier, RoomBreakdown } from '../types';
+import { QUALITY_TIERS } from '../types';
+import { BASE_CURRENCY } from './currency';
+
+export const MAX_COMPARED_ESTIMATES = 4;
+
+export interface ComparedEstimate {
+  estimate: Estimate;
+  budget: Budget | ProjectBudget;
+}
+
+export interface ComparisonRow {
+  key: string;
+  label: string;
+  values: (number | null)[]; // In cents, one per estimate; null when the estimate has no such row
+  deltas: (number | null)[]; // Difference from the first estimate; null for the first column or when not comparable
+}
+
+export interface ComparisonSection {
+  id: 'tiers' | 'rooms' | 'addOns';
+  title: string;
+  rows: ComparisonRow[];
+}
+
+export interface EstimateComparison {
+  tier: QualityTier;
+  currencies: CurrencyCode[];
+  mixedCurrencies: boolean; // Deltas are only shown between estimates quoted in the same currency
+  sections: ComparisonSection[];
+}
+
+const TIERS = Object.keys(QUALITY_TIERS) as QualityTier[];
+
+const ROOM_AMOUNT_KEYS: Record<QualityTier, 'lowAmount' | 'midAmount' | 'midHighAmount' | 'highAmount'> = {
+  low: 'lowAmount',
+  mid: 'midAmount',
+  midHigh: 'midHighAmount',
+  high: 'highAmount',
+};
+
+function isProjectBudget(budget: Budget | ProjectBudget): budget is ProjectBudget {
+  return 'projectRange' in budget;
+}
+
+/**
+ * Read the estimate IDs from a compare URL (?ids=a,b,c), dropping blanks and duplicates
+ */
+export function parseCompareIds(search: string): string[] {
+  const raw = new URLSearchParams(search).get('ids') ?? '';
+  const ids = raw.split(',').map(id => id.trim()).filter(Boolean);
+  return [...new Set(ids)].slice(0, MAX_COMPARED_ESTIMATES);
+}
+
+/**
+ * Key rooms by type and occurrence so the second bedroom in one estimate lines up with the second bedroom in another
+ */
+function keyRoomBreakdown(rooms: RoomBreakdown[]): Map<string, RoomBreakdown> {
+  const occurrences = new Map<string, number>();
+  const keyed = new Map<string, RoomBreakdown>();
+  rooms.forEach(room => {
+    const occurrence = (occurrences.get(room.roomType) ?? 0) + 1;
+    occurrences.set(room.roomType, occurrence);
+    keyed.set(`${room.roomType}#${occurrence}`, room);
+  });
+  return keyed;
+}
+
+function createRow(key: string, label: string, values: (number | null)[], comparable: boolean[]): ComparisonRow {
+  const baseline = values[0];
+  return {
+    key,
+    label,
+    values,
+    deltas: values.map((value, index) =>
+      index === 0 || !comparable[index] || value === null || baseline === null ? null : value - baseline
+    ),
+  };
+}
+
+/**
+ * Total for a tier: the full project budget when add-ons apply, otherwise furnishings plus contingency
+ */
+export function getTierTotal(budget: Budget | ProjectBudget, tier: QualityTier): number {
+  return isProjectBudget(budget) ? budget.projectRange[tier] : budget[tier].total;
+}
+
+/**
+ * Build aligned rows for each section. Rooms and per-tier add-ons use the given tier.
+ */
+export function buildEstimateComparison(compared: ComparedEstimate[], tier: QualityTier = 'mid'): EstimateComparison {
+  const currencies = compared.map(({ estimate }) => estimate.currency ?? BASE_CURRENCY);
+  const comparable = currencies.map(currency => currency === currencies[0]);
+  const budgets = compared.map(({ budget }) => budget);
+
+  const tierRows = TIERS.map(rowTier =>
+    createRow(`tier.${rowTier}`, QUALITY_TIERS[rowTier].name, budgets.map(budget => getTierTotal(budget, rowTier)), comparable)
+  );
+
+  // Rooms in the order they first appear across the estimates
+  const keyedRooms = budgets.map(budget => keyRoomBreakdown(budget.roomBreakdown));
+  const roomKeys = [...new Set(keyedRooms.flatMap(rooms => [...rooms.keys()]))];
+  const roomRows = roomKeys.map(key => {
+    const rooms = keyedRooms.map(keyed => keyed.get(key));
+    const first = rooms.find(Boolean) as RoomBreakdown;
+    const occurrence = Number(key.split('#')[1]);
+    const name = first.displayName ?? first.roomType;
+    const sizes = [...new Set(rooms.filter(Boolean).map(room => `${room!.roomSize} x${room!.quantity}`))];
+    const label = `${occurrence > 1 ? `${name} ${occurrence}` : name} (${sizes.join(' / ')})`;
+    return createRow(`room.${key}`, label, rooms.map(room => (room ? room[ROOM_AMOUNT_KEYS[tier]] : null)), comparable);
+  });
+
+  const projectBudgets = budgets.map(budget => (isProjectBudget(budget) ? budget : null));
+  const addOnRows: ComparisonRow[] = [];
+  if (projectBudgets.some(Boolean)) {
+    const addOn = (key: string, label: string, read: (budget: ProjectBudget) => number) => {
+      const values = projectBudgets.map(budget => (budget ? read(budget) : null));
+      if (values.some(value => value !== null && value !== 0)) {
+        addOnRows.push(createRow(`addOn.${key}`, label, values, comparable));
+      }
+    };
+
+    const designFeeLabels = new Map<string, string>();
+    projectBudgets.forEach(budget => budget?.designFees.forEach(fee => {
+      if (!designFeeLabels.has(fee.id)) designFeeLabels.set(fee.id, fee.label);
+    }));
+    designFeeLabels.forEach((label, id) => {
+      addOn(`designFee.${id}`, label, budget => budget.designFees.find(fee => fee.id === id)?.amount ?? 0);
+    });
+
+    addOn('installation', 'Installation', budget => budget.projectAddOns.installation);
+    addOn('fuel', 'Fuel', budget => budget.projectAddOns.fuel);
+    addOn('storageAndReceiving', 'Storage & Receiving', budget => budget.projectAddOns.storageAndReceiving);
+    addOn('kitchen', 'Kitchen', budget => budget.projectAddOns.kitchen);
+    addOn('propertyManagement', 'Property Management', budget => budget.projectAddOns.propertyManagement);
+    addOn('freight', 'Freight', budget => budget.projectAddOns.freight[tier]);
+    addOn('salesTax', 'Sales Tax', budget => budget.projectAddOns.salesTax[tier]);
+    addOn('contingency', 'Contingency', budget => budget[tier].contingency);
+  }
+
+  const sections: ComparisonSection[] = [
+    { id: 'tiers', title: 'Totals by Tier', rows: tierRows },
+    { id: 'rooms', title: `Rooms (${QUALITY_TIERS[tier].name})`, rows: roomRows },
+  ];
+  if (addOnRows.length > 0) {
+    sections.push({ id: 'addOns', title: `Project Add-Ons (${QUALITY_TIERS[tier].name})`, rows: addOnRows });
+  }
+
+  return {
+    tier,
+    currencies,
+    mixedCurrencies: comparable.some(same => !same),
+    sections,
+  };
+}
+
+/**
+ * Column heading for an estimate, e.g. "Ada Lovelace · Mar 10, 2025"
+ */
+export function getComparisonColumnLabel(estimate: Estimate): string {
+  const clientName = `${estimate.clientInfo?.firstName ?? ''} ${estimate.clientInfo?.lastName ?? ''}`.trim() || 'Unnamed client';
+  const date = estimate.createdAt ? new Date(estimate.createdAt).toLocaleDateString() : '';
+  return date ? `${clientName} · ${date}` : clientName;
+}
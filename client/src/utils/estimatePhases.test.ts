@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import type { EstimatePhase, ProjectBudget, QualityTier, RegionalPricingConfig, RoomTemplate } from '../types';
+import { calculateEstimate } from './calculations';
+import { createItem, createItemsMap, createRoom } from '../test/fixtures';
+import { allocateByWeight, assignRoomPhase, sortPhases } from './estimatePhases';
+
+const TIERS: QualityTier[] = ['low', 'mid', 'midHigh', 'high'];
+
+const items = createItemsMap([
+  createItem('sofa', { lowPrice: 100000 }),
+  createItem('towels', { category: 'Linens', lowPrice: 10000 }),
+]);
+
+const phases: EstimatePhase[] = [
+  { id: 'later', name: 'Guest wing', targetDate: '2026-09-01' },
+  { id: 'first', name: 'Main house', targetDate: '2026-06-01' },
+];
+
+const config: RegionalPricingConfig = {
+  regions: [{ id: 'colorado', name: 'Colorado', states: ['CO'], salesTaxPercent: 5, freightPercent: 8, costMultiplier: 1 }],
+  taxableCategories: ['Furniture'],
+  defaultFreightPercent: 0,
+};
+
+const rooms = [
+  createRoom('living_room', { items: [{ itemId: 'sofa', quantity: 1 }, { itemId: 'towels', quantity: 1 }], phaseId: 'first' }),
+  createRoom('bedroom', { items: [{ itemId: 'towels', quantity: 1 }], phaseId: 'later' }),
+  createRoom('bunk_room', { items: [{ itemId: 'sofa', quantity: 1 }] }),
+];
+
+const calculate = () => calculateEstimate(rooms, new Map<string, RoomTemplate>(), items, {
+  propertySpecs: { squareFootage: 1000, guestCapacity: 4, location: { state: 'CO' } },
+  budgetDefaults: {
+    installationCents: 100000,
+    fuelCents: 0,
+    storageAndReceivingCents: 0,
+    kitchenCents: 0,
+    propertyManagementCents: 0,
+    designFeeRatePerSqftCents: 1000,
+  },
+  regionalPricing: config,
+  contingencyPolicy: { mode: 'percentOfFurnishings', percent: 10 },
+  phases,
+}) as ProjectBudget;
+
+describe('calculateEstimate phases', () => {
+  it('orders phases by target date and collects unassigned rooms last', () => {
+    const budget = calculate();
+    expect(budget.phases?.map(phase => [phase.name, phase.roomIndexes])).toEqual([
+      ['Main house', [0]],
+      ['Guest wing', [1]],
+      ['Unscheduled', [2]],
+    ]);
+  });
+
+  it('splits the whole project budget across phases', () => {
+    const budget = calculate();
+    const [first, later, unscheduled] = budget.phases!;
+
+    expect(first.subtotal.low).toBe(110000);
+    expect(later.subtotal.low).toBe(10000);
+    // Only the furniture is taxable, so the towels-only phase carries no sales tax
+    expect(later.addOns.low).toBe(
+      Math.floor((100000 + 1000000) * later.subtotal.mid / budget.mid.subtotal) + Math.floor(budget.projectAddOns.freight.low * 10000 / 220000)
+    );
+    TIERS.forEach((tier) => {
+      expect(first.total[tier] + later.total[tier] + unscheduled.total[tier]).toBe(budget.projectRange[tier]);
+      expect(unscheduled.cumulative[tier]).toBe(budget.projectRange[tier]);
+    });
+  });
+
+  it('leaves budgets without phases unchanged', () => {
+    expect(calculateEstimate(rooms, new Map<string, RoomTemplate>(), items).phases).toBeUndefined();
+  });
+});
+
+describe('allocateByWeight', () => {
+  it('keeps every cent and gives the remainder to the largest weight', () => {
+    expect(allocateByWeight(100, [1, 1, 1])).toEqual([34, 33, 33]);
+    expect(allocateByWeight(100, [1, 2, 1])).toEqual([25, 50, 25]);
+    expect(allocateByWeight(100, [0, 0])).toEqual([100, 0]);
+  });
+});
+
+describe('sortPhases', () => {
+  it('puts undated phases after dated ones in the order they were added', () => {
+    const sorted = sortPhases([{ id: 'a', name: 'A' }, { id: 'b', name: 'B', targetDate: '2026-02-01' }, { id: 'c', name: 'C' }]);
+    expect(sorted.map(phase => phase.id)).toEqual(['b', 'a', 'c']);
+  });
+});
+
+describe('assignRoomPhase', () => {
+  it('removes the phase key when unscheduling', () => {
+    const room = assignRoomPhase(createRoom('bedroom', { phaseId: 'first' }));
+    expect(room).not.toHaveProperty('phaseId');
+    expect(assignRoomPhase(room, 'later').phaseId).toBe('later');
+  });
+});
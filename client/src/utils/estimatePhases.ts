@@ -0,0 +1,144 @@
+// Phased project budgets: rooms grouped into scheduled phases, each with its share of the budget
+import type { Budget, EstimatePhase, Item, PhaseBreakdown, QualityTier, RoomBreakdown, RoomWithItems, TierAmounts } from '../types';
+import { calculateTaxableGoods } from './regionalPricing';
+import { fromDateInputValue } from './followUps';
+
+const TIERS: QualityTier[] = ['low', 'mid', 'midHigh', 'high'];
+
+export const UNSCHEDULED_PHASE_NAME = 'Unscheduled';
+
+// Project add-ons to split across phases (in cents, in the estimate currency)
+export interface PhaseAddOns {
+  flat: number; // Design fees and flat add-ons, split by mid-tier furnishings like the add-on rules
+  freight: TierAmounts;
+  salesTax: TierAmounts;
+  items?: Map<string, Item>;
+  taxableCategories: string[];
+}
+
+const emptyTiers = (): TierAmounts => ({ low: 0, mid: 0, midHigh: 0, high: 0 });
+
+/**
+ * A phase's name, or "Phase 2" style by its position when left blank
+ */
+export function getPhaseName(phase: EstimatePhase, index: number): string {
+  return phase.name.trim() || `Phase ${index + 1}`;
+}
+
+/**
+ * Phases in schedule order: dated phases by target date, then undated phases in the order they were added
+ */
+export function sortPhases(phases: EstimatePhase[]): EstimatePhase[] {
+  return phases
+    .map((phase, index) => ({ phase, index }))
+    .sort((a, b) => {
+      const aDate = a.phase.targetDate;
+      const bDate = b.phase.targetDate;
+      if (aDate && bDate && aDate !== bDate) return aDate < bDate ? -1 : 1;
+      if (!aDate !== !bDate) return aDate ? -1 : 1;
+      return a.index - b.index;
+    })
+    .map(({ phase }) => phase);
+}
+
+/**
+ * Split an amount in cents in proportion to weights. The rounding remainder goes to the largest weight,
+ * so the shares always add up to the amount; with no weight at all, the first share takes everything.
+ */
+export function allocateByWeight(amount: number, weights: number[]): number[] {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (totalWeight <= 0) return weights.map((_, index) => (index === 0 ? amount : 0));
+
+  const shares = weights.map(weight => Math.floor(amount * weight / totalWeight));
+  const remainder = amount - shares.reduce((sum, share) => sum + share, 0);
+  shares[weights.indexOf(Math.max(...weights))] += remainder;
+  return shares;
+}
+
+/**
+ * Break a calculated budget down by phase. Furnishings are summed per room; contingency, freight and
+ * sales tax follow each phase's furnishings (taxable goods for tax) and flat add-ons follow mid-tier furnishings.
+ * Rooms without a known phase are collected in an Unscheduled phase at the end.
+ */
+export function buildPhaseBreakdown(
+  budget: Budget,
+  rooms: RoomWithItems[],
+  phases: EstimatePhase[],
+  addOns?: PhaseAddOns
+): PhaseBreakdown[] {
+  const named = phases.map((phase, index) => ({ ...phase, name: getPhaseName(phase, index) }));
+  const scheduled = sortPhases(named).map(phase => ({
+    phaseId: phase.id as string | null,
+    name: phase.name,
+    ...(phase.targetDate ? { targetDate: phase.targetDate } : {}),
+  }));
+  const groups = [...scheduled, { phaseId: null, name: UNSCHEDULED_PHASE_NAME }].map(phase => ({
+    ...phase,
+    rooms: [] as RoomBreakdown[],
+    subtotal: emptyTiers(),
+  }));
+  const unscheduled = groups[groups.length - 1];
+
+  budget.roomBreakdown.forEach((room) => {
+    const phaseId = rooms[room.roomIndex]?.phaseId;
+    const group = groups.find(candidate => candidate.phaseId !== null && candidate.phaseId === phaseId) ?? unscheduled;
+    group.rooms.push(room);
+    TIERS.forEach((tier) => {
+      group.subtotal[tier] += room[`${tier}Amount` as const];
+    });
+  });
+
+  const shown = unscheduled.rooms.length > 0 ? groups : groups.slice(0, -1);
+  const contingency = shown.map(emptyTiers);
+  const addOnShares = shown.map(emptyTiers);
+
+  TIERS.forEach((tier) => {
+    const furnishings = shown.map(group => group.subtotal[tier]);
+    allocateByWeight(budget[tier].contingency, furnishings).forEach((share, index) => {
+      contingency[index][tier] = share;
+    });
+    if (!addOns) return;
+
+    const taxableGoods = shown.map(group => calculateTaxableGoods(group.rooms, addOns.items, addOns.taxableCategories)[tier]);
+    const flat = allocateByWeight(addOns.flat, shown.map(group => group.subtotal.mid));
+    const freight = allocateByWeight(addOns.freight[tier], furnishings);
+    const salesTax = allocateByWeight(addOns.salesTax[tier], taxableGoods);
+    shown.forEach((_, index) => {
+      addOnShares[index][tier] = flat[index] + freight[index] + salesTax[index];
+    });
+  });
+
+  const cumulative = emptyTiers();
+  return shown.map(({ rooms: phaseRooms, ...group }, index): PhaseBreakdown => {
+    const total = emptyTiers();
+    TIERS.forEach((tier) => {
+      total[tier] = group.subtotal[tier] + contingency[index][tier] + addOnShares[index][tier];
+      cumulative[tier] += total[tier];
+    });
+    return {
+      ...group,
+      roomIndexes: phaseRooms.map(room => room.roomIndex),
+      contingency: contingency[index],
+      addOns: addOnShares[index],
+      total,
+      cumulative: { ...cumulative },
+    };
+  });
+}
+
+/**
+ * Assign a room to a phase, or unschedule it. Firestore rejects undefined, so the key is removed instead.
+ */
+export function assignRoomPhase(room: RoomWithItems, phaseId?: string): RoomWithItems {
+  if (phaseId) return { ...room, phaseId };
+  const unscheduled = { ...room };
+  delete unscheduled.phaseId;
+  return unscheduled;
+}
+
+/**
+ * Display a YYYY-MM-DD target date, e.g. "Jun 1, 2026"
+ */
+export function formatPhaseDate(targetDate: string): string {
+  return fromDateInputValue(targetDate)?.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' }) ?? targetDate;
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+  canTransitionEstimateStatus,
+  createStatusChange,
+  getStatusAfterOwnerView,
+  isOwnerView,
+  parseStatusHistory,
+} from './estimateStatus';
+
+describe('estimate status transitions', () => {
+  it('allows moving forward through the pipeline and reopening closed estimates', () => {
+    expect(canTransitionEstimateStatus('submitted', 'viewed')).toBe(true);
+    expect(canTransitionEstimateStatus('viewed', 'contacted')).toBe(true);
+    expect(canTransitionEstimateStatus('contacted', 'closed')).toBe(true);
+    expect(canTransitionEstimateStatus('closed', 'contacted')).toBe(true);
+  });
+
+  it('rejects moving back to draft or skipping backwards', () => {
+    expect(canTransitionEstimateStatus('submitted', 'draft')).toBe(false);
+    expect(canTransitionEstimateStatus('contacted', 'viewed')).toBe(false);
+    expect(canTransitionEstimateStatus('closed', 'submitted')).toBe(false);
+    expect(createStatusChange('closed', 'draft')).toBeNull();
+  });
+
+  it('records who made a change only when known', () => {
+    const changedAt = new Date('2025-03-01T10:00:00Z');
+
+    expect(createStatusChange('viewed', 'contacted', 'admin@example.com', changedAt)).toEqual({
+      from: 'viewed',
+      to: 'contacted',
+      changedAt,
+      changedBy: 'admin@example.com',
+    });
+    expect(createStatusChange('submitted', 'viewed', undefined, changedAt)).toEqual({ from: 'submitted', to: 'viewed', changedAt });
+  });
+});
+
+describe('owner views', () => {
+  it('only counts views by the estimate owner', () => {
+    expect(isOwnerView({ ownerUid: 'user-1' }, 'user-1')).toBe(true);
+    expect(isOwnerView({ ownerUid: 'user-1' }, 'admin-1')).toBe(false);
+    expect(isOwnerView({ ownerUid: undefined }, undefined)).toBe(false);
+  });
+
+  it('moves only submitted estimates to viewed', () => {
+    expect(getStatusAfterOwnerView('submitted')).toBe('viewed');
+    expect(getStatusAfterOwnerView('contacted')).toBe('contacted');
+    expect(getStatusAfterOwnerView('closed')).toBe('closed');
+  });
+});
+
+describe('parseStatusHistory', () => {
+  it('converts timestamps and sorts oldest first', () => {
+    const later = new Date('2025-03-02T00:00:00Z');
+    const earlier = new Date('2025-03-01T00:00:00Z');
+    const history = parseStatusHistory([
+      { from: 'viewed', to: 'contacted', changedAt: { toDate: () => later } },
+      { from: 'submitted', to: 'viewed', changedAt: earlier.toISOString() },
+    ]);
+
+    expect(history?.map(change => change.to)).toEqual(['viewed', 'contacted']);
+    expect(history?.[0].changedAt).toEqual(earlier);
+    expect(parseStatusHistory(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,76 @@
+// Estimate status pipeline: labels, allowed transitions and view tracking
+import type { Estimate, EstimateStatus, EstimateStatusChange } from '../types';
+
+// Pipeline order, used for kanban columns
+export const ESTIMATE_STATUSES: EstimateStatus[] = ['draft', 'submitted', 'viewed', 'contacted', 'closed'];
+
+export const ESTIMATE_STATUS_LABELS: Record<EstimateStatus, string> = {
+  draft: 'Draft',
+  submitted: 'Submitted',
+  viewed: 'Viewed',
+  contacted: 'Contacted',
+  closed: 'Closed',
+};
+
+export const ESTIMATE_STATUS_BADGE_CLASSES: Record<EstimateStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  submitted: 'bg-blue-100 text-blue-800',
+  viewed: 'bg-indigo-100 text-indigo-800',
+  contacted: 'bg-amber-100 text-amber-800',
+  closed: 'bg-green-100 text-green-800',
+};
+
+// Statuses an admin can move an estimate to from each status. Closed estimates can be reopened
+// as contacted; nothing moves back to draft once submitted.
+const ESTIMATE_STATUS_TRANSITIONS: Record<EstimateStatus, EstimateStatus[]> = {
+  draft: ['submitted'],
+  submitted: ['viewed', 'contacted', 'closed'],
+  viewed: ['contacted', 'closed'],
+  contacted: ['closed'],
+  closed: ['contacted'],
+};
+
+export function getAllowedStatusTransitions(status: EstimateStatus): EstimateStatus[] {
+  return ESTIMATE_STATUS_TRANSITIONS[status] ?? [];
+}
+
+export function canTransitionEstimateStatus(from: EstimateStatus, to: EstimateStatus): boolean {
+  return getAllowedStatusTransitions(from).includes(to);
+}
+
+/**
+ * Build the history entry for a status change, or null if the transition isn't allowed
+ */
+export function createStatusChange(from: EstimateStatus, to: EstimateStatus, changedBy?: string, changedAt = new Date()): EstimateStatusChange | null {
+  if (!canTransitionEstimateStatus(from, to)) return null;
+  return { from, to, changedAt, ...(changedBy ? { changedBy } : {}) };
+}
+
+/**
+ * Views count only when the estimate's owner opens it; admins reviewing it don't
+ */
+export function isOwnerView(estimate: Pick<Estimate, 'ownerUid'>, viewerUid: string | undefined): boolean {
+  return !!viewerUid && estimate.ownerUid === viewerUid;
+}
+
+/**
+ * The first owner view of a submitted estimate moves it to viewed
+ */
+export function getStatusAfterOwnerView(status: EstimateStatus): EstimateStatus {
+  return status === 'submitted' ? 'viewed' : status;
+}
+
+const toDate = (value: unknown): Date => {
+  const timestamp = value as { toDate?: () => Date } | undefined;
+  return timestamp?.toDate ? timestamp.toDate() : new Date(value as string);
+};
+
+/**
+ * Convert stored status history (Firestore timestamps) into dated entries, oldest first
+ */
+export function parseStatusHistory(raw: unknown): EstimateStatusChange[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  return raw
+    .map((entry: EstimateStatusChange) => ({ ...entry, changedAt: toDate(entry.changedAt) }))
+    .sort((a, b) => a.changedAt.getTime() - b.changedAt.getTime());
+}
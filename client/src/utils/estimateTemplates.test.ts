@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import type { Estimate } from '../types';
+import { buildEstimateDuplicate, buildProjectTemplate, summarizeProjectTemplate } from './estimateTemplates';
+
+const estimate = {
+  id: 'source',
+  clientInfo: { firstName: 'Ada', lastName: 'Lovelace', email: 'ada@example.com', phone: '' },
+  propertySpecs: { squareFootage: 3200, guestCapacity: 14, notes: 'Lake access', location: { state: 'CO' } },
+  rooms: [
+    {
+      roomType: 'bedroom',
+      roomSize: 'large',
+      quantity: 6,
+      displayName: 'Bedroom',
+      items: [{ itemId: 'bed', quantity: 1, name: 'Bed', lowPrice: 90000, vendorId: 'acme' }],
+    },
+  ],
+  status: 'closed',
+  statusHistory: [{ from: 'contacted', to: 'closed', changedAt: new Date() }],
+  source: 'direct',
+  viewCount: 7,
+  syncedToHighLevel: true,
+  toolId: 'budget-estimator',
+  ownerUid: 'client',
+  assignedTo: 'admin',
+  pricingMarkupPercent: 15,
+  customRangeEnabled: true,
+  customRangeLowPercent: 5,
+  customProjectAddOns: { fuel: 20000 },
+  priceSnapshot: { capturedAt: new Date(), items: {} },
+} as unknown as Estimate;
+
+describe('buildEstimateDuplicate', () => {
+  it('copies rooms, overrides, custom range and add-ons into a draft for the new owner', () => {
+    const duplicate = buildEstimateDuplicate(estimate, 'admin-uid');
+
+    expect(duplicate).toMatchObject({
+      status: 'draft',
+      source: 'duplicate',
+      viewCount: 0,
+      syncedToHighLevel: false,
+      ownerUid: 'admin-uid',
+      duplicatedFrom: 'source',
+      pricingMarkupPercent: 15,
+      customRangeEnabled: true,
+      customRangeLowPercent: 5,
+      customProjectAddOns: { fuel: 20000 },
+    });
+    expect(duplicate.rooms).toEqual(estimate.rooms);
+    expect(duplicate.rooms).not.toBe(estimate.rooms);
+  });
+
+  it('leaves out history, assignment and the price snapshot, and never sets undefined fields', () => {
+    const duplicate = buildEstimateDuplicate(estimate, 'admin-uid');
+    expect(duplicate).not.toHaveProperty('statusHistory');
+    expect(duplicate).not.toHaveProperty('assignedTo');
+    expect(duplicate).not.toHaveProperty('priceSnapshot');
+    expect(Object.values(duplicate).every(value => value !== undefined)).toBe(true);
+  });
+});
+
+describe('buildProjectTemplate', () => {
+  it('keeps the property size and room layout without client details or pricing', () => {
+    const template = buildProjectTemplate(estimate, '  6BR mountain cabin ', '', 'admin@example.com');
+    expect(template).toEqual({
+      name: '6BR mountain cabin',
+      propertySpecs: { squareFootage: 3200, guestCapacity: 14 },
+      rooms: [{ roomType: 'bedroom', roomSize: 'large', quantity: 6, displayName: 'Bedroom', items: [{ itemId: 'bed', quantity: 1, name: 'Bed' }] }],
+      sourceEstimateId: 'source',
+      createdBy: 'admin@example.com',
+    });
+  });
+});
+
+describe('summarizeProjectTemplate', () => {
+  it('counts rooms by quantity', () => {
+    expect(summarizeProjectTemplate(buildProjectTemplate(estimate, 'Cabin'))).toBe('6 rooms · 3,200 sqft · sleeps 14');
+  });
+});
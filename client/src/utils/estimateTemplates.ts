@@ -0,0 +1,79 @@
+// Copies of existing estimates: duplicate drafts and reusable project templates
+import type { Estimate, ProjectTemplate, PropertySpecs, RoomWithItems } from '../types';
+import { getVersionSnapshot } from './estimateVersions';
+
+export type EstimateDuplicate = Pick<
+  Estimate,
+  'clientInfo' | 'rooms' | 'status' | 'source' | 'viewCount' | 'syncedToHighLevel' | 'toolId' | 'ownerUid' | 'duplicatedFrom'
+> & Partial<Estimate>;
+
+export type ProjectTemplateDraft = Omit<ProjectTemplate, 'id' | 'createdAt'>;
+
+/**
+ * Build a new draft from an estimate: rooms, pricing overrides, custom range and add-ons are copied;
+ * status, history, assignment, purchasing and the price snapshot start fresh.
+ */
+export function buildEstimateDuplicate(estimate: Estimate, ownerUid: string): EstimateDuplicate {
+  // Firestore rejects undefined, so only copy the editable fields that are set
+  const copied = Object.fromEntries(
+    Object.entries(getVersionSnapshot(estimate)).filter(([, value]) => value !== undefined)
+  ) as Partial<Estimate>;
+
+  return {
+    ...copied,
+    rooms: structuredClone(estimate.rooms ?? []),
+    clientInfo: { ...estimate.clientInfo },
+    ...(estimate.propertySpecs ? { propertySpecs: structuredClone(estimate.propertySpecs) } : {}),
+    status: 'draft',
+    source: 'duplicate',
+    viewCount: 0,
+    syncedToHighLevel: false,
+    toolId: estimate.toolId ?? 'budget-estimator',
+    ownerUid,
+    duplicatedFrom: estimate.id,
+  };
+}
+
+/**
+ * Build a project template from an estimate's property size and room layout. Client details and
+ * per-estimate pricing are left out; new estimates price from the current library.
+ */
+export function buildProjectTemplate(
+  estimate: Pick<Estimate, 'id' | 'propertySpecs' | 'rooms'>,
+  name: string,
+  description?: string,
+  createdBy?: string
+): ProjectTemplateDraft {
+  // Notes and location describe the original property, not the layout
+  const propertySpecs: PropertySpecs = {
+    squareFootage: estimate.propertySpecs?.squareFootage ?? 0,
+    guestCapacity: estimate.propertySpecs?.guestCapacity ?? 0,
+  };
+  const rooms = (estimate.rooms ?? []).map((room): RoomWithItems => ({
+    roomType: room.roomType,
+    roomSize: room.roomSize,
+    quantity: room.quantity,
+    displayName: room.displayName,
+    items: (room.items ?? []).map(({ itemId, quantity, name: itemName }) => ({ itemId, quantity, ...(itemName ? { name: itemName } : {}) })),
+  }));
+
+  return {
+    name: name.trim(),
+    ...(description?.trim() ? { description: description.trim() } : {}),
+    propertySpecs,
+    rooms,
+    sourceEstimateId: estimate.id,
+    ...(createdBy ? { createdBy } : {}),
+  };
+}
+
+/**
+ * Short summary shown on template cards, e.g. "6 rooms · 3,200 sqft · sleeps 14"
+ */
+export function summarizeProjectTemplate(template: Pick<ProjectTemplate, 'propertySpecs' | 'rooms'>): string {
+  const roomCount = template.rooms.reduce((sum, room) => sum + room.quantity, 0);
+  const parts = [`${roomCount} room${roomCount === 1 ? '' : 's'}`];
+  if (template.propertySpecs.squareFootage) parts.push(`${template.propertySpecs.squareFootage.toLocaleString()} sqft`);
+  if (template.propertySpecs.guestCapacity) parts.push(`sleeps ${template.propertySpecs.guestCapacity}`);
+  return parts.join(' · ');
+}
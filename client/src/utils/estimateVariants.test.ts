@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import type { Estimate, RoomWithItems } from '../types';
+import {
+  PRIMARY_VARIANT_ID,
+  addEstimateVariant,
+  closeEstimateVariant,
+  getEstimateVariants,
+  openEstimateVariant,
+  removeEstimateVariant,
+  renameEstimateVariant,
+  selectEstimateVariant,
+} from './estimateVariants';
+import { createRoom } from '../test/fixtures';
+
+const createFurnishedRoom = (roomType: string, quantity = 1): RoomWithItems => createRoom(roomType, {
+  quantity,
+  items: [{ itemId: 'sofa', quantity: 1 }],
+});
+
+const estimate = {
+  id: 'estimate-1',
+  rooms: [createFurnishedRoom('living_room'), createFurnishedRoom('bedroom', 4)],
+  customProjectAddOns: { installation: 50000 },
+  variants: [{ id: 'bedrooms', name: 'Bedrooms only', rooms: [createFurnishedRoom('bedroom', 4)] }],
+} as unknown as Estimate;
+
+describe('getEstimateVariants', () => {
+  it('lists the main option first under its default name', () => {
+    const variants = getEstimateVariants(estimate);
+    expect(variants.map(variant => [variant.id, variant.name])).toEqual([
+      [PRIMARY_VARIANT_ID, 'Option 1'],
+      ['bedrooms', 'Bedrooms only'],
+    ]);
+    expect(variants[0].customProjectAddOns).toEqual({ installation: 50000 });
+  });
+});
+
+describe('selectEstimateVariant', () => {
+  it('prices an option with its own rooms and add-ons, falling back to the main option', () => {
+    const selected = selectEstimateVariant(estimate, 'bedrooms');
+    expect(selected.rooms).toHaveLength(1);
+    expect(selected.customProjectAddOns).toBeUndefined();
+    expect(selectEstimateVariant(estimate, 'missing')).toBe(estimate);
+  });
+});
+
+describe('openEstimateVariant / closeEstimateVariant', () => {
+  it('round-trips edits made to an open option back to the saved shape', () => {
+    const opened = openEstimateVariant(estimate, 'bedrooms');
+    expect(opened.rooms).toEqual([createFurnishedRoom('bedroom', 4)]);
+
+    const closed = closeEstimateVariant({ ...opened, rooms: [createFurnishedRoom('bedroom', 2)], customProjectAddOns: { fuel: 1000 } }, 'bedrooms');
+    expect(closed.rooms).toEqual(estimate.rooms);
+    expect(closed.customProjectAddOns).toEqual({ installation: 50000 });
+    expect(closed.variants).toEqual([
+      { id: 'bedrooms', name: 'Bedrooms only', rooms: [createFurnishedRoom('bedroom', 2)], customProjectAddOns: { fuel: 1000 } },
+    ]);
+    expect(closed.primaryVariantName).toBeUndefined();
+  });
+
+  it('leaves an estimate that was never opened unchanged', () => {
+    expect(closeEstimateVariant(estimate, PRIMARY_VARIANT_ID)).toBe(estimate);
+  });
+});
+
+describe('addEstimateVariant', () => {
+  it('copies the source option so later edits do not touch it', () => {
+    const { estimate: added, variantId } = addEstimateVariant(estimate, ' Phase 1 ');
+    const variant = added.variants!.find(entry => entry.id === variantId)!;
+
+    expect(variant.name).toBe('Phase 1');
+    expect(variant.rooms).toEqual(estimate.rooms);
+    expect(variant.rooms).not.toBe(estimate.rooms);
+    expect(variant.customProjectAddOns).toEqual({ installation: 50000 });
+  });
+});
+
+describe('renameEstimateVariant / removeEstimateVariant', () => {
+  it('renames the main option through primaryVariantName', () => {
+    expect(renameEstimateVariant(estimate, PRIMARY_VARIANT_ID, 'Full furnish').primaryVariantName).toBe('Full furnish');
+    expect(renameEstimateVariant(estimate, 'bedrooms', '  ').variants).toBe(estimate.variants);
+  });
+
+  it('clears the variants field once the last option is removed', () => {
+    expect(removeEstimateVariant(estimate, 'bedrooms').variants).toBeUndefined();
+  });
+});
@@ -0,0 +1,119 @@
+// Scenario variants: named alternatives to an estimate's rooms and add-ons, presented together to the client
+import type { Estimate, EstimateVariant } from '../types';
+
+// The main scenario is the estimate's own rooms and customProjectAddOns
+export const PRIMARY_VARIANT_ID = 'primary';
+export const DEFAULT_PRIMARY_VARIANT_NAME = 'Option 1';
+
+type VariantFields = Pick<Estimate, 'rooms' | 'customProjectAddOns' | 'primaryVariantName' | 'variants'>;
+
+// Firestore rejects undefined, including inside arrays, so add-ons are only set when present
+const toVariant = (
+  id: string,
+  name: string,
+  rooms: EstimateVariant['rooms'],
+  customProjectAddOns?: EstimateVariant['customProjectAddOns']
+): EstimateVariant => ({
+  id,
+  name,
+  rooms,
+  ...(customProjectAddOns ? { customProjectAddOns } : {}),
+});
+
+/**
+ * Every scenario of an estimate, the main one first
+ */
+export function getEstimateVariants(estimate: VariantFields): EstimateVariant[] {
+  return [
+    toVariant(
+      PRIMARY_VARIANT_ID,
+      estimate.primaryVariantName || DEFAULT_PRIMARY_VARIANT_NAME,
+      estimate.rooms ?? [],
+      estimate.customProjectAddOns
+    ),
+    ...(estimate.variants ?? []),
+  ];
+}
+
+/**
+ * The estimate as priced for one scenario: its rooms and add-on overrides replace the main ones.
+ * Unknown IDs fall back to the main scenario.
+ */
+export function selectEstimateVariant<T extends VariantFields>(estimate: T, variantId: string): T {
+  const variant = variantId === PRIMARY_VARIANT_ID ? undefined : estimate.variants?.find(entry => entry.id === variantId);
+  if (!variant) return estimate;
+  return { ...estimate, rooms: variant.rooms, customProjectAddOns: variant.customProjectAddOns };
+}
+
+/**
+ * Load a scenario into the estimate's rooms and add-ons for editing. The returned variants list holds
+ * every scenario, the main one included, until closeEstimateVariant puts them back.
+ */
+export function openEstimateVariant<T extends VariantFields>(estimate: T, variantId: string): T {
+  const variants = getEstimateVariants(estimate);
+  const variant = variants.find(entry => entry.id === variantId) ?? variants[0];
+  return { ...estimate, rooms: variant.rooms, customProjectAddOns: variant.customProjectAddOns, variants };
+}
+
+/**
+ * Store the edited rooms and add-ons back on the open scenario and return the estimate in its saved
+ * shape: the main scenario in rooms and customProjectAddOns, the others in variants.
+ */
+export function closeEstimateVariant<T extends VariantFields>(estimate: T, variantId: string): T {
+  const variants = (estimate.variants ?? []).map(variant =>
+    variant.id === variantId ? toVariant(variant.id, variant.name, estimate.rooms, estimate.customProjectAddOns) : variant
+  );
+  const primary = variants.find(variant => variant.id === PRIMARY_VARIANT_ID);
+  if (!primary) return estimate;
+
+  const others = variants.filter(variant => variant.id !== PRIMARY_VARIANT_ID);
+  return {
+    ...estimate,
+    rooms: primary.rooms,
+    customProjectAddOns: primary.customProjectAddOns,
+    primaryVariantName: primary.name === DEFAULT_PRIMARY_VARIANT_NAME ? undefined : primary.name,
+    variants: others.length > 0 ? others : undefined,
+  };
+}
+
+/**
+ * Add a scenario starting from a copy of an existing one. Returns the saved-shape estimate and the new ID.
+ */
+export function addEstimateVariant<T extends VariantFields>(
+  estimate: T,
+  name: string,
+  copyFromId: string = PRIMARY_VARIANT_ID
+): { estimate: T; variantId: string } {
+  const source = getEstimateVariants(estimate).find(variant => variant.id === copyFromId) ?? getEstimateVariants(estimate)[0];
+  const variantId = `variant_${Date.now()}`;
+  const variant = toVariant(
+    variantId,
+    name.trim() || `Option ${(estimate.variants?.length ?? 0) + 2}`,
+    structuredClone(source.rooms),
+    source.customProjectAddOns ? { ...source.customProjectAddOns } : undefined
+  );
+  return { estimate: { ...estimate, variants: [...(estimate.variants ?? []), variant] }, variantId };
+}
+
+/**
+ * Rename a scenario; renaming the main one sets primaryVariantName
+ */
+export function renameEstimateVariant<T extends VariantFields>(estimate: T, variantId: string, name: string): T {
+  const trimmed = name.trim();
+  if (!trimmed) return estimate;
+  if (variantId === PRIMARY_VARIANT_ID) {
+    return { ...estimate, primaryVariantName: trimmed === DEFAULT_PRIMARY_VARIANT_NAME ? undefined : trimmed };
+  }
+  return {
+    ...estimate,
+    variants: (estimate.variants ?? []).map(variant => (variant.id === variantId ? { ...variant, name: trimmed } : variant)),
+  };
+}
+
+/**
+ * Remove a scenario. The main scenario cannot be removed.
+ */
+export function removeEstimateVariant<T extends VariantFields>(estimate: T, variantId: string): T {
+  const variants = (estimate.variants ?? []).filter(variant => variant.id !== variantId);
+  return { ...estimate, variants: variants.length > 0 ? variants : undefined };
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import type { Estimate, RoomWithItems } from '../types';
+import { applyVersionSnapshot, describeFieldChange, diffEstimates, getEditAction, getVersionSnapshot, summarizeFieldChanges, toVersionDocument } from './estimateVersions';
+import { createRoom } from '../test/fixtures';
+
+const createFurnishedRoom = (roomType: string, overrides: Partial<RoomWithItems> = {}): RoomWithItems => createRoom(roomType, {
+  items: [{ itemId: 'sofa', quantity: 1, name: 'Sofa' }],
+  ...overrides,
+});
+
+const createEstimate = (overrides: Partial<Estimate> = {}): Estimate => ({
+  id: 'estimate-1',
+  rooms: [createFurnishedRoom('living_room'), createFurnishedRoom('bedroom')],
+  ...overrides,
+} as Estimate);
+
+describe('diffEstimates', () => {
+  it('reports room and item changes by path', () => {
+    const before = createEstimate();
+    const after = createEstimate({
+      rooms: [
+        createFurnishedRoom('living_room', { quantity: 2, items: [{ itemId: 'sofa', quantity: 3, name: 'Sofa', lowPrice: 50000 }] }),
+        createFurnishedRoom('bedroom', { roomSize: 'large' }),
+      ],
+    });
+
+    expect(diffEstimates(before, after)).toEqual([
+      { field: 'rooms.living_room#1.quantity', label: 'Living Room quantity', before: 1, after: 2 },
+      { field: 'rooms.living_room#1.items.sofa.quantity', label: 'Living Room › Sofa quantity', before: 1, after: 3 },
+      { field: 'rooms.living_room#1.items.sofa.lowPrice', label: 'Living Room › Sofa low price', before: null, after: 50000, unit: 'cents' },
+      { field: 'rooms.bedroom#1.roomSize', label: 'Bedroom size', before: 'medium', after: 'large' },
+    ]);
+  });
+
+  it('reports chosen room and item tiers by name', () => {
+    const before = createEstimate();
+    const after = createEstimate({
+      rooms: [
+        createFurnishedRoom('living_room', { tier: 'high', items: [{ itemId: 'sofa', quantity: 1, name: 'Sofa', tier: 'low' }] }),
+        createFurnishedRoom('bedroom'),
+      ],
+    });
+
+    expect(diffEstimates(before, after)).toEqual([
+      { field: 'rooms.living_room#1.tier', label: 'Living Room quality', before: null, after: 'High-End Quality' },
+      { field: 'rooms.living_room#1.items.sofa.tier', label: 'Living Room › Sofa quality', before: null, after: 'Low Quality' },
+    ]);
+  });
+
+  it('matches repeated room types by occurrence', () => {
+    const before = createEstimate({ rooms: [createFurnishedRoom('bedroom')] });
+    const after = createEstimate({ rooms: [createFurnishedRoom('bedroom'), createFurnishedRoom('bedroom')] });
+    expect(diffEstimates(before, after)).toEqual([
+      { field: 'rooms.bedroom#2', label: 'Bedroom 2', before: null, after: 'medium' },
+    ]);
+  });
+
+  it('reports settings and cleared overrides', () => {
+    const before = createEstimate({ pricingMarkupPercent: 20, customProjectAddOns: { fuel: 10000 } });
+    const after = createEstimate({ currency: 'CAD', customProjectAddOns: {} });
+    expect(diffEstimates(before, after).map(change => [change.field, change.before, change.after])).toEqual([
+      ['currency', null, 'CAD'],
+      ['pricingMarkupPercent', 20, null],
+      ['customProjectAddOns.fuel', 10000, null],
+    ]);
+  });
+
+  it('reports added options and changes inside an option, prefixed with its name', () => {
+    const variant = { id: 'v1', name: 'Bedrooms only', rooms: [createFurnishedRoom('bedroom')] };
+    const before = createEstimate({ variants: [variant] });
+    const after = createEstimate({
+      variants: [
+        { ...variant, rooms: [createFurnishedRoom('bedroom', { quantity: 2 })], customProjectAddOns: { fuel: 10000 } },
+        { id: 'v2', name: 'Phase 1', rooms: [] },
+      ],
+    });
+
+    const changes = diffEstimates(before, after);
+    expect(changes).toEqual([
+      { field: 'variants.v1.rooms.bedroom#1.quantity', label: 'Bedrooms only › Bedroom quantity', before: 1, after: 2 },
+      { field: 'variants.v1.customProjectAddOns.fuel', label: 'Bedrooms only › Fuel override', before: null, after: 10000, unit: 'cents' },
+      { field: 'variants.v2', label: 'Option', before: null, after: 'Phase 1' },
+    ]);
+    expect(describeFieldChange(changes[2])).toBe('Added option "Phase 1"');
+  });
+
+  it('returns nothing for identical estimates', () => {
+    expect(diffEstimates(createEstimate(), createEstimate())).toEqual([]);
+  });
+});
+
+describe('getEditAction', () => {
+  it('uses the specific room actions when a save only adds, removes, resizes or requantifies rooms', () => {
+    const base = createEstimate();
+    expect(getEditAction(diffEstimates(base, createEstimate({ rooms: [...base.rooms, createFurnishedRoom('bedroom')] })))).toBe('room_added');
+    expect(getEditAction(diffEstimates(base, createEstimate({ rooms: [base.rooms[0]] })))).toBe('room_removed');
+    expect(getEditAction(diffEstimates(base, createEstimate({ rooms: [createFurnishedRoom('living_room', { quantity: 3 }), base.rooms[1]] })))).toBe('room_quantity_changed');
+    expect(getEditAction(diffEstimates(base, createEstimate({ rooms: [createFurnishedRoom('living_room', { roomSize: 'small' }), base.rooms[1]] })))).toBe('room_size_changed');
+    expect(getEditAction(diffEstimates(base, createEstimate({ pricingMarkupPercent: 10 })))).toBe('room_items_modified');
+  });
+});
+
+describe('applyVersionSnapshot', () => {
+  it('replaces every editable field, clearing ones the version did not set', () => {
+    const current = createEstimate({ pricingMarkupPercent: 25, currency: 'CAD' });
+    const restored = applyVersionSnapshot(current, getVersionSnapshot(createEstimate({ rooms: [createFurnishedRoom('bedroom')] })));
+    expect(restored.id).toBe('estimate-1');
+    expect(restored.rooms).toHaveLength(1);
+    expect(restored.pricingMarkupPercent).toBeUndefined();
+    expect(restored.currency).toBeUndefined();
+  });
+});
+
+describe('toVersionDocument', () => {
+  it('drops undefined fields for Firestore', () => {
+    expect(toVersionDocument(getVersionSnapshot(createEstimate({ contingencyPolicy: null })))).toEqual({
+      rooms: createEstimate().rooms,
+      contingencyPolicy: null,
+    });
+  });
+});
+
+describe('describeFieldChange', () => {
+  it('formats prices, percentages and room additions', () => {
+    expect(describeFieldChange({ field: 'customProjectAddOns.fuel', label: 'Fuel override', before: null, after: 10000, unit: 'cents' })).toBe('Fuel override: — → $100');
+    expect(describeFieldChange({ field: 'pricingMarkupPercent', label: 'Markup', before: 20, after: 25, unit: 'percent' })).toBe('Markup: 20% → 25%');
+    expect(describeFieldChange({ field: 'rooms.bedroom#2', label: 'Bedroom 2', before: null, after: 'medium' })).toBe('Added Bedroom 2');
+  });
+});
+
+describe('summarizeFieldChanges', () => {
+  it('describes the first change and counts the rest', () => {
+    const changes = diffEstimates(createEstimate({ pricingMarkupPercent: 20 }), createEstimate({ pricingMarkupPercent: 25, currency: 'CAD' }));
+    expect(summarizeFieldChanges(changes)).toBe('Currency: — → CAD and 1 more change');
+    expect(summarizeFieldChanges(changes.slice(1))).toBe('Markup: 20% → 25%');
+    expect(summarizeFieldChanges([])).toBe('');
+  });
+});
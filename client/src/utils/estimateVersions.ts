@@ -0,0 +1,284 @@
+// Field-level diffs between estimate versions, used for edit history and restoring prior versions
+import type {
+  ContingencyPolicy,
+  CurrencyCode,
+  EditHistoryEntry,
+  Estimate,
+  EstimateFieldChange,
+  EstimateVersionSnapshot,
+  Item,
+  QualityTier,
+  RoomWithItems,
+} from '../types';
+import { QUALITY_TIERS } from '../types';
+import { formatCurrency, getRoomItemDisplayName } from './calculations';
+import { getPricingStrategy } from './pricingStrategies';
+
+type ChangeValue = EstimateFieldChange['before'];
+
+const ADD_ON_LABELS: Record<string, string> = {
+  installation: 'Installation',
+  fuel: 'Fuel',
+  storageAndReceiving: 'Storage & Receiving',
+  kitchen: 'Kitchen',
+  propertyManagement: 'Property Management',
+};
+
+const CONTINGENCY_MODE_LABELS: Record<ContingencyPolicy['mode'], string> = {
+  none: 'None',
+  percentOfFurnishings: 'of furnishings',
+  percentOfProject: 'of project',
+  fixed: 'Fixed',
+};
+
+/**
+ * Copy the editable fields of an estimate. Every key is present, so spreading the result over an
+ * estimate also clears fields the snapshot does not set.
+ */
+export function getVersionSnapshot(estimate: EstimateVersionSnapshot): EstimateVersionSnapshot {
+  return {
+    rooms: estimate.rooms,
+    currency: estimate.currency,
+    pricingStrategy: estimate.pricingStrategy,
+    pricingTierMultipliers: estimate.pricingTierMultipliers,
+    pricingMarkupPercent: estimate.pricingMarkupPercent,
+    customRangeEnabled: estimate.customRangeEnabled,
+    customRangeLowPercent: estimate.customRangeLowPercent,
+    customRangeHighPercent: estimate.customRangeHighPercent,
+    contingencyPolicy: estimate.contingencyPolicy,
+    customProjectAddOns: estimate.customProjectAddOns,
+    primaryVariantName: estimate.primaryVariantName,
+    variants: estimate.variants,
+    phases: estimate.phases,
+  };
+}
+
+/**
+ * Key rooms by type and occurrence, so the second living room only ever compares with the second living room
+ */
+function keyRooms(rooms: RoomWithItems[]): Map<string, RoomWithItems> {
+  const occurrences = new Map<string, number>();
+  const keyed = new Map<string, RoomWithItems>();
+  rooms.forEach(room => {
+    const occurrence = (occurrences.get(room.roomType) ?? 0) + 1;
+    occurrences.set(room.roomType, occurrence);
+    keyed.set(`${room.roomType}#${occurrence}`, room);
+  });
+  return keyed;
+}
+
+const roomLabel = (room: RoomWithItems, key: string): string => {
+  const occurrence = Number(key.split('#')[1]);
+  return occurrence > 1 ? `${room.displayName} ${occurrence}` : room.displayName;
+};
+
+const toValue = (value: string | number | boolean | null | undefined): ChangeValue => value ?? null;
+
+function describeContingency(policy?: ContingencyPolicy | null): string | null {
+  if (!policy) return null;
+  const overrides = policy.perTier && Object.keys(policy.perTier).length > 0 ? ' (per-tier overrides)' : '';
+  if (policy.mode === 'none') return CONTINGENCY_MODE_LABELS.none;
+  if (policy.mode === 'fixed') return `${CONTINGENCY_MODE_LABELS.fixed} ${policy.amountCents ?? 0}${overrides}`;
+  return `${policy.percent ?? 0}% ${CONTINGENCY_MODE_LABELS[policy.mode]}${overrides}`;
+}
+
+const phaseName = (phaseId: string | undefined, phases: EstimateVersionSnapshot['phases']): ChangeValue =>
+  phaseId ? phases?.find(phase => phase.id === phaseId)?.name ?? phaseId : null;
+
+const tierName = (tier: QualityTier | undefined): ChangeValue => (tier ? QUALITY_TIERS[tier].name : null);
+
+const addOnLabel = (key: string): string =>
+  ADD_ON_LABELS[key] ?? key.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/^\w/, (l: string) => l.toUpperCase());
+
+/**
+ * List every field that differs between two versions of an estimate
+ */
+export function diffEstimates(
+  before: EstimateVersionSnapshot,
+  after: EstimateVersionSnapshot,
+  items?: Map<string, Item>
+): EstimateFieldChange[] {
+  const changes: EstimateFieldChange[] = [];
+  const push = (field: string, label: string, from: ChangeValue, to: ChangeValue, unit?: EstimateFieldChange['unit']) => {
+    if (from !== to) changes.push({ field, label, before: from, after: to, ...(unit ? { unit } : {}) });
+  };
+
+  const beforeRooms = keyRooms(before.rooms ?? []);
+  const afterRooms = keyRooms(after.rooms ?? []);
+  const roomKeys = [...new Set([...beforeRooms.keys(), ...afterRooms.keys()])];
+
+  roomKeys.forEach(key => {
+    const fromRoom = beforeRooms.get(key);
+    const toRoom = afterRooms.get(key);
+    const field = `rooms.${key}`;
+    if (!fromRoom || !toRoom) {
+      const room = (fromRoom ?? toRoom) as RoomWithItems;
+      push(field, roomLabel(room, key), fromRoom ? fromRoom.roomSize : null, toRoom ? toRoom.roomSize : null);
+      return;
+    }
+
+    const label = roomLabel(toRoom, key);
+    push(`${field}.quantity`, `${label} quantity`, fromRoom.quantity, toRoom.quantity);
+    push(`${field}.roomSize`, `${label} size`, fromRoom.roomSize, toRoom.roomSize);
+    push(`${field}.phaseId`, `${label} phase`, phaseName(fromRoom.phaseId, before.phases), phaseName(toRoom.phaseId, after.phases));
+    push(`${field}.tier`, `${label} quality`, tierName(fromRoom.tier), tierName(toRoom.tier));
+
+    const fromItems = new Map(fromRoom.items.map(roomItem => [roomItem.itemId, roomItem]));
+    const toItems = new Map(toRoom.items.map(roomItem => [roomItem.itemId, roomItem]));
+    [...new Set([...fromItems.keys(), ...toItems.keys()])].forEach(itemId => {
+      const fromItem = fromItems.get(itemId);
+      const toItem = toItems.get(itemId);
+      const itemLabel = `${label} › ${getRoomItemDisplayName((toItem ?? fromItem)!, items?.get(itemId))}`;
+      const itemField = `${field}.items.${itemId}`;
+      push(`${itemField}.quantity`, `${itemLabel} quantity`, toValue(fromItem?.quantity), toValue(toItem?.quantity));
+      if (fromItem && toItem) {
+        push(`${itemField}.lowPrice`, `${itemLabel} low price`, toValue(fromItem.lowPrice), toValue(toItem.lowPrice), 'cents');
+        push(`${itemField}.midPrice`, `${itemLabel} mid price`, toValue(fromItem.midPrice), toValue(toItem.midPrice), 'cents');
+        push(`${itemField}.vendorId`, `${itemLabel} vendor`, toValue(fromItem.vendorId), toValue(toItem.vendorId));
+        push(`${itemField}.tier`, `${itemLabel} quality`, tierName(fromItem.tier), tierName(toItem.tier));
+      }
+    });
+  });
+
+  push('currency', 'Currency', toValue(before.currency), toValue(after.currency));
+  push(
+    'pricingStrategy',
+    'Pricing strategy',
+    before.pricingStrategy ? getPricingStrategy({ pricingStrategy: before.pricingStrategy }).label : null,
+    after.pricingStrategy ? getPricingStrategy({ pricingStrategy: after.pricingStrategy }).label : null
+  );
+  (Object.keys(QUALITY_TIERS) as QualityTier[]).forEach(tier => {
+    push(
+      `pricingTierMultipliers.${tier}`,
+      `${QUALITY_TIERS[tier].name} multiplier`,
+      toValue(before.pricingTierMultipliers?.[tier]),
+      toValue(after.pricingTierMultipliers?.[tier])
+    );
+  });
+  push('pricingMarkupPercent', 'Markup', toValue(before.pricingMarkupPercent), toValue(after.pricingMarkupPercent), 'percent');
+  push('customRangeEnabled', 'Custom range', toValue(before.customRangeEnabled), toValue(after.customRangeEnabled));
+  push('customRangeLowPercent', 'Custom range low', toValue(before.customRangeLowPercent), toValue(after.customRangeLowPercent), 'percent');
+  push('customRangeHighPercent', 'Custom range high', toValue(before.customRangeHighPercent), toValue(after.customRangeHighPercent), 'percent');
+  if (JSON.stringify(before.contingencyPolicy ?? null) !== JSON.stringify(after.contingencyPolicy ?? null)) {
+    changes.push({
+      field: 'contingencyPolicy',
+      label: 'Contingency',
+      before: describeContingency(before.contingencyPolicy),
+      after: describeContingency(after.contingencyPolicy),
+    });
+  }
+
+  const addOnKeys = [...new Set([...Object.keys(before.customProjectAddOns ?? {}), ...Object.keys(after.customProjectAddOns ?? {})])];
+  addOnKeys.forEach(key => {
+    push(
+      `customProjectAddOns.${key}`,
+      `${addOnLabel(key)} override`,
+      toValue(before.customProjectAddOns?.[key]),
+      toValue(after.customProjectAddOns?.[key]),
+      'cents'
+    );
+  });
+
+  const beforePhases = new Map((before.phases ?? []).map(phase => [phase.id, phase]));
+  const afterPhases = new Map((after.phases ?? []).map(phase => [phase.id, phase]));
+  [...new Set([...beforePhases.keys(), ...afterPhases.keys()])].forEach(phaseId => {
+    const fromPhase = beforePhases.get(phaseId);
+    const toPhase = afterPhases.get(phaseId);
+    const field = `phases.${phaseId}`;
+    if (!fromPhase || !toPhase) {
+      push(field, 'Phase', fromPhase ? fromPhase.name : null, toPhase ? toPhase.name : null);
+      return;
+    }
+    push(`${field}.name`, `${fromPhase.name} phase name`, fromPhase.name, toPhase.name);
+    push(`${field}.targetDate`, `${toPhase.name} target date`, toValue(fromPhase.targetDate), toValue(toPhase.targetDate));
+  });
+
+  // Scenario variants are matched by ID; changes inside one are prefixed with its name
+  push('primaryVariantName', 'Main option name', toValue(before.primaryVariantName), toValue(after.primaryVariantName));
+  const beforeVariants = new Map((before.variants ?? []).map(variant => [variant.id, variant]));
+  const afterVariants = new Map((after.variants ?? []).map(variant => [variant.id, variant]));
+  [...new Set([...beforeVariants.keys(), ...afterVariants.keys()])].forEach(variantId => {
+    const fromVariant = beforeVariants.get(variantId);
+    const toVariant = afterVariants.get(variantId);
+    const field = `variants.${variantId}`;
+    if (!fromVariant || !toVariant) {
+      push(field, 'Option', fromVariant ? fromVariant.name : null, toVariant ? toVariant.name : null);
+      return;
+    }
+
+    push(`${field}.name`, `${fromVariant.name} name`, fromVariant.name, toVariant.name);
+    // Phases are shared by every option, so they are only compared once
+    diffEstimates(
+      { rooms: fromVariant.rooms, customProjectAddOns: fromVariant.customProjectAddOns, phases: after.phases },
+      { rooms: toVariant.rooms, customProjectAddOns: toVariant.customProjectAddOns, phases: after.phases },
+      items
+    ).forEach(change => changes.push({ ...change, field: `${field}.${change.field}`, label: `${toVariant.name} › ${change.label}` }));
+  });
+
+  return changes;
+}
+
+/**
+ * Format one side of a change for display
+ */
+export function formatChangeValue(change: EstimateFieldChange, value: EstimateFieldChange['before'], currency?: CurrencyCode): string {
+  if (value === null) return '—';
+  if (typeof value === 'boolean') return value ? 'On' : 'Off';
+  if (typeof value === 'number' && change.unit === 'cents') return formatCurrency(value, currency);
+  if (typeof value === 'number' && change.unit === 'percent') return `${value}%`;
+  return String(value);
+}
+
+/**
+ * One-line summary of a change, e.g. "Living Room › Sofa quantity: 1 → 2"
+ */
+export function describeFieldChange(change: EstimateFieldChange, currency?: CurrencyCode): string {
+  if (/^(variants\.[^.]+\.)?rooms\.[^.]+$/.test(change.field)) {
+    return change.before === null ? `Added ${change.label}` : `Removed ${change.label}`;
+  }
+  if (/^variants\.[^.]+$/.test(change.field)) {
+    return change.before === null ? `Added option "${change.after}"` : `Removed option "${change.before}"`;
+  }
+  if (/^phases\.[^.]+$/.test(change.field)) {
+    return change.before === null ? `Added phase "${change.after}"` : `Removed phase "${change.before}"`;
+  }
+  return `${change.label}: ${formatChangeValue(change, change.before, currency)} → ${formatChangeValue(change, change.after, currency)}`;
+}
+
+/**
+ * One-line summary of a save, e.g. "Living Room quantity: 1 → 2 and 2 more changes"
+ */
+export function summarizeFieldChanges(changes: EstimateFieldChange[], currency?: CurrencyCode): string {
+  const [first, ...rest] = changes;
+  if (!first) return '';
+  const description = describeFieldChange(first, currency);
+  return rest.length === 0 ? description : `${description} and ${rest.length} more change${rest.length === 1 ? '' : 's'}`;
+}
+
+/**
+ * Pick the most specific edit history action for a set of changes
+ */
+export function getEditAction(changes: EstimateFieldChange[]): EditHistoryEntry['action'] {
+  const roomFields = changes.filter(change => /^rooms\.[^.]+$/.test(change.field));
+  if (roomFields.length === changes.length && roomFields.length > 0) {
+    if (roomFields.every(change => change.before === null)) return 'room_added';
+    if (roomFields.every(change => change.after === null)) return 'room_removed';
+  }
+  if (changes.length > 0 && changes.every(change => /^rooms\.[^.]+\.quantity$/.test(change.field))) return 'room_quantity_changed';
+  if (changes.length > 0 && changes.every(change => /^rooms\.[^.]+\.roomSize$/.test(change.field))) return 'room_size_changed';
+  return 'room_items_modified';
+}
+
+/**
+ * Apply a stored version to an estimate, replacing all of its editable fields
+ */
+export function applyVersionSnapshot(estimate: Estimate, snapshot: EstimateVersionSnapshot): Estimate {
+  return { ...estimate, ...getVersionSnapshot(snapshot) };
+}
+
+/**
+ * Drop undefined values so a snapshot can be written to Firestore
+ */
+export function toVersionDocument(snapshot: EstimateVersionSnapshot): Partial<EstimateVersionSnapshot> {
+  return Object.fromEntries(Object.entries(snapshot).filter(([, value]) => value !== undefined));
+}
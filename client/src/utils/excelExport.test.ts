@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
+import type { Estimate, RoomTemplate, RoomWithItems } from '../types';
+import { calculateEstimate } from './calculations';
+import { createItem, createItemsMap, createRoom } from '../test/fixtures';
+import { buildEstimateWorkbook, toSheetName } from './excelExport';
+
+// Prices stop rising after mid-range
+const items = createItemsMap([
+  createItem('sofa', { name: 'Sectional Sofa', lowPrice: 100000, midPrice: 150000, midHighPrice: 150000, highPrice: 150000 }),
+  createItem('lamp', { name: 'Floor Lamp', lowPrice: 5000, midPrice: 8000, midHighPrice: 8000, highPrice: 8000 }),
+]);
+
+const rooms: RoomWithItems[] = [
+  createRoom('living_room', { quantity: 2, items: [{ itemId: 'sofa', quantity: 1 }, { itemId: 'lamp', quantity: 2 }] }),
+  createRoom('bedroom', { roomSize: 'small', items: [{ itemId: 'lamp', quantity: 1 }] }),
+];
+
+const estimate: Estimate = {
+  id: 'estimate-1',
+  clientInfo: { firstName: 'Jamie', lastName: 'Rivera', email: 'jamie@example.com' },
+  propertySpecs: { squareFootage: 2400, guestCapacity: 8 },
+  rooms,
+  status: 'submitted',
+  source: 'direct',
+  viewCount: 0,
+  syncedToHighLevel: false,
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+};
+
+describe('buildEstimateWorkbook', () => {
+  const budget = calculateEstimate(rooms, new Map<string, RoomTemplate>(), items);
+  const workbook = buildEstimateWorkbook(estimate, budget);
+
+  it('adds a summary sheet and one sheet per room', () => {
+    expect(workbook.SheetNames).toEqual(['Summary', 'Living Room', 'Bedroom']);
+  });
+
+  it('uses formulas for quantities and item totals', () => {
+    const sheet = workbook.Sheets['Living Room'];
+
+    expect(sheet.B3.v).toBe(2);
+    expect(sheet.C7.f).toBe('B7*$B$3');
+    expect(sheet.C7.v).toBe(2);
+    expect(sheet.H7.f).toBe('C7*D7');
+    expect(sheet.H8.v).toBe(2200);
+    expect(sheet.H8.f).toBe('SUM(H6:H7)');
+  });
+
+  it('sums room sheets into the summary furnishings totals', () => {
+    const summary = XLSX.utils.sheet_to_json<string[]>(workbook.Sheets.Summary, { header: 1 });
+    const furnishingsRow = summary.findIndex(row => row[0] === 'Furnishings') + 1;
+    const cell = workbook.Sheets.Summary[`B${furnishingsRow}`];
+
+    expect(cell.f).toBe("'Living Room'!H8+'Bedroom'!H7");
+    expect(cell.v).toBe(budget.low.subtotal / 100);
+  });
+});
+
+describe('toSheetName', () => {
+  it('strips invalid characters and keeps names unique', () => {
+    const used = new Set(['summary']);
+
+    expect(toSheetName('Bunk Room [Kids]', used)).toBe('Bunk Room  Kids');
+    expect(toSheetName('Summary', used)).toBe('Summary (2)');
+    expect(toSheetName('A'.repeat(40), used)).toHaveLength(31);
+  });
+});
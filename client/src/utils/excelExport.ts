@@ -0,0 +1,224 @@
+// Excel workbook export for estimates
+import * as XLSX from 'xlsx';
+import type { Budget, CurrencyCode, Estimate, ProjectBudget, QualityTier, RoomBreakdown } from '../types';
+import { QUALITY_TIERS } from '../types';
+import { BASE_CURRENCY, getCurrencySymbol } from './currency';
+
+type SheetCell = string | number | XLSX.CellObject | null;
+
+const TIERS: QualityTier[] = ['low', 'mid', 'midHigh', 'high'];
+const SUMMARY_SHEET_NAME = 'Summary';
+const MAX_SHEET_NAME_LENGTH = 31;
+
+// Room sheet layout: room quantity lives in B3 and items start below the header row
+const ROOM_QUANTITY_CELL = '$B$3';
+const ROOM_HEADER_ROW = 5;
+const FIRST_ITEM_ROW = ROOM_HEADER_ROW + 1;
+const QTY_PER_ROOM_COLUMN = 'B';
+const TOTAL_QTY_COLUMN = 'C';
+const UNIT_PRICE_COLUMNS: Record<QualityTier, string> = { low: 'D', mid: 'E', midHigh: 'F', high: 'G' };
+const TOTAL_COLUMNS: Record<QualityTier, string> = { low: 'H', mid: 'I', midHigh: 'J', high: 'K' };
+
+// Summary sheet columns for each tier
+const SUMMARY_TIER_COLUMNS: Record<QualityTier, string> = { low: 'B', mid: 'C', midHigh: 'D', high: 'E' };
+
+function isProjectBudget(budget: Budget | ProjectBudget): budget is ProjectBudget {
+  return 'projectRange' in budget;
+}
+
+const toDollars = (cents: number): number => Math.round(cents) / 100;
+
+function getMoneyFormat(currency: CurrencyCode): string {
+  return `"${getCurrencySymbol(currency)}"#,##0.00`;
+}
+
+function moneyCell(cents: number, format: string): XLSX.CellObject {
+  return { t: 'n', v: toDollars(cents), z: format };
+}
+
+function formulaCell(formula: string, cachedValue: number, format?: string): XLSX.CellObject {
+  return { t: 'n', f: formula, v: cachedValue, ...(format ? { z: format } : {}) };
+}
+
+/**
+ * Make a sheet name Excel accepts: no []:*?/\ characters, at most 31 characters, and unique in the workbook
+ */
+export function toSheetName(name: string, usedNames: Set<string>): string {
+  const base = (name.replace(/[[\]:*?/\\]/g, ' ').replace(/^'+|'+$/g, '').trim() || 'Room').slice(0, MAX_SHEET_NAME_LENGTH);
+  let sheetName = base;
+  let suffix = 2;
+  while (usedNames.has(sheetName.toLowerCase())) {
+    const tag = ` (${suffix++})`;
+    sheetName = `${base.slice(0, MAX_SHEET_NAME_LENGTH - tag.length)}${tag}`;
+  }
+  usedNames.add(sheetName.toLowerCase());
+  return sheetName;
+}
+
+function sheetReference(sheetName: string, cell: string): string {
+  return `'${sheetName.replace(/'/g, "''")}'!${cell}`;
+}
+
+/**
+ * Build a room sheet where total quantities and prices are live formulas.
+ * Returns the row holding the room totals so the summary can reference it.
+ */
+function buildRoomSheet(room: RoomBreakdown, format: string): { sheet: XLSX.WorkSheet; totalsRow: number } {
+  const items = [...room.items].sort((a, b) => a.name.localeCompare(b.name));
+  const rows: SheetCell[][] = [
+    ['Room', room.displayName ?? room.roomType],
+    ['Size', room.roomSize],
+    ['Room Quantity', room.quantity],
+    [],
+    [
+      'Item',
+      'Qty per Room',
+      'Total Qty',
+      ...TIERS.map(tier => `${QUALITY_TIERS[tier].name} Unit Price`),
+      ...TIERS.map(tier => `${QUALITY_TIERS[tier].name} Total`),
+    ],
+  ];
+
+  items.forEach((item, index) => {
+    const row = FIRST_ITEM_ROW + index;
+    rows.push([
+      item.name,
+      item.quantity,
+      formulaCell(`${QTY_PER_ROOM_COLUMN}${row}*${ROOM_QUANTITY_CELL}`, item.totalQuantity),
+      ...TIERS.map(tier => moneyCell(item.unitPrices[tier], format)),
+      ...TIERS.map(tier => formulaCell(`${TOTAL_QTY_COLUMN}${row}*${UNIT_PRICE_COLUMNS[tier]}${row}`, toDollars(item.totals[tier]), format)),
+    ]);
+  });
+
+  const totalsRow = FIRST_ITEM_ROW + items.length;
+  const lastItemRow = totalsRow - 1;
+  const roomAmounts: Record<QualityTier, number> = {
+    low: room.lowAmount,
+    mid: room.midAmount,
+    midHigh: room.midHighAmount,
+    high: room.highAmount,
+  };
+  rows.push([
+    'Room Total',
+    null,
+    null,
+    null,
+    null,
+    null,
+    null,
+    ...TIERS.map(tier => (items.length > 0
+      ? formulaCell(`SUM(${TOTAL_COLUMNS[tier]}${FIRST_ITEM_ROW}:${TOTAL_COLUMNS[tier]}${lastItemRow})`, toDollars(roomAmounts[tier]), format)
+      : moneyCell(0, format))),
+  ]);
+
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  sheet['!cols'] = [{ wch: 36 }, { wch: 12 }, { wch: 10 }, ...Array.from({ length: 8 }, () => ({ wch: 16 }))];
+  return { sheet, totalsRow };
+}
+
+/**
+ * Build the estimate workbook: a summary sheet plus one sheet per room.
+ * Furnishings totals on the summary are formulas over the room sheets, so quantity changes flow through.
+ */
+export function buildEstimateWorkbook(estimate: Estimate, budget: Budget | ProjectBudget): XLSX.WorkBook {
+  const currency = estimate.currency ?? BASE_CURRENCY;
+  const format = getMoneyFormat(currency);
+  const workbook = XLSX.utils.book_new();
+  const usedNames = new Set([SUMMARY_SHEET_NAME.toLowerCase()]);
+
+  const roomSheets = budget.roomBreakdown.map((room) => {
+    const { sheet, totalsRow } = buildRoomSheet(room, format);
+    return { name: toSheetName(room.displayName ?? room.roomType, usedNames), sheet, totalsRow };
+  });
+
+  const { clientInfo, propertySpecs } = estimate;
+  const location = [propertySpecs.location?.state, propertySpecs.location?.zip].filter(Boolean).join(' ');
+  const rows: SheetCell[][] = [
+    ['Estimate', isProjectBudget(budget) ? 'Project Budget' : 'Furnishings Budget'],
+    ['Client', `${clientInfo.firstName} ${clientInfo.lastName}`],
+    ['Email', clientInfo.email],
+    ['Square Footage', propertySpecs.squareFootage],
+    ['Guest Capacity', propertySpecs.guestCapacity],
+    ...(location ? [['Location', location]] : []),
+    ...(isProjectBudget(budget) && budget.region ? [['Pricing Region', budget.region.name]] : []),
+    ['Currency', currency],
+    [],
+    ['', ...TIERS.map(tier => QUALITY_TIERS[tier].name)],
+  ];
+
+  const firstAmountRow = rows.length + 1;
+  rows.push([
+    'Furnishings',
+    ...TIERS.map((tier) => {
+      const formula = roomSheets.map(({ name, totalsRow }) => sheetReference(name, `${TOTAL_COLUMNS[tier]}${totalsRow}`)).join('+');
+      return formula ? formulaCell(formula, toDollars(budget[tier].subtotal), format) : moneyCell(0, format);
+    }),
+  ]);
+
+  const addAmountRow = (label: string, amounts: Record<QualityTier, number>) => {
+    rows.push([label, ...TIERS.map(tier => moneyCell(amounts[tier], format))]);
+  };
+  const sameForAllTiers = (amount: number): Record<QualityTier, number> => ({ low: amount, mid: amount, midHigh: amount, high: amount });
+
+  if (isProjectBudget(budget)) {
+    budget.designFees.forEach(fee => addAmountRow(fee.label, sameForAllTiers(fee.amount)));
+    const { projectAddOns } = budget;
+    addAmountRow('Installation', sameForAllTiers(projectAddOns.installation));
+    addAmountRow('Fuel', sameForAllTiers(projectAddOns.fuel));
+    addAmountRow('Storage & Receiving', sameForAllTiers(projectAddOns.storageAndReceiving));
+    addAmountRow('Kitchen', sameForAllTiers(projectAddOns.kitchen));
+    addAmountRow('Property Management', sameForAllTiers(projectAddOns.propertyManagement));
+    if (projectAddOns.freight.high > 0) {
+      addAmountRow('Freight', projectAddOns.freight);
+    }
+    if (projectAddOns.salesTax.high > 0) {
+      addAmountRow('Sales Tax', projectAddOns.salesTax);
+    }
+  }
+
+  const contingency: Record<QualityTier, number> = {
+    low: budget.low.contingency,
+    mid: budget.mid.contingency,
+    midHigh: budget.midHigh.contingency,
+    high: budget.high.contingency,
+  };
+  if (TIERS.some(tier => contingency[tier] > 0)) {
+    addAmountRow('Contingency', contingency);
+  }
+
+  const lastAmountRow = rows.length;
+  rows.push([
+    isProjectBudget(budget) ? 'Project Total' : 'Total',
+    ...TIERS.map((tier) => {
+      const column = SUMMARY_TIER_COLUMNS[tier];
+      const total = isProjectBudget(budget) ? budget.projectRange[tier] : budget[tier].total;
+      return formulaCell(`SUM(${column}${firstAmountRow}:${column}${lastAmountRow})`, toDollars(total), format);
+    }),
+  ]);
+  rows.push([]);
+  rows.push(['Furnishings totals follow the room sheets. Add-ons, tax and contingency are as estimated and do not recalculate.']);
+
+  const summarySheet = XLSX.utils.aoa_to_sheet(rows);
+  summarySheet['!cols'] = [{ wch: 28 }, ...TIERS.map(() => ({ wch: 16 }))];
+
+  XLSX.utils.book_append_sheet(workbook, summarySheet, SUMMARY_SHEET_NAME);
+  roomSheets.forEach(({ name, sheet }) => XLSX.utils.book_append_sheet(workbook, sheet, name));
+  return workbook;
+}
+
+/**
+ * Build the download filename for an estimate workbook
+ */
+export function getEstimateWorkbookFilename(estimate: Estimate, date = new Date()): string {
+  const clientName = estimate.clientInfo.firstName && estimate.clientInfo.lastName
+    ? `${estimate.clientInfo.firstName}_${estimate.clientInfo.lastName}`
+    : 'Estimate';
+  return `Budget_Estimate_${clientName}_${date.toISOString().split('T')[0]}.xlsx`;
+}
+
+/**
+ * Build the estimate workbook and download it
+ */
+export function exportEstimateToExcel(estimate: Estimate, budget: Budget | ProjectBudget): void {
+  XLSX.writeFile(buildEstimateWorkbook(estimate, budget), getEstimateWorkbookFilename(estimate));
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import type { Estimate } from '../types';
+import { countDueFollowUps, fromDateInputValue, getFollowUpBucket, groupFollowUps, toDateInputValue } from './followUps';
+
+const now = new Date(2025, 2, 10, 15, 30);
+
+const createEstimate = (id: string, followUpDate?: Date, status: Estimate['status'] = 'contacted'): Estimate => ({
+  id,
+  status,
+  ...(followUpDate ? { followUpDate } : {}),
+} as Estimate);
+
+describe('getFollowUpBucket', () => {
+  it('compares calendar days, ignoring the time of day', () => {
+    expect(getFollowUpBucket(new Date(2025, 2, 9, 23, 59), now)).toBe('overdue');
+    expect(getFollowUpBucket(new Date(2025, 2, 10), now)).toBe('today');
+    expect(getFollowUpBucket(new Date(2025, 2, 10, 23, 0), now)).toBe('today');
+    expect(getFollowUpBucket(new Date(2025, 2, 11), now)).toBe('upcoming');
+  });
+});
+
+describe('groupFollowUps', () => {
+  it('groups open estimates with follow-ups and sorts each group soonest first', () => {
+    const estimates = [
+      createEstimate('later', new Date(2025, 2, 20)),
+      createEstimate('soon', new Date(2025, 2, 12)),
+      createEstimate('late', new Date(2025, 2, 1)),
+      createEstimate('today', new Date(2025, 2, 10)),
+      createEstimate('none'),
+      createEstimate('closed', new Date(2025, 2, 1), 'closed'),
+    ];
+
+    const groups = groupFollowUps(estimates, now);
+
+    expect(groups.overdue.map(estimate => estimate.id)).toEqual(['late']);
+    expect(groups.today.map(estimate => estimate.id)).toEqual(['today']);
+    expect(groups.upcoming.map(estimate => estimate.id)).toEqual(['soon', 'later']);
+    expect(countDueFollowUps(estimates, now)).toBe(2);
+  });
+});
+
+describe('date input values', () => {
+  it('round-trips local calendar dates', () => {
+    expect(toDateInputValue(new Date(2025, 0, 5))).toBe('2025-01-05');
+    expect(fromDateInputValue('2025-01-05')).toEqual(new Date(2025, 0, 5));
+    expect(fromDateInputValue('')).toBeUndefined();
+  });
+});
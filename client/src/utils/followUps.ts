@@ -0,0 +1,68 @@
+// Follow-up queue: bucket assigned estimates by when their follow-up is due
+import type { Estimate } from '../types';
+
+export type FollowUpBucket = 'overdue' | 'today' | 'upcoming';
+
+export const FOLLOW_UP_BUCKETS: FollowUpBucket[] = ['overdue', 'today', 'upcoming'];
+
+export const FOLLOW_UP_BUCKET_LABELS: Record<FollowUpBucket, string> = {
+  overdue: 'Overdue',
+  today: 'Due Today',
+  upcoming: 'Upcoming',
+};
+
+export type FollowUpEstimate = Estimate & { followUpDate: Date };
+
+const startOfDay = (date: Date): number => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+
+/**
+ * Follow-up dates are whole days, so anything earlier than today is overdue
+ */
+export function getFollowUpBucket(followUpDate: Date, now = new Date()): FollowUpBucket {
+  const due = startOfDay(followUpDate);
+  const today = startOfDay(now);
+  if (due < today) return 'overdue';
+  if (due === today) return 'today';
+  return 'upcoming';
+}
+
+/**
+ * Open estimates with a follow-up date, grouped by bucket and sorted soonest first.
+ * Closed estimates need no follow-up and are left out.
+ */
+export function groupFollowUps(estimates: Estimate[], now = new Date()): Record<FollowUpBucket, FollowUpEstimate[]> {
+  const groups: Record<FollowUpBucket, FollowUpEstimate[]> = { overdue: [], today: [], upcoming: [] };
+
+  estimates
+    .filter((estimate): estimate is FollowUpEstimate => !!estimate.followUpDate && estimate.status !== 'closed')
+    .sort((a, b) => a.followUpDate.getTime() - b.followUpDate.getTime())
+    .forEach(estimate => groups[getFollowUpBucket(estimate.followUpDate, now)].push(estimate));
+
+  return groups;
+}
+
+/**
+ * Number of follow-ups that need attention now (overdue or due today)
+ */
+export function countDueFollowUps(estimates: Estimate[], now = new Date()): number {
+  const groups = groupFollowUps(estimates, now);
+  return groups.overdue.length + groups.today.length;
+}
+
+/**
+ * Value for a date input, in local time
+ */
+export function toDateInputValue(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Parse a date input value as local midnight, or undefined when blank or invalid
+ */
+export function fromDateInputValue(value: string): Date | undefined {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return undefined;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
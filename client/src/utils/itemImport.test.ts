@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
+import { buildItemLibraryWorkbook, guessColumnMapping, parseItemSheet, parsePriceCell, planItemImport, validateTierOrder } from './itemImport';
+import { createItem } from '../test/fixtures';
+
+const existingItems = [createItem('accent_chair', { name: 'Accent Chair' }), createItem('throw_pillow', { name: 'Throw Pillow', category: 'Accessories' })];
+
+const csvToArrayBuffer = (csv: string): ArrayBuffer => new TextEncoder().encode(csv).buffer as ArrayBuffer;
+
+describe('parseItemSheet and guessColumnMapping', () => {
+  it('reads CSV rows and maps common headers', () => {
+    const sheet = parseItemSheet(csvToArrayBuffer('Item Name,Category,Low,Mid,Mid High Price,High\nSide Table,Furniture,"$1,200",1500,1800,2400\n,,,,,\n'));
+
+    expect(sheet.rows).toHaveLength(1);
+    expect(sheet.rows[0]['Low']).toBe('$1,200');
+    expect(guessColumnMapping(sheet.headers)).toEqual({
+      name: 'Item Name',
+      category: 'Category',
+      lowPrice: 'Low',
+      midPrice: 'Mid',
+      midHighPrice: 'Mid High Price',
+      highPrice: 'High',
+    });
+  });
+});
+
+describe('price validation', () => {
+  it('parses dollar amounts into cents', () => {
+    expect(parsePriceCell('$1,250.50')).toBe(125050);
+    expect(parsePriceCell('n/a')).toBeNull();
+  });
+
+  it('requires tiers to be in ascending order', () => {
+    expect(validateTierOrder({ lowPrice: 100, midPrice: 100, midHighPrice: 200, highPrice: 300 })).toBeNull();
+    expect(validateTierOrder({ lowPrice: 100, midPrice: 300, midHighPrice: 200, highPrice: 300 }))
+      .toBe('Mid Price must not be more than Mid/High Price');
+  });
+});
+
+describe('planItemImport', () => {
+  const mapping = guessColumnMapping(['ID', 'Name', 'Category', 'Low Price', 'Mid Price', 'Mid/High Price', 'High Price']);
+  const row = (id: string, name: string, category: string, prices: string[]) => ({
+    'ID': id,
+    'Name': name,
+    'Category': category,
+    'Low Price': prices[0],
+    'Mid Price': prices[1],
+    'Mid/High Price': prices[2],
+    'High Price': prices[3],
+  });
+
+  it('classifies creates, updates and unchanged rows', () => {
+    const plan = planItemImport([
+      row('', 'Floor Lamp', 'Lighting', ['50', '80', '120', '200']),
+      row('accent_chair', 'Accent Chair', 'Furniture', ['100', '250', '300', '400']),
+      row('throw_pillow', '', '', ['', '', '', '']),
+    ], mapping, existingItems);
+
+    expect(plan.rows.map(r => r.action)).toEqual(['create', 'update', 'unchanged']);
+    expect(plan.rows[0].id).toBe('floor_lamp');
+    expect(plan.rows[0].data?.lowPrice).toBe(5000);
+    expect(plan.rows[1].changedFields).toEqual(['midPrice']);
+    expect(plan.counts).toMatchObject({ create: 1, update: 1, unchanged: 1 });
+  });
+
+  it('flags invalid prices, tier order and missing create fields', () => {
+    const plan = planItemImport([
+      row('', 'Rug', 'Decor', ['300', '200', '400', '500']),
+      row('', 'Mirror', 'Decor', ['abc', '200', '400', '500']),
+      row('', 'Ottoman', 'Furniture', ['100', '', '', '']),
+    ], mapping, existingItems);
+
+    expect(plan.rows.every(r => r.action === 'invalid')).toBe(true);
+    expect(plan.rows[0].messages).toEqual(['Low Price must not be more than Mid Price']);
+    expect(plan.rows[1].messages[0]).toContain('not a valid price');
+    expect(plan.rows[2].messages).toContain('Missing High Price');
+  });
+
+  it('reports conflicts for duplicate IDs and name clashes across categories', () => {
+    const plan = planItemImport([
+      row('', 'Throw Pillow', 'Decor', ['10', '20', '30', '40']),
+      row('side_table', 'Side Table', 'Furniture', ['10', '20', '30', '40']),
+      row('side_table', 'Side Table', 'Furniture', ['10', '20', '30', '50']),
+    ], mapping, existingItems);
+
+    expect(plan.rows.map(r => r.action)).toEqual(['conflict', 'conflict', 'conflict']);
+    expect(plan.rows[1].messages[0]).toBe('ID "side_table" appears on rows 3, 4');
+  });
+});
+
+describe('buildItemLibraryWorkbook', () => {
+  it('round-trips through the import mapping', () => {
+    const workbook = buildItemLibraryWorkbook(existingItems);
+    const buffer = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer;
+    const sheet = parseItemSheet(buffer);
+    const plan = planItemImport(sheet.rows, guessColumnMapping(sheet.headers), existingItems);
+
+    expect(sheet.headers[0]).toBe('ID');
+    expect(plan.rows.map(r => r.action)).toEqual(['unchanged', 'unchanged']);
+  });
+});
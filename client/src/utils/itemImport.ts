@@ -0,0 +1,302 @@
+// Bulk import/export of the item library as CSV or XLSX sheets
+import * as XLSX from 'xlsx';
+import type { Item } from '../types';
+
+export type ItemImportField =
+  | 'id'
+  | 'name'
+  | 'category'
+  | 'subcategory'
+  | 'lowPrice'
+  | 'midPrice'
+  | 'midHighPrice'
+  | 'highPrice'
+  | 'unit'
+  | 'reimbursementType'
+  | 'notes';
+
+export type ItemPriceField = 'lowPrice' | 'midPrice' | 'midHighPrice' | 'highPrice';
+
+export type ItemImportAction = 'create' | 'update' | 'unchanged' | 'conflict' | 'invalid';
+
+// Sheet column chosen for each item field (unmapped fields are left out)
+export type ItemColumnMapping = Partial<Record<ItemImportField, string>>;
+
+export type ItemSheetRow = Record<string, string>;
+
+export interface ItemSheet {
+  headers: string[];
+  rows: ItemSheetRow[];
+}
+
+export type ImportedItemData = Omit<Item, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface ItemImportRow {
+  rowNumber: number; // 1-based sheet row, counting the header row
+  id: string;
+  name: string;
+  action: ItemImportAction;
+  data?: ImportedItemData; // Full item as it will be saved (creates and updates)
+  changedFields: ItemImportField[];
+  messages: string[];
+}
+
+export interface ItemImportPlan {
+  rows: ItemImportRow[];
+  counts: Record<ItemImportAction, number>;
+}
+
+export const ITEM_IMPORT_FIELDS: { key: ItemImportField; label: string; aliases: string[] }[] = [
+  { key: 'id', label: 'ID', aliases: ['item id', 'slug', 'sku id'] },
+  { key: 'name', label: 'Name', aliases: ['item', 'item name', 'product', 'description'] },
+  { key: 'category', label: 'Category', aliases: [] },
+  { key: 'subcategory', label: 'Subcategory', aliases: ['sub category'] },
+  { key: 'lowPrice', label: 'Low Price', aliases: ['low', 'budget price'] },
+  { key: 'midPrice', label: 'Mid Price', aliases: ['mid'] },
+  { key: 'midHighPrice', label: 'Mid/High Price', aliases: ['mid high', 'mid high price', 'midhigh'] },
+  { key: 'highPrice', label: 'High Price', aliases: ['high', 'premium price'] },
+  { key: 'unit', label: 'Unit', aliases: ['uom'] },
+  { key: 'reimbursementType', label: 'Reimbursement Type', aliases: ['reimbursement'] },
+  { key: 'notes', label: 'Notes', aliases: ['comments'] },
+];
+
+export const ITEM_PRICE_FIELDS: ItemPriceField[] = ['lowPrice', 'midPrice', 'midHighPrice', 'highPrice'];
+
+// Same defaults as the item form
+const DEFAULT_CATEGORY = 'Furniture';
+const DEFAULT_UNIT = 'each';
+const DEFAULT_REIMBURSEMENT_TYPE = 'none';
+
+/**
+ * Create the slug used as an item's document ID
+ */
+export function createItemSlug(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Read the first sheet of a CSV or XLSX file into header names and string rows
+ */
+export function parseItemSheet(data: ArrayBuffer): ItemSheet {
+  const workbook = XLSX.read(data, { type: 'array' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) {
+    return { headers: [], rows: [] };
+  }
+
+  const [headerRow = [], ...dataRows] = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: '' });
+  const headers = headerRow.map(header => String(header).trim());
+  const rows = dataRows
+    .filter(row => row.some(cell => String(cell).trim() !== ''))
+    .map(row => Object.fromEntries(headers.map((header, i) => [header, String(row[i] ?? '').trim()])));
+
+  return { headers, rows };
+}
+
+/**
+ * Match sheet headers to item fields by label, field key or a common alias
+ */
+export function guessColumnMapping(headers: string[]): ItemColumnMapping {
+  const mapping: ItemColumnMapping = {};
+  ITEM_IMPORT_FIELDS.forEach(({ key, label, aliases }) => {
+    // Field keys are camelCase, so split them into words to match headers like "mid high price"
+    const candidates = [label, key.replace(/([A-Z])/g, ' $1'), ...aliases].map(normalizeHeader);
+    const header = headers.find(h => candidates.includes(normalizeHeader(h)));
+    if (header) {
+      mapping[key] = header;
+    }
+  });
+  return mapping;
+}
+
+/**
+ * Parse a price cell in dollars (e.g. "$1,250.00") into cents
+ */
+export function parsePriceCell(value: string): number | null {
+  const cleaned = value.replace(/[^0-9.-]/g, '');
+  if (cleaned === '' || cleaned === '-' || cleaned === '.') return null;
+  const dollars = Number(cleaned);
+  return Number.isFinite(dollars) ? Math.round(dollars * 100) : null;
+}
+
+/**
+ * Check that tier prices never decrease from low to high
+ */
+export function validateTierOrder(prices: Pick<Item, ItemPriceField>): string | null {
+  for (let i = 1; i < ITEM_PRICE_FIELDS.length; i++) {
+    const lower = ITEM_PRICE_FIELDS[i - 1];
+    const higher = ITEM_PRICE_FIELDS[i];
+    if (prices[lower] > prices[higher]) {
+      return `${getFieldLabel(lower)} must not be more than ${getFieldLabel(higher)}`;
+    }
+  }
+  return null;
+}
+
+function getFieldLabel(field: ItemImportField): string {
+  return ITEM_IMPORT_FIELDS.find(f => f.key === field)?.label ?? field;
+}
+
+function toItemData(item: Item): ImportedItemData {
+  return {
+    name: item.name,
+    category: item.category,
+    lowPrice: item.lowPrice,
+    midPrice: item.midPrice,
+    midHighPrice: item.midHighPrice,
+    highPrice: item.highPrice,
+    unit: item.unit,
+    ...(item.subcategory !== undefined ? { subcategory: item.subcategory } : {}),
+    ...(item.reimbursementType !== undefined ? { reimbursementType: item.reimbursementType } : {}),
+    ...(item.notes !== undefined ? { notes: item.notes } : {}),
+  };
+}
+
+/**
+ * Work out what importing each sheet row would do to the library.
+ * Rows are matched to items by ID (or by the slug of their name when there is no ID column).
+ * Unmapped or blank cells keep an existing item's value.
+ */
+export function planItemImport(rows: ItemSheetRow[], mapping: ItemColumnMapping, existingItems: Item[]): ItemImportPlan {
+  const itemsById = new Map(existingItems.map(item => [item.id, item]));
+  const cell = (row: ItemSheetRow, field: ItemImportField): string => {
+    const header = mapping[field];
+    return header ? (row[header] ?? '').trim() : '';
+  };
+
+  const planned: ItemImportRow[] = rows.map((row, index) => {
+    const rowNumber = index + 2;
+    const explicitId = cell(row, 'id');
+    const nameCell = cell(row, 'name');
+    const id = explicitId || createItemSlug(nameCell);
+    const existing = id ? itemsById.get(id) : undefined;
+    const messages: string[] = [];
+
+    if (!id) {
+      return { rowNumber, id, name: nameCell, action: 'invalid', changedFields: [], messages: ['Missing name or ID'] };
+    }
+
+    const base: ImportedItemData = existing
+      ? toItemData(existing)
+      : {
+        name: '',
+        category: DEFAULT_CATEGORY,
+        lowPrice: 0,
+        midPrice: 0,
+        midHighPrice: 0,
+        highPrice: 0,
+        unit: DEFAULT_UNIT,
+        reimbursementType: DEFAULT_REIMBURSEMENT_TYPE,
+      };
+    const data: ImportedItemData = { ...base };
+
+    (['name', 'category', 'subcategory', 'unit', 'reimbursementType', 'notes'] as const).forEach((field) => {
+      const value = cell(row, field);
+      if (value) {
+        data[field] = value;
+      }
+    });
+
+    ITEM_PRICE_FIELDS.forEach((field) => {
+      const raw = cell(row, field);
+      if (!raw) {
+        if (!existing) messages.push(`Missing ${getFieldLabel(field)}`);
+        return;
+      }
+      const cents = parsePriceCell(raw);
+      if (cents === null || cents < 0) {
+        messages.push(`${getFieldLabel(field)} "${raw}" is not a valid price`);
+      } else {
+        data[field] = cents;
+      }
+    });
+
+    if (!data.name) {
+      messages.push('Missing name');
+    }
+    if (messages.length === 0) {
+      const tierError = validateTierOrder(data);
+      if (tierError) messages.push(tierError);
+    }
+    if (messages.length > 0) {
+      return { rowNumber, id, name: data.name, action: 'invalid', changedFields: [], messages };
+    }
+
+    const changedFields = ITEM_IMPORT_FIELDS
+      .map(f => f.key)
+      .filter((field): field is Exclude<ItemImportField, 'id'> => field !== 'id' && data[field] !== base[field]);
+
+    if (existing && !explicitId && existing.category !== data.category) {
+      // A new name that slugs to an existing item in another category is probably a different product
+      return {
+        rowNumber,
+        id,
+        name: data.name,
+        action: 'conflict',
+        changedFields,
+        messages: [`Matches existing item "${existing.name}" in ${existing.category}; add an ID column to update it`],
+      };
+    }
+
+    const action: ItemImportAction = !existing ? 'create' : changedFields.length > 0 ? 'update' : 'unchanged';
+    return { rowNumber, id, name: data.name, action, data, changedFields: existing ? changedFields : [], messages };
+  });
+
+  // The same ID on several rows is ambiguous, so none of them are applied
+  const rowsById = new Map<string, ItemImportRow[]>();
+  planned.forEach((row) => {
+    if (row.id) rowsById.set(row.id, [...(rowsById.get(row.id) ?? []), row]);
+  });
+  rowsById.forEach((duplicates) => {
+    if (duplicates.length < 2) return;
+    const rowNumbers = duplicates.map(row => row.rowNumber).join(', ');
+    duplicates.forEach((row) => {
+      if (row.action === 'invalid') return;
+      row.action = 'conflict';
+      row.messages = [`ID "${row.id}" appears on rows ${rowNumbers}`];
+    });
+  });
+
+  const counts: Record<ItemImportAction, number> = { create: 0, update: 0, unchanged: 0, conflict: 0, invalid: 0 };
+  planned.forEach(row => counts[row.action]++);
+  return { rows: planned, counts };
+}
+
+/**
+ * Build a single-sheet workbook of the item library using the import column labels, with prices in dollars
+ */
+export function buildItemLibraryWorkbook(items: Item[]): XLSX.WorkBook {
+  const rows = [...items]
+    .sort((a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name))
+    .map(item => ({
+      'ID': item.id,
+      'Name': item.name,
+      'Category': item.category,
+      'Subcategory': item.subcategory ?? '',
+      'Low Price': item.lowPrice / 100,
+      'Mid Price': item.midPrice / 100,
+      'Mid/High Price': item.midHighPrice / 100,
+      'High Price': item.highPrice / 100,
+      'Unit': item.unit,
+      'Reimbursement Type': item.reimbursementType ?? '',
+      'Notes': item.notes ?? '',
+    }));
+
+  const sheet = XLSX.utils.json_to_sheet(rows, { header: ITEM_IMPORT_FIELDS.map(f => f.label) });
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, 'Items');
+  return workbook;
+}
+
+/**
+ * Download the item library as CSV or XLSX
+ */
+export function exportItemLibrary(items: Item[], format: 'csv' | 'xlsx'): void {
+  const date = new Date().toISOString().split('T')[0];
+  XLSX.writeFile(buildItemLibraryWorkbook(items), `item_library_${date}.${format}`, { bookType: format });
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import type { jsPDF } from 'jspdf';
+import type { Estimate, RoomTemplate, RoomWithItems } from '../types';
+import { calculateEstimate } from './calculations';
+import { createItem, createItemsMap, createRoom } from '../test/fixtures';
+import { buildComparisonPDF, buildEstimatePDF, formatComparisonCell, getEstimatePDFFilename } from './pdfGenerator';
+import { buildEstimateComparison } from './estimateComparison';
+
+// Prices stop rising after mid-range
+const items = createItemsMap([
+  createItem('sofa', { name: 'Sectional Sofa', lowPrice: 100000, midPrice: 150000, midHighPrice: 150000, highPrice: 150000 }),
+  createItem('lamp', { name: 'Floor Lamp', lowPrice: 5000, midPrice: 8000, midHighPrice: 8000, highPrice: 8000 }),
+]);
+
+const createEstimate = (rooms: RoomWithItems[]): Estimate => ({
+  id: 'estimate-1',
+  clientInfo: { firstName: 'Jamie', lastName: 'Rivera', email: 'jamie@example.com' },
+  propertySpecs: { squareFootage: 2400, guestCapacity: 8 },
+  rooms,
+  status: 'submitted',
+  source: 'direct',
+  viewCount: 0,
+  syncedToHighLevel: false,
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+});
+
+const createFurnishedRoom = (roomType: string, itemCount: number): RoomWithItems => createRoom(roomType, {
+  items: Array.from({ length: itemCount }, (_, i) => ({ itemId: i % 2 === 0 ? 'sofa' : 'lamp', quantity: i + 1 })),
+});
+
+// Text drawn on each page, read from the uncompressed page content streams
+const getPageText = (doc: jsPDF): string[] => {
+  const pages = doc.internal.pages as unknown as (string[] | null)[];
+  return pages.slice(1).map(page => (page ?? []).join('\n'));
+};
+
+describe('buildEstimatePDF', () => {
+  it('renders a cover page and the estimate details as text', () => {
+    const estimate = createEstimate([createFurnishedRoom('living_room', 2)]);
+    const budget = calculateEstimate(estimate.rooms, new Map<string, RoomTemplate>(), items);
+    const doc = buildEstimatePDF(estimate, budget);
+    const pages = getPageText(doc);
+
+    expect(doc.getNumberOfPages()).toBe(2);
+    expect(pages[0]).toContain('1584 Interior Design');
+    expect(pages[0]).toContain('Jamie Rivera');
+    expect(pages[0]).toContain('$1,100 - $1,660');
+    expect(pages[1]).toContain('Property Details');
+    expect(pages[1]).toContain('Sectional Sofa');
+    expect(pages[1]).toContain('Floor Lamp');
+    expect(pages[0]).toContain('2,400 sq ft | 8 guests | 1 room');
+    expect(pages[1]).toContain('Page 2 of 2');
+  });
+
+  it('breaks long item tables across pages', () => {
+    const estimate = createEstimate([createFurnishedRoom('great_room', 40), createFurnishedRoom('bunk_room', 40)]);
+    const budget = calculateEstimate(estimate.rooms, new Map<string, RoomTemplate>(), items);
+    const doc = buildEstimatePDF(estimate, budget);
+    const pages = getPageText(doc);
+    const pageCount = doc.getNumberOfPages();
+
+    expect(pageCount).toBeGreaterThan(3);
+    expect(pages[pageCount - 1]).toContain(`Page ${pageCount} of ${pageCount}`);
+    expect(pages.filter(page => page.includes('Bunk Room'))).toHaveLength(1);
+  });
+
+  it('omits item prices when prices are hidden', () => {
+    const estimate = createEstimate([createFurnishedRoom('living_room', 2)]);
+    const budget = calculateEstimate(estimate.rooms, new Map<string, RoomTemplate>(), items);
+    const pages = getPageText(buildEstimatePDF(estimate, budget, { hidePrices: true }));
+
+    expect(pages[1]).toContain('Sectional Sofa');
+    expect(pages[1]).not.toContain('Unit Price');
+  });
+});
+
+describe('getEstimatePDFFilename', () => {
+  it('uses the client name and date', () => {
+    const estimate = createEstimate([]);
+    expect(getEstimatePDFFilename(estimate, new Date('2024-03-05T12:00:00Z'))).toBe('Budget_Estimate_Jamie_Rivera_2024-03-05.pdf');
+  });
+});
+
+describe('buildComparisonPDF', () => {
+  it('renders one column per option with differences from the first', () => {
+    const first = createEstimate([createFurnishedRoom('living_room', 1)]);
+    const second = { ...createEstimate([createFurnishedRoom('living_room', 2)]), id: 'estimate-2' };
+    const compared = [first, second].map(estimate => ({
+      estimate,
+      budget: calculateEstimate(estimate.rooms, new Map<string, RoomTemplate>(), items),
+    }));
+    const text = getPageText(buildComparisonPDF(compared, buildEstimateComparison(compared))).join('\n');
+
+    expect(text).toContain('Budget Comparison');
+    expect(text).toContain('Option A');
+    expect(text).toContain('Option B');
+    expect(text).toContain('+$160');
+  });
+});
+
+describe('formatComparisonCell', () => {
+  it('shows the difference next to the value', () => {
+    expect(formatComparisonCell(150000, -50000, 'USD')).toBe('$1,500 (-$500)');
+    expect(formatComparisonCell(150000, 0, 'USD')).toBe('$1,500');
+    expect(formatComparisonCell(null, null, 'USD')).toBe('—');
+  });
+});
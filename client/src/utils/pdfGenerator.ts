@@ -1,58 +1,455 @@
 // PDF Generation utilities
-// TODO: Implement with jsPDF or similar library in Phase 2
+import jsPDF from 'jspdf';
+import type { Budget, CurrencyCode, Estimate, ProjectBudget, QualityTier, RoomBreakdown } from '../types';
+import { QUALITY_TIERS } from '../types';
+import { formatCurrency } from './calculations';
+import { BASE_CURRENCY } from './currency';
+import type { ComparedEstimate, EstimateComparison } from './estimateComparison';
+import { getComparisonColumnLabel } from './estimateComparison';
+import { getSelectedTotal } from './selectedTiers';
+
+export interface EstimatePDFOptions {
+  hidePrices?: boolean; // Omit item-level prices (room and project totals are still shown)
+  generatedAt?: Date;
+}
+
+const BRAND_NAME = '1584 Interior Design';
+const FOOTER_TEXT = '1584 Interior Design | contact@1584design.com';
+
+// A4 portrait, in millimetres
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 20;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const CONTENT_BOTTOM = PAGE_HEIGHT - 25; // Leave room for the footer
+const LINE_HEIGHT = 6;
+
+const BRAND_COLOR: [number, number, number] = [30, 64, 175];
+const MUTED_COLOR: [number, number, number] = [107, 114, 128];
+const TEXT_COLOR: [number, number, number] = [17, 24, 39];
+const RULE_COLOR: [number, number, number] = [209, 213, 219];
+
+const TIERS: QualityTier[] = ['low', 'mid', 'midHigh', 'high'];
+
+interface TableColumn {
+  header: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+function isProjectBudget(budget: Budget | ProjectBudget): budget is ProjectBudget {
+  return 'projectRange' in budget;
+}
 
 /**
- * Generate PDF estimate (placeholder for Phase 2)
- *
- * To implement:
- * 1. npm install jspdf jspdf-autotable
- * 2. Create styled PDF with company branding
- * 3. Include all quality tiers and room breakdowns
- * 4. Add charts/visualizations (optional)
+ * Lays out text top to bottom, starting a new page whenever content would run into the footer
  */
-export async function generateEstimatePDF(estimate: any): Promise<Blob | null> {
-  console.log('PDF Generation called for estimate:', estimate.id);
-  
-  // Placeholder implementation
-  // In Phase 2, implement with jsPDF:
-  
-  // import jsPDF from 'jspdf';
-  // import 'jspdf-autotable';
-  
-  // const doc = new jsPDF();
-  
-  // Add header with logo
-  // doc.setFontSize(20);
-  // doc.text('1584 Interior Design', 20, 20);
-  // doc.setFontSize(16);
-  // doc.text('Project Estimate', 20, 30);
-  
-  // Add client information
-  // doc.setFontSize(12);
-  // doc.text(`Client: ${estimate.clientInfo.firstName} ${estimate.clientInfo.lastName}`, 20, 50);
-  // doc.text(`Email: ${estimate.clientInfo.email}`, 20, 58);
-  
-  // Add property specs
-  // doc.text(`Property: ${estimate.propertySpecs.squareFootage} sqft, ${estimate.propertySpecs.guestCapacity} guests`, 20, 74);
-  
-  
-  // doc.autoTable({
-  //   startY: 110,
-  //   head: [['Quality Tier', 'Total Estimate']],
-  //   body: tierData,
-  // });
-  
-  // Add room breakdown for each tier
-  // (similar table format)
-  
-  // Add footer
-  // doc.setFontSize(10);
-  // doc.text('1584 Interior Design | contact@1584design.com', 20, 280);
-  
-  // return doc.output('blob');
-  
-  console.warn('PDF generation not implemented yet. Will be added in Phase 2.');
-  return null;
+class PDFWriter {
+  readonly doc: jsPDF;
+  y = MARGIN;
+
+  constructor() {
+    this.doc = new jsPDF({ orientation: 'p', unit: 'mm', format: 'a4', compress: true });
+    this.doc.setTextColor(...TEXT_COLOR);
+  }
+
+  addPage() {
+    this.doc.addPage();
+    this.y = MARGIN;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y + height > CONTENT_BOTTOM) {
+      this.addPage();
+    }
+  }
+
+  heading(text: string) {
+    this.ensureSpace(LINE_HEIGHT * 3);
+    this.y += 4;
+    this.doc.setFont('helvetica', 'bold');
+    this.doc.setFontSize(14);
+    this.doc.setTextColor(...BRAND_COLOR);
+    this.doc.text(text, MARGIN, this.y);
+    this.doc.setTextColor(...TEXT_COLOR);
+    this.y += 3;
+    this.rule();
+    this.y += LINE_HEIGHT - 1;
+  }
+
+  rule() {
+    this.doc.setDrawColor(...RULE_COLOR);
+    this.doc.line(MARGIN, this.y, PAGE_WIDTH - MARGIN, this.y);
+  }
+
+  keyValue(label: string, value: string, bold = false) {
+    this.ensureSpace(LINE_HEIGHT);
+    this.doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    this.doc.setFontSize(10);
+    this.doc.text(label, MARGIN, this.y);
+    this.doc.text(value, PAGE_WIDTH - MARGIN, this.y, { align: 'right' });
+    this.y += LINE_HEIGHT;
+  }
+
+  paragraph(text: string, fontSize = 10) {
+    this.doc.setFont('helvetica', 'normal');
+    this.doc.setFontSize(fontSize);
+    const lines = this.doc.splitTextToSize(text, CONTENT_WIDTH) as string[];
+    lines.forEach((line) => {
+      this.ensureSpace(LINE_HEIGHT);
+      this.doc.text(line, MARGIN, this.y);
+      this.y += LINE_HEIGHT - 1;
+    });
+  }
+
+  /**
+   * Draw a table, repeating the header row when it continues onto a new page
+   */
+  table(columns: TableColumn[], rows: string[][]) {
+    const drawHeader = () => {
+      this.doc.setFont('helvetica', 'bold');
+      this.doc.setFontSize(9);
+      this.doc.setFillColor(243, 244, 246);
+      this.doc.rect(MARGIN, this.y - 4, CONTENT_WIDTH, LINE_HEIGHT, 'F');
+      this.drawCells(columns, columns.map(column => [column.header]));
+      this.y += LINE_HEIGHT;
+    };
+
+    this.ensureSpace(LINE_HEIGHT * 2);
+    drawHeader();
+
+    rows.forEach((row) => {
+      this.doc.setFont('helvetica', 'normal');
+      this.doc.setFontSize(9);
+      const cells = row.map((cell, i) => this.doc.splitTextToSize(cell, columns[i].width - 2) as string[]);
+      const rowHeight = Math.max(...cells.map(lines => lines.length)) * (LINE_HEIGHT - 1.5) + 1.5;
+
+      if (this.y + rowHeight > CONTENT_BOTTOM) {
+        this.addPage();
+        drawHeader();
+        this.doc.setFont('helvetica', 'normal');
+        this.doc.setFontSize(9);
+      }
+
+      this.drawCells(columns, cells);
+      this.y += rowHeight;
+    });
+    this.y += 2;
+  }
+
+  private drawCells(columns: TableColumn[], cells: string[][]) {
+    let x = MARGIN;
+    columns.forEach((column, i) => {
+      const textX = column.align === 'right' ? x + column.width - 1 : x + 1;
+      cells[i].forEach((line, lineIndex) => {
+        this.doc.text(line, textX, this.y + lineIndex * (LINE_HEIGHT - 1.5), { align: column.align ?? 'left' });
+      });
+      x += column.width;
+    });
+  }
+}
+
+function formatRange(low: number, mid: number, currency: CurrencyCode): string {
+  return `${formatCurrency(low, currency)} - ${formatCurrency(mid, currency)}`;
+}
+
+function drawCover(writer: PDFWriter, estimate: Estimate, budget: Budget | ProjectBudget, currency: CurrencyCode, generatedAt: Date) {
+  const { doc } = writer;
+  const data = formatEstimateForPDF(estimate);
+
+  doc.setFillColor(...BRAND_COLOR);
+  doc.rect(0, 0, PAGE_WIDTH, 90, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(26);
+  doc.text(BRAND_NAME, MARGIN, 45);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(16);
+  doc.text(isProjectBudget(budget) ? 'Project Budget Estimate' : 'Furnishings Budget Estimate', MARGIN, 58);
+  doc.setTextColor(...TEXT_COLOR);
+
+  writer.y = 115;
+  doc.setFontSize(12);
+  doc.setTextColor(...MUTED_COLOR);
+  doc.text('Prepared for', MARGIN, writer.y);
+  doc.setTextColor(...TEXT_COLOR);
+  writer.y += 8;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.text(data.client.name, MARGIN, writer.y);
+  writer.y += 8;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(11);
+  doc.text(data.client.email, MARGIN, writer.y);
+  writer.y += 20;
+
+  const range = isProjectBudget(budget)
+    ? formatRange(budget.projectRange.low, budget.projectRange.mid, currency)
+    : formatRange(budget.rangeLow, budget.rangeHigh, currency);
+  doc.setFontSize(12);
+  doc.setTextColor(...MUTED_COLOR);
+  doc.text(isProjectBudget(budget) ? 'Estimated Project Budget' : 'Estimated Furnishings Budget', MARGIN, writer.y);
+  doc.setTextColor(...TEXT_COLOR);
+  writer.y += 10;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(24);
+  doc.text(range, MARGIN, writer.y);
+  writer.y += 20;
+
+  const selectedTotal = getSelectedTotal(budget);
+  if (selectedTotal !== undefined) {
+    doc.setFontSize(14);
+    doc.text(`Selected: ${formatCurrency(selectedTotal, currency)}`, MARGIN, writer.y);
+    writer.y += 16;
+  }
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(11);
+  doc.setTextColor(...MUTED_COLOR);
+  const roomCount = estimate.rooms.reduce((sum, room) => sum + room.quantity, 0);
+  doc.text(`${data.property.squareFootage} sq ft | ${data.property.guestCapacity} guests | ${roomCount} room${roomCount !== 1 ? 's' : ''}`, MARGIN, writer.y);
+  writer.y += 7;
+  doc.text(`Prepared ${generatedAt.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}`, MARGIN, writer.y);
+  doc.setTextColor(...TEXT_COLOR);
+}
+
+function drawPropertySpecs(writer: PDFWriter, estimate: Estimate, budget: Budget | ProjectBudget, currency: CurrencyCode) {
+  const { propertySpecs } = estimate;
+  writer.heading('Property Details');
+  writer.keyValue('Square Footage', `${propertySpecs.squareFootage.toLocaleString()} sq ft`);
+  writer.keyValue('Guest Capacity', `${propertySpecs.guestCapacity}`);
+
+  const location = [propertySpecs.location?.state, propertySpecs.location?.zip].filter(Boolean).join(' ');
+  if (location) {
+    writer.keyValue('Location', location);
+  }
+  if (isProjectBudget(budget) && budget.region) {
+    writer.keyValue('Pricing Region', budget.region.name);
+  }
+  writer.keyValue('Currency', currency);
+
+  if (propertySpecs.notes) {
+    writer.y += 2;
+    writer.paragraph(propertySpecs.notes);
+  }
+}
+
+function drawTierSummary(writer: PDFWriter, budget: Budget | ProjectBudget, currency: CurrencyCode) {
+  const projectBudget = isProjectBudget(budget);
+  writer.heading('Budget by Quality Tier');
+
+  const columns: TableColumn[] = projectBudget
+    ? [
+      { header: 'Quality Tier', width: 46 },
+      { header: 'Furnishings', width: 40, align: 'right' },
+      { header: 'Contingency', width: 40, align: 'right' },
+      { header: 'Project Total', width: 44, align: 'right' },
+    ]
+    : [
+      { header: 'Quality Tier', width: 70 },
+      { header: 'Furnishings', width: 50, align: 'right' },
+      { header: 'Total', width: 50, align: 'right' },
+    ];
+
+  const rows = TIERS.map((tier) => {
+    const tierTotal = budget[tier];
+    return projectBudget
+      ? [
+        QUALITY_TIERS[tier].name,
+        formatCurrency(tierTotal.subtotal, currency),
+        formatCurrency(tierTotal.contingency, currency),
+        formatCurrency(budget.projectRange[tier], currency),
+      ]
+      : [QUALITY_TIERS[tier].name, formatCurrency(tierTotal.subtotal, currency), formatCurrency(tierTotal.total, currency)];
+  });
+
+  writer.table(columns, rows);
+}
+
+function drawRoom(writer: PDFWriter, room: RoomBreakdown, currency: CurrencyCode, hidePrices: boolean) {
+  const { doc } = writer;
+  writer.ensureSpace(LINE_HEIGHT * 4);
+  writer.y += 2;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(11);
+  doc.text(`${room.displayName ?? room.roomType} (${room.roomSize}) x${room.quantity}`, MARGIN, writer.y);
+  doc.text(formatRange(room.lowAmount, room.midAmount, currency), PAGE_WIDTH - MARGIN, writer.y, { align: 'right' });
+  writer.y += LINE_HEIGHT;
+
+  const items = [...room.items].sort((a, b) => a.name.localeCompare(b.name));
+  if (items.length === 0) {
+    writer.paragraph('No items', 9);
+    return;
+  }
+
+  if (hidePrices) {
+    writer.table(
+      [{ header: 'Item', width: 140 }, { header: 'Qty', width: 30, align: 'right' }],
+      items.map(item => [item.name, `${item.totalQuantity}`])
+    );
+    return;
+  }
+
+  writer.table(
+    [
+      { header: 'Item', width: 70 },
+      { header: 'Qty', width: 14, align: 'right' },
+      { header: 'Unit Price (Low - Mid)', width: 43, align: 'right' },
+      { header: 'Total (Low - Mid)', width: 43, align: 'right' },
+    ],
+    items.map(item => [
+      item.name,
+      `${item.totalQuantity}`,
+      formatRange(item.unitPrices.low, item.unitPrices.mid, currency),
+      formatRange(item.totals.low, item.totals.mid, currency),
+    ])
+  );
+}
+
+function drawAddOns(writer: PDFWriter, budget: ProjectBudget, currency: CurrencyCode) {
+  writer.heading('Project Add-Ons');
+
+  budget.designFees.forEach(fee => writer.keyValue(fee.label, formatCurrency(fee.amount, currency)));
+
+  const { projectAddOns } = budget;
+  const flatAddOns: [string, number][] = [
+    ['Installation', projectAddOns.installation],
+    ['Fuel', projectAddOns.fuel],
+    ['Storage & Receiving', projectAddOns.storageAndReceiving],
+    ['Kitchen', projectAddOns.kitchen],
+    ['Property Management', projectAddOns.propertyManagement],
+  ];
+  flatAddOns.forEach(([label, amount]) => writer.keyValue(label, formatCurrency(amount, currency)));
+
+  if (projectAddOns.freight.mid > 0) {
+    writer.keyValue('Freight', formatRange(projectAddOns.freight.low, projectAddOns.freight.mid, currency));
+  }
+  if (projectAddOns.salesTax.mid > 0) {
+    writer.keyValue('Sales Tax', formatRange(projectAddOns.salesTax.low, projectAddOns.salesTax.mid, currency));
+  }
+  if (!budget.contingencyDisabled) {
+    writer.keyValue('Contingency', formatRange(budget.low.contingency, budget.mid.contingency, currency));
+  }
+
+  writer.y += 1;
+  writer.rule();
+  writer.y += LINE_HEIGHT;
+  writer.keyValue('Estimated Project Budget', formatRange(budget.projectRange.low, budget.projectRange.mid, currency), true);
+}
+
+function drawFooters(doc: jsPDF) {
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(...MUTED_COLOR);
+    doc.text(FOOTER_TEXT, MARGIN, PAGE_HEIGHT - 12);
+    doc.text(`Page ${page} of ${pageCount}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 12, { align: 'right' });
+  }
+  doc.setTextColor(...TEXT_COLOR);
+}
+
+/**
+ * Build a text-based PDF of an estimate from its calculated budget
+ */
+export function buildEstimatePDF(estimate: Estimate, budget: Budget | ProjectBudget, options: EstimatePDFOptions = {}): jsPDF {
+  const currency = estimate.currency ?? BASE_CURRENCY;
+  const writer = new PDFWriter();
+
+  drawCover(writer, estimate, budget, currency, options.generatedAt ?? new Date());
+
+  writer.addPage();
+  drawPropertySpecs(writer, estimate, budget, currency);
+  drawTierSummary(writer, budget, currency);
+
+  writer.heading('Rooms & Items');
+  budget.roomBreakdown.forEach(room => drawRoom(writer, room, currency, options.hidePrices ?? false));
+
+  if (isProjectBudget(budget)) {
+    drawAddOns(writer, budget, currency);
+  }
+
+  drawFooters(writer.doc);
+  return writer.doc;
+}
+
+/**
+ * Generate the estimate PDF as a Blob
+ */
+export function generateEstimatePDF(estimate: Estimate, budget: Budget | ProjectBudget, options?: EstimatePDFOptions): Blob {
+  return buildEstimatePDF(estimate, budget, options).output('blob');
+}
+
+/**
+ * Build the download filename for an estimate PDF
+ */
+export function getEstimatePDFFilename(estimate: Estimate, date = new Date()): string {
+  const clientName = estimate.clientInfo.firstName && estimate.clientInfo.lastName
+    ? `${estimate.clientInfo.firstName}_${estimate.clientInfo.lastName}`
+    : 'Estimate';
+  return `Budget_Estimate_${clientName}_${date.toISOString().split('T')[0]}.pdf`;
+}
+
+/**
+ * Format a compared amount with its difference from the first estimate, e.g. "$12,000 (+$2,000)"
+ */
+export function formatComparisonCell(value: number | null, delta: number | null, currency: CurrencyCode): string {
+  if (value === null) return '—';
+  const formatted = formatCurrency(value, currency);
+  if (delta === null || delta === 0) return formatted;
+  return `${formatted} (${delta > 0 ? '+' : '-'}${formatCurrency(Math.abs(delta), currency)})`;
+}
+
+/**
+ * Build a PDF presenting estimates side by side, one column per estimate
+ */
+export function buildComparisonPDF(compared: ComparedEstimate[], comparison: EstimateComparison, generatedAt = new Date()): jsPDF {
+  const writer = new PDFWriter();
+  const { doc } = writer;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.setTextColor(...BRAND_COLOR);
+  doc.text(BRAND_NAME, MARGIN, writer.y);
+  doc.setTextColor(...TEXT_COLOR);
+  writer.y += LINE_HEIGHT * 2;
+  doc.setFontSize(14);
+  doc.text('Budget Comparison', MARGIN, writer.y);
+  writer.y += LINE_HEIGHT;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(...MUTED_COLOR);
+  doc.text(`Generated ${generatedAt.toLocaleDateString()}`, MARGIN, writer.y);
+  doc.setTextColor(...TEXT_COLOR);
+  writer.y += LINE_HEIGHT;
+
+  const optionLabels = compared.map((_, index) => `Option ${String.fromCharCode(65 + index)}`);
+  writer.heading('Options');
+  compared.forEach(({ estimate }, index) => writer.keyValue(optionLabels[index], getComparisonColumnLabel(estimate)));
+  if (comparison.mixedCurrencies) {
+    writer.paragraph('These options are quoted in different currencies, so differences are not shown.', 9);
+  }
+
+  const valueWidth = Math.min(40, Math.floor(120 / compared.length));
+  const columns: TableColumn[] = [
+    { header: '', width: CONTENT_WIDTH - valueWidth * compared.length },
+    ...optionLabels.map((header): TableColumn => ({ header, width: valueWidth, align: 'right' })),
+  ];
+
+  comparison.sections.forEach(section => {
+    writer.heading(section.title);
+    writer.table(
+      columns,
+      section.rows.map(row => [
+        row.label,
+        ...row.values.map((value, index) => formatComparisonCell(value, row.deltas[index], comparison.currencies[index])),
+      ])
+    );
+  });
+
+  drawFooters(writer.doc);
+  return writer.doc;
 }
 
 /**
@@ -72,8 +469,10 @@ export function downloadPDF(blob: Blob, filename: string): void {
 /**
  * Format estimate data for PDF (helper)
  */
-export function formatEstimateForPDF(estimate: any) {
+export function formatEstimateForPDF(estimate: Estimate) {
   return {
+    // Amounts on the estimate are in this currency; pass it to formatCurrency
+    currency: estimate.currency ?? BASE_CURRENCY,
     client: {
       name: `${estimate.clientInfo.firstName} ${estimate.clientInfo.lastName}`,
       email: estimate.clientInfo.email,
@@ -83,11 +482,10 @@ export function formatEstimateForPDF(estimate: any) {
       squareFootage: estimate.propertySpecs.squareFootage.toLocaleString(),
       guestCapacity: estimate.propertySpecs.guestCapacity,
     },
-    rooms: estimate.rooms.map((room: any) => ({
+    rooms: estimate.rooms.map(room => ({
       name: room.displayName,
       size: room.roomSize,
       quantity: room.quantity,
     })),
   };
 }
-
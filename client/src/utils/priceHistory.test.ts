@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import type { PriceHistoryEntry, QualityTier } from '../types';
+import { buildPriceTimeline, diffItemPrices, summarizePriceChanges } from './priceHistory';
+
+const createEntry = (
+  itemId: string,
+  tier: QualityTier,
+  oldPrice: number,
+  newPrice: number,
+  changedAt: string,
+  changedBy?: string
+): PriceHistoryEntry => ({
+  id: `${itemId}-${tier}-${changedAt}`,
+  itemId,
+  itemName: itemId === 'sofa' ? 'Sofa' : 'Armchair',
+  tier,
+  oldPrice,
+  newPrice,
+  changedAt: new Date(changedAt),
+  source: 'manual',
+  ...(changedBy ? { changedBy } : {}),
+});
+
+describe('diffItemPrices', () => {
+  it('lists only the tiers whose price changed', () => {
+    const before = { lowPrice: 10000, midPrice: 20000, midHighPrice: 30000, highPrice: 40000 };
+    const after = { lowPrice: 12000, midPrice: 20000, midHighPrice: 30000, highPrice: 45000 };
+
+    expect(diffItemPrices(before, after)).toEqual([
+      { tier: 'low', oldPrice: 10000, newPrice: 12000 },
+      { tier: 'high', oldPrice: 40000, newPrice: 45000 },
+    ]);
+  });
+
+  it('treats tiers missing from the update as unchanged', () => {
+    expect(diffItemPrices({ lowPrice: 10000, midPrice: 20000 }, { midPrice: 25000 })).toEqual([
+      { tier: 'mid', oldPrice: 20000, newPrice: 25000 },
+    ]);
+  });
+});
+
+describe('summarizePriceChanges', () => {
+  it('nets repeated changes per tier and drops tiers that ended where they started', () => {
+    const summaries = summarizePriceChanges([
+      createEntry('sofa', 'low', 100000, 110000, '2024-03-01', 'b@example.com'),
+      createEntry('sofa', 'low', 90000, 100000, '2024-02-01', 'a@example.com'),
+      createEntry('sofa', 'mid', 150000, 160000, '2024-02-01'),
+      createEntry('sofa', 'mid', 160000, 150000, '2024-02-15'),
+      createEntry('armchair', 'high', 50000, 45000, '2024-02-10'),
+    ]);
+
+    expect(summaries.map(s => s.itemName)).toEqual(['Armchair', 'Sofa']);
+    expect(summaries[1].changes).toEqual([{ tier: 'low', oldPrice: 90000, newPrice: 110000 }]);
+    expect(summaries[1].changeCount).toBe(4);
+    expect(summaries[1].lastChangedAt).toEqual(new Date('2024-03-01'));
+    expect(summaries[1].lastChangedBy).toBe('b@example.com');
+  });
+
+  it('leaves out items whose prices all returned to where they started', () => {
+    expect(summarizePriceChanges([
+      createEntry('sofa', 'mid', 150000, 160000, '2024-02-01'),
+      createEntry('sofa', 'mid', 160000, 150000, '2024-02-15'),
+    ])).toEqual([]);
+  });
+});
+
+describe('buildPriceTimeline', () => {
+  const now = new Date('2024-04-01');
+
+  it('starts at the first old price and ends at the current price', () => {
+    const timeline = buildPriceTimeline([
+      createEntry('sofa', 'low', 100000, 110000, '2024-03-01'),
+      createEntry('sofa', 'mid', 150000, 160000, '2024-02-01'),
+      createEntry('sofa', 'low', 90000, 100000, '2024-02-01'),
+    ], 'low', 110000, now);
+
+    expect(timeline).toEqual([
+      { date: new Date('2024-02-01'), price: 90000 },
+      { date: new Date('2024-02-01'), price: 100000 },
+      { date: new Date('2024-03-01'), price: 110000 },
+      { date: now, price: 110000 },
+    ]);
+  });
+
+  it('returns just the current price when the tier has no history', () => {
+    expect(buildPriceTimeline([], 'high', 40000, now)).toEqual([{ date: now, price: 40000 }]);
+  });
+});
@@ -0,0 +1,108 @@
+// Price history helpers for the item library
+import type { Item, PriceHistoryEntry, QualityTier } from '../types';
+
+export type ItemPrices = Pick<Item, 'lowPrice' | 'midPrice' | 'midHighPrice' | 'highPrice'>;
+
+export interface PriceChange {
+  tier: QualityTier;
+  oldPrice: number;
+  newPrice: number;
+}
+
+export interface ItemPriceChangeSummary {
+  itemId: string;
+  itemName: string;
+  changes: PriceChange[]; // Net change per tier over the period (earliest old price to latest new price)
+  changeCount: number;
+  lastChangedAt: Date;
+  lastChangedBy?: string;
+}
+
+export interface PriceTimelinePoint {
+  date: Date;
+  price: number;
+}
+
+const TIERS: QualityTier[] = ['low', 'mid', 'midHigh', 'high'];
+
+export const TIER_PRICE_FIELDS: Record<QualityTier, keyof ItemPrices> = {
+  low: 'lowPrice',
+  mid: 'midPrice',
+  midHigh: 'midHighPrice',
+  high: 'highPrice',
+};
+
+/**
+ * List the tier prices that differ between two versions of an item.
+ * Tiers missing from `after` are unchanged.
+ */
+export function diffItemPrices(before: Partial<ItemPrices>, after: Partial<ItemPrices>): PriceChange[] {
+  return TIERS.flatMap((tier) => {
+    const field = TIER_PRICE_FIELDS[tier];
+    const newPrice = after[field];
+    const oldPrice = before[field] ?? 0;
+    return newPrice !== undefined && newPrice !== oldPrice ? [{ tier, oldPrice, newPrice }] : [];
+  });
+}
+
+/**
+ * Collapse price history entries into the net change per item and tier
+ */
+export function summarizePriceChanges(entries: PriceHistoryEntry[]): ItemPriceChangeSummary[] {
+  const sorted = [...entries].sort((a, b) => a.changedAt.getTime() - b.changedAt.getTime());
+  const summaries = new Map<string, ItemPriceChangeSummary & { byTier: Map<QualityTier, PriceChange> }>();
+
+  sorted.forEach((entry) => {
+    const summary = summaries.get(entry.itemId) ?? {
+      itemId: entry.itemId,
+      itemName: entry.itemName,
+      changes: [],
+      changeCount: 0,
+      lastChangedAt: entry.changedAt,
+      byTier: new Map<QualityTier, PriceChange>(),
+    };
+
+    const tierChange = summary.byTier.get(entry.tier);
+    summary.byTier.set(entry.tier, {
+      tier: entry.tier,
+      oldPrice: tierChange ? tierChange.oldPrice : entry.oldPrice,
+      newPrice: entry.newPrice,
+    });
+    summary.itemName = entry.itemName;
+    summary.changeCount++;
+    summary.lastChangedAt = entry.changedAt;
+    summary.lastChangedBy = entry.changedBy;
+    summaries.set(entry.itemId, summary);
+  });
+
+  return Array.from(summaries.values())
+    .map(({ byTier, ...summary }) => ({
+      ...summary,
+      // Drop tiers that ended where they started
+      changes: TIERS.flatMap(tier => {
+        const change = byTier.get(tier);
+        return change && change.oldPrice !== change.newPrice ? [change] : [];
+      }),
+    }))
+    .filter(summary => summary.changes.length > 0)
+    .sort((a, b) => a.itemName.localeCompare(b.itemName));
+}
+
+/**
+ * Build a step series of one tier's price over time, ending at the item's current price
+ */
+export function buildPriceTimeline(entries: PriceHistoryEntry[], tier: QualityTier, currentPrice: number, now = new Date()): PriceTimelinePoint[] {
+  const tierEntries = entries
+    .filter(entry => entry.tier === tier)
+    .sort((a, b) => a.changedAt.getTime() - b.changedAt.getTime());
+
+  if (tierEntries.length === 0) {
+    return [{ date: now, price: currentPrice }];
+  }
+
+  return [
+    { date: tierEntries[0].changedAt, price: tierEntries[0].oldPrice },
+    ...tierEntries.map(entry => ({ date: entry.changedAt, price: entry.newPrice })),
+    { date: now, price: currentPrice },
+  ];
+}
@@ -0,0 +1,192 @@
+import { describe, it, expect } from 'vitest';
+import type { BudgetDefaults, Estimate, RegionalPricingConfig, RoomWithItems } from '../types';
+import { getEstimateCalculationOptions } from './calculations';
+import { createItem, createItemsMap, createRoom } from '../test/fixtures';
+import {
+  applyPriceSnapshot,
+  createPriceSnapshot,
+  diffBudgetDefaults,
+  diffSnapshotItemPrices,
+  diffSnapshotRates,
+  extendPriceSnapshot,
+  getSnapshotRates,
+  repricePriceSnapshot,
+} from './priceSnapshot';
+import type { SnapshotRates } from './priceSnapshot';
+
+const rooms: RoomWithItems[] = [
+  createRoom('living_room', { items: [{ itemId: 'sofa', quantity: 1 }, { itemId: 'lamp', quantity: 2 }] }),
+];
+
+const defaults: BudgetDefaults = {
+  installationCents: 100000,
+  fuelCents: 20000,
+  storageAndReceivingCents: 30000,
+  kitchenCents: 40000,
+  propertyManagementCents: 50000,
+  designFeeRatePerSqftCents: 1000,
+};
+
+const library = createItemsMap([
+  createItem('sofa', { name: 'Sofa', lowPrice: 100000 }),
+  createItem('lamp', { name: 'Lamp', lowPrice: 10000 }),
+  createItem('rug', { name: 'Rug', lowPrice: 50000 }),
+]);
+
+const rates: SnapshotRates = {
+  currency: 'CAD',
+  exchangeRate: 1.35,
+  regionalRates: { salesTaxPercent: 5, freightPercent: 8, costMultiplier: 1 },
+};
+
+const regionalPricing: RegionalPricingConfig = {
+  regions: [{ id: 'colorado', name: 'Colorado', states: ['CO'], salesTaxPercent: 6, freightPercent: 8, costMultiplier: 1.1 }],
+  taxableCategories: [],
+  defaultFreightPercent: 10,
+};
+
+const capturedAt = new Date('2024-02-01');
+
+describe('createPriceSnapshot', () => {
+  it('freezes only the items used by the rooms and drops unset defaults', () => {
+    const snapshot = createPriceSnapshot(rooms, library, { ...defaults, contingency: undefined }, rates, capturedAt);
+
+    expect(Object.keys(snapshot.items).sort()).toEqual(['lamp', 'sofa']);
+    expect(snapshot.items.sofa).toEqual({
+      id: 'sofa',
+      name: 'Sofa',
+      category: 'Furniture',
+      lowPrice: 100000,
+      midPrice: 200000,
+      midHighPrice: 300000,
+      highPrice: 400000,
+      unit: 'each',
+    });
+    expect(snapshot.budgetDefaults).toEqual(defaults);
+    expect('contingency' in (snapshot.budgetDefaults ?? {})).toBe(false);
+    expect(snapshot).toMatchObject(rates);
+  });
+});
+
+describe('getSnapshotRates', () => {
+  it("resolves the exchange rate and the property's regional rates", () => {
+    const estimate = { currency: 'CAD' as const, propertySpecs: { squareFootage: 2000, guestCapacity: 8, location: { state: 'co' } } };
+
+    expect(getSnapshotRates(estimate, regionalPricing, { rates: { CAD: 1.4 } })).toEqual({
+      currency: 'CAD',
+      exchangeRate: 1.4,
+      regionalRates: { salesTaxPercent: 6, freightPercent: 8, costMultiplier: 1.1 },
+    });
+    expect(getSnapshotRates({ propertySpecs: { squareFootage: 2000, guestCapacity: 8 } }, regionalPricing, null)).toEqual({
+      currency: 'USD',
+      exchangeRate: 1,
+      regionalRates: { salesTaxPercent: 0, freightPercent: 10, costMultiplier: 1 },
+    });
+  });
+
+  it('leaves out rates whose config has not loaded', () => {
+    expect(getSnapshotRates({ currency: 'CAD' }, null, null)).toEqual({});
+  });
+});
+
+describe('applyPriceSnapshot', () => {
+  it('prices snapshot items at their frozen prices, even after they leave the library', () => {
+    const snapshot = createPriceSnapshot(rooms, library, defaults, rates, capturedAt);
+    const current = new Map([['sofa', createItem('sofa', { name: 'Sofa', lowPrice: 120000 })], ['rug', library.get('rug')!]]);
+
+    const priced = applyPriceSnapshot(current, snapshot);
+
+    expect(priced.get('sofa')?.lowPrice).toBe(100000);
+    expect(priced.get('lamp')?.lowPrice).toBe(10000);
+    expect(priced.get('rug')?.lowPrice).toBe(50000);
+    expect(current.get('sofa')?.lowPrice).toBe(120000);
+  });
+
+  it('returns the library unchanged without a snapshot', () => {
+    expect(applyPriceSnapshot(library, undefined)).toBe(library);
+  });
+});
+
+describe('extendPriceSnapshot', () => {
+  it('adds newly used items at current prices and keeps frozen prices', () => {
+    const snapshot = createPriceSnapshot(rooms, library, defaults, rates, capturedAt);
+    const current = new Map(library);
+    current.set('sofa', createItem('sofa', { name: 'Sofa', lowPrice: 120000 }));
+    const editedRooms = [{ ...rooms[0], items: [...rooms[0].items, { itemId: 'rug', quantity: 1 }] }];
+
+    const extended = extendPriceSnapshot(snapshot, editedRooms, current);
+
+    expect(extended.items.sofa.lowPrice).toBe(100000);
+    expect(extended.items.rug.lowPrice).toBe(50000);
+    expect(extendPriceSnapshot(snapshot, rooms, current)).toBe(snapshot);
+  });
+});
+
+describe('repricing', () => {
+  const snapshot = createPriceSnapshot(rooms, library, defaults, rates, capturedAt);
+  const current = new Map([['sofa', createItem('sofa', { name: 'Sofa', lowPrice: 120000 })]]);
+  const currentDefaults = { ...defaults, fuelCents: 25000, contingency: { mode: 'percentOfFurnishings' as const, percent: 10 } };
+
+  it('lists tier price changes for items still in the library', () => {
+    expect(diffSnapshotItemPrices(snapshot, rooms, current)).toEqual([
+      {
+        itemId: 'sofa',
+        name: 'Sofa',
+        changes: [
+          { tier: 'low', oldPrice: 100000, newPrice: 120000 },
+          { tier: 'mid', oldPrice: 200000, newPrice: 240000 },
+          { tier: 'midHigh', oldPrice: 300000, newPrice: 360000 },
+          { tier: 'high', oldPrice: 400000, newPrice: 480000 },
+        ],
+      },
+    ]);
+  });
+
+  it('names changed budget defaults', () => {
+    expect(diffBudgetDefaults(snapshot.budgetDefaults, currentDefaults)).toEqual(['Fuel', 'Contingency']);
+    expect(diffBudgetDefaults(snapshot.budgetDefaults, defaults)).toEqual([]);
+  });
+
+  it('names changed rates, comparing exchange rates only for the same currency', () => {
+    const currentRates = { currency: 'CAD' as const, exchangeRate: 1.4, regionalRates: { salesTaxPercent: 6, freightPercent: 8, costMultiplier: 1 } };
+    expect(diffSnapshotRates(snapshot, currentRates)).toEqual(['Exchange rate', 'Sales tax']);
+    expect(diffSnapshotRates(snapshot, { currency: 'MXN', exchangeRate: 17 })).toEqual([]);
+    expect(diffSnapshotRates(snapshot, rates)).toEqual([]);
+  });
+
+  it('takes current prices and keeps frozen prices for removed items', () => {
+    const repriced = repricePriceSnapshot(snapshot, rooms, current, currentDefaults, { currency: 'CAD', exchangeRate: 1.4 }, new Date('2024-03-01'));
+
+    expect(repriced.items.sofa.lowPrice).toBe(120000);
+    expect(repriced.items.lamp.lowPrice).toBe(10000);
+    expect(repriced.budgetDefaults?.fuelCents).toBe(25000);
+    expect(repriced.exchangeRate).toBe(1.4);
+    // Regional rates were not given, so the frozen ones are kept
+    expect(repriced.regionalRates).toEqual(rates.regionalRates);
+    expect(repriced.capturedAt).toEqual(new Date('2024-03-01'));
+  });
+});
+
+describe('getEstimateCalculationOptions', () => {
+  it('prefers budget defaults frozen on the estimate', () => {
+    const estimate = {
+      propertySpecs: { squareFootage: 2000, guestCapacity: 8 },
+      priceSnapshot: createPriceSnapshot(rooms, library, defaults, rates, capturedAt),
+    } as unknown as Estimate;
+
+    const options = getEstimateCalculationOptions(estimate, { ...defaults, fuelCents: 99999 });
+
+    expect(options.budgetDefaults?.fuelCents).toBe(20000);
+  });
+
+  it('prefers rates frozen on the estimate, and the current exchange rate once the currency changes', () => {
+    const priceSnapshot = createPriceSnapshot(rooms, library, defaults, rates, capturedAt);
+    const currencyRates = { rates: { CAD: 1.4, MXN: 17 } };
+
+    const options = getEstimateCalculationOptions({ currency: 'CAD', priceSnapshot } as unknown as Estimate, defaults, regionalPricing, currencyRates);
+    expect(options.exchangeRate).toBe(1.35);
+    expect(options.regionalRates).toEqual(rates.regionalRates);
+
+    expect(getEstimateCalculationOptions({ currency: 'MXN', priceSnapshot } as unknown as Estimate, defaults, regionalPricing, currencyRates).exchangeRate).toBe(17);
+  });
+});
@@ -0,0 +1,198 @@
+// Price snapshots freeze library prices and budget defaults onto submitted estimates
+import type { BudgetDefaults, CurrencyRates, Estimate, EstimatePriceSnapshot, Item, RegionalPricingConfig, ResolvedRegionalRates, RoomWithItems, SnapshotItem } from '../types';
+import { diffItemPrices } from './priceHistory';
+import type { PriceChange } from './priceHistory';
+import { getRegionalRates } from './regionalPricing';
+import { BASE_CURRENCY, getExchangeRate, hasExchangeRate } from './currency';
+
+export type SnapshotRates = Pick<EstimatePriceSnapshot, 'currency' | 'exchangeRate' | 'regionalRates'>;
+
+export interface SnapshotItemPriceChange {
+  itemId: string;
+  name: string;
+  changes: PriceChange[]; // Snapshot price to current library price, in USD cents
+}
+
+const BUDGET_DEFAULT_LABELS: { key: Exclude<keyof BudgetDefaults, 'currency'>; label: string }[] = [
+  { key: 'installationCents', label: 'Installation' },
+  { key: 'fuelCents', label: 'Fuel' },
+  { key: 'storageAndReceivingCents', label: 'Storage & Receiving' },
+  { key: 'kitchenCents', label: 'Kitchen' },
+  { key: 'propertyManagementCents', label: 'Property Management' },
+  { key: 'designFeeRatePerSqftCents', label: 'Design fee rate' },
+  { key: 'designFeeRateBreaks', label: 'Design fee rate breaks' },
+  { key: 'designFeePhases', label: 'Design fee phases' },
+  { key: 'addOnRules', label: 'Add-on rules' },
+  { key: 'contingency', label: 'Contingency' },
+];
+
+const REGIONAL_RATE_LABELS: { key: keyof ResolvedRegionalRates; label: string }[] = [
+  { key: 'salesTaxPercent', label: 'Sales tax' },
+  { key: 'freightPercent', label: 'Freight' },
+  { key: 'costMultiplier', label: 'Regional cost multiplier' },
+];
+
+function getRoomItemIds(rooms: RoomWithItems[]): Set<string> {
+  return new Set(rooms.flatMap(room => room.items.map(roomItem => roomItem.itemId)));
+}
+
+function toSnapshotItem(item: Item): SnapshotItem {
+  return {
+    id: item.id,
+    name: item.name,
+    category: item.category,
+    lowPrice: item.lowPrice,
+    midPrice: item.midPrice,
+    midHighPrice: item.midHighPrice,
+    highPrice: item.highPrice,
+    unit: item.unit,
+  };
+}
+
+/**
+ * The current exchange rate and regional rates for an estimate. Rates whose config has not loaded are left out.
+ */
+export function getSnapshotRates(
+  estimate: Partial<Pick<Estimate, 'currency' | 'propertySpecs'>>,
+  regionalPricing?: RegionalPricingConfig | null,
+  currencyRates?: CurrencyRates | null
+): SnapshotRates {
+  const currency = estimate.currency ?? BASE_CURRENCY;
+  return {
+    ...(hasExchangeRate(currencyRates, currency) ? { currency, exchangeRate: getExchangeRate(currencyRates, currency) } : {}),
+    ...(regionalPricing && estimate.propertySpecs
+      ? { regionalRates: getRegionalRates(regionalPricing, estimate.propertySpecs.location) }
+      : {}),
+  };
+}
+
+function pickSnapshotRates(snapshot: EstimatePriceSnapshot): SnapshotRates {
+  return {
+    ...(snapshot.currency && snapshot.exchangeRate ? { currency: snapshot.currency, exchangeRate: snapshot.exchangeRate } : {}),
+    ...(snapshot.regionalRates ? { regionalRates: snapshot.regionalRates } : {}),
+  };
+}
+
+/**
+ * Freeze the library prices of every item used by the rooms, plus the budget defaults and rates
+ */
+export function createPriceSnapshot(
+  rooms: RoomWithItems[],
+  itemLibrary: Map<string, Item>,
+  budgetDefaults?: BudgetDefaults | null,
+  rates: SnapshotRates = {},
+  capturedAt = new Date()
+): EstimatePriceSnapshot {
+  const items: Record<string, SnapshotItem> = {};
+  getRoomItemIds(rooms).forEach((itemId) => {
+    const item = itemLibrary.get(itemId);
+    if (item) items[itemId] = toSnapshotItem(item);
+  });
+
+  return {
+    capturedAt,
+    items,
+    // Firestore rejects undefined, so drop unset defaults
+    ...(budgetDefaults
+      ? { budgetDefaults: Object.fromEntries(Object.entries(budgetDefaults).filter(([, value]) => value !== undefined)) as BudgetDefaults }
+      : {}),
+    ...rates,
+  };
+}
+
+/**
+ * Add items that were put in the rooms after the snapshot was taken, at their current library prices.
+ * Items already in the snapshot keep their frozen prices.
+ */
+export function extendPriceSnapshot(snapshot: EstimatePriceSnapshot, rooms: RoomWithItems[], itemLibrary: Map<string, Item>): EstimatePriceSnapshot {
+  const items = { ...snapshot.items };
+  let added = false;
+  getRoomItemIds(rooms).forEach((itemId) => {
+    const item = itemLibrary.get(itemId);
+    if (item && !items[itemId]) {
+      items[itemId] = toSnapshotItem(item);
+      added = true;
+    }
+  });
+  return added ? { ...snapshot, items } : snapshot;
+}
+
+/**
+ * Take a new snapshot from the current library, defaults and rates.
+ * Items since removed from the library keep their snapshot prices, and rates not given keep their frozen values.
+ */
+export function repricePriceSnapshot(
+  snapshot: EstimatePriceSnapshot,
+  rooms: RoomWithItems[],
+  itemLibrary: Map<string, Item>,
+  budgetDefaults?: BudgetDefaults | null,
+  rates: SnapshotRates = {},
+  capturedAt = new Date()
+): EstimatePriceSnapshot {
+  const library = new Map(applyPriceSnapshot(new Map(), snapshot));
+  itemLibrary.forEach((item, itemId) => library.set(itemId, item));
+  return createPriceSnapshot(rooms, library, budgetDefaults ?? snapshot.budgetDefaults, { ...pickSnapshotRates(snapshot), ...rates }, capturedAt);
+}
+
+/**
+ * Overlay snapshot prices on the item library. Returns the library unchanged when there is no snapshot.
+ */
+export function applyPriceSnapshot(itemLibrary: Map<string, Item>, snapshot?: EstimatePriceSnapshot | null): Map<string, Item> {
+  if (!snapshot) return itemLibrary;
+
+  const items = new Map(itemLibrary);
+  Object.values(snapshot.items).forEach((snapshotItem) => {
+    const current = itemLibrary.get(snapshotItem.id);
+    items.set(snapshotItem.id, current
+      ? { ...current, ...snapshotItem }
+      : { ...snapshotItem, createdAt: snapshot.capturedAt, updatedAt: snapshot.capturedAt });
+  });
+  return items;
+}
+
+/**
+ * List items used by the rooms whose library prices differ from the snapshot
+ */
+export function diffSnapshotItemPrices(
+  snapshot: EstimatePriceSnapshot,
+  rooms: RoomWithItems[],
+  itemLibrary: Map<string, Item>
+): SnapshotItemPriceChange[] {
+  return Array.from(getRoomItemIds(rooms))
+    .flatMap((itemId) => {
+      const frozen = snapshot.items[itemId];
+      const current = itemLibrary.get(itemId);
+      if (!frozen || !current) return [];
+      const changes = diffItemPrices(frozen, current);
+      return changes.length > 0 ? [{ itemId, name: current.name, changes }] : [];
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Name the budget default settings that differ between the snapshot and the current defaults
+ */
+export function diffBudgetDefaults(frozen?: BudgetDefaults | null, current?: BudgetDefaults | null): string[] {
+  if (!frozen || !current) return [];
+  return BUDGET_DEFAULT_LABELS
+    .filter(({ key }) => JSON.stringify(frozen[key] ?? null) !== JSON.stringify(current[key] ?? null))
+    .map(({ label }) => label);
+}
+
+/**
+ * Name the frozen rates that differ from the current ones. The exchange rate is only compared for the same currency.
+ */
+export function diffSnapshotRates(frozen: SnapshotRates, current: SnapshotRates): string[] {
+  const changes: string[] = [];
+  if (frozen.exchangeRate && current.exchangeRate && frozen.currency === current.currency && frozen.exchangeRate !== current.exchangeRate) {
+    changes.push('Exchange rate');
+  }
+  if (frozen.regionalRates && current.regionalRates) {
+    const { regionalRates: before } = frozen;
+    const { regionalRates: after } = current;
+    REGIONAL_RATE_LABELS.forEach(({ key, label }) => {
+      if (before[key] !== after[key]) changes.push(label);
+    });
+  }
+  return changes;
+}
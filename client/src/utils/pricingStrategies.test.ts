@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import type { RoomItem } from '../types';
+import {
+  resolvePricingStrategyId,
+  resolveUnitPrice,
+  listPricingStrategies,
+  registerPricingStrategy,
+} from './pricingStrategies';
+import { createItem } from '../test/fixtures';
+
+describe('resolvePricingStrategyId', () => {
+  it('defaults to library tiers', () => {
+    expect(resolvePricingStrategyId()).toBe('library');
+    expect(resolvePricingStrategyId({})).toBe('library');
+  });
+
+  it('maps legacy customRangeEnabled estimates to percentRange', () => {
+    expect(resolvePricingStrategyId({ customRangeEnabled: true })).toBe('percentRange');
+  });
+
+  it('prefers an explicit strategy', () => {
+    expect(resolvePricingStrategyId({ pricingStrategy: 'costPlus', customRangeEnabled: true })).toBe('costPlus');
+  });
+
+  it('registers all built-in strategies', () => {
+    expect(listPricingStrategies().map(s => s.id)).toEqual(['library', 'percentRange', 'tierMultipliers', 'costPlus']);
+  });
+});
+
+describe('resolveUnitPrice', () => {
+  const item = createItem('sofa', { name: 'Sofa', lowPrice: 100000, midPrice: 150000, midHighPrice: 200000, highPrice: 300000 });
+  const roomItem: RoomItem = { itemId: 'sofa', quantity: 1 };
+
+  it('uses library prices and per-item overrides', () => {
+    expect(resolveUnitPrice('midHigh', roomItem, item)).toBe(200000);
+    expect(resolveUnitPrice('low', { ...roomItem, lowPrice: 90000 }, item)).toBe(90000);
+    expect(resolveUnitPrice('mid', { ...roomItem, midPrice: 120000 }, item)).toBe(120000);
+  });
+
+  it('derives the custom range from the low price point', () => {
+    const settings = { customRangeEnabled: true, customRangeLowPercent: 10, customRangeHighPercent: 10 };
+    expect(resolveUnitPrice('low', roomItem, item, settings)).toBe(90000);
+    expect(resolveUnitPrice('mid', roomItem, item, settings)).toBe(110000);
+    expect(resolveUnitPrice('midHigh', roomItem, item, settings)).toBe(105000);
+    expect(resolveUnitPrice('high', roomItem, item, settings)).toBe(120000);
+  });
+
+  it('falls back to library prices when the custom range has no low price', () => {
+    const settings = { customRangeEnabled: true, customRangeLowPercent: 10, customRangeHighPercent: 10 };
+    expect(resolveUnitPrice('mid', roomItem, { ...item, lowPrice: 0 }, settings)).toBe(150000);
+  });
+
+  it('applies tier multipliers to the low price point', () => {
+    const settings = {
+      pricingStrategy: 'tierMultipliers' as const,
+      pricingTierMultipliers: { low: 1, mid: 1.25, midHigh: 2, high: 4 },
+    };
+    expect(resolveUnitPrice('mid', roomItem, item, settings)).toBe(125000);
+    expect(resolveUnitPrice('high', { ...roomItem, lowPrice: 50000 }, item, settings)).toBe(200000);
+  });
+
+  it('marks up tier cost for cost-plus pricing', () => {
+    const settings = { pricingStrategy: 'costPlus' as const, pricingMarkupPercent: 25 };
+    expect(resolveUnitPrice('high', roomItem, item, settings)).toBe(375000);
+  });
+});
+
+describe('registerPricingStrategy', () => {
+  it('makes a custom strategy selectable by its ID', () => {
+    registerPricingStrategy({
+      id: 'flatRate',
+      label: 'Flat Rate',
+      description: 'Charge the same price for every tier',
+      derivesFromLowPrice: true,
+      resolveUnitPrice: () => ({ price: 50000, source: 'strategy' }),
+    });
+
+    expect(listPricingStrategies().map(s => s.id)).toContain('flatRate');
+    expect(resolvePricingStrategyId({ pricingStrategy: 'flatRate' })).toBe('flatRate');
+    expect(resolveUnitPrice('high', { itemId: 'sofa', quantity: 1 }, createItem('sofa'), { pricingStrategy: 'flatRate' })).toBe(50000);
+  });
+});
@@ -0,0 +1,190 @@
+// Pricing strategy engine used by calculateEstimate and the estimate pages
+import type { Item, PriceSource, PricingSettings, PricingStrategyId, QualityTier, RoomItem } from '../types';
+
+export interface PricingStrategy {
+  id: PricingStrategyId;
+  label: string;
+  description: string;
+  // True when the strategy derives every tier from the low price point only,
+  // so editors only need to capture a low price per item
+  derivesFromLowPrice: boolean;
+  resolveUnitPrice: (tier: QualityTier, roomItem: RoomItem, item: Item | undefined, settings: PricingSettings) => ResolvedUnitPrice;
+}
+
+export interface ResolvedUnitPrice {
+  price: number; // in cents
+  source: PriceSource;
+}
+
+export const DEFAULT_TIER_MULTIPLIERS: Record<QualityTier, number> = {
+  low: 1,
+  mid: 1.5,
+  midHigh: 2,
+  high: 3,
+};
+
+export const DEFAULT_MARKUP_PERCENT = 20;
+
+// Position of the upper tiers relative to the custom range (0 = low end, 1 = high end)
+const PERCENT_RANGE_UPPER_TIER_POSITION: Record<'midHigh' | 'high', number> = {
+  midHigh: 0.75,
+  high: 1.5,
+};
+
+/**
+ * Get the low price point for an item (override first, then library)
+ */
+export function getBaseLowPrice(roomItem: RoomItem, item: Item | undefined): number {
+  return roomItem.lowPrice !== undefined ? roomItem.lowPrice : (item?.lowPrice || 0);
+}
+
+/**
+ * Resolve the tier price for an item using per-item overrides, falling back to the item library
+ */
+function resolveLibraryTierPrice(tier: QualityTier, roomItem: RoomItem, item: Item | undefined): ResolvedUnitPrice {
+  if (tier === 'low' && roomItem.lowPrice !== undefined) {
+    return { price: roomItem.lowPrice, source: 'override' };
+  }
+  if (tier === 'mid' && roomItem.midPrice !== undefined) {
+    return { price: roomItem.midPrice, source: 'override' };
+  }
+  if (!item) return { price: 0, source: 'library' };
+
+  const candidate = item[`${tier}Price` as keyof Item];
+  return { price: typeof candidate === 'number' ? candidate : 0, source: 'library' };
+}
+
+/**
+ * Get the tier price for an item using per-item overrides, falling back to the item library
+ */
+export function getLibraryTierPrice(tier: QualityTier, roomItem: RoomItem, item: Item | undefined): number {
+  return resolveLibraryTierPrice(tier, roomItem, item).price;
+}
+
+const libraryStrategy: PricingStrategy = {
+  id: 'library',
+  label: 'Library Tiers',
+  description: 'Use item library tier prices, honoring per-item overrides',
+  derivesFromLowPrice: false,
+  resolveUnitPrice: (tier, roomItem, item) => resolveLibraryTierPrice(tier, roomItem, item),
+};
+
+const percentRangeStrategy: PricingStrategy = {
+  id: 'percentRange',
+  label: 'Custom Range',
+  description: 'Calculate the range from the low price point using percentages',
+  derivesFromLowPrice: true,
+  resolveUnitPrice: (tier, roomItem, item, settings) => {
+    const baseLowPrice = getBaseLowPrice(roomItem, item);
+    const { customRangeLowPercent, customRangeHighPercent } = settings;
+
+    // Without percentages or a low price point there is nothing to scale from
+    if (customRangeLowPercent === undefined || customRangeHighPercent === undefined || baseLowPrice <= 0) {
+      return resolveLibraryTierPrice(tier, roomItem, item);
+    }
+
+    // Low end: baseLowPrice * (1 - customRangeLowPercent / 100)
+    const lowEnd = Math.round(baseLowPrice * (1 - customRangeLowPercent / 100));
+    // High end: baseLowPrice * (1 + customRangeHighPercent / 100)
+    const highEnd = Math.round(baseLowPrice * (1 + customRangeHighPercent / 100));
+    const source: PriceSource = roomItem.lowPrice !== undefined ? 'override' : 'customRange';
+
+    if (tier === 'low') return { price: lowEnd, source };
+    if (tier === 'mid') return { price: highEnd, source };
+
+    // midHigh and high scale proportionally beyond the custom range
+    return { price: Math.round(lowEnd + (highEnd - lowEnd) * PERCENT_RANGE_UPPER_TIER_POSITION[tier]), source };
+  },
+};
+
+const tierMultipliersStrategy: PricingStrategy = {
+  id: 'tierMultipliers',
+  label: 'Tier Multipliers',
+  description: 'Multiply the low price point by a fixed factor per tier',
+  derivesFromLowPrice: true,
+  resolveUnitPrice: (tier, roomItem, item, settings) => {
+    const multipliers = settings.pricingTierMultipliers ?? DEFAULT_TIER_MULTIPLIERS;
+    const multiplier = multipliers[tier] ?? DEFAULT_TIER_MULTIPLIERS[tier];
+    return {
+      price: Math.round(getBaseLowPrice(roomItem, item) * multiplier),
+      source: roomItem.lowPrice !== undefined ? 'override' : 'strategy',
+    };
+  },
+};
+
+const costPlusStrategy: PricingStrategy = {
+  id: 'costPlus',
+  label: 'Cost Plus Markup',
+  description: 'Treat tier prices as cost and add a markup percentage',
+  derivesFromLowPrice: false,
+  resolveUnitPrice: (tier, roomItem, item, settings) => {
+    const markupPercent = settings.pricingMarkupPercent ?? DEFAULT_MARKUP_PERCENT;
+    const cost = resolveLibraryTierPrice(tier, roomItem, item);
+    return {
+      price: Math.round(cost.price * (1 + markupPercent / 100)),
+      source: cost.source === 'override' ? 'override' : 'strategy',
+    };
+  },
+};
+
+const strategies = new Map<PricingStrategyId, PricingStrategy>();
+
+/**
+ * Register a pricing strategy (replaces any strategy with the same id)
+ */
+export function registerPricingStrategy(strategy: PricingStrategy): void {
+  strategies.set(strategy.id, strategy);
+}
+
+[libraryStrategy, percentRangeStrategy, tierMultipliersStrategy, costPlusStrategy].forEach(registerPricingStrategy);
+
+/**
+ * List all registered pricing strategies
+ */
+export function listPricingStrategies(): PricingStrategy[] {
+  return Array.from(strategies.values());
+}
+
+/**
+ * Determine which strategy applies to the given settings.
+ * Estimates saved before strategies existed only carry customRangeEnabled.
+ */
+export function resolvePricingStrategyId(settings?: PricingSettings): PricingStrategyId {
+  if (settings?.pricingStrategy && strategies.has(settings.pricingStrategy)) {
+    return settings.pricingStrategy;
+  }
+  return settings?.customRangeEnabled ? 'percentRange' : 'library';
+}
+
+/**
+ * Get the pricing strategy for the given settings
+ */
+export function getPricingStrategy(settings?: PricingSettings): PricingStrategy {
+  return strategies.get(resolvePricingStrategyId(settings)) ?? libraryStrategy;
+}
+
+/**
+ * Resolve the unit price (in cents) of a room item for a tier
+ */
+export function resolveUnitPrice(
+  tier: QualityTier,
+  roomItem: RoomItem,
+  item: Item | undefined,
+  settings?: PricingSettings
+): number {
+  return getPricingStrategy(settings).resolveUnitPrice(tier, roomItem, item, settings ?? {}).price;
+}
+
+/**
+ * Pick the pricing settings off an estimate (or any object carrying them)
+ */
+export function getPricingSettings(source?: PricingSettings | null): PricingSettings {
+  return {
+    pricingStrategy: source?.pricingStrategy,
+    customRangeEnabled: source?.customRangeEnabled,
+    customRangeLowPercent: source?.customRangeLowPercent,
+    customRangeHighPercent: source?.customRangeHighPercent,
+    pricingTierMultipliers: source?.pricingTierMultipliers,
+    pricingMarkupPercent: source?.pricingMarkupPercent,
+  };
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import type { Vendor } from '../types';
+import type { PurchasingList } from './purchasing';
+import { buildPurchaseOrderDrafts, getNextPurchaseOrderStatus, getPurchaseOrderVariantId, isEstimateApproved } from './purchaseOrders';
+
+const acme: Vendor = { id: 'acme', name: 'Acme Furniture' };
+const west: Vendor = { id: 'west', name: 'Westside Supply', discountPercent: 10 };
+
+const list: PurchasingList = {
+  tier: 'mid',
+  groups: [
+    {
+      vendor: acme,
+      lines: [{ itemId: 'sofa', name: 'Sofa', quantity: 2, unitPrice: 50000, total: 100000, rooms: ['Living Room'], sku: 'AC-1' }],
+      subtotal: 100000,
+      discount: 0,
+      total: 100000,
+    },
+    {
+      vendor: west,
+      lines: [{ itemId: 'lamp', name: 'Lamp', quantity: 4, unitPrice: 5000, total: 20000, rooms: ['Living Room', 'Bedroom'] }],
+      subtotal: 20000,
+      discount: 2000,
+      total: 18000,
+    },
+    {
+      vendor: null,
+      lines: [{ itemId: 'rug', name: 'Rug', quantity: 1, unitPrice: 30000, total: 30000, rooms: ['Living Room'] }],
+      subtotal: 30000,
+      discount: 0,
+      total: 30000,
+    },
+  ],
+  total: 148000,
+};
+
+describe('buildPurchaseOrderDrafts', () => {
+  it('creates one draft per vendor and leaves out unassigned lines', () => {
+    const drafts = buildPurchaseOrderDrafts('est-1', 'primary', 'USD', list, [], 'admin@example.com');
+
+    expect(drafts).toHaveLength(2);
+    expect(drafts[0]).toEqual({
+      estimateId: 'est-1',
+      variantId: 'primary',
+      vendorId: 'acme',
+      vendorName: 'Acme Furniture',
+      tier: 'mid',
+      currency: 'USD',
+      status: 'draft',
+      lines: [{ itemId: 'sofa', name: 'Sofa', quantity: 2, unitPrice: 50000, total: 100000, sku: 'AC-1' }],
+      subtotal: 100000,
+      discount: 0,
+      total: 100000,
+      createdBy: 'admin@example.com',
+    });
+    expect(drafts[1].total).toBe(18000);
+  });
+
+  it('skips vendors that already have an order', () => {
+    const drafts = buildPurchaseOrderDrafts('est-1', 'primary', 'USD', list, [{ vendorId: 'acme' }]);
+
+    expect(drafts.map(draft => draft.vendorId)).toEqual(['west']);
+    expect(drafts[0]).not.toHaveProperty('createdBy');
+  });
+
+  it('builds nothing once another option has orders', () => {
+    expect(buildPurchaseOrderDrafts('est-1', 'v2', 'USD', list, [{ vendorId: 'acme' }])).toEqual([]);
+    expect(buildPurchaseOrderDrafts('est-1', 'v2', 'USD', list, [{ vendorId: 'acme', variantId: 'v2' }]).map(draft => draft.variantId)).toEqual(['v2']);
+    expect(getPurchaseOrderVariantId({})).toBe('primary');
+  });
+});
+
+describe('purchase order lifecycle', () => {
+  it('moves forward one status at a time', () => {
+    expect(getNextPurchaseOrderStatus('draft')).toBe('sent');
+    expect(getNextPurchaseOrderStatus('sent')).toBe('confirmed');
+    expect(getNextPurchaseOrderStatus('confirmed')).toBe('received');
+    expect(getNextPurchaseOrderStatus('received')).toBeNull();
+  });
+
+  it('only treats closed estimates as approved', () => {
+    expect(isEstimateApproved({ status: 'closed' })).toBe(true);
+    expect(isEstimateApproved({ status: 'contacted' })).toBe(false);
+  });
+});
@@ -0,0 +1,92 @@
+// Purchase orders generated from an approved estimate's purchasing list
+import type { CurrencyCode, Estimate, PurchaseOrder, PurchaseOrderLine, PurchaseOrderStatus } from '../types';
+import type { PurchasingList } from './purchasing';
+import { PRIMARY_VARIANT_ID } from './estimateVariants';
+
+export type PurchaseOrderDraft = Omit<PurchaseOrder, 'id' | 'createdAt' | 'updatedAt'>;
+
+// Lifecycle order; an order only moves forward one step at a time
+export const PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = ['draft', 'sent', 'confirmed', 'received'];
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  confirmed: 'Confirmed',
+  received: 'Received',
+};
+
+// Timestamp recorded when an order enters each status after draft
+export const PURCHASE_ORDER_STATUS_DATES: Record<Exclude<PurchaseOrderStatus, 'draft'>, 'sentAt' | 'confirmedAt' | 'receivedAt'> = {
+  sent: 'sentAt',
+  confirmed: 'confirmedAt',
+  received: 'receivedAt',
+};
+
+/**
+ * Purchase orders can only be generated once the estimate is closed (approved by the client)
+ */
+export function isEstimateApproved(estimate: Pick<Estimate, 'status'>): boolean {
+  return estimate.status === 'closed';
+}
+
+/**
+ * The option an order was generated from
+ */
+export function getPurchaseOrderVariantId(order: Pick<PurchaseOrder, 'variantId'>): string {
+  return order.variantId ?? PRIMARY_VARIANT_ID;
+}
+
+/**
+ * The status after the given one, or null once the order is received
+ */
+export function getNextPurchaseOrderStatus(status: PurchaseOrderStatus): PurchaseOrderStatus | null {
+  const index = PURCHASE_ORDER_STATUSES.indexOf(status);
+  return PURCHASE_ORDER_STATUSES[index + 1] ?? null;
+}
+
+/**
+ * Build one draft order per vendor in the chosen option's purchasing list. Vendors that already have an
+ * order are skipped so generating again only fills gaps, and lines without a vendor are left out. An
+ * estimate is ordered from one option, so nothing is built once another option has orders.
+ */
+export function buildPurchaseOrderDrafts(
+  estimateId: string,
+  variantId: string,
+  currency: CurrencyCode,
+  list: PurchasingList,
+  existingOrders: Pick<PurchaseOrder, 'vendorId' | 'variantId'>[],
+  createdBy?: string
+): PurchaseOrderDraft[] {
+  if (existingOrders.some(order => getPurchaseOrderVariantId(order) !== variantId)) return [];
+  const orderedVendorIds = new Set(existingOrders.map(order => order.vendorId));
+
+  return list.groups.flatMap((group): PurchaseOrderDraft[] => {
+    if (!group.vendor || orderedVendorIds.has(group.vendor.id)) return [];
+
+    const lines = group.lines.map((line): PurchaseOrderLine => ({
+      itemId: line.itemId,
+      name: line.name,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      total: line.total,
+      ...(line.sku ? { sku: line.sku } : {}),
+      ...(line.productUrl ? { productUrl: line.productUrl } : {}),
+      ...(line.selectedTier ? { selectedTier: line.selectedTier } : {}),
+    }));
+
+    return [{
+      estimateId,
+      variantId,
+      vendorId: group.vendor.id,
+      vendorName: group.vendor.name,
+      tier: list.tier,
+      currency,
+      status: 'draft',
+      lines,
+      subtotal: group.subtotal,
+      discount: group.discount,
+      total: group.total,
+      ...(createdBy ? { createdBy } : {}),
+    }];
+  });
+}
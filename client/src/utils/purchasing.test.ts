@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import type { RoomTemplate, RoomWithItems, Vendor } from '../types';
+import { calculateEstimate } from './calculations';
+import { createItem, createItemsMap, createRoom } from '../test/fixtures';
+import { buildPurchasingList } from './purchasing';
+
+const vendors: Vendor[] = [
+  { id: 'west', name: 'Westside Supply', discountPercent: 10 },
+  { id: 'acme', name: 'Acme Furniture' },
+];
+
+const library = createItemsMap([
+  createItem('sofa', {
+    name: 'Sofa',
+    lowPrice: 100000,
+    vendorSkus: [{ vendorId: 'acme', tier: 'mid', sku: 'AC-SOFA-2', productUrl: 'https://acme.test/sofa' }],
+  }),
+  createItem('lamp', { name: 'Lamp', lowPrice: 10000 }),
+  createItem('rug', { name: 'Rug', lowPrice: 20000 }),
+]);
+
+const rooms: RoomWithItems[] = [
+  createRoom('living_room', {
+    items: [
+      { itemId: 'sofa', quantity: 1, vendorId: 'acme' },
+      { itemId: 'lamp', quantity: 2, vendorId: 'west' },
+      { itemId: 'rug', quantity: 1 },
+    ],
+  }),
+  createRoom('bedroom', { quantity: 2, items: [{ itemId: 'lamp', quantity: 1, vendorId: 'west' }] }),
+];
+
+const templates = new Map<string, RoomTemplate>();
+
+describe('buildPurchasingList', () => {
+  it('groups lines by vendor with SKUs, merged quantities and discounts', () => {
+    const budget = calculateEstimate(rooms, templates, library);
+    const list = buildPurchasingList(budget, rooms, library, vendors, 'mid');
+
+    expect(list.groups.map(group => group.vendor?.name ?? null)).toEqual(['Acme Furniture', 'Westside Supply', null]);
+
+    const [acme, west, unassigned] = list.groups;
+    expect(acme.lines).toEqual([{
+      itemId: 'sofa',
+      name: 'Sofa',
+      quantity: 1,
+      unitPrice: 200000,
+      total: 200000,
+      rooms: ['Living Room'],
+      sku: 'AC-SOFA-2',
+      productUrl: 'https://acme.test/sofa',
+    }]);
+
+    // Two lamps in the living room plus one in each of two bedrooms
+    expect(west.lines).toHaveLength(1);
+    expect(west.lines[0].quantity).toBe(4);
+    expect(west.lines[0].rooms).toEqual(['Living Room', 'Bedroom']);
+    expect(west.subtotal).toBe(80000);
+    expect(west.discount).toBe(8000);
+    expect(west.total).toBe(72000);
+
+    expect(unassigned.lines.map(line => line.itemId)).toEqual(['rug']);
+    expect(list.total).toBe(200000 + 72000 + 40000);
+  });
+
+  it('treats lines pointing at deleted vendors as unassigned', () => {
+    const budget = calculateEstimate(rooms, templates, library);
+    const list = buildPurchasingList(budget, rooms, library, [vendors[1]], 'low');
+
+    expect(list.groups.map(group => group.vendor?.id ?? null)).toEqual(['acme', null]);
+    // SKUs are only listed for the tier being purchased
+    expect(list.groups[0].lines[0].sku).toBeUndefined();
+    expect(list.groups[1].lines.map(line => line.itemId)).toEqual(['lamp', 'rug']);
+  });
+
+  it('prices lines with a chosen tier at that tier instead of the list tier', () => {
+    const tieredRooms: RoomWithItems[] = [
+      { ...rooms[0], tier: 'high', items: [{ ...rooms[0].items[0], tier: 'mid' }, ...rooms[0].items.slice(1)] },
+      { ...rooms[1], tier: 'low' },
+    ];
+    const budget = calculateEstimate(tieredRooms, templates, library);
+    const list = buildPurchasingList(budget, tieredRooms, library, vendors, 'low');
+
+    const [acme, west, unassigned] = list.groups;
+    expect(acme.lines[0]).toMatchObject({ unitPrice: 200000, selectedTier: 'mid', sku: 'AC-SOFA-2' });
+    // Lamps at different tiers stay on separate lines
+    expect(west.lines.map(line => [line.selectedTier, line.quantity, line.total])).toEqual([
+      ['high', 2, 80000],
+      ['low', 2, 20000],
+    ]);
+    expect(unassigned.lines[0]).toMatchObject({ selectedTier: 'high', total: 80000 });
+  });
+});
@@ -0,0 +1,174 @@
+// Turn an estimate's line items into a purchasing list grouped by vendor
+import * as XLSX from 'xlsx';
+import type { Budget, CurrencyCode, Estimate, Item, ProjectBudget, QualityTier, RoomWithItems, Vendor } from '../types';
+import { QUALITY_TIERS } from '../types';
+import { BASE_CURRENCY, getCurrencySymbol } from './currency';
+
+export interface PurchasingLine {
+  itemId: string;
+  name: string;
+  quantity: number; // Total units across every room
+  unitPrice: number; // in cents
+  total: number; // in cents
+  rooms: string[]; // Rooms the units are going to
+  selectedTier?: QualityTier; // Only when the estimate has chosen tiers; the line is priced at it instead of the list tier
+  sku?: string;
+  productUrl?: string;
+}
+
+export interface VendorPurchasingGroup {
+  vendor: Vendor | null; // null collects lines without a vendor
+  lines: PurchasingLine[];
+  subtotal: number; // in cents
+  discount: number; // Vendor trade discount, in cents
+  total: number; // in cents
+}
+
+export interface PurchasingList {
+  tier: QualityTier; // Lines with a chosen tier are priced at that tier instead
+  groups: VendorPurchasingGroup[]; // Vendors by name, unassigned lines last
+  total: number; // in cents
+}
+
+/**
+ * Group the priced line items of an estimate by the vendor chosen on each line
+ */
+export function buildPurchasingList(
+  budget: Budget | ProjectBudget,
+  rooms: RoomWithItems[],
+  itemLibrary: Map<string, Item>,
+  vendors: Vendor[],
+  tier: QualityTier
+): PurchasingList {
+  const vendorsById = new Map(vendors.map(vendor => [vendor.id, vendor]));
+  // Lines for the same item at the same tier and price merge, keyed by vendor then item, tier and price
+  const linesByVendor = new Map<string, Map<string, PurchasingLine>>();
+
+  budget.roomBreakdown.forEach(room => {
+    const roomItems = rooms[room.roomIndex]?.items ?? [];
+    const roomName = room.displayName ?? room.roomType;
+
+    room.items.forEach((lineItem, index) => {
+      if (lineItem.totalQuantity <= 0) return;
+
+      // Line items are built from the room's items in order
+      const roomItem = roomItems[index];
+      const assignedId = roomItem?.itemId === lineItem.itemId ? roomItem.vendorId : undefined;
+      const vendorKey = assignedId && vendorsById.has(assignedId) ? assignedId : '';
+
+      const vendorLines = linesByVendor.get(vendorKey) ?? new Map<string, PurchasingLine>();
+      linesByVendor.set(vendorKey, vendorLines);
+
+      const lineTier = lineItem.selectedTier ?? tier;
+      const unitPrice = lineItem.unitPrices[lineTier];
+      const lineKey = `${lineItem.itemId}:${lineTier}:${unitPrice}`;
+      const existing = vendorLines.get(lineKey);
+      if (existing) {
+        existing.quantity += lineItem.totalQuantity;
+        existing.total += lineItem.totals[lineTier];
+        if (!existing.rooms.includes(roomName)) existing.rooms.push(roomName);
+        return;
+      }
+
+      const vendorSku = vendorKey
+        ? itemLibrary.get(lineItem.itemId)?.vendorSkus?.find(sku => sku.vendorId === vendorKey && sku.tier === lineTier)
+        : undefined;
+      vendorLines.set(lineKey, {
+        itemId: lineItem.itemId,
+        name: lineItem.name,
+        quantity: lineItem.totalQuantity,
+        unitPrice,
+        total: lineItem.totals[lineTier],
+        rooms: [roomName],
+        ...(lineItem.selectedTier ? { selectedTier: lineItem.selectedTier } : {}),
+        ...(vendorSku?.sku ? { sku: vendorSku.sku } : {}),
+        ...(vendorSku?.productUrl ? { productUrl: vendorSku.productUrl } : {}),
+      });
+    });
+  });
+
+  const groups = [...linesByVendor.entries()].map(([vendorKey, lines]): VendorPurchasingGroup => {
+    const vendor = vendorsById.get(vendorKey) ?? null;
+    const subtotal = [...lines.values()].reduce((sum, line) => sum + line.total, 0);
+    const discount = Math.round(subtotal * (vendor?.discountPercent ?? 0) / 100);
+    return {
+      vendor,
+      lines: [...lines.values()].sort((a, b) => a.name.localeCompare(b.name)),
+      subtotal,
+      discount,
+      total: subtotal - discount,
+    };
+  });
+
+  groups.sort((a, b) => {
+    if (!a.vendor) return 1;
+    if (!b.vendor) return -1;
+    return a.vendor.name.localeCompare(b.vendor.name);
+  });
+
+  return {
+    tier,
+    groups,
+    total: groups.reduce((sum, group) => sum + group.total, 0),
+  };
+}
+
+/**
+ * Build a one-sheet workbook listing every vendor's lines with subtotals
+ */
+export function buildPurchasingWorkbook(list: PurchasingList, currency: CurrencyCode): XLSX.WorkBook {
+  const format = `"${getCurrencySymbol(currency)}"#,##0.00`;
+  const money = (cents: number): XLSX.CellObject => ({ t: 'n', v: Math.round(cents) / 100, z: format });
+
+  const hasSelectedTiers = list.groups.some(group => group.lines.some(line => line.selectedTier));
+  const rows: (string | number | XLSX.CellObject | null)[][] = [
+    [`Purchasing List (${hasSelectedTiers ? 'Selected Tiers' : QUALITY_TIERS[list.tier].name})`],
+    [],
+  ];
+
+  list.groups.forEach(group => {
+    const { vendor } = group;
+    rows.push([vendor?.name ?? 'No Vendor Assigned']);
+    if (vendor) {
+      const details = [
+        vendor.leadTimeDays !== undefined ? `Lead time: ${vendor.leadTimeDays} days` : null,
+        vendor.shippingTerms ? `Shipping: ${vendor.shippingTerms}` : null,
+        vendor.contactEmail ?? null,
+      ].filter((detail): detail is string => detail !== null);
+      if (details.length > 0) rows.push([details.join(' | ')]);
+    }
+    rows.push(['Item', 'SKU', 'Quantity', 'Unit Price', 'Total', 'Rooms', 'Product Link', ...(hasSelectedTiers ? ['Tier'] : [])]);
+    group.lines.forEach(line => {
+      rows.push([
+        line.name, line.sku ?? '', line.quantity, money(line.unitPrice), money(line.total), line.rooms.join(', '), line.productUrl ?? '',
+        ...(line.selectedTier ? [QUALITY_TIERS[line.selectedTier].name] : []),
+      ]);
+    });
+    rows.push(['Subtotal', null, null, null, money(group.subtotal)]);
+    if (group.discount > 0) {
+      rows.push([`Discount (${vendor?.discountPercent}%)`, null, null, null, money(-group.discount)]);
+    }
+    rows.push(['Vendor Total', null, null, null, money(group.total)]);
+    rows.push([]);
+  });
+
+  rows.push(['Purchasing Total', null, null, null, money(list.total)]);
+
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  sheet['!cols'] = [{ wch: 36 }, { wch: 16 }, { wch: 10 }, { wch: 14 }, { wch: 14 }, { wch: 32 }, { wch: 40 }, { wch: 20 }];
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, 'Purchasing');
+  return workbook;
+}
+
+/**
+ * Build the purchasing list workbook and download it
+ */
+export function exportPurchasingList(estimate: Estimate, list: PurchasingList): void {
+  const clientName = estimate.clientInfo.firstName && estimate.clientInfo.lastName
+    ? `${estimate.clientInfo.firstName}_${estimate.clientInfo.lastName}`
+    : 'Estimate';
+  const filename = `Purchasing_List_${clientName}_${new Date().toISOString().split('T')[0]}.xlsx`;
+  XLSX.writeFile(buildPurchasingWorkbook(list, estimate.currency ?? BASE_CURRENCY), filename);
+}
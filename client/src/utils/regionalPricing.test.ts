@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import type { RegionalPricingConfig, ResolvedRegionalRates, RoomTemplate, RoomWithItems, ProjectBudget } from '../types';
+import { resolveRegion, normalizeLocation } from './regionalPricing';
+import { calculateEstimate } from './calculations';
+import { createItem, createItemsMap, createRoom } from '../test/fixtures';
+
+const config: RegionalPricingConfig = {
+  regions: [
+    { id: 'colorado', name: 'Colorado', states: ['CO'], salesTaxPercent: 5, freightPercent: 8, costMultiplier: 1.2 },
+    { id: 'aspen', name: 'Aspen', states: [], zipPrefixes: ['816'], salesTaxPercent: 10, freightPercent: 12, costMultiplier: 1.5 },
+  ],
+  taxableCategories: ['Furniture'],
+  defaultFreightPercent: 6,
+};
+
+const items = createItemsMap([
+  createItem('sofa', { lowPrice: 100000 }),
+  createItem('towels', { category: 'Linens', lowPrice: 10000 }),
+]);
+
+const rooms: RoomWithItems[] = [
+  createRoom('living_room', { items: [{ itemId: 'sofa', quantity: 1 }, { itemId: 'towels', quantity: 1 }] }),
+];
+
+describe('resolveRegion', () => {
+  it('prefers an explicit region, then ZIP prefix, then state', () => {
+    expect(resolveRegion(config, { state: 'co', regionId: 'aspen' })?.id).toBe('aspen');
+    expect(resolveRegion(config, { state: 'CO', zip: '81611' })?.id).toBe('aspen');
+    expect(resolveRegion(config, { state: ' co ', zip: '80202' })?.id).toBe('colorado');
+    expect(resolveRegion(config, { state: 'TX' })).toBeUndefined();
+    expect(resolveRegion(null, { state: 'CO' })).toBeUndefined();
+  });
+
+  it('drops empty location fields', () => {
+    expect(normalizeLocation({ state: '', zip: ' ' })).toBeUndefined();
+    expect(normalizeLocation({ state: 'ut', zip: '' })).toEqual({ state: 'UT' });
+  });
+});
+
+describe('calculateEstimate regional add-ons', () => {
+  const calculate = (state?: string, regionalRates?: ResolvedRegionalRates) => calculateEstimate(rooms, new Map<string, RoomTemplate>(), items, {
+    propertySpecs: { squareFootage: 1000, guestCapacity: 4, ...(state ? { location: { state } } : {}) },
+    budgetDefaults: {
+      installationCents: 100000,
+      fuelCents: 0,
+      storageAndReceivingCents: 0,
+      kitchenCents: 0,
+      propertyManagementCents: 0,
+      designFeeRatePerSqftCents: 1000,
+    },
+    regionalPricing: config,
+    ...(regionalRates ? { regionalRates } : {}),
+  }) as ProjectBudget;
+
+  it('taxes taxable categories and charges freight on all furnishings', () => {
+    const budget = calculate('CO');
+
+    expect(budget.region?.id).toBe('colorado');
+    expect(budget.projectAddOns.salesTax.low).toBe(5000);
+    expect(budget.projectAddOns.freight.low).toBe(8800);
+    expect(budget.projectAddOns.installation).toBe(120000);
+    // Furnishings + installation + design fee (both scaled by 1.2) + tax + freight
+    expect(budget.projectRange.low).toBe(110000 + 120000 + 1200000 + 5000 + 8800);
+  });
+
+  it('uses the default freight rate without a matching region', () => {
+    const budget = calculate();
+
+    expect(budget.region).toBeUndefined();
+    expect(budget.projectAddOns.salesTax.mid).toBe(0);
+    expect(budget.projectAddOns.freight.mid).toBe(13200);
+    expect(budget.projectAddOns.installation).toBe(100000);
+  });
+
+  it('prices with rates frozen on the estimate over the current region', () => {
+    const budget = calculate('CO', { salesTaxPercent: 4, freightPercent: 10, costMultiplier: 1 });
+
+    expect(budget.region?.id).toBe('colorado');
+    expect(budget.projectAddOns.salesTax.low).toBe(4000);
+    expect(budget.projectAddOns.freight.low).toBe(11000);
+    expect(budget.projectAddOns.installation).toBe(100000);
+  });
+});
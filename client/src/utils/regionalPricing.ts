@@ -0,0 +1,127 @@
+// Regional sales tax, freight and cost-of-living adjustments
+import type { Item, PropertyLocation, QualityTier, RegionalPricingConfig, RegionalRate, ResolvedRegionalRates, RoomBreakdown, TierAmounts } from '../types';
+
+const TIERS: QualityTier[] = ['low', 'mid', 'midHigh', 'high'];
+
+/**
+ * Normalize a location entered by a user so matching is case and whitespace insensitive
+ */
+export function normalizeLocation(location?: PropertyLocation): PropertyLocation | undefined {
+  if (!location) return undefined;
+
+  const state = location.state?.trim().toUpperCase();
+  const zip = location.zip?.trim();
+  const regionId = location.regionId?.trim();
+
+  // Firestore rejects undefined, so only keep the fields that were provided
+  const normalized: PropertyLocation = {
+    ...(state ? { state } : {}),
+    ...(zip ? { zip } : {}),
+    ...(regionId ? { regionId } : {}),
+  };
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+}
+
+/**
+ * Find the region for a property location.
+ * An explicit region wins, then the longest matching ZIP prefix, then the state.
+ */
+export function resolveRegion(
+  config: RegionalPricingConfig | null | undefined,
+  location?: PropertyLocation
+): RegionalRate | undefined {
+  const normalized = normalizeLocation(location);
+  if (!config || !normalized) return undefined;
+
+  if (normalized.regionId) {
+    const region = config.regions.find(candidate => candidate.id === normalized.regionId);
+    if (region) return region;
+  }
+
+  const { zip, state } = normalized;
+  if (zip) {
+    let bestMatch: RegionalRate | undefined;
+    let bestLength = 0;
+    config.regions.forEach((region) => {
+      region.zipPrefixes?.forEach((prefix) => {
+        if (prefix && zip.startsWith(prefix) && prefix.length > bestLength) {
+          bestMatch = region;
+          bestLength = prefix.length;
+        }
+      });
+    });
+    if (bestMatch) return bestMatch;
+  }
+
+  if (state) {
+    return config.regions.find(region => region.states.some(code => code.toUpperCase() === state));
+  }
+
+  return undefined;
+}
+
+/**
+ * The tax, freight and cost-of-living rates for a property location. Locations outside every region
+ * pay no sales tax and the default freight.
+ */
+export function getRegionalRates(
+  config: RegionalPricingConfig | null | undefined,
+  location?: PropertyLocation
+): ResolvedRegionalRates {
+  const region = resolveRegion(config, location);
+  return {
+    salesTaxPercent: region?.salesTaxPercent ?? 0,
+    freightPercent: region?.freightPercent ?? config?.defaultFreightPercent ?? 0,
+    costMultiplier: region?.costMultiplier ?? 1,
+  };
+}
+
+/**
+ * Sum the furnishings in each tier that are subject to sales tax.
+ * Room amounts not accounted for by line items (e.g. template totals) are treated as taxable.
+ */
+export function calculateTaxableGoods(
+  roomBreakdown: RoomBreakdown[],
+  items: Map<string, Item> | undefined,
+  taxableCategories: string[]
+): TierAmounts {
+  const taxable: TierAmounts = { low: 0, mid: 0, midHigh: 0, high: 0 };
+  const categories = new Set(taxableCategories.map(category => category.toLowerCase()));
+  const taxesEverything = categories.size === 0;
+
+  roomBreakdown.forEach((room) => {
+    const lineItemTotals: TierAmounts = { low: 0, mid: 0, midHigh: 0, high: 0 };
+    room.items.forEach((lineItem) => {
+      const category = items?.get(lineItem.itemId)?.category?.toLowerCase();
+      const isTaxable = taxesEverything || (category !== undefined && categories.has(category));
+      TIERS.forEach((tier) => {
+        lineItemTotals[tier] += lineItem.totals[tier];
+        if (isTaxable) {
+          taxable[tier] += lineItem.totals[tier];
+        }
+      });
+    });
+
+    // Template totals can include goods that aren't broken out as line items
+    TIERS.forEach((tier) => {
+      const untracked = room[`${tier}Amount` as const] - lineItemTotals[tier];
+      if (untracked > 0) {
+        taxable[tier] += untracked;
+      }
+    });
+  });
+
+  return taxable;
+}
+
+/**
+ * Apply a percentage to each tier amount (in cents)
+ */
+export function applyPercentToTiers(amounts: TierAmounts, percent: number): TierAmounts {
+  return {
+    low: Math.round(amounts.low * percent / 100),
+    mid: Math.round(amounts.mid * percent / 100),
+    midHigh: Math.round(amounts.midHigh * percent / 100),
+    high: Math.round(amounts.high * percent / 100),
+  };
+}
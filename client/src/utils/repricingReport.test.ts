@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import type { RoomTemplate, RoomWithItems } from '../types';
+import { calculateEstimate } from './calculations';
+import { createItem, createItemsMap, createRoom } from '../test/fixtures';
+import { diffEstimateBudgets, getRepricingChanges, getTierDeltas } from './repricingReport';
+
+const rooms: RoomWithItems[] = [
+  createRoom('living_room', { items: [{ itemId: 'sofa', quantity: 1 }, { itemId: 'lamp', quantity: 2 }] }),
+  createRoom('bedroom', { quantity: 2, items: [{ itemId: 'lamp', quantity: 1 }] }),
+];
+
+const templates = new Map<string, RoomTemplate>();
+
+describe('diffEstimateBudgets', () => {
+  it('reports tier, room and item deltas for changed prices', () => {
+    const quoted = calculateEstimate(rooms, templates, createItemsMap([
+      createItem('sofa', { name: 'Sofa', lowPrice: 100000 }),
+      createItem('lamp', { name: 'Lamp', lowPrice: 10000 }),
+    ]));
+    const current = calculateEstimate(rooms, templates, createItemsMap([
+      createItem('sofa', { name: 'Sofa', lowPrice: 110000 }),
+      createItem('lamp', { name: 'Lamp', lowPrice: 10000 }),
+    ]));
+
+    const diff = diffEstimateBudgets(quoted, current);
+
+    expect(diff.isStale).toBe(true);
+    expect(getTierDeltas(diff.before, diff.after)).toEqual({ low: 10000, mid: 20000, midHigh: 30000, high: 40000 });
+    expect(diff.rooms).toHaveLength(1);
+    expect(diff.rooms[0].name).toBe('Living Room');
+    expect(diff.rooms[0].items).toEqual([
+      {
+        itemId: 'sofa',
+        name: 'Sofa',
+        before: { low: 100000, mid: 200000, midHigh: 300000, high: 400000 },
+        after: { low: 110000, mid: 220000, midHigh: 330000, high: 440000 },
+      },
+    ]);
+  });
+
+  it('is not stale when prices are unchanged', () => {
+    const library = createItemsMap([
+      createItem('sofa', { name: 'Sofa', lowPrice: 100000 }),
+      createItem('lamp', { name: 'Lamp', lowPrice: 10000 }),
+    ]);
+    const diff = diffEstimateBudgets(calculateEstimate(rooms, templates, library), calculateEstimate(rooms, templates, library));
+
+    expect(diff.isStale).toBe(false);
+    expect(diff.rooms).toEqual([]);
+  });
+});
+
+describe('getRepricingChanges', () => {
+  it('lists the tier totals that moved', () => {
+    const changes = getRepricingChanges({
+      before: { low: 100000, mid: 200000, midHigh: 300000, high: 400000 },
+      after: { low: 110000, mid: 200000, midHigh: 330000, high: 400000 },
+      rooms: [],
+      isStale: true,
+    });
+
+    expect(changes).toEqual([
+      { field: 'priceSnapshot.low', label: 'Low Quality total', before: 100000, after: 110000, unit: 'cents' },
+      { field: 'priceSnapshot.midHigh', label: 'Mid/High Quality total', before: 300000, after: 330000, unit: 'cents' },
+    ]);
+  });
+});
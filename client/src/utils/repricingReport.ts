@@ -0,0 +1,105 @@
+// Compare an estimate as quoted against the same estimate at current library prices
+import type { Budget, EstimateFieldChange, ProjectBudget, QualityTier, RoomBreakdown, TierAmounts } from '../types';
+import { QUALITY_TIERS } from '../types';
+
+export interface ItemRepricingDelta {
+  itemId: string;
+  name: string;
+  before: TierAmounts;
+  after: TierAmounts;
+}
+
+export interface RoomRepricingDelta {
+  roomIndex: number;
+  name: string;
+  before: TierAmounts;
+  after: TierAmounts;
+  items: ItemRepricingDelta[]; // Only items whose totals changed
+}
+
+export interface EstimateRepricingDiff {
+  before: TierAmounts; // Quoted totals (project totals for project budgets)
+  after: TierAmounts;
+  rooms: RoomRepricingDelta[]; // Only rooms whose totals changed
+  isStale: boolean;
+}
+
+const TIERS: QualityTier[] = ['low', 'mid', 'midHigh', 'high'];
+
+function getBudgetTotals(budget: Budget | ProjectBudget): TierAmounts {
+  if ('projectRange' in budget) {
+    return { ...budget.projectRange };
+  }
+  return { low: budget.low.total, mid: budget.mid.total, midHigh: budget.midHigh.total, high: budget.high.total };
+}
+
+function getRoomTotals(room: RoomBreakdown): TierAmounts {
+  return { low: room.lowAmount, mid: room.midAmount, midHigh: room.midHighAmount, high: room.highAmount };
+}
+
+const hasDelta = (before: TierAmounts, after: TierAmounts): boolean => TIERS.some(tier => before[tier] !== after[tier]);
+
+/**
+ * Subtract tier amounts (after - before)
+ */
+export function getTierDeltas(before: TierAmounts, after: TierAmounts): TierAmounts {
+  return {
+    low: after.low - before.low,
+    mid: after.mid - before.mid,
+    midHigh: after.midHigh - before.midHigh,
+    high: after.high - before.high,
+  };
+}
+
+/**
+ * Diff two budgets for the same rooms by tier, room and line item
+ */
+export function diffEstimateBudgets(before: Budget | ProjectBudget, after: Budget | ProjectBudget): EstimateRepricingDiff {
+  const afterRooms = new Map(after.roomBreakdown.map(room => [room.roomIndex, room]));
+
+  const rooms = before.roomBreakdown.flatMap((room): RoomRepricingDelta[] => {
+    const repriced = afterRooms.get(room.roomIndex);
+    if (!repriced) return [];
+
+    const roomBefore = getRoomTotals(room);
+    const roomAfter = getRoomTotals(repriced);
+    if (!hasDelta(roomBefore, roomAfter)) return [];
+
+    // Both budgets price the same room items, so line items line up by position
+    const items = room.items.flatMap((item, index): ItemRepricingDelta[] => {
+      const repricedItem = repriced.items[index];
+      if (!repricedItem || repricedItem.itemId !== item.itemId || !hasDelta(item.totals, repricedItem.totals)) return [];
+      return [{ itemId: item.itemId, name: item.name, before: item.totals, after: repricedItem.totals }];
+    });
+
+    return [{
+      roomIndex: room.roomIndex,
+      name: room.displayName ?? room.roomType,
+      before: roomBefore,
+      after: roomAfter,
+      items,
+    }];
+  });
+
+  const beforeTotals = getBudgetTotals(before);
+  const afterTotals = getBudgetTotals(after);
+  return {
+    before: beforeTotals,
+    after: afterTotals,
+    rooms,
+    isStale: hasDelta(beforeTotals, afterTotals) || rooms.length > 0,
+  };
+}
+
+/**
+ * Describe a repricing as edit history changes, one per tier whose total moved
+ */
+export function getRepricingChanges(diff: EstimateRepricingDiff): EstimateFieldChange[] {
+  return TIERS.filter(tier => diff.before[tier] !== diff.after[tier]).map(tier => ({
+    field: `priceSnapshot.${tier}`,
+    label: `${QUALITY_TIERS[tier].name} total`,
+    before: diff.before[tier],
+    after: diff.after[tier],
+    unit: 'cents',
+  }));
+}
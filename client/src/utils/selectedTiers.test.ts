@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import type { ProjectBudget, RegionalPricingConfig, RoomTemplate, RoomWithItems } from '../types';
+import { calculateEstimate } from './calculations';
+import { getSelectedTotal, hasSelectedTiers, setRoomItemTier, setRoomTier } from './selectedTiers';
+import { createItem, createItemsMap, createRoom } from '../test/fixtures';
+
+const items = createItemsMap([
+  createItem('sofa', { lowPrice: 100000 }),
+  createItem('towels', { category: 'Linens', lowPrice: 10000 }),
+]);
+
+const rooms: RoomWithItems[] = [
+  createRoom('primary_suite', { roomSize: 'large', tier: 'high', items: [{ itemId: 'sofa', quantity: 1 }, { itemId: 'towels', quantity: 1 }] }),
+  createRoom('bunk_room', { tier: 'low', items: [{ itemId: 'sofa', quantity: 1, tier: 'midHigh' }, { itemId: 'towels', quantity: 1 }] }),
+  createRoom('living_room', { items: [{ itemId: 'towels', quantity: 1 }] }),
+];
+
+// High suite (400,000 + 40,000), low bunk room with a mid/high sofa (300,000 + 10,000), living room at mid (20,000)
+const SELECTED_FURNISHINGS = 770000;
+
+const config: RegionalPricingConfig = {
+  regions: [{ id: 'colorado', name: 'Colorado', states: ['CO'], salesTaxPercent: 5, freightPercent: 8, costMultiplier: 1 }],
+  taxableCategories: ['Furniture'],
+  defaultFreightPercent: 0,
+};
+
+describe('calculateEstimate selected tiers', () => {
+  it('prices each room and item at its chosen tier', () => {
+    const budget = calculateEstimate(rooms, new Map<string, RoomTemplate>(), items);
+
+    expect(budget.roomBreakdown.map(room => room.selectedAmount)).toEqual([440000, 310000, 20000]);
+    expect(budget.roomBreakdown[1].items.map(lineItem => lineItem.selectedTier)).toEqual(['midHigh', 'low']);
+    expect(budget.selected).toEqual({ subtotal: SELECTED_FURNISHINGS, contingency: 0, total: SELECTED_FURNISHINGS });
+    expect(getSelectedTotal(budget)).toBe(SELECTED_FURNISHINGS);
+    // The tier range is unchanged
+    expect(budget.rangeLow).toBe(230000);
+    expect(budget.rangeHigh).toBe(460000);
+  });
+
+  it('adds contingency, freight and tax on the selected goods to the project total', () => {
+    const budget = calculateEstimate(rooms, new Map<string, RoomTemplate>(), items, {
+      propertySpecs: { squareFootage: 1000, guestCapacity: 4, location: { state: 'CO' } },
+      budgetDefaults: {
+        installationCents: 100000,
+        fuelCents: 0,
+        storageAndReceivingCents: 0,
+        kitchenCents: 0,
+        propertyManagementCents: 0,
+        designFeeRatePerSqftCents: 1000,
+      },
+      regionalPricing: config,
+      contingencyPolicy: { mode: 'percentOfFurnishings', percent: 10 },
+    }) as ProjectBudget;
+
+    const flatAddOns = budget.projectRange.low - budget.low.total - budget.projectAddOns.freight.low - budget.projectAddOns.salesTax.low;
+    // Freight on all selected goods; tax only on the two sofas (400,000 + 300,000)
+    expect(budget.selected?.contingency).toBe(77000);
+    expect(budget.projectRange.selected).toBe(SELECTED_FURNISHINGS + 77000 + flatAddOns + 61600 + 35000);
+    expect(getSelectedTotal(budget)).toBe(budget.projectRange.selected);
+  });
+
+  it('uses template totals for rooms without items', () => {
+    const template = {
+      id: 'kitchen',
+      sizes: { medium: { displayName: 'Medium', items: [], totals: { low: 1000, mid: 2000, midHigh: 3000, high: 4000 } } },
+    } as unknown as RoomTemplate;
+    const kitchen = createRoom('kitchen', { quantity: 2, tier: 'midHigh' });
+
+    const budget = calculateEstimate([kitchen], new Map([['kitchen', template]]));
+    expect(budget.roomBreakdown[0].selectedAmount).toBe(6000);
+  });
+
+  it('leaves budgets without chosen tiers unchanged', () => {
+    const plainRooms = rooms.map(room => setRoomTier({ ...room, items: room.items.map(roomItem => setRoomItemTier(roomItem)) }));
+    expect(hasSelectedTiers(plainRooms)).toBe(false);
+
+    const budget = calculateEstimate(plainRooms, new Map<string, RoomTemplate>(), items);
+    expect(budget.selected).toBeUndefined();
+    expect(budget.roomBreakdown[0].selectedAmount).toBeUndefined();
+    expect(budget.roomBreakdown[0].items[0]).not.toHaveProperty('selectedTier');
+    expect(getSelectedTotal(budget)).toBeUndefined();
+  });
+});
+
+describe('setRoomTier', () => {
+  it('removes the key when a tier is cleared', () => {
+    expect(setRoomTier(rooms[0])).not.toHaveProperty('tier');
+    expect(setRoomTier(rooms[2], 'low').tier).toBe('low');
+  });
+});
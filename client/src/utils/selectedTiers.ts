@@ -0,0 +1,68 @@
+// Mixed-tier estimates: rooms and items priced at a chosen quality tier, giving one selected total beside the range
+import type { Budget, ProjectBudget, QualityTier, RoomBreakdown, RoomItem, RoomWithItems } from '../types';
+
+// Rooms and items without a chosen tier count at the top of the quoted range
+export const DEFAULT_SELECTED_TIER: QualityTier = 'mid';
+
+/**
+ * Check whether any room or item has a chosen tier
+ */
+export function hasSelectedTiers(rooms: RoomWithItems[]): boolean {
+  return rooms.some(room => room.tier !== undefined || room.items.some(roomItem => roomItem.tier !== undefined));
+}
+
+/**
+ * The tier a room item is selected at: its own, else its room's, else the default
+ */
+export function getSelectedTier(room: RoomWithItems, roomItem?: RoomItem): QualityTier {
+  return roomItem?.tier ?? room.tier ?? DEFAULT_SELECTED_TIER;
+}
+
+/**
+ * The headline selected total: the project total when add-ons apply, otherwise furnishings and contingency.
+ * Undefined when nothing has a chosen tier.
+ */
+export function getSelectedTotal(budget: Budget | ProjectBudget): number | undefined {
+  return 'projectRange' in budget ? budget.projectRange.selected : budget.selected?.total;
+}
+
+/**
+ * A breakdown with every tier set to the selected amounts, so per-tier helpers (like the taxable
+ * goods split) can price the selection
+ */
+export function collapseToSelectedTiers(roomBreakdown: RoomBreakdown[]): RoomBreakdown[] {
+  return roomBreakdown.map((room) => {
+    const selectedAmount = room.selectedAmount ?? room[`${DEFAULT_SELECTED_TIER}Amount`];
+    return {
+      ...room,
+      lowAmount: selectedAmount,
+      midAmount: selectedAmount,
+      midHighAmount: selectedAmount,
+      highAmount: selectedAmount,
+      items: room.items.map((lineItem) => {
+        const total = lineItem.totals[lineItem.selectedTier ?? DEFAULT_SELECTED_TIER];
+        return { ...lineItem, totals: { low: total, mid: total, midHigh: total, high: total } };
+      }),
+    };
+  });
+}
+
+/**
+ * Choose a room's tier, or clear it. Firestore rejects undefined, so a cleared tier removes the key.
+ */
+export function setRoomTier(room: RoomWithItems, tier?: QualityTier): RoomWithItems {
+  if (tier) return { ...room, tier };
+  const cleared = { ...room };
+  delete cleared.tier;
+  return cleared;
+}
+
+/**
+ * Choose an item's tier, or clear it to follow the room
+ */
+export function setRoomItemTier(roomItem: RoomItem, tier?: QualityTier): RoomItem {
+  if (tier) return { ...roomItem, tier };
+  const cleared = { ...roomItem };
+  delete cleared.tier;
+  return cleared;
+}
@@ -0,0 +1,98 @@
+#!/usr/bin/env node
+
+/**
+ * Migration Script: Moves the legacy "adminNotes" string on estimates into the notes subcollection.
+ *
+ * Estimate documents are readable by their owner, so internal notes can't stay on them. For every
+ * estimate with a non-empty 'adminNotes' field this script adds the text as a note in
+ * 'estimates/{id}/notes' (admin-only) and deletes the field, in the same batch.
+ *
+ * Instructions:
+ * 1. Make sure you are authenticated with Google Cloud CLI:
+ *    `gcloud auth application-default login`
+ * 2. Set your Firebase Project ID in the environment variable:
+ *    `export GCLOUD_PROJECT="project-estimator-1584"`
+ * 3. Run this script: `node scripts/migrate-admin-notes.js`
+ */
+
+const admin = require('firebase-admin');
+
+// Initialize Firebase Admin SDK
+try {
+  admin.initializeApp({
+    credential: admin.credential.applicationDefault(),
+  });
+  console.log('✅ Initialized Firebase Admin SDK');
+} catch (error) {
+  console.error('❌ Firebase Admin SDK initialization failed.', error.message);
+  console.error('Please ensure you have authenticated via `gcloud auth application-default login` and set the GCLOUD_PROJECT environment variable.');
+  process.exit(1);
+}
+
+const db = admin.firestore();
+const { FieldValue, Timestamp } = admin.firestore;
+
+// Each estimate takes two writes; Firestore batches allow 500
+const ESTIMATES_PER_BATCH = 200;
+
+/**
+ * Moves 'adminNotes' into the notes subcollection and removes the field from each estimate.
+ */
+async function migrateAdminNotes() {
+  console.log('🔄 Starting migration of "adminNotes" on estimates...');
+  const snapshot = await db.collection('estimates').get();
+
+  if (snapshot.empty) {
+    console.log('✅ No estimates found.');
+    return;
+  }
+
+  const withNotes = snapshot.docs.filter(doc => doc.data().adminNotes !== undefined);
+  if (withNotes.length === 0) {
+    console.log('✅ No estimates required migration.');
+    return;
+  }
+
+  let movedCount = 0;
+  for (let start = 0; start < withNotes.length; start += ESTIMATES_PER_BATCH) {
+    const batch = db.batch();
+
+    withNotes.slice(start, start + ESTIMATES_PER_BATCH).forEach(doc => {
+      const data = doc.data();
+      const body = typeof data.adminNotes === 'string' ? data.adminNotes.trim() : '';
+
+      // Empty notes are only stripped
+      if (body) {
+        batch.set(doc.ref.collection('notes').doc(), {
+          authorUid: '',
+          authorName: 'Earlier admin note',
+          body,
+          mentions: [],
+          createdAt: data.updatedAt ?? data.createdAt ?? Timestamp.now(),
+        });
+        movedCount++;
+      }
+      batch.update(doc.ref, { adminNotes: FieldValue.delete() });
+    });
+
+    await batch.commit();
+  }
+
+  console.log(`✅ Moved ${movedCount} notes and stripped "adminNotes" from ${withNotes.length} estimates.`);
+}
+
+/**
+ * Main function to run the migration.
+ */
+async function runMigration() {
+  try {
+    await migrateAdminNotes();
+    console.log('\n🎉 Migration completed successfully!');
+  } catch (error) {
+    console.error('\n💥 Migration failed:', error.message);
+    process.exit(1);
+  }
+}
+
+// Run the migration script
+runMigration();